@@ -5,21 +5,37 @@ import { SignUpForm } from './components/auth/SignUpForm';
 import { PasswordResetForm } from './components/auth/PasswordResetForm';
 import ShiftList from './components/shifts/ShiftList';
 import { MatrixUploader } from './components/shifts/MatrixUploader';
+import { ShiftCodeCatalogue } from './components/shifts/ShiftCodeCatalogue';
+import { SwapRulesEditor } from './components/shifts/SwapRulesEditor';
+import { ComplianceSettingsForm } from './components/shifts/ComplianceSettingsForm';
+import { SwapExpirySettingsForm } from './components/shifts/SwapExpirySettingsForm';
+import { EmployeeDirectory } from './components/employees/EmployeeDirectory';
+import { WorkloadAnalytics } from './components/analytics/WorkloadAnalytics';
+import { ApprovalQueue } from './components/shifts/ApprovalQueue';
+import { OfferBoard } from './components/shifts/OfferBoard';
 import { LogOut, User, RefreshCw } from 'lucide-react';
 import { supabase } from './lib/supabase';
-import Notifications from './components/Notifications';
+import { AppView, getViewFromUrl, setViewInUrl } from './lib/views';
+import { Capability, resetScheduleData } from './lib/permissions';
+import { NotificationBell } from './components/notifications/NotificationBell';
+import { NotificationCenter } from './components/notifications/NotificationCenter';
+import { NotificationPreferencesForm } from './components/notifications/NotificationPreferencesForm';
+import { CalendarFeedPanel } from './components/shifts/CalendarFeedPanel';
+import { MyShiftsDashboard } from './components/shifts/MyShiftsDashboard';
 
 export default function App() {
-  const { user, loading, signOut } = useAuth();
+  const { user, employee, can, loading, signOut } = useAuth();
   const [showPasswordReset, setShowPasswordReset] = useState(false);
   const [showMatrix, setShowMatrix] = useState(false);
   const [currentWeekStart, setCurrentWeekStart] = useState<string | null>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<AppView>(getViewFromUrl);
 
   useEffect(() => {
-    checkAdminStatus();
-  }, [user]);
+    const handlePopState = () => setView(getViewFromUrl());
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
 
   useEffect(() => {
     if (user) {
@@ -27,29 +43,6 @@ export default function App() {
     }
   }, [user]);
 
-  const checkAdminStatus = async () => {
-    if (!user) return;
-
-    try {
-      setError(null);
-      const { data, error: supabaseError } = await supabase
-        .from('users')
-        .select('role')
-        .eq('id', user.id)
-        .maybeSingle();
-
-      if (supabaseError) {
-        throw supabaseError;
-      }
-
-      setIsAdmin(data?.role === 'admin' || false);
-    } catch (err: any) {
-      console.error('Error checking admin status:', err);
-      setError(err.message);
-      setIsAdmin(false);
-    }
-  };
-
   const loadLatestSchedule = async () => {
     try {
       const { data, error } = await supabase
@@ -109,6 +102,43 @@ export default function App() {
   const handleUploadSuccess = (date: string) => {
     setCurrentWeekStart(date);
     setShowMatrix(true);
+    navigate('schedule');
+  };
+
+  const navigate = (nextView: AppView) => {
+    setViewInUrl(nextView);
+    setView(nextView);
+  };
+
+  // Ogni vista richiede la capacità che il database verifica per le stesse operazioni
+  const views: { view: AppView; label: string; capability?: Capability }[] = [
+    { view: 'schedule', label: 'Turni' },
+    { view: 'my', label: 'I miei turni' },
+    { view: 'offers', label: 'Bacheca' },
+    { view: 'notifications', label: 'Notifiche' },
+    { view: 'approvals', label: 'Approvazioni', capability: 'approve_swaps' },
+    { view: 'upload', label: 'Carica matrice', capability: 'upload_matrix' },
+    { view: 'codes', label: 'Codici turno', capability: 'manage_settings' },
+    { view: 'rules', label: 'Regole e riposi', capability: 'manage_settings' },
+    { view: 'employees', label: 'Dipendenti', capability: 'manage_employees' },
+    { view: 'analytics', label: 'Statistiche', capability: 'view_analytics' }
+  ];
+  const allowedViews = views.filter(item => !item.capability || can(item.capability));
+  const canView = (target: AppView) => allowedViews.some(item => item.view === target);
+
+  const handleReset = async () => {
+    if (!confirm('Sei sicuro di voler resettare il database? Questa azione cancellerà tutti i turni, gli scambi e le notifiche.')) {
+      return;
+    }
+    try {
+      setError(null);
+      await resetScheduleData();
+      alert('Database resettato con successo!');
+      window.location.reload();
+    } catch (err) {
+      console.error('Error resetting database:', err);
+      setError(err instanceof Error ? err.message : 'Errore durante il reset del database');
+    }
   };
 
   return (
@@ -120,7 +150,7 @@ export default function App() {
               {/* Logo o titolo */}
             </div>
             <div className="flex items-center">
-              <Notifications />
+              <NotificationBell onShowAll={() => navigate('notifications')} />
               {/* Altri elementi della navbar */}
             </div>
           </div>
@@ -128,58 +158,46 @@ export default function App() {
       </nav>
       <header className="bg-white shadow">
         <div className="max-w-7xl mx-auto px-4 py-4 sm:px-6 lg:px-8">
-          <div className="flex justify-between items-center">
-            <h1 className="text-xl font-semibold text-gray-900">Shift Management</h1>
-            <div className="flex items-center space-x-4">
+          <div className="flex flex-wrap justify-between items-center gap-4">
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+              <h1 className="text-xl font-semibold text-gray-900">Shift Management</h1>
+              {/* Su schermi piccoli le viste stanno in un menu a tendina */}
+              {allowedViews.length > 1 && (
+                <select
+                  value={view}
+                  onChange={e => navigate(e.target.value as AppView)}
+                  className="lg:hidden rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+                  aria-label="Vista"
+                >
+                  {allowedViews.map(item => (
+                    <option key={item.view} value={item.view}>{item.label}</option>
+                  ))}
+                </select>
+              )}
+              {allowedViews.length > 1 && (
+                <div className="hidden lg:flex flex-wrap gap-1">
+                  {allowedViews.map(item => (
+                    <button
+                      key={item.view}
+                      onClick={() => navigate(item.view)}
+                      className={`px-3 py-2 text-sm rounded-md ${
+                        view === item.view ? 'bg-indigo-100 text-indigo-700 font-medium' : 'text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      {item.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-4">
               <div className="flex items-center space-x-2 px-3 py-2 bg-indigo-50 rounded-md">
                 <User className="h-4 w-4 text-indigo-500" />
-                <span className="text-sm font-medium text-indigo-700">{user.user_metadata.full_name}</span>
+                <span className="text-sm font-medium text-indigo-700">{employee?.display_name || employee?.code || user.email}</span>
               </div>
-              {isAdmin && (
+              {can('reset_data') && (
                 <button
-                  onClick={async () => {
-                    if (!confirm('Sei sicuro di voler resettare il database? Questa azione cancellerà tutti i turni, gli scambi e le notifiche.')) {
-                      return;
-                    }
-                    try {
-                      console.log('Iniziando il reset del database...');
-                      console.log('User ID:', user?.id);
-                      console.log('Is Admin:', isAdmin);
-
-                      // Cancella tutti i dati dalla tabella shifts_schedule
-                      const { error: shiftsError } = await supabase
-                        .from('shifts_schedule')
-                        .delete()
-                        .neq('id', '00000000-0000-0000-0000-000000000000');
-
-                      console.log('Risultato delete shifts:', { error: shiftsError });
-                      if (shiftsError) throw shiftsError;
-
-                      // Cancella tutti i dati dalla tabella shift_swaps_v2
-                      const { error: swapsError } = await supabase
-                        .from('shift_swaps_v2')
-                        .delete()
-                        .neq('id', '00000000-0000-0000-0000-000000000000');
-
-                      console.log('Risultato delete swaps:', { error: swapsError });
-                      if (swapsError) throw swapsError;
-
-                      // Cancella tutti i dati dalla tabella notifications
-                      const { error: notificationsError } = await supabase
-                        .from('notifications')
-                        .delete()
-                        .neq('id', '00000000-0000-0000-0000-000000000000');
-
-                      console.log('Risultato delete notifications:', { error: notificationsError });
-                      if (notificationsError) throw notificationsError;
-
-                      alert('Database resettato con successo!');
-                      window.location.reload();
-                    } catch (err) {
-                      console.error('Error resetting database:', err);
-                      alert('Errore durante il reset del database: ' + (err as Error).message);
-                    }
-                  }}
+                  onClick={handleReset}
                   className="flex items-center space-x-2 px-3 py-2 bg-red-500 text-white rounded-md hover:bg-red-600"
                 >
                   <RefreshCw className="h-4 w-4" />
@@ -206,7 +224,31 @@ export default function App() {
       )}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="mt-6">
-          {isAdmin && !showMatrix ? (
+          {view === 'my' ? (
+            <MyShiftsDashboard />
+          ) : view === 'offers' ? (
+            <OfferBoard />
+          ) : view === 'notifications' ? (
+            <div className="space-y-6">
+              <NotificationCenter />
+              <NotificationPreferencesForm />
+              <CalendarFeedPanel />
+            </div>
+          ) : canView('approvals') && view === 'approvals' ? (
+            <ApprovalQueue />
+          ) : canView('codes') && view === 'codes' ? (
+            <ShiftCodeCatalogue />
+          ) : canView('rules') && view === 'rules' ? (
+            <div className="space-y-6">
+              <ComplianceSettingsForm />
+              <SwapExpirySettingsForm />
+              <SwapRulesEditor />
+            </div>
+          ) : canView('employees') && view === 'employees' ? (
+            <EmployeeDirectory />
+          ) : canView('analytics') && view === 'analytics' ? (
+            <WorkloadAnalytics />
+          ) : canView('upload') && (view === 'upload' || !showMatrix) ? (
             <MatrixUploader onUploadComplete={handleUploadSuccess} />
           ) : (
             <ShiftList initialDate={currentWeekStart} />
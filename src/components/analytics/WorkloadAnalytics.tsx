@@ -0,0 +1,263 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BarChart3, Scale, TrendingUp } from 'lucide-react';
+import { useShiftCodes } from '../../contexts/ShiftCodesContext';
+import {
+  AnalyticsPreset,
+  fairnessSummary,
+  loadWorkloadAnalytics,
+  metricValue,
+  presetRange,
+  WORKLOAD_METRIC_LABELS,
+  WorkloadAnalytics as WorkloadData,
+  WorkloadMetric
+} from '../../lib/analytics';
+import { MAX_REPORT_DAYS } from '../../lib/reports';
+import { formatDuration } from '../../lib/shiftCodes';
+import { formatDate, isISODate, parseISODate, todayISO } from '../../lib/weeks';
+
+const PRESET_LABELS: Record<AnalyticsPreset, string> = {
+  month: 'Mese corrente',
+  quarter: 'Trimestre corrente',
+  year: 'Anno corrente',
+  custom: 'Periodo personalizzato'
+};
+
+// Scostamento dalla media oltre il quale un dipendente è evidenziato
+const FAIRNESS_THRESHOLD = 0.2;
+
+const formatMetric = (value: number, metric: WorkloadMetric) =>
+  metric === 'hours' ? formatDuration(Math.round(value * 60)) || '0h' : String(Math.round(value * 10) / 10);
+
+export function WorkloadAnalytics() {
+  const [preset, setPreset] = useState<AnalyticsPreset>('quarter');
+  const [customFrom, setCustomFrom] = useState(() => presetRange('month', todayISO()).from);
+  const [customTo, setCustomTo] = useState(() => presetRange('month', todayISO()).to);
+  const [metric, setMetric] = useState<WorkloadMetric>('hours');
+  const [data, setData] = useState<WorkloadData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { index: shiftCodes, loading: codesLoading } = useShiftCodes();
+  // Solo l'ultima richiesta aggiorna la vista: un periodo lungo può rispondere dopo uno scelto più tardi
+  const requestId = useRef(0);
+
+  const range = preset === 'custom' ? { from: customFrom, to: customTo } : presetRange(preset, todayISO());
+
+  const load = useCallback(async (from: string, to: string) => {
+    const current = ++requestId.current;
+
+    if (!isISODate(from) || !isISODate(to) || from > to) {
+      setError('Indica un periodo valido');
+      setIsLoading(false);
+      return;
+    }
+    if ((parseISODate(to).getTime() - parseISODate(from).getTime()) / 86400000 + 1 > MAX_REPORT_DAYS) {
+      setError(`Il periodo può coprire al massimo ${MAX_REPORT_DAYS} giorni`);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const result = await loadWorkloadAnalytics(from, to, shiftCodes);
+      if (current === requestId.current) setData(result);
+    } catch (err) {
+      if (current !== requestId.current) return;
+      console.error('Error loading workload analytics:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento delle statistiche');
+    } finally {
+      if (current === requestId.current) setIsLoading(false);
+    }
+  }, [shiftCodes]);
+
+  // I periodi predefiniti si aggiornano subito, quello personalizzato con il pulsante
+  useEffect(() => {
+    if (preset !== 'custom' && !codesLoading) {
+      const { from, to } = presetRange(preset, todayISO());
+      load(from, to);
+    }
+  }, [preset, codesLoading, load]);
+
+  const summary = data ? fairnessSummary(data.employees, metric) : null;
+  const ranked = data
+    ? [...data.employees].sort((a, b) => metricValue(b, metric) - metricValue(a, metric) || a.code.localeCompare(b.code))
+    : [];
+  const maxValue = Math.max(1, ...ranked.map(e => metricValue(e, metric)));
+  const maxTrendMinutes = Math.max(1, ...(data?.trend ?? []).map(bucket => bucket.minutes));
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-white shadow sm:rounded-lg p-4 space-y-3">
+        <h2 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+          <BarChart3 className="h-5 w-5" />
+          Statistiche dei turni
+        </h2>
+
+        <div className="flex flex-wrap items-end gap-4 text-sm">
+          <label className="block text-gray-700">
+            Periodo
+            <select
+              value={preset}
+              onChange={(e) => setPreset(e.target.value as AnalyticsPreset)}
+              className="mt-1 block rounded-md border-gray-300 text-sm"
+            >
+              {Object.entries(PRESET_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+
+          {preset === 'custom' ? (
+            <>
+              <label className="block text-gray-700">
+                Dal
+                <input
+                  type="date"
+                  value={customFrom}
+                  onChange={(e) => setCustomFrom(e.target.value)}
+                  className="mt-1 block rounded-md border-gray-300 text-sm"
+                />
+              </label>
+              <label className="block text-gray-700">
+                Al
+                <input
+                  type="date"
+                  value={customTo}
+                  onChange={(e) => setCustomTo(e.target.value)}
+                  className="mt-1 block rounded-md border-gray-300 text-sm"
+                />
+              </label>
+              <button
+                onClick={() => load(customFrom, customTo)}
+                disabled={isLoading}
+                className="px-4 py-2 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Calcola
+              </button>
+            </>
+          ) : (
+            <p className="text-gray-600 pb-2">{formatDate(range.from)} – {formatDate(range.to)}</p>
+          )}
+
+          {isLoading && <span className="text-gray-500 pb-2">Caricamento...</span>}
+        </div>
+
+        {error && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-md">
+            {error}
+          </div>
+        )}
+      </div>
+
+      {data && (
+        <>
+          <div className="bg-white shadow sm:rounded-lg p-4 space-y-3">
+            <h2 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+              <Scale className="h-5 w-5" />
+              Equità del carico
+            </h2>
+
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(WORKLOAD_METRIC_LABELS).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setMetric(value as WorkloadMetric)}
+                  className={`px-3 py-1 text-sm rounded-full border ${metric === value ? 'bg-indigo-600 text-white border-indigo-600' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {summary && (
+              <p className="text-sm text-gray-600">
+                Media {formatMetric(summary.mean, metric)} · minimo {formatMetric(summary.min, metric)} · massimo{' '}
+                {formatMetric(summary.max, metric)} · variabilità {Math.round(summary.variation * 100)}%
+                {' '}(in evidenza chi si scosta dalla media di oltre il {FAIRNESS_THRESHOLD * 100}%)
+              </p>
+            )}
+
+            <div className="space-y-1">
+              {ranked.map(employee => {
+                const value = metricValue(employee, metric);
+                const deviation = summary && summary.mean > 0 ? (value - summary.mean) / summary.mean : 0;
+                const highlighted = employee.workedDays > 0 && Math.abs(deviation) > FAIRNESS_THRESHOLD;
+
+                return (
+                  <div key={employee.code} className="flex items-center gap-2 text-sm">
+                    <span className="w-16 font-medium text-gray-900">{employee.code}</span>
+                    <div className="flex-1 h-4 bg-gray-100 rounded relative">
+                      <div
+                        className={`h-4 rounded ${highlighted ? (deviation > 0 ? 'bg-amber-500' : 'bg-sky-400') : 'bg-indigo-500'}`}
+                        style={{ width: `${(value / maxValue) * 100}%` }}
+                      />
+                      {summary && (
+                        <div
+                          className="absolute top-0 h-4 border-l-2 border-gray-700"
+                          style={{ left: `${(summary.mean / maxValue) * 100}%` }}
+                          title="Media del team"
+                        />
+                      )}
+                    </div>
+                    <span className="w-16 text-right text-gray-700">{formatMetric(value, metric)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="bg-white shadow sm:rounded-lg overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  {['Sigla', 'Ore', 'Giorni lavorati', 'Notti', 'Weekend', 'Festivi', 'Riposi', 'Scambi richiesti', 'Ricevuti', 'Accettati', 'Rifiutati', 'Annullati / scaduti'].map(header => (
+                    <th key={header} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase whitespace-nowrap">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {ranked.map(employee => (
+                  <tr key={employee.code}>
+                    <td className="px-4 py-2 font-medium">{employee.code}</td>
+                    <td className="px-4 py-2">{formatMetric(employee.minutes / 60, 'hours')}</td>
+                    <td className="px-4 py-2">{employee.workedDays}</td>
+                    <td className="px-4 py-2">{employee.nights}</td>
+                    <td className="px-4 py-2">{employee.weekends}</td>
+                    <td className="px-4 py-2">{employee.holidays}</td>
+                    <td className="px-4 py-2">{employee.restDays}</td>
+                    <td className="px-4 py-2">{employee.swaps.requested}</td>
+                    <td className="px-4 py-2">{employee.swaps.received}</td>
+                    <td className="px-4 py-2">{employee.swaps.accepted}</td>
+                    <td className="px-4 py-2">{employee.swaps.rejected}</td>
+                    <td className="px-4 py-2">{employee.swaps.closed}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white shadow sm:rounded-lg p-4 space-y-3">
+            <h2 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+              <TrendingUp className="h-5 w-5" />
+              Andamento del team per {data.trendUnit === 'week' ? 'settimana' : 'mese'}
+            </h2>
+            <div className="flex items-end gap-1 h-40 overflow-x-auto">
+              {data.trend.map(bucket => (
+                <div key={bucket.start} className="flex-1 min-w-8 flex flex-col items-center justify-end h-full">
+                  <span className="text-xs text-gray-600">{formatMetric(bucket.minutes / 60, 'hours')}</span>
+                  <div
+                    className="w-full bg-indigo-500 rounded-t"
+                    style={{ height: `${(bucket.minutes / maxTrendMinutes) * 100}%` }}
+                    title={`${bucket.nights} notti · ${bucket.weekends} turni nel weekend`}
+                  />
+                  <span className="text-xs text-gray-500 mt-1 whitespace-nowrap">{bucket.label}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">Ore totali del team; passa sopra una barra per notti e turni nel weekend.</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
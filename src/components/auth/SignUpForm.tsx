@@ -1,12 +1,6 @@
 import { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
-import { supabase } from '../../lib/supabase';
-
-const EMPLOYEE_CODES = [
-  'ADMIN', 'BO', 'AA', 'CP', 'CT', 'CH', 'CF', 'DV', 'AD', 'DM', 'FO',
-  'GM', 'IT', 'CA', 'LP', 'LG', 'MA', 'MO', 'MI', 'NF', 'PN',
-  'PC', 'CB', 'RS', 'SC', 'SI', 'DG', 'SG', 'TJ', 'VE'
-];
+import { normalizeEmployeeCode } from '../../lib/employees';
 
 export function SignUpForm() {
   const [email, setEmail] = useState('');
@@ -19,31 +13,14 @@ export function SignUpForm() {
     e.preventDefault();
     setError('');
     
-    if (!employeeCode) {
-      setError('Seleziona il tuo codice dipendente');
+    const code = normalizeEmployeeCode(employeeCode);
+    if (!code) {
+      setError('Inserisci il tuo codice dipendente');
       return;
     }
 
     try {
-      // Check if employee code exists in users table
-      const { data: existingUsers, error: usersError } = await supabase
-        .from('users')
-        .select('id')
-        .eq('full_name', employeeCode)
-        .maybeSingle();
-
-      if (usersError) {
-        console.error('Error checking existing users:', usersError);
-        throw new Error('Errore durante la verifica del codice dipendente');
-      }
-
-      if (existingUsers) {
-        setError('Questo codice dipendente è già registrato');
-        return;
-      }
-
-      // If code is not in use, proceed with signup
-      await signUp(email, password, employeeCode);
+      await signUp(email, password, code);
     } catch (err: any) {
       if (err.message === 'User already registered') {
         setError('Questa email è già registrata');
@@ -60,18 +37,18 @@ export function SignUpForm() {
         <label htmlFor="employeeCode" className="block text-sm font-medium text-gray-700">
           Codice Dipendente
         </label>
-        <select
+        <input
           id="employeeCode"
+          type="text"
           value={employeeCode}
           onChange={(e) => setEmployeeCode(e.target.value)}
           className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
           required
-        >
-          <option value="">Seleziona il tuo codice</option>
-          {EMPLOYEE_CODES.map(code => (
-            <option key={code} value={code}>{code}</option>
-          ))}
-        </select>
+        />
+        {/* Il collegamento automatico avviene solo se l'email coincide con quella in anagrafica */}
+        <p className="mt-1 text-xs text-gray-500">
+          Usa l'email registrata in anagrafica: altrimenti l'account sarà collegato al tuo codice da un amministratore.
+        </p>
       </div>
       <div>
         <label htmlFor="email" className="block text-sm font-medium text-gray-700">
@@ -0,0 +1,414 @@
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Link2, Pencil, Plus, Trash2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { ContractType, Employee } from '../../types/schedule';
+import {
+  CONTRACT_TYPE_LABELS,
+  deleteEmployee,
+  DirectoryMismatches,
+  findDirectoryMismatches,
+  isActiveOn,
+  linkEmployeeAccount,
+  loadEmployees,
+  loadMatrixEmployeeCodes,
+  loadUserAccounts,
+  normalizeEmployeeCode,
+  saveEmployee,
+  UserAccount
+} from '../../lib/employees';
+import { formatDate, todayISO } from '../../lib/weeks';
+import { Role, ROLE_LABELS, setUserRole } from '../../lib/permissions';
+
+const emptyEmployee = (code = ''): Employee => ({
+  code,
+  display_name: null,
+  email: null,
+  team: null,
+  contract_type: null,
+  weekly_hours: null,
+  active_from: null,
+  active_to: null,
+  user_id: null
+});
+
+export function EmployeeDirectory() {
+  const [employees, setEmployees] = useState<Employee[]>([]);
+  const [accounts, setAccounts] = useState<UserAccount[]>([]);
+  const [mismatches, setMismatches] = useState<DirectoryMismatches | null>(null);
+  const [draft, setDraft] = useState<Employee | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user, can, reloadProfile } = useAuth();
+
+  useEffect(() => {
+    loadDirectory();
+  }, []);
+
+  const loadDirectory = async () => {
+    try {
+      const [loadedEmployees, matrixCodes, loadedAccounts] = await Promise.all([
+        loadEmployees(),
+        loadMatrixEmployeeCodes(),
+        loadUserAccounts()
+      ]);
+      setEmployees(loadedEmployees);
+      setAccounts(loadedAccounts);
+      setMismatches(findDirectoryMismatches(loadedEmployees, matrixCodes, loadedAccounts, todayISO()));
+    } catch (err) {
+      console.error('Error loading employee directory:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento dell\'anagrafica');
+    }
+  };
+
+  // Esegue un'operazione sull'anagrafica e ricarica i dati
+  const run = async (action: () => Promise<void>, fallbackMessage: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      await action();
+      await loadDirectory();
+      await reloadProfile();
+    } catch (err) {
+      console.error('Error updating employee directory:', err);
+      setError(err instanceof Error ? err.message : fallbackMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startEdit = (employee: Employee | null, code?: string) => {
+    setError(null);
+    setIsNew(!employee);
+    setDraft(employee ? { ...employee } : emptyEmployee(code));
+  };
+
+  const handleSave = () => run(async () => {
+    if (!draft) return;
+    if (!normalizeEmployeeCode(draft.code)) {
+      throw new Error('Indica la sigla del dipendente');
+    }
+    if (isNew && employees.some(e => e.code === normalizeEmployeeCode(draft.code))) {
+      throw new Error(`La sigla ${normalizeEmployeeCode(draft.code)} è già in anagrafica`);
+    }
+    await saveEmployee(draft);
+    setDraft(null);
+  }, 'Errore nel salvataggio del dipendente');
+
+  const accountLabel = (userId: string | null) => {
+    const account = accounts.find(a => a.id === userId);
+    return account ? account.email ?? account.full_name ?? account.id : null;
+  };
+
+  // Account selezionabili per un dipendente: quelli liberi più quello già collegato
+  const linkableAccounts = (employee: Employee) => accounts.filter(a =>
+    a.id === employee.user_id || mismatches?.unlinkedAccounts.some(u => u.id === a.id)
+  );
+
+  const inputClass = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+  const today = todayISO();
+  const hasMismatches = !!mismatches && (
+    mismatches.unknownCodes.length > 0 ||
+    mismatches.withoutAccount.length > 0 ||
+    mismatches.unlinkedAccounts.length > 0
+  );
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {hasMismatches && mismatches && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 space-y-3 text-sm">
+          <h3 className="flex items-center gap-2 font-medium text-amber-800">
+            <AlertTriangle className="h-4 w-4" />
+            Da sistemare
+          </h3>
+
+          {mismatches.unknownCodes.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-amber-800">Sigle nella matrice senza anagrafica:</span>
+              {mismatches.unknownCodes.map(code => (
+                <button
+                  key={code}
+                  onClick={() => startEdit(null, code)}
+                  className="inline-flex items-center gap-1 px-2 py-1 bg-white border border-amber-300 rounded-md hover:bg-amber-100"
+                  title="Aggiungi all'anagrafica"
+                >
+                  <Plus className="h-3 w-3" />
+                  {code}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {mismatches.unlinkedAccounts.length > 0 && (
+            <div className="space-y-1">
+              <span className="text-amber-800">Account non collegati a un dipendente:</span>
+              {mismatches.unlinkedAccounts.map(account => {
+                const suggested = mismatches.withoutAccount.find(
+                  e => e.code === normalizeEmployeeCode(account.full_name ?? '')
+                );
+                return (
+                  <div key={account.id} className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{account.email}</span>
+                    {account.full_name && <span className="text-gray-600">(registrato come {account.full_name})</span>}
+                    <select
+                      defaultValue={suggested?.code ?? ''}
+                      onChange={(e) => e.target.value && run(
+                        () => linkEmployeeAccount(e.target.value, account.id),
+                        'Errore nel collegamento dell\'account'
+                      )}
+                      disabled={isLoading}
+                      className="rounded-md border-gray-300 text-sm"
+                    >
+                      <option value="">Collega a…</option>
+                      {mismatches.withoutAccount.map(e => (
+                        <option key={e.code} value={e.code}>{e.code} {e.display_name ?? ''}</option>
+                      ))}
+                    </select>
+                    {suggested && (
+                      <button
+                        onClick={() => run(
+                          () => linkEmployeeAccount(suggested.code, account.id),
+                          'Errore nel collegamento dell\'account'
+                        )}
+                        disabled={isLoading}
+                        className="inline-flex items-center gap-1 text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                      >
+                        <Link2 className="h-3 w-3" />
+                        Collega a {suggested.code}
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {mismatches.withoutAccount.length > 0 && (
+            <p className="text-amber-800">
+              Dipendenti attivi senza account: {mismatches.withoutAccount.map(e => e.code).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-medium text-gray-900">Anagrafica dipendenti</h2>
+          <button
+            onClick={() => startEdit(null)}
+            className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+          >
+            <Plus className="h-4 w-4" />
+            Nuovo dipendente
+          </button>
+        </div>
+
+        {draft && (
+          <div className="border border-gray-200 rounded-md p-4 space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <label className="block text-sm font-medium text-gray-700">
+                Sigla
+                <input
+                  value={draft.code}
+                  onChange={(e) => setDraft({ ...draft, code: e.target.value })}
+                  disabled={!isNew}
+                  className={`${inputClass} disabled:bg-gray-100`}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Nome
+                <input
+                  value={draft.display_name ?? ''}
+                  onChange={(e) => setDraft({ ...draft, display_name: e.target.value || null })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Email
+                <input
+                  type="email"
+                  value={draft.email ?? ''}
+                  onChange={(e) => setDraft({ ...draft, email: e.target.value || null })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Team
+                <input
+                  value={draft.team ?? ''}
+                  onChange={(e) => setDraft({ ...draft, team: e.target.value || null })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Contratto
+                <select
+                  value={draft.contract_type ?? ''}
+                  onChange={(e) => setDraft({ ...draft, contract_type: (e.target.value || null) as ContractType | null })}
+                  className={inputClass}
+                >
+                  <option value="">-</option>
+                  {Object.entries(CONTRACT_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Ore settimanali
+                <input
+                  type="number"
+                  min={1}
+                  max={60}
+                  step={0.5}
+                  value={draft.weekly_hours ?? ''}
+                  onChange={(e) => setDraft({ ...draft, weekly_hours: e.target.value ? Number(e.target.value) : null })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Attivo dal
+                <input
+                  type="date"
+                  value={draft.active_from ?? ''}
+                  onChange={(e) => setDraft({ ...draft, active_from: e.target.value || null })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Attivo fino al
+                <input
+                  type="date"
+                  value={draft.active_to ?? ''}
+                  onChange={(e) => setDraft({ ...draft, active_to: e.target.value || null })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm font-medium text-gray-700">
+                Account
+                <select
+                  value={draft.user_id ?? ''}
+                  onChange={(e) => setDraft({ ...draft, user_id: e.target.value || null })}
+                  className={inputClass}
+                >
+                  <option value="">Nessun account</option>
+                  {linkableAccounts(draft).map(account => (
+                    <option key={account.id} value={account.id}>{account.email ?? account.full_name}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Annulla
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isLoading}
+                className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Salva
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Sigla', 'Nome', 'Email', 'Team', 'Contratto', 'Periodo', 'Account', ''].map((header, i) => (
+                  <th key={i} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {employees.map(employee => (
+                <tr key={employee.code} className={isActiveOn(employee, today) ? '' : 'text-gray-400'}>
+                  <td className="px-4 py-2 font-medium">{employee.code}</td>
+                  <td className="px-4 py-2">{employee.display_name}</td>
+                  <td className="px-4 py-2">{employee.email}</td>
+                  <td className="px-4 py-2">{employee.team}</td>
+                  <td className="px-4 py-2">
+                    {employee.contract_type && CONTRACT_TYPE_LABELS[employee.contract_type]}
+                    {employee.weekly_hours && ` · ${employee.weekly_hours}h`}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {employee.active_from && `dal ${formatDate(employee.active_from)}`}
+                    {employee.active_from && employee.active_to && ' '}
+                    {employee.active_to && `al ${formatDate(employee.active_to)}`}
+                  </td>
+                  <td className="px-4 py-2">
+                    {accountLabel(employee.user_id) ?? <span className="text-amber-700">Nessun account</span>}
+                  </td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => startEdit(employee)}
+                      className="p-1 hover:bg-gray-100 rounded"
+                      title="Modifica"
+                    >
+                      <Pencil className="h-4 w-4 text-gray-600" />
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`Eliminare ${employee.code} dall'anagrafica?`)) {
+                          run(() => deleteEmployee(employee.code), 'Errore nell\'eliminazione del dipendente');
+                        }
+                      }}
+                      disabled={isLoading}
+                      className="p-1 hover:bg-red-100 rounded disabled:opacity-50"
+                      title="Elimina"
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {can('manage_roles') && (
+        <div className="bg-white rounded-lg shadow p-4 space-y-3">
+          <h2 className="text-lg font-semibold">Account e ruoli</h2>
+          <p className="text-sm text-gray-600">
+            Il ruolo determina chi può pubblicare la matrice, approvare gli scambi e modificare le impostazioni.
+          </p>
+          <div className="divide-y divide-gray-100 text-sm">
+            {accounts.map(account => (
+              <div key={account.id} className="flex items-center justify-between py-2">
+                <div>
+                  <span className="font-medium">{account.email ?? account.id}</span>
+                  <span className="ml-2 text-gray-500">{employees.find(e => e.user_id === account.id)?.code}</span>
+                </div>
+                <select
+                  value={account.role}
+                  onChange={(e) => run(
+                    () => setUserRole(account.id, e.target.value as Role),
+                    'Errore nel cambio di ruolo'
+                  )}
+                  disabled={isLoading || account.id === user?.id}
+                  className="rounded-md border-gray-300 text-sm"
+                  title={account.id === user?.id ? 'Non puoi modificare il tuo ruolo' : undefined}
+                >
+                  {(Object.keys(ROLE_LABELS) as Role[]).map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useState } from 'react';
+import { Bell } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/useNotifications';
+import {
+  AppNotification,
+  loadNotifications,
+  NOTIFICATION_FILTERS,
+  NotificationFilter,
+  NOTIFICATIONS_PAGE_SIZE
+} from '../../lib/notifications';
+import { NotificationList } from './NotificationList';
+
+// Cronologia completa delle notifiche, a pagine, con filtri per tipo
+export function NotificationCenter() {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [pages, setPages] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user } = useAuth();
+  const { unreadCount, version, markAllRead } = useNotifications();
+
+  // Ricarica le pagine già visualizzate a ogni modifica, per mantenere la posizione
+  useEffect(() => {
+    if (!user) return;
+
+    const load = async () => {
+      try {
+        setIsLoading(true);
+        const limit = pages * NOTIFICATIONS_PAGE_SIZE;
+        const data = await loadNotifications(user.id, { filter, unreadOnly, limit });
+        setNotifications(data);
+        setHasMore(data.length === limit);
+      } catch (err) {
+        console.error('Error loading notifications:', err);
+        setError(err instanceof Error ? err.message : 'Errore nel caricamento delle notifiche');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    load();
+  }, [user, filter, unreadOnly, pages, version]);
+
+  const changeFilter = (next: NotificationFilter) => {
+    setFilter(next);
+    setPages(1);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      setError(null);
+      await markAllRead();
+    } catch (err) {
+      console.error('Error marking notifications as read:', err);
+      setError(err instanceof Error ? err.message : 'Errore nell\'aggiornamento delle notifiche');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h2 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+          <Bell className="h-5 w-5" />
+          Notifiche
+          {unreadCount > 0 && <span className="text-sm font-normal text-gray-500">({unreadCount} non lette)</span>}
+        </h2>
+        {unreadCount > 0 && (
+          <button
+            onClick={handleMarkAllRead}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            Segna tutte come lette
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {NOTIFICATION_FILTERS.map(item => (
+          <button
+            key={item.filter}
+            onClick={() => changeFilter(item.filter)}
+            className={`px-3 py-1 text-sm rounded-md ${
+              filter === item.filter ? 'bg-indigo-100 text-indigo-700 font-medium' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {item.label}
+          </button>
+        ))}
+        <label className="ml-auto flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={unreadOnly}
+            onChange={(e) => {
+              setUnreadOnly(e.target.checked);
+              setPages(1);
+            }}
+            className="rounded border-gray-300"
+          />
+          Solo non lette
+        </label>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="border-t border-gray-200">
+        <NotificationList
+          notifications={notifications}
+          emptyText={isLoading ? 'Caricamento...' : 'Nessuna notifica'}
+        />
+      </div>
+
+      {hasMore && (
+        <div className="text-center">
+          <button
+            onClick={() => setPages(pages + 1)}
+            disabled={isLoading}
+            className="px-4 py-2 text-sm rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            Carica altre
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { Check, MessageSquare, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { SwapAction, useNotifications } from '../../contexts/useNotifications';
+import { formatDateTime } from '../../lib/i18n';
+import { renderNotificationMessage } from '../../lib/notificationMessages';
+import { AppNotification, NOTIFICATION_KIND_LABELS } from '../../lib/notifications';
+import { latestMessages, loadSwapMessages, SwapMessage } from '../../lib/swaps';
+
+interface NotificationListProps {
+  notifications: AppNotification[];
+  emptyText?: string;
+}
+
+export function NotificationList({ notifications, emptyText = 'Nessuna notifica' }: NotificationListProps) {
+  // Ultimo messaggio della conversazione di ogni scambio notificato
+  const [lastMessages, setLastMessages] = useState<Map<string, SwapMessage>>(new Map());
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { employee, can } = useAuth();
+  const { markRead, respondToSwap } = useNotifications();
+
+  const swapIdsKey = [...new Set(notifications.map(n => n.swap_id).filter(Boolean))].join(',');
+
+  useEffect(() => {
+    if (!swapIdsKey) {
+      setLastMessages(new Map());
+      return;
+    }
+
+    loadSwapMessages(swapIdsKey.split(','))
+      .then(messages => setLastMessages(latestMessages(messages)))
+      .catch(err => console.error('Error loading swap messages:', err));
+  }, [swapIdsKey]);
+
+  const run = async (notification: AppNotification, action: () => Promise<void>) => {
+    try {
+      setBusyId(notification.id);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error('Error updating notification:', err);
+      setError(err instanceof Error ? err.message : 'Errore nell\'aggiornamento della notifica');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const respond = (notification: AppNotification, action: SwapAction) => {
+    // Il responsabile deve motivare il rifiuto
+    let comment: string | undefined;
+    if (action === 'reject' && notification.kind === 'swap_approval') {
+      comment = window.prompt('Motivo del rifiuto')?.trim();
+      if (!comment) return;
+    }
+    run(notification, () => respondToSwap(notification, action, comment));
+  };
+
+  // Azioni disponibili finché lo scambio collegato è nello stato notificato
+  const actionsFor = (notification: AppNotification): SwapAction[] => {
+    const swap = notification.swap;
+    if (!swap) return [];
+
+    if (notification.kind === 'swap_request' && swap.status === 'pending' && swap.to_employee === employee?.code) {
+      return ['accept', 'reject'];
+    }
+    if (
+      notification.kind === 'swap_approval' &&
+      notification.event !== 'awaiting_manager' &&
+      swap.status === 'pending_manager' &&
+      can('approve_swaps') &&
+      ![swap.from_employee, swap.to_employee].includes(employee?.code ?? '')
+    ) {
+      return ['approve', 'reject'];
+    }
+    return [];
+  };
+
+  if (notifications.length === 0) {
+    return <p className="p-4 text-center text-gray-500">{emptyText}</p>;
+  }
+
+  return (
+    <div>
+      {error && (
+        <div className="bg-red-50 text-red-700 p-2 text-sm whitespace-pre-line">
+          {error}
+        </div>
+      )}
+      {notifications.map(notification => {
+        const actions = actionsFor(notification);
+        const lastMessage = notification.swap_id ? lastMessages.get(notification.swap_id) : undefined;
+        const busy = busyId === notification.id;
+
+        return (
+          <div
+            key={notification.id}
+            className={`p-4 border-b hover:bg-gray-50 ${notification.read ? 'opacity-75' : 'bg-blue-50'}`}
+          >
+            <div className="flex justify-between items-start gap-4">
+              <div className="flex-1">
+                <p className="text-xs font-medium text-gray-500">{NOTIFICATION_KIND_LABELS[notification.kind]}</p>
+                <p className="text-sm text-gray-800">{renderNotificationMessage(notification)}</p>
+                {lastMessage && (
+                  <p className="flex items-start gap-1 mt-1 text-xs text-gray-600">
+                    <MessageSquare className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    <span className="line-clamp-2">
+                      {lastMessage.author_code ?? 'Responsabile'}: {lastMessage.body}
+                    </span>
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  {formatDateTime(notification.created_at)}
+                </p>
+              </div>
+
+              {actions.length > 0 && (
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => respond(notification, actions[0])}
+                    disabled={busy}
+                    className="p-1 text-green-600 hover:bg-green-50 rounded disabled:opacity-50"
+                    title={actions[0] === 'approve' ? 'Approva scambio' : 'Accetta scambio'}
+                  >
+                    <Check className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => respond(notification, 'reject')}
+                    disabled={busy}
+                    className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                    title="Rifiuta scambio"
+                  >
+                    <X className="h-5 w-5" />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {!notification.read && (
+              <button
+                onClick={() => run(notification, () => markRead(notification.id))}
+                disabled={busy}
+                className="text-xs text-indigo-600 hover:text-indigo-800 mt-2 disabled:opacity-50"
+              >
+                Segna come letta
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import { BellRing, Mail } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  EMAIL_NOTIFICATION_KINDS,
+  loadNotificationPreferences,
+  NOTIFICATION_KIND_LABELS,
+  NotificationKind,
+  NotificationPreferences,
+  saveNotificationPreferences
+} from '../../lib/notifications';
+import { disablePush, enablePush, getPushSubscription, isPushSupported } from '../../lib/push';
+
+export function NotificationPreferencesForm() {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Iscrizione push di questo dispositivo, attivata subito senza passare da Salva
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadNotificationPreferences(user.id)
+      .then(setPreferences)
+      .catch(err => {
+        console.error('Error loading notification preferences:', err);
+        setError(err instanceof Error ? err.message : 'Errore nel caricamento delle preferenze');
+      });
+  }, [user]);
+
+  useEffect(() => {
+    getPushSubscription()
+      .then(subscription => setPushEnabled(Boolean(subscription)))
+      .catch(err => console.error('Error reading push subscription:', err));
+  }, []);
+
+  const handleTogglePush = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      if (pushEnabled) {
+        await disablePush();
+        setPushEnabled(false);
+      } else {
+        await enablePush();
+        setPushEnabled(true);
+      }
+    } catch (err) {
+      console.error('Error updating push subscription:', err);
+      setError(err instanceof Error ? err.message : 'Errore nell\'attivazione delle notifiche push');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user || !preferences) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSaved(false);
+      await saveNotificationPreferences(user.id, preferences);
+      setSaved(true);
+    } catch (err) {
+      console.error('Error saving notification preferences:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel salvataggio delle preferenze');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<NotificationPreferences>) => {
+    if (!preferences) return;
+    setSaved(false);
+    setPreferences({ ...preferences, ...changes });
+  };
+
+  const toggleKind = (kind: NotificationKind) => {
+    if (!preferences) return;
+    update({
+      email_kinds: preferences.email_kinds.includes(kind)
+        ? preferences.email_kinds.filter(k => k !== kind)
+        : [...preferences.email_kinds, kind]
+    });
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+      <h2 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+        <Mail className="h-5 w-5" />
+        Preferenze di notifica
+      </h2>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {preferences && (
+        <div className="space-y-4 text-sm">
+          <label className="flex items-center gap-2 font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={preferences.email_enabled}
+              onChange={(e) => update({ email_enabled: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            Ricevi le notifiche anche via email
+          </label>
+
+          <fieldset disabled={!preferences.email_enabled} className="disabled:opacity-50">
+            <legend className="text-gray-600 mb-2">Tipi di notifica da inviare via email</legend>
+            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-2">
+              {EMAIL_NOTIFICATION_KINDS.map(kind => (
+                <label key={kind} className="flex items-center gap-2 text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={preferences.email_kinds.includes(kind)}
+                    onChange={() => toggleKind(kind)}
+                    className="rounded border-gray-300"
+                  />
+                  {NOTIFICATION_KIND_LABELS[kind]}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {isPushSupported() && (
+            <div className="flex flex-wrap items-center gap-3 text-gray-700">
+              <BellRing className="h-4 w-4" />
+              Notifiche push degli scambi su questo dispositivo: {pushEnabled ? 'attive' : 'disattivate'}
+              <button
+                onClick={handleTogglePush}
+                disabled={isLoading}
+                className="px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                {pushEnabled ? 'Disattiva' : 'Attiva'}
+              </button>
+            </div>
+          )}
+
+          <label className="flex flex-wrap items-center gap-2 text-gray-700">
+            Promemoria prima dei miei turni
+            <select
+              value={preferences.reminder_hours ?? ''}
+              onChange={(e) => update({ reminder_hours: e.target.value ? Number(e.target.value) : null })}
+              className="rounded-md border-gray-300 text-sm"
+            >
+              <option value="">Nessun promemoria</option>
+              {[2, 6, 12, 24, 48].map(hours => (
+                <option key={hours} value={hours}>{hours} ore prima</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              disabled={isLoading}
+              className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Salva
+            </button>
+            {saved && <span className="text-sm text-green-700">Salvato</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
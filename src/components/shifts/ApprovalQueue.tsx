@@ -0,0 +1,321 @@
+import { useEffect, useState } from 'react';
+import { Check, ClipboardCheck, Gift, Repeat, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { approveShiftOffer, loadOffersAwaitingApproval, rejectShiftOffer, ShiftOffer } from '../../lib/offers';
+import {
+  approveSwap,
+  approveSwapChain,
+  loadPendingApprovals,
+  loadSwapChains,
+  PendingApproval,
+  rejectSwap,
+  rejectSwapChain,
+  SwapChain
+} from '../../lib/swaps';
+import { formatDate } from '../../lib/weeks';
+
+export function ApprovalQueue() {
+  const [swaps, setSwaps] = useState<PendingApproval[]>([]);
+  const [chains, setChains] = useState<SwapChain[]>([]);
+  const [offers, setOffers] = useState<ShiftOffer[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [comment, setComment] = useState('');
+  // Approvazione in deroga alle regole derogabili: il commento diventa il motivo registrato
+  const [override, setOverride] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { employee } = useAuth();
+
+  useEffect(() => {
+    loadQueue();
+
+    const channel = supabase.channel('approval-queue')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'shift_swaps_v2' }, () => loadQueue())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'swap_chains' }, () => loadQueue())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'shift_offers' }, () => loadQueue())
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, []);
+
+  const loadQueue = async () => {
+    try {
+      const [data, chainData, offerData] = await Promise.all([
+        loadPendingApprovals(),
+        loadSwapChains('pending_manager'),
+        loadOffersAwaitingApproval()
+      ]);
+      setSwaps(data);
+      setChains(chainData);
+      setOffers(offerData);
+      // Mantiene solo le selezioni ancora in coda
+      const queued = new Set([...data.map(s => s.id), ...chainData.map(c => c.id), ...offerData.map(o => o.id)]);
+      setSelected(prev => new Set([...prev].filter(id => queued.has(id))));
+    } catch (err) {
+      console.error('Error loading approval queue:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento degli scambi da approvare');
+    }
+  };
+
+  // Chi è coinvolto nello scambio non può approvarlo
+  const isOwnSwap = (swap: PendingApproval) =>
+    swap.from_employee === employee?.code || swap.to_employee === employee?.code;
+
+  const isOwnChain = (chain: SwapChain) =>
+    chain.participants.some(p => p.employee_code === employee?.code);
+
+  const isOwnOffer = (offer: ShiftOffer) =>
+    offer.employee_code === employee?.code || offer.claimed_by === employee?.code;
+
+  const selectable = [
+    ...swaps.filter(swap => !isOwnSwap(swap)).map(swap => swap.id),
+    ...chains.filter(chain => !isOwnChain(chain)).map(chain => chain.id),
+    ...offers.filter(offer => !isOwnOffer(offer)).map(offer => offer.id)
+  ];
+
+  const toggle = (swapId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(swapId)) {
+        next.delete(swapId);
+      } else {
+        next.add(swapId);
+      }
+      return next;
+    });
+  };
+
+  // Le decisioni sono indipendenti: un errore su uno scambio non blocca gli altri
+  const decide = async (approve: boolean) => {
+    if (selected.size === 0) return;
+    if (!approve && !comment.trim()) {
+      setError('Indica il motivo del rifiuto');
+      return;
+    }
+    if (approve && override && !comment.trim()) {
+      setError('Indica il motivo della deroga');
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+    const failures: string[] = [];
+
+    for (const swap of swaps.filter(s => selected.has(s.id))) {
+      try {
+        if (approve) {
+          await approveSwap(swap.id, comment.trim() || undefined, override ? comment.trim() : undefined);
+        } else {
+          await rejectSwap(swap.id, comment.trim());
+        }
+      } catch (err) {
+        console.error('Error deciding swap:', err);
+        failures.push(`${formatDate(swap.date)} ${swap.from_employee} ↔ ${swap.to_employee}: ${
+          err instanceof Error ? err.message : 'errore sconosciuto'
+        }`);
+      }
+    }
+
+    for (const chain of chains.filter(c => selected.has(c.id))) {
+      try {
+        if (approve) {
+          await approveSwapChain(chain.id, comment.trim() || undefined, override ? comment.trim() : undefined);
+        } else {
+          await rejectSwapChain(chain.id, comment.trim());
+        }
+      } catch (err) {
+        console.error('Error deciding swap chain:', err);
+        failures.push(`${formatDate(chain.date)} rotazione ${chain.participants.map(p => p.employee_code).join(' → ')}: ${
+          err instanceof Error ? err.message : 'errore sconosciuto'
+        }`);
+      }
+    }
+
+    // Le regole sui turni offerti non prevedono deroghe
+    for (const offer of offers.filter(o => selected.has(o.id))) {
+      try {
+        if (approve) {
+          await approveShiftOffer(offer.id, comment.trim() || undefined);
+        } else {
+          await rejectShiftOffer(offer.id, comment.trim());
+        }
+      } catch (err) {
+        console.error('Error deciding shift offer:', err);
+        failures.push(`${formatDate(offer.date)} turno ${offer.shift} di ${offer.employee_code} → ${offer.claimed_by}: ${
+          err instanceof Error ? err.message : 'errore sconosciuto'
+        }`);
+      }
+    }
+
+    if (failures.length > 0) {
+      setError(failures.join('\n'));
+    } else {
+      setComment('');
+      setOverride(false);
+    }
+    await loadQueue();
+    setIsLoading(false);
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+      <h2 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+        <ClipboardCheck className="h-5 w-5" />
+        Scambi da approvare
+      </h2>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md whitespace-pre-line">
+          {error}
+        </div>
+      )}
+
+      {swaps.length === 0 && chains.length === 0 && offers.length === 0 ? (
+        <p className="text-sm text-gray-500">Nessuno scambio in attesa di approvazione.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left">
+                    <input
+                      type="checkbox"
+                      checked={selectable.length > 0 && selectable.every(id => selected.has(id))}
+                      onChange={(e) => setSelected(e.target.checked ? new Set(selectable) : new Set())}
+                      title="Seleziona tutti"
+                    />
+                  </th>
+                  {['Data', 'Da', 'A', 'Richiesto il', 'Accettato il'].map(header => (
+                    <th key={header} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-100">
+                {swaps.map(swap => (
+                  <tr key={swap.id} className={isOwnSwap(swap) ? 'text-gray-400' : ''}>
+                    <td className="px-4 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(swap.id)}
+                        onChange={() => toggle(swap.id)}
+                        disabled={isOwnSwap(swap)}
+                        title={isOwnSwap(swap) ? 'Non puoi approvare uno scambio che ti coinvolge' : undefined}
+                      />
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">{formatDate(swap.date)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <span className="font-medium">{swap.from_employee}</span> {swap.from_shift} → {swap.to_shift}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <span className="font-medium">{swap.to_employee}</span> {swap.to_shift} → {swap.from_shift}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">{new Date(swap.created_at).toLocaleString('it-IT')}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {swap.peer_accepted_at && new Date(swap.peer_accepted_at).toLocaleString('it-IT')}
+                    </td>
+                  </tr>
+                ))}
+                {chains.map(chain => (
+                  <tr key={chain.id} className={isOwnChain(chain) ? 'text-gray-400' : ''}>
+                    <td className="px-4 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(chain.id)}
+                        onChange={() => toggle(chain.id)}
+                        disabled={isOwnChain(chain)}
+                        title={isOwnChain(chain) ? 'Non puoi approvare una rotazione che ti coinvolge' : undefined}
+                      />
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">{formatDate(chain.date)}</td>
+                    <td colSpan={2} className="px-4 py-2">
+                      <span className="inline-flex items-center gap-1 font-medium text-purple-700">
+                        <Repeat className="h-3 w-3" />
+                        Rotazione:
+                      </span>{' '}
+                      {chain.participants.map(p => `${p.employee_code} ${p.shift} → ${p.takes_shift}`).join(', ')}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">{new Date(chain.created_at).toLocaleString('it-IT')}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {chain.peer_accepted_at && new Date(chain.peer_accepted_at).toLocaleString('it-IT')}
+                    </td>
+                  </tr>
+                ))}
+                {offers.map(offer => (
+                  <tr key={offer.id} className={isOwnOffer(offer) ? 'text-gray-400' : ''}>
+                    <td className="px-4 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(offer.id)}
+                        onChange={() => toggle(offer.id)}
+                        disabled={isOwnOffer(offer)}
+                        title={isOwnOffer(offer) ? 'Non puoi approvare un turno offerto che ti coinvolge' : undefined}
+                      />
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">{formatDate(offer.date)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <span className="inline-flex items-center gap-1 font-medium text-green-700">
+                        <Gift className="h-3 w-3" />
+                        {offer.employee_code}
+                      </span>{' '}
+                      {offer.shift} → {offer.claimer_shift || '-'}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      <span className="font-medium">{offer.claimed_by}</span> {offer.claimer_shift || '-'} → {offer.shift}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">{new Date(offer.created_at).toLocaleString('it-IT')}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">
+                      {offer.claimed_at && new Date(offer.claimed_at).toLocaleString('it-IT')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Commento <span className="font-normal text-gray-500">(obbligatorio per il rifiuto)</span>
+              <textarea
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                rows={2}
+                className="mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={override}
+                onChange={(e) => setOverride(e.target.checked)}
+                className="rounded border-gray-300 text-indigo-600"
+              />
+              Approva in deroga alle regole derogabili (il commento è registrato come motivo)
+            </label>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => decide(false)}
+                disabled={isLoading || selected.size === 0 || !comment.trim()}
+                className="inline-flex items-center gap-1 px-4 py-2 text-sm rounded-md border border-red-300 text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+              >
+                <X className="h-4 w-4" />
+                Rifiuta selezionati ({selected.size})
+              </button>
+              <button
+                onClick={() => decide(true)}
+                disabled={isLoading || selected.size === 0 || (override && !comment.trim())}
+                className="inline-flex items-center gap-1 px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                <Check className="h-4 w-4" />
+                Approva selezionati ({selected.size})
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
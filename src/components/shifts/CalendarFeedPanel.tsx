@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { CalendarDays, Copy, Download, RefreshCw } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  calendarFeedUrl,
+  calendarSubscribeUrl,
+  downloadCalendar,
+  loadCalendarFeedToken,
+  rotateCalendarFeedToken
+} from '../../lib/calendarFeed';
+
+export function CalendarFeedPanel() {
+  const [token, setToken] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { user, employee } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    loadCalendarFeedToken(user.id)
+      .then(setToken)
+      .catch(err => {
+        console.error('Error loading calendar feed:', err);
+        setError(err instanceof Error ? err.message : 'Errore nel caricamento del calendario');
+      });
+  }, [user]);
+
+  const run = async (action: () => Promise<void>, fallback: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      await action();
+    } catch (err) {
+      console.error('Error updating calendar feed:', err);
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRotate = () => {
+    if (token && !window.confirm('Il link attuale smetterà di funzionare. Generare un nuovo link?')) return;
+    run(async () => {
+      setToken(await rotateCalendarFeedToken());
+      setCopied(false);
+    }, 'Errore nella creazione del link');
+  };
+
+  const handleCopy = () => {
+    if (!token) return;
+    run(async () => {
+      await navigator.clipboard.writeText(calendarFeedUrl(token));
+      setCopied(true);
+    }, 'Impossibile copiare il link');
+  };
+
+  if (!employee) return null;
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+      <h2 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+        <CalendarDays className="h-5 w-5" />
+        Calendario personale
+      </h2>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600">
+        I tuoi turni effettivi, con gli scambi accettati, da aggiungere al calendario del telefono.
+        Il calendario si aggiorna da solo quando cambia un turno. Il link è personale: non condividerlo.
+      </p>
+
+      {token && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            readOnly
+            value={calendarFeedUrl(token)}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-0 rounded-md border-gray-300 text-sm text-gray-700"
+          />
+          <button
+            onClick={handleCopy}
+            disabled={isLoading}
+            className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Copy className="h-4 w-4" />
+            {copied ? 'Copiato' : 'Copia'}
+          </button>
+          <a
+            href={calendarSubscribeUrl(token)}
+            className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+          >
+            <CalendarDays className="h-4 w-4" />
+            Aggiungi al calendario
+          </a>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={handleRotate}
+          disabled={isLoading}
+          className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <RefreshCw className="h-4 w-4" />
+          {token ? 'Genera un nuovo link' : 'Crea link di iscrizione'}
+        </button>
+        <button
+          onClick={() => run(downloadCalendar, 'Errore nel download del calendario')}
+          disabled={isLoading}
+          className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4" />
+          Scarica .ics
+        </button>
+      </div>
+    </div>
+  );
+}
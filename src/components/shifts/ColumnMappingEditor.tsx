@@ -0,0 +1,124 @@
+import { DayKey } from '../../types/schedule';
+import { ColumnMapping, DAY_KEYS, DAY_KEY_LABELS, TableRows } from '../../lib/matrixImport';
+
+interface ColumnMappingEditorProps {
+  rows: TableRows;
+  mapping: ColumnMapping;
+  weekStartDate: string;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  onWeekStartDateChange: (date: string) => void;
+}
+
+const PREVIEW_ROWS = 6;
+
+export function ColumnMappingEditor({
+  rows,
+  mapping,
+  weekStartDate,
+  onMappingChange,
+  onWeekStartDateChange
+}: ColumnMappingEditorProps) {
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const header = rows[mapping.headerRow] ?? [];
+  const columnOptions = Array.from({ length: columnCount }, (_, i) => ({
+    value: i,
+    label: `Colonna ${i + 1}${header[i] ? ` (${header[i]})` : ''}`
+  }));
+
+  const mappedColumns = new Map<number, string>([[mapping.employeeColumn, 'Sigla']]);
+  DAY_KEYS.forEach(day => {
+    const column = mapping.dayColumns[day];
+    if (column !== null) mappedColumns.set(column, DAY_KEY_LABELS[day]);
+  });
+
+  const setDayColumn = (day: DayKey, value: string) => {
+    onMappingChange({
+      ...mapping,
+      dayColumns: { ...mapping.dayColumns, [day]: value === '' ? null : Number(value) }
+    });
+  };
+
+  const selectClass = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <label className="block text-sm font-medium text-gray-700">
+          Inizio settimana (domenica)
+          <input
+            type="date"
+            value={weekStartDate}
+            onChange={(e) => onWeekStartDateChange(e.target.value)}
+            className={selectClass}
+          />
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Riga di intestazione
+          <select
+            value={mapping.headerRow}
+            onChange={(e) => onMappingChange({ ...mapping, headerRow: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {rows.slice(0, 15).map((row, i) => (
+              <option key={i} value={i}>
+                Riga {i + 1}: {row.filter(Boolean).slice(0, 4).join(' | ')}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-gray-700">
+          Sigla dipendente
+          <select
+            value={mapping.employeeColumn}
+            onChange={(e) => onMappingChange({ ...mapping, employeeColumn: Number(e.target.value) })}
+            className={selectClass}
+          >
+            {columnOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        {DAY_KEYS.map(day => (
+          <label key={day} className="block text-sm font-medium text-gray-700">
+            {DAY_KEY_LABELS[day]}
+            <select
+              value={mapping.dayColumns[day] ?? ''}
+              onChange={(e) => setDayColumn(day, e.target.value)}
+              className={selectClass}
+            >
+              <option value="">Nessuna colonna</option>
+              {columnOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-md">
+        <table className="min-w-full divide-y divide-gray-200 text-xs">
+          <thead className="bg-gray-50">
+            <tr>
+              {Array.from({ length: columnCount }, (_, i) => (
+                <th key={i} className={`px-3 py-2 text-left font-medium ${mappedColumns.has(i) ? 'text-indigo-700' : 'text-gray-400'}`}>
+                  {mappedColumns.get(i) ?? '—'}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rows.slice(mapping.headerRow, mapping.headerRow + PREVIEW_ROWS + 1).map((row, rowIndex) => (
+              <tr key={rowIndex} className={rowIndex === 0 ? 'bg-gray-50 font-medium' : ''}>
+                {Array.from({ length: columnCount }, (_, i) => (
+                  <td key={i} className={`px-3 py-1 whitespace-nowrap ${mappedColumns.has(i) ? 'text-gray-900' : 'text-gray-400'}`}>
+                    {row[i] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import {
+  ComplianceEnforcement,
+  ComplianceSettings,
+  loadComplianceSettings,
+  saveComplianceSettings
+} from '../../lib/compliance';
+
+export function ComplianceSettingsForm() {
+  const [settings, setSettings] = useState<ComplianceSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setSettings(await loadComplianceSettings());
+    } catch (err) {
+      console.error('Error loading compliance settings:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento delle impostazioni sui riposi');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSaved(false);
+      await saveComplianceSettings(settings);
+      setSaved(true);
+    } catch (err) {
+      console.error('Error saving compliance settings:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel salvataggio delle impostazioni sui riposi');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<ComplianceSettings>) => {
+    if (!settings) return;
+    setSaved(false);
+    setSettings({ ...settings, ...changes });
+  };
+
+  const inputClass = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+      <h2 className="text-lg font-medium text-gray-900">Riposi minimi</h2>
+      <p className="text-sm text-gray-600">
+        Le celle che non rispettano i riposi sono evidenziate nella matrice. Gli scambi che introducono
+        nuove violazioni vengono bloccati oppure richiedono una conferma.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {settings && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <label className="block text-sm font-medium text-gray-700">
+            Riposo giornaliero (ore)
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={settings.min_daily_rest_hours}
+              onChange={(e) => update({ min_daily_rest_hours: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Riposo settimanale (ore)
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={settings.min_weekly_rest_hours}
+              onChange={(e) => update({ min_weekly_rest_hours: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Scambi non conformi
+            <select
+              value={settings.enforcement}
+              onChange={(e) => update({ enforcement: e.target.value as ComplianceEnforcement })}
+              className={inputClass}
+            >
+              <option value="warn">Chiedi conferma</option>
+              <option value="block">Blocca</option>
+            </select>
+          </label>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              disabled={isLoading}
+              className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Salva
+            </button>
+            {saved && <span className="text-sm text-green-700">Salvato</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
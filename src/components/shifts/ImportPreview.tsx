@@ -0,0 +1,86 @@
+import { AlertTriangle, CheckCircle } from 'lucide-react';
+import { ImportPreview as ImportPreviewData } from '../../lib/importPreview';
+import { formatDate } from '../../lib/weeks';
+import { ShiftDiffGrid } from './ShiftDiffGrid';
+
+interface ImportPreviewProps {
+  preview: ImportPreviewData;
+  isSubmitting: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  // Presente solo per i file con mappatura delle colonne
+  onBack?: () => void;
+}
+
+export function ImportPreview({ preview, isSubmitting, onConfirm, onCancel, onBack }: ImportPreviewProps) {
+  const hasBlockingIssues = preview.duplicateEmployees.length > 0;
+
+  const warnings = [
+    preview.duplicateEmployees.length > 0 &&
+      `Sigle duplicate (da correggere prima dell'importazione): ${preview.duplicateEmployees.join(', ')}`,
+    preview.unknownCodes.length > 0 &&
+      `Codici turno sconosciuti: ${preview.unknownCodes.join(', ')}`,
+    preview.unregisteredEmployees.length > 0 &&
+      `Sigle senza account registrato: ${preview.unregisteredEmployees.join(', ')}`,
+    preview.removedEmployees.length > 0 &&
+      `Sigle presenti nei dati attuali ma assenti nel file: ${preview.removedEmployees.join(', ')}`
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <h3 className="text-lg font-semibold">
+          Anteprima settimana {formatDate(preview.data.week_start_date)}
+        </h3>
+        <span className="text-sm text-gray-600">
+          {preview.rows.length} dipendenti
+          {preview.hasExistingData
+            ? ` · ${preview.changedCells} celle modificate rispetto ai dati attuali`
+            : ' · nessun dato esistente per questa settimana'}
+        </span>
+      </div>
+
+      {warnings.length > 0 ? (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-md space-y-1">
+          {warnings.map(warning => (
+            <p key={warning} className="flex items-start gap-2 text-sm text-yellow-800">
+              <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              {warning}
+            </p>
+          ))}
+        </div>
+      ) : (
+        <p className="flex items-center gap-2 p-4 bg-green-50 text-sm text-green-800 rounded-md">
+          <CheckCircle className="h-4 w-4" />
+          Nessun problema rilevato
+        </p>
+      )}
+
+      <ShiftDiffGrid weekStart={preview.data.week_start_date} rows={preview.rows} />
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+        >
+          Annulla
+        </button>
+        {onBack && (
+          <button
+            onClick={onBack}
+            className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+          >
+            Modifica mappatura
+          </button>
+        )}
+        <button
+          onClick={onConfirm}
+          disabled={isSubmitting || hasBlockingIssues}
+          className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Salvataggio...' : 'Conferma importazione'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,23 +1,30 @@
 import React, { useState } from 'react';
 import { Upload } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
-import { useAuth } from '../../contexts/AuthContext';
-
-interface ShiftData {
-  employee_code: string;
-  sunday_shift?: string;
-  monday_shift?: string;
-  tuesday_shift?: string;
-  wednesday_shift?: string;
-  thursday_shift?: string;
-  friday_shift?: string;
-  saturday_shift?: string;
-  [key: string]: string | undefined;
-}
+import { MatrixData } from '../../types/schedule';
+import {
+  ColumnMapping,
+  detectColumnMapping,
+  detectWeekStart,
+  detectWeekStarts,
+  emptyColumnMapping,
+  getImportFormat,
+  ImportFormat,
+  readTableRows,
+  rowsToMatrixData,
+  TableRows
+} from '../../lib/matrixImport';
+import { formatDate, getWeekStart, isISODate } from '../../lib/weeks';
+import { ColumnMappingEditor } from './ColumnMappingEditor';
+import { ImportPreview as ImportPreviewData, loadImportPreview } from '../../lib/importPreview';
+import { ImportPreview } from './ImportPreview';
+import { publishRevision } from '../../lib/revisions';
 
-interface MatrixData {
-  week_start_date: string;
-  shifts: ShiftData[];
+interface PendingImport {
+  fileName: string;
+  format: ImportFormat;
+  rows: TableRows;
+  mapping: ColumnMapping;
+  weekStartDate: string;
 }
 
 interface MatrixUploaderProps {
@@ -27,7 +34,10 @@ interface MatrixUploaderProps {
 export function MatrixUploader({ onUploadComplete }: MatrixUploaderProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { user } = useAuth();
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [preview, setPreview] = useState<ImportPreviewData | null>(null);
+  // Settimane del file ancora da pubblicare dopo quella in anteprima
+  const [weekQueue, setWeekQueue] = useState<string[]>([]);
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -35,37 +45,106 @@ export function MatrixUploader({ onUploadComplete }: MatrixUploaderProps) {
 
     setIsLoading(true);
     setError(null);
+    setPendingImport(null);
+    setPreview(null);
+    setWeekQueue([]);
 
     try {
-      if (file.type === 'application/json') {
+      const format = getImportFormat(file);
+      if (format === 'json') {
         const text = await file.text();
         const jsonData = JSON.parse(text);
-        await handleJSONUpload(jsonData);
-        onUploadComplete(jsonData.week_start_date);
+        await showPreview(jsonData);
+      } else if (format) {
+        const rows = await readTableRows(file, format);
+        if (rows.length === 0) {
+          throw new Error('Il file non contiene righe leggibili.');
+        }
+        const mapping = detectColumnMapping(rows);
+        setPendingImport({
+          fileName: file.name,
+          format,
+          rows,
+          mapping: mapping ?? emptyColumnMapping(),
+          weekStartDate: detectWeekStart(rows, mapping) ?? ''
+        });
       } else {
-        throw new Error('Per favore carica un file JSON con il formato corretto.');
+        throw new Error('Formato non supportato. Carica un file JSON, CSV, Excel o PDF.');
       }
     } catch (err) {
       console.error('Error uploading file:', err);
       setError(err instanceof Error ? err.message : 'Errore durante il caricamento del file');
     } finally {
       setIsLoading(false);
+      event.target.value = '';
     }
   };
 
-  const handleJSONUpload = async (data: MatrixData) => {
+  const handleMappedImport = async () => {
+    if (!pendingImport) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      // Con più settimane nel file (come nelle esportazioni) si pubblicano tutte, una dopo l'altra
+      const [firstWeek, ...otherWeeks] = detectWeekStarts(pendingImport.rows, pendingImport.mapping);
+      if (otherWeeks.length > 0) {
+        await showPreview(rowsToMatrixData(pendingImport.rows, pendingImport.mapping, firstWeek));
+        setWeekQueue(otherWeeks);
+        return;
+      }
+
+      if (!isISODate(pendingImport.weekStartDate)) {
+        throw new Error('Indica la data di inizio settimana.');
+      }
+      const weekStart = getWeekStart(pendingImport.weekStartDate);
+      await showPreview(rowsToMatrixData(pendingImport.rows, pendingImport.mapping, weekStart));
+    } catch (err) {
+      console.error('Error importing file:', err);
+      setError(err instanceof Error ? err.message : 'Errore durante l\'importazione del file');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Nessuna scrittura: confronta i dati con quelli già salvati e mostra l'anteprima
+  const showPreview = async (data: MatrixData) => {
     if (!validateMatrixData(data)) {
       throw new Error('Formato dati non valido. Controlla il formato del file.');
     }
+    setPreview(await loadImportPreview(data));
+  };
+
+  const handleConfirmImport = async () => {
+    if (!preview) return;
+
+    setIsLoading(true);
+    setError(null);
 
-    const { error } = await supabase
-      .from('shifts_schedule')
-      .upsert(data.shifts.map(shift => ({
-        ...shift,
-        week_start_date: data.week_start_date
-      })));
+    try {
+      if (pendingImport && weekQueue.length > 0) {
+        await publishRevision(preview.data);
+        const [nextWeek, ...otherWeeks] = weekQueue;
+        await showPreview(rowsToMatrixData(pendingImport.rows, pendingImport.mapping, nextWeek));
+        setWeekQueue(otherWeeks);
+        return;
+      }
 
-    if (error) throw error;
+      await handleJSONUpload(preview.data);
+      setPreview(null);
+      setPendingImport(null);
+    } catch (err) {
+      console.error('Error saving matrix:', err);
+      setError(err instanceof Error ? err.message : 'Errore durante il salvataggio della matrice');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Ogni caricamento diventa una nuova revisione della settimana
+  const handleJSONUpload = async (data: MatrixData) => {
+    await publishRevision(data);
     onUploadComplete(data.week_start_date);
   };
 
@@ -85,29 +164,18 @@ export function MatrixUploader({ onUploadComplete }: MatrixUploaderProps) {
     );
   };
 
-  // If not admin, don't render the uploader
-  if (user?.user_metadata?.full_name !== 'ADMIN') {
-    return (
-      <div className="p-4 bg-red-50 rounded-md">
-        <p className="text-sm text-red-700">
-          Solo gli amministratori possono caricare la matrice dei turni
-        </p>
-      </div>
-    );
-  }
-
   return (
     <div className="p-4 bg-white rounded-lg shadow">
       <div className="flex flex-col items-center space-y-4">
         <label className="w-full max-w-xl flex flex-col items-center px-4 py-6 bg-white rounded-lg border-2 border-dashed border-gray-300 cursor-pointer hover:border-gray-400">
           <Upload className="w-8 h-8 text-gray-400" />
           <span className="mt-2 text-base text-gray-600">
-            {isLoading ? 'Caricamento...' : 'Seleziona un file JSON'}
+            {isLoading ? 'Caricamento...' : 'Seleziona un file JSON, CSV, Excel o PDF'}
           </span>
           <input
             type="file"
             className="hidden"
-            accept=".json"
+            accept=".json,.csv,.txt,.xlsx,.xls,.ods,.pdf"
             onChange={handleFileChange}
             disabled={isLoading}
           />
@@ -119,7 +187,68 @@ export function MatrixUploader({ onUploadComplete }: MatrixUploaderProps) {
           </div>
         )}
 
+        {preview && weekQueue.length > 0 && (
+          <div className="w-full p-3 text-sm text-indigo-700 bg-indigo-50 rounded">
+            Dopo la conferma seguono le settimane del {weekQueue.map(formatDate).join(', ')}.
+          </div>
+        )}
+
+        {preview && (
+          <ImportPreview
+            preview={preview}
+            isSubmitting={isLoading}
+            onConfirm={handleConfirmImport}
+            onBack={pendingImport ? () => {
+              setPreview(null);
+              setWeekQueue([]);
+            } : undefined}
+            onCancel={() => {
+              setPreview(null);
+              setPendingImport(null);
+              setWeekQueue([]);
+            }}
+          />
+        )}
+
+        {pendingImport && !preview && (
+          <div className="w-full space-y-4">
+            <div className="flex justify-between items-center">
+              <h3 className="text-lg font-semibold">
+                Mappatura colonne: {pendingImport.fileName}
+              </h3>
+              <span className="text-xs uppercase text-gray-500">{pendingImport.format}</span>
+            </div>
+            <ColumnMappingEditor
+              rows={pendingImport.rows}
+              mapping={pendingImport.mapping}
+              weekStartDate={pendingImport.weekStartDate}
+              onMappingChange={(mapping) => setPendingImport({ ...pendingImport, mapping })}
+              onWeekStartDateChange={(weekStartDate) => setPendingImport({ ...pendingImport, weekStartDate })}
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setPendingImport(null)}
+                className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              >
+                Annulla
+              </button>
+              <button
+                onClick={handleMappedImport}
+                disabled={isLoading}
+                className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+              >
+                Anteprima
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="w-full max-w-xl mt-4">
+          <p className="text-sm text-gray-600 mb-4">
+            I file CSV, Excel e PDF devono contenere una riga di intestazione con i giorni
+            (Dom, Lun, ... oppure Domenica, Lunedì, ...) e una colonna con le sigle: le colonne
+            possono essere riassegnate prima dell'importazione.
+          </p>
           <h3 className="text-lg font-semibold mb-2">Formato JSON richiesto:</h3>
           <pre className="bg-gray-100 p-4 rounded text-sm overflow-auto">
 {`{
@@ -0,0 +1,389 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowRightLeft, CalendarClock, Check, Clock, Coffee, X } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useShiftCodes } from '../../contexts/ShiftCodesContext';
+import {
+  findNextShift,
+  loadMyOpenChains,
+  loadMyOpenOffers,
+  loadMyOpenSwaps,
+  loadMyShifts,
+  monthRange,
+  MyShift,
+  MySwap,
+  summarizePeriod
+} from '../../lib/myShifts';
+import { cancelShiftOffer, OFFER_STATUS_LABELS, ShiftOffer, withdrawOfferClaim } from '../../lib/offers';
+import { formatDuration } from '../../lib/shiftCodes';
+import {
+  acceptSwap,
+  acceptSwapChain,
+  cancelSwap,
+  rejectSwap,
+  rejectSwapChain,
+  SWAP_STATUS_LABELS,
+  SwapChain
+} from '../../lib/swaps';
+import { addDays, formatDate, getWeekStart, todayISO, WEEK_DAY_LABELS } from '../../lib/weeks';
+
+// Giorni successivi al mese corrente in cui cercare il prossimo turno
+const NEXT_SHIFT_LOOKAHEAD_DAYS = 14;
+
+const formatHours = (minutes: number) => formatDuration(Math.round(minutes)) || '0h';
+
+export function MyShiftsDashboard() {
+  const [shifts, setShifts] = useState<MyShift[]>([]);
+  const [swaps, setSwaps] = useState<MySwap[]>([]);
+  const [chains, setChains] = useState<SwapChain[]>([]);
+  const [offers, setOffers] = useState<ShiftOffer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busySwapId, setBusySwapId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { employee } = useAuth();
+  const { lookup } = useShiftCodes();
+
+  const today = todayISO();
+  const weekStart = getWeekStart(today);
+  const weekEnd = addDays(weekStart, 6);
+  const month = monthRange(today);
+  const employeeCode = employee?.code;
+
+  const load = useCallback(async () => {
+    if (!employeeCode) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const from = weekStart < month.from ? weekStart : month.from;
+      const lastDay = addDays(month.to, NEXT_SHIFT_LOOKAHEAD_DAYS);
+      const to = weekEnd > lastDay ? weekEnd : lastDay;
+      const [myShifts, mySwaps, myChains, myOffers] = await Promise.all([
+        loadMyShifts(employeeCode, from, to),
+        loadMyOpenSwaps(employeeCode),
+        loadMyOpenChains(employeeCode),
+        loadMyOpenOffers(employeeCode)
+      ]);
+      setShifts(myShifts);
+      setSwaps(mySwaps);
+      setChains(myChains);
+      setOffers(myOffers);
+    } catch (err) {
+      console.error('Error loading my shifts:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento dei tuoi turni');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [employeeCode, weekStart, weekEnd, month.from, month.to]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Scambi, rotazioni e offerte hanno id distinti: un solo stato per l'elemento in aggiornamento
+  const handleSwap = async (swapId: string, action: () => Promise<unknown>) => {
+    try {
+      setBusySwapId(swapId);
+      setError(null);
+      await action();
+      await load();
+    } catch (err) {
+      console.error('Error updating swap:', err);
+      setError(err instanceof Error ? err.message : 'Errore nell\'aggiornamento della richiesta');
+    } finally {
+      setBusySwapId(null);
+    }
+  };
+
+  if (!employee) {
+    return (
+      <div className="bg-white shadow sm:rounded-lg p-4 text-sm text-gray-600">
+        Il tuo account non è collegato a nessun dipendente: chiedi a un amministratore di collegarlo.
+      </div>
+    );
+  }
+
+  const shiftsByDate = new Map(shifts.map(item => [item.date, item]));
+  const nextShift = findNextShift(shifts.filter(item => item.date >= today), lookup);
+  const week = summarizePeriod(shifts, lookup, weekStart, weekEnd, employee.weekly_hours);
+  const monthSummary = summarizePeriod(shifts, lookup, month.from, month.to, employee.weekly_hours);
+  const sent = swaps.filter(swap => swap.from_employee === employee.code);
+  const received = swaps.filter(swap => swap.to_employee === employee.code);
+
+  // Griglia del mese a settimane intere, da domenica come la matrice
+  const gridStart = getWeekStart(month.from);
+  const gridDays: string[] = [];
+  for (let day = gridStart; day <= month.to || gridDays.length % 7 !== 0; day = addDays(day, 1)) {
+    gridDays.push(day);
+  }
+
+  const renderDay = (date: string, compact: boolean) => {
+    const item = shiftsByDate.get(date);
+    const shiftCode = lookup(item?.shift);
+    const outside = date < month.from || date > month.to;
+
+    return (
+      <div
+        key={date}
+        className={`rounded-md p-1 text-center border ${date === today ? 'border-indigo-500 ring-1 ring-indigo-500' : 'border-gray-200'} ${outside ? 'opacity-40' : ''}`}
+        style={{ backgroundColor: shiftCode?.color }}
+        title={shiftCode?.label ?? undefined}
+      >
+        <div className="text-xs text-gray-500">{compact ? date.slice(8) : formatDate(date).slice(0, 5)}</div>
+        <div className={`font-medium text-gray-900 ${compact ? 'text-xs' : 'text-sm'}`}>
+          {item?.shift || '–'}
+          {item?.changed && <span className="text-indigo-600">*</span>}
+        </div>
+      </div>
+    );
+  };
+
+  const hoursLine = (summary: ReturnType<typeof summarizePeriod>) => (
+    <>
+      <p className="text-2xl font-semibold text-gray-900">{formatHours(summary.workedMinutes)}</p>
+      <p className="text-xs text-gray-500">
+        lavorate su {formatHours(summary.plannedMinutes)} in turno
+        {summary.contractMinutes !== null && ` · contratto ${formatHours(summary.contractMinutes)}`}
+      </p>
+      {summary.contractMinutes !== null && (
+        <div className="mt-2 h-2 rounded bg-gray-100 overflow-hidden">
+          <div
+            className={`h-2 ${summary.plannedMinutes > summary.contractMinutes ? 'bg-amber-500' : 'bg-indigo-500'}`}
+            style={{ width: `${Math.min(100, (summary.workedMinutes / Math.max(summary.contractMinutes, 1)) * 100)}%` }}
+          />
+        </div>
+      )}
+    </>
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-white shadow rounded-lg p-4 sm:col-span-2">
+          <h2 className="flex items-center gap-2 text-sm font-medium text-gray-500">
+            <CalendarClock className="h-4 w-4" />
+            Prossimo turno
+          </h2>
+          {nextShift ? (
+            <>
+              <p className="text-2xl font-semibold text-gray-900">
+                {WEEK_DAY_LABELS[new Date(`${nextShift.date}T00:00:00`).getDay()]} {formatDate(nextShift.date)} · {nextShift.shift}
+              </p>
+              <p className="text-sm text-gray-600">
+                {nextShift.start.toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}
+                {' – '}
+                {nextShift.end.toLocaleTimeString('it-IT', { hour: '2-digit', minute: '2-digit' })}
+                {nextShift.shiftCode?.label && ` · ${nextShift.shiftCode.label}`}
+                {nextShift.start <= new Date() && ' · in corso'}
+              </p>
+            </>
+          ) : (
+            <p className="text-sm text-gray-600">{isLoading ? 'Caricamento...' : 'Nessun turno nelle prossime settimane'}</p>
+          )}
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-4">
+          <h2 className="flex items-center gap-2 text-sm font-medium text-gray-500">
+            <Clock className="h-4 w-4" />
+            Ore della settimana
+          </h2>
+          {hoursLine(week)}
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-4">
+          <h2 className="flex items-center gap-2 text-sm font-medium text-gray-500">
+            <Coffee className="h-4 w-4" />
+            Riposi del mese
+          </h2>
+          <p className="text-2xl font-semibold text-gray-900">{monthSummary.restDaysRemaining}</p>
+          <p className="text-xs text-gray-500">ancora da fare su {monthSummary.restDays} nel mese</p>
+        </div>
+      </div>
+
+      <div className="bg-white shadow rounded-lg p-4 space-y-2">
+        <h2 className="text-lg font-medium text-gray-900">Questa settimana</h2>
+        <div className="grid grid-cols-7 gap-1">
+          {WEEK_DAY_LABELS.map(day => (
+            <div key={day} className="text-center text-xs font-medium text-gray-500">{day}</div>
+          ))}
+          {Array.from({ length: 7 }, (_, i) => renderDay(addDays(weekStart, i), false))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="bg-white shadow rounded-lg p-4 space-y-2">
+          <div className="flex items-baseline justify-between gap-2">
+            <h2 className="text-lg font-medium text-gray-900">Questo mese</h2>
+            <span className="text-xs text-gray-500">* turno cambiato da uno scambio</span>
+          </div>
+          <div className="grid grid-cols-7 gap-1">
+            {WEEK_DAY_LABELS.map(day => (
+              <div key={day} className="text-center text-xs font-medium text-gray-500">{day}</div>
+            ))}
+            {gridDays.map(day => renderDay(day, true))}
+          </div>
+          <div className="pt-2 border-t">{hoursLine(monthSummary)}</div>
+        </div>
+
+        <div className="bg-white shadow rounded-lg p-4 space-y-4">
+          <h2 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+            <ArrowRightLeft className="h-5 w-5" />
+            Richieste in sospeso
+          </h2>
+
+          {[
+            { title: 'Ricevute', items: received },
+            { title: 'Inviate', items: sent }
+          ].map(({ title, items }) => (
+            <div key={title}>
+              <h3 className="text-sm font-medium text-gray-700 mb-1">{title} ({items.length})</h3>
+              {items.length === 0 ? (
+                <p className="text-sm text-gray-500">Nessuna richiesta</p>
+              ) : (
+                <ul className="divide-y">
+                  {items.map(swap => {
+                    const isReceived = swap.to_employee === employee.code;
+                    const busy = busySwapId === swap.id;
+
+                    return (
+                      <li key={swap.id} className="py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <div>
+                          <p className="text-gray-900">
+                            {formatDate(swap.date)}: {isReceived
+                              ? `${swap.from_employee} ti dà ${swap.from_shift} per il tuo ${swap.to_shift}`
+                              : `il tuo ${swap.from_shift} con ${swap.to_shift} di ${swap.to_employee}`}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {SWAP_STATUS_LABELS[swap.status]}
+                            {swap.expires_at && ` · scade il ${new Date(swap.expires_at).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}`}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          {isReceived && swap.status === 'pending' && (
+                            <>
+                              <button
+                                onClick={() => handleSwap(swap.id, () => acceptSwap(swap.id))}
+                                disabled={busy}
+                                className="p-1 text-green-600 hover:bg-green-50 rounded disabled:opacity-50"
+                                title="Accetta scambio"
+                              >
+                                <Check className="h-5 w-5" />
+                              </button>
+                              <button
+                                onClick={() => handleSwap(swap.id, () => rejectSwap(swap.id))}
+                                disabled={busy}
+                                className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                                title="Rifiuta scambio"
+                              >
+                                <X className="h-5 w-5" />
+                              </button>
+                            </>
+                          )}
+                          {!isReceived && (
+                            <button
+                              onClick={() => handleSwap(swap.id, () => cancelSwap(swap.id))}
+                              disabled={busy}
+                              className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                            >
+                              Annulla
+                            </button>
+                          )}
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </div>
+          ))}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Rotazioni ({chains.length})</h3>
+            {chains.length === 0 ? (
+              <p className="text-sm text-gray-500">Nessuna rotazione</p>
+            ) : (
+              <ul className="divide-y">
+                {chains.map(chain => {
+                  const mine = chain.participants.find(p => p.employee_code === employee.code);
+                  const busy = busySwapId === chain.id;
+
+                  return (
+                    <li key={chain.id} className="py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+                      <div>
+                        <p className="text-gray-900">
+                          {formatDate(chain.date)}: {mine && `prendi ${mine.takes_shift} al posto del tuo ${mine.shift}`}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {SWAP_STATUS_LABELS[chain.status]} · {chain.participants.map(p => p.employee_code).join(' → ')}
+                        </p>
+                      </div>
+                      {chain.status === 'pending' && mine && !mine.accepted_at && (
+                        <div className="flex gap-2">
+                          <button
+                            onClick={() => handleSwap(chain.id, () => acceptSwapChain(chain.id))}
+                            disabled={busy}
+                            className="p-1 text-green-600 hover:bg-green-50 rounded disabled:opacity-50"
+                            title="Accetta rotazione"
+                          >
+                            <Check className="h-5 w-5" />
+                          </button>
+                          <button
+                            onClick={() => handleSwap(chain.id, () => rejectSwapChain(chain.id))}
+                            disabled={busy}
+                            className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                            title="Rifiuta rotazione"
+                          >
+                            <X className="h-5 w-5" />
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Offerte ({offers.length})</h3>
+            {offers.length === 0 ? (
+              <p className="text-sm text-gray-500">Nessuna offerta</p>
+            ) : (
+              <ul className="divide-y">
+                {offers.map(offer => {
+                  const isOwn = offer.employee_code === employee.code;
+                  const busy = busySwapId === offer.id;
+
+                  return (
+                    <li key={offer.id} className="py-2 flex flex-wrap items-center justify-between gap-2 text-sm">
+                      <div>
+                        <p className="text-gray-900">
+                          {formatDate(offer.date)}: {isOwn
+                            ? `offri il tuo ${offer.shift}${offer.claimed_by ? `, preso da ${offer.claimed_by}` : ''}`
+                            : `hai preso ${offer.shift} di ${offer.employee_code}`}
+                        </p>
+                        <p className="text-xs text-gray-500">{OFFER_STATUS_LABELS[offer.status]}</p>
+                      </div>
+                      <button
+                        onClick={() => handleSwap(offer.id, () => isOwn ? cancelShiftOffer(offer.id) : withdrawOfferClaim(offer.id))}
+                        disabled={busy}
+                        className="px-2 py-1 text-xs rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        {isOwn ? 'Ritira' : 'Rinuncia'}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
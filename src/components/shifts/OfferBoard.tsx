@@ -0,0 +1,292 @@
+import { Fragment, useEffect, useState } from 'react';
+import { Gift, Hand, Users, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  assignShiftOffer,
+  cancelShiftOffer,
+  claimShiftOffer,
+  CLAIM_MODE_LABELS,
+  isOpenOfferStatus,
+  loadOfferCandidates,
+  loadShiftOffers,
+  OFFER_STATUS_LABELS,
+  OfferCandidate,
+  ShiftOffer,
+  withdrawOfferClaim
+} from '../../lib/offers';
+import { addDays, formatDate, todayISO } from '../../lib/weeks';
+
+// Le offerte concluse restano visibili per un mese
+const HISTORY_DAYS = 30;
+
+export function OfferBoard() {
+  const [offers, setOffers] = useState<ShiftOffer[]>([]);
+  // Idoneità per offerta: il proprio stato, o tutti i colleghi per chi approva
+  const [candidates, setCandidates] = useState<Record<string, OfferCandidate[]>>({});
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { employee, can } = useAuth();
+  const canApprove = can('approve_swaps');
+
+  useEffect(() => {
+    loadBoard();
+
+    const channel = supabase.channel('offer-board')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'shift_offers' }, () => loadBoard())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'shift_offer_claims' }, () => loadBoard())
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, []);
+
+  const loadBoard = async () => {
+    try {
+      const data = await loadShiftOffers(addDays(todayISO(), -HISTORY_DAYS));
+      setOffers(data);
+
+      const open = data.filter(offer => offer.status === 'open');
+      const entries = await Promise.all(
+        open.map(async offer => [offer.id, await loadOfferCandidates(offer.id)] as const)
+      );
+      setCandidates(Object.fromEntries(entries));
+    } catch (err) {
+      console.error('Error loading shift offers:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento della bacheca');
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    if (isLoading) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      await action();
+      await loadBoard();
+    } catch (err) {
+      console.error('Error updating shift offer:', err);
+      setError(err instanceof Error ? err.message : 'Errore nell\'aggiornamento dell\'offerta');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openOffers = offers.filter(offer => isOpenOfferStatus(offer.status) && offer.date >= todayISO());
+  const closedOffers = offers.filter(offer => !isOpenOfferStatus(offer.status)).reverse();
+
+  const ownCandidate = (offer: ShiftOffer) =>
+    candidates[offer.id]?.find(c => c.employee_code === employee?.code);
+
+  const renderOwnAction = (offer: ShiftOffer) => {
+    if (offer.employee_code === employee?.code) {
+      return (
+        <button
+          onClick={() => run(() => cancelShiftOffer(offer.id))}
+          disabled={isLoading}
+          className="inline-flex items-center gap-1 px-3 py-1 text-sm rounded-md border border-red-300 text-red-700 bg-white hover:bg-red-50 disabled:opacity-50"
+        >
+          <X className="h-4 w-4" />
+          Ritira
+        </button>
+      );
+    }
+
+    // Turno già preso: chi l'ha preso può rinunciare finché il responsabile non decide
+    if (offer.status === 'pending_manager') {
+      if (offer.claimed_by !== employee?.code) return null;
+      return (
+        <button
+          onClick={() => run(() => withdrawOfferClaim(offer.id))}
+          disabled={isLoading}
+          className="px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          Rinuncia
+        </button>
+      );
+    }
+
+    const candidate = ownCandidate(offer);
+    if (!candidate) return null;
+
+    if (candidate.claimed_at) {
+      return (
+        <button
+          onClick={() => run(() => withdrawOfferClaim(offer.id))}
+          disabled={isLoading}
+          className="px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          Ritira candidatura
+        </button>
+      );
+    }
+
+    return (
+      <div className="flex flex-col items-end gap-1">
+        <button
+          onClick={() => run(() => claimShiftOffer(offer.id))}
+          disabled={isLoading || !candidate.eligible}
+          title={candidate.reason ?? undefined}
+          className="inline-flex items-center gap-1 px-3 py-1 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Hand className="h-4 w-4" />
+          {offer.claim_mode === 'first_come' ? 'Prendi turno' : 'Candidati'}
+        </button>
+        {candidate.reason && (
+          <span className={`text-xs ${candidate.eligible ? 'text-amber-700' : 'text-gray-500'}`}>
+            {candidate.reason}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+      <h2 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+        <Gift className="h-5 w-5" />
+        Bacheca turni
+      </h2>
+      <p className="text-sm text-gray-500">
+        Turni ceduti dai colleghi: chi li prende lavora il turno offerto e cede il proprio giorno libero,
+        dopo l'approvazione del responsabile. Per offrire un tuo turno selezionalo nella matrice.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md whitespace-pre-line">
+          {error}
+        </div>
+      )}
+
+      {openOffers.length === 0 ? (
+        <p className="text-sm text-gray-500">Nessun turno in bacheca.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {['Data', 'Turno', 'Offerto da', 'Assegnazione', 'Nota', ''].map(header => (
+                  <th key={header} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-100">
+              {openOffers.map(offer => {
+                const offerCandidates = candidates[offer.id] ?? [];
+                const applicants = offerCandidates.filter(c => c.claimed_at);
+
+                return (
+                  <Fragment key={offer.id}>
+                    <tr>
+                      <td className="px-4 py-2 whitespace-nowrap">{formatDate(offer.date)}</td>
+                      <td className="px-4 py-2 whitespace-nowrap font-medium">{offer.shift}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">{offer.employee_code}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {CLAIM_MODE_LABELS[offer.claim_mode]}
+                        {offer.claim_mode === 'admin_pick' && applicants.length > 0 && (
+                          <span className="ml-1 text-xs text-gray-500">({applicants.length} candidati)</span>
+                        )}
+                        {offer.status === 'pending_manager' && (
+                          <div className="text-xs text-amber-700">
+                            Preso da {offer.claimed_by}, in attesa di approvazione
+                          </div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">{offer.note}</td>
+                      <td className="px-4 py-2">
+                        <div className="flex items-start justify-end gap-2">
+                          {renderOwnAction(offer)}
+                          {canApprove && offer.status === 'open' && (
+                            <button
+                              onClick={() => setExpanded(expanded === offer.id ? null : offer.id)}
+                              className="inline-flex items-center gap-1 px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+                            >
+                              <Users className="h-4 w-4" />
+                              Colleghi
+                            </button>
+                          )}
+                          {canApprove && offer.employee_code !== employee?.code && (
+                            <button
+                              onClick={() => run(() => cancelShiftOffer(offer.id))}
+                              disabled={isLoading}
+                              className="p-1 hover:bg-red-100 rounded disabled:opacity-50"
+                              title="Ritira offerta"
+                            >
+                              <X className="h-4 w-4 text-red-600" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {canApprove && expanded === offer.id && (
+                      <tr>
+                        <td colSpan={6} className="px-4 py-2 bg-gray-50">
+                          <ul className="divide-y divide-gray-200">
+                            {offerCandidates.map(candidate => {
+                              const involvesSelf = [offer.employee_code, candidate.employee_code].includes(employee?.code ?? '');
+
+                              return (
+                                <li key={candidate.employee_code} className="flex items-center justify-between gap-4 py-1">
+                                  <span className={candidate.eligible ? 'text-gray-900' : 'text-gray-400'}>
+                                    <span className="font-medium">{candidate.employee_code}</span> ({candidate.current_shift || '-'})
+                                    {candidate.claimed_at && (
+                                      <span className="ml-2 text-xs text-indigo-700">
+                                        candidato il {new Date(candidate.claimed_at).toLocaleString('it-IT')}
+                                      </span>
+                                    )}
+                                    {candidate.reason && (
+                                      <span className={`ml-2 text-xs ${candidate.eligible ? 'text-amber-700' : 'text-gray-500'}`}>
+                                        {candidate.reason}
+                                      </span>
+                                    )}
+                                  </span>
+                                  <button
+                                    onClick={() => run(() => assignShiftOffer(offer.id, candidate.employee_code))}
+                                    disabled={isLoading || !candidate.eligible || involvesSelf}
+                                    title={involvesSelf ? 'Non puoi assegnare un turno offerto che ti coinvolge' : undefined}
+                                    className="px-3 py-1 text-xs rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                                  >
+                                    Assegna
+                                  </button>
+                                </li>
+                              );
+                            })}
+                            {offerCandidates.length === 0 && (
+                              <li className="py-1 text-gray-500">Nessun collega in turno quel giorno.</li>
+                            )}
+                          </ul>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {closedOffers.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Offerte concluse</h3>
+          <ul className="text-sm divide-y divide-gray-100">
+            {closedOffers.map(offer => (
+              <li key={offer.id} className="py-1 flex justify-between gap-4">
+                <span>
+                  {formatDate(offer.date)} · <span className="font-medium">{offer.shift}</span> di {offer.employee_code}
+                  {offer.claimed_by && <> → {offer.claimed_by}</>}
+                </span>
+                <span className={offer.status === 'accepted' ? 'text-green-700' : 'text-gray-500'}>
+                  {OFFER_STATUS_LABELS[offer.status]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from 'react';
+import { pdf } from '@react-pdf/renderer';
+import { FileDown } from 'lucide-react';
+import { useShiftCodes } from '../../contexts/ShiftCodesContext';
+import { downloadBlob } from '../../lib/download';
+import {
+  loadReportData,
+  MAX_REPORT_DAYS,
+  ReportOrientation,
+  ReportPeriod,
+  reportFileName,
+  reportRange
+} from '../../lib/reports';
+import { addDays, formatDate, isISODate, parseISODate } from '../../lib/weeks';
+import { ShiftReport } from './ShiftReport';
+
+interface ReportGeneratorProps {
+  // Settimana mostrata nella matrice, punto di partenza del periodo
+  weekStart: string;
+}
+
+const PERIOD_LABELS: Record<ReportPeriod, string> = {
+  week: 'Settimana',
+  month: 'Mese',
+  custom: 'Periodo personalizzato'
+};
+
+export function ReportGenerator({ weekStart }: ReportGeneratorProps) {
+  const [period, setPeriod] = useState<ReportPeriod>('week');
+  const [customFrom, setCustomFrom] = useState(weekStart);
+  const [customTo, setCustomTo] = useState(addDays(weekStart, 6));
+  const [orientation, setOrientation] = useState<ReportOrientation>('landscape');
+  const [perEmployee, setPerEmployee] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { index: shiftCodes } = useShiftCodes();
+
+  const range = period === 'custom' ? { from: customFrom, to: customTo } : reportRange(period, weekStart);
+
+  const handleGenerate = async () => {
+    const { from, to } = range;
+    if (!isISODate(from) || !isISODate(to) || from > to) {
+      setError('Indica un periodo valido');
+      return;
+    }
+    if ((parseISODate(to).getTime() - parseISODate(from).getTime()) / 86400000 + 1 > MAX_REPORT_DAYS) {
+      setError(`Il periodo può coprire al massimo ${MAX_REPORT_DAYS} giorni`);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await loadReportData(from, to, shiftCodes);
+      if (data.employees.length === 0) {
+        setError('Nessun turno nel periodo selezionato');
+        return;
+      }
+
+      const blob = await pdf(
+        <ShiftReport data={data} orientation={orientation} perEmployee={perEmployee} shiftCodes={shiftCodes} />
+      ).toBlob();
+      downloadBlob(blob, reportFileName(period, from, to));
+    } catch (err) {
+      console.error('Error generating report:', err);
+      setError(err instanceof Error ? err.message : 'Errore nella generazione del PDF');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white shadow sm:rounded-lg p-4 space-y-3">
+      <h2 className="text-lg font-medium text-gray-900">Report PDF</h2>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4 text-sm">
+        <label className="block text-gray-700">
+          Periodo
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as ReportPeriod)}
+            className="mt-1 block rounded-md border-gray-300 text-sm"
+          >
+            {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+
+        {period === 'custom' ? (
+          <>
+            <label className="block text-gray-700">
+              Dal
+              <input
+                type="date"
+                value={customFrom}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                className="mt-1 block rounded-md border-gray-300 text-sm"
+              />
+            </label>
+            <label className="block text-gray-700">
+              Al
+              <input
+                type="date"
+                value={customTo}
+                onChange={(e) => setCustomTo(e.target.value)}
+                className="mt-1 block rounded-md border-gray-300 text-sm"
+              />
+            </label>
+          </>
+        ) : (
+          <p className="text-gray-600 pb-2">
+            {formatDate(range.from)} – {formatDate(range.to)}
+          </p>
+        )}
+
+        <label className="block text-gray-700">
+          Orientamento
+          <select
+            value={orientation}
+            onChange={(e) => setOrientation(e.target.value as ReportOrientation)}
+            className="mt-1 block rounded-md border-gray-300 text-sm"
+          >
+            <option value="landscape">Orizzontale</option>
+            <option value="portrait">Verticale</option>
+          </select>
+        </label>
+
+        <label className="flex items-center gap-2 text-gray-700 pb-2">
+          <input
+            type="checkbox"
+            checked={perEmployee}
+            onChange={(e) => setPerEmployee(e.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Una pagina per dipendente
+        </label>
+
+        <button
+          onClick={handleGenerate}
+          disabled={isLoading}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <FileDown className="h-4 w-4" />
+          {isLoading ? 'Generazione PDF...' : 'Scarica PDF'}
+        </button>
+      </div>
+    </div>
+  );
+}
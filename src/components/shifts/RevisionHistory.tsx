@@ -0,0 +1,146 @@
+import { useCallback, useEffect, useState } from 'react';
+import { History, RotateCcw } from 'lucide-react';
+import { buildImportPreview } from '../../lib/importPreview';
+import { useShiftCodes } from '../../contexts/ShiftCodesContext';
+import { loadRevisions, rollbackRevision, ScheduleRevision } from '../../lib/revisions';
+import { formatDate } from '../../lib/weeks';
+import { ShiftDiffGrid } from './ShiftDiffGrid';
+
+interface RevisionHistoryProps {
+  weekStart: string;
+  onRestored: () => void;
+}
+
+export function RevisionHistory({ weekStart, onRestored }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<ScheduleRevision[]>([]);
+  const [baseRevision, setBaseRevision] = useState<number | null>(null);
+  const [targetRevision, setTargetRevision] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { codes } = useShiftCodes();
+
+  const fetchRevisions = useCallback(async () => {
+    try {
+      setError(null);
+      const data = await loadRevisions(weekStart);
+      setRevisions(data);
+      // Di default confronta l'ultima revisione con la precedente
+      setTargetRevision(data[0]?.revision ?? null);
+      setBaseRevision(data[1]?.revision ?? null);
+    } catch (err) {
+      console.error('Error loading revisions:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento delle revisioni');
+    }
+  }, [weekStart]);
+
+  useEffect(() => {
+    fetchRevisions();
+  }, [fetchRevisions]);
+
+  const handleRollback = async (revision: number) => {
+    if (!window.confirm(`Ripristinare la revisione ${revision}? Verrà pubblicata come nuova revisione.`)) {
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      await rollbackRevision(weekStart, revision);
+      await fetchRevisions();
+      onRestored();
+    } catch (err) {
+      console.error('Error restoring revision:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel ripristino della revisione');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const base = revisions.find(r => r.revision === baseRevision);
+  const target = revisions.find(r => r.revision === targetRevision);
+  const diff = base && target
+    ? buildImportPreview({ week_start_date: weekStart, shifts: target.shifts }, base.shifts, {
+        knownCodes: new Set(codes.map(code => code.code))
+      })
+    : null;
+
+  const selectClass = 'rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+      <h3 className="flex items-center gap-2 text-lg font-medium text-gray-900">
+        <History className="h-5 w-5" />
+        Revisioni della settimana {formatDate(weekStart)}
+      </h3>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">Nessuna revisione salvata per questa settimana.</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 text-sm">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="flex items-center justify-between py-2">
+              <div>
+                <span className="font-medium text-gray-900">Revisione {revision.revision}</span>
+                {index === 0 && <span className="ml-2 text-xs text-green-700">attuale</span>}
+                <span className="ml-2 text-gray-500">
+                  {new Date(revision.created_at).toLocaleString('it-IT')} · {revision.shifts.length} dipendenti
+                </span>
+                {revision.note && <span className="ml-2 text-gray-500">· {revision.note}</span>}
+              </div>
+              {index > 0 && (
+                <button
+                  onClick={() => handleRollback(revision.revision)}
+                  disabled={isLoading}
+                  className="inline-flex items-center gap-1 px-2 py-1 text-xs text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                  Ripristina
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {revisions.length > 1 && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+            Confronta
+            <select
+              value={baseRevision ?? ''}
+              onChange={(e) => setBaseRevision(Number(e.target.value))}
+              className={selectClass}
+            >
+              {revisions.map(r => (
+                <option key={r.id} value={r.revision}>Revisione {r.revision}</option>
+              ))}
+            </select>
+            con
+            <select
+              value={targetRevision ?? ''}
+              onChange={(e) => setTargetRevision(Number(e.target.value))}
+              className={selectClass}
+            >
+              {revisions.map(r => (
+                <option key={r.id} value={r.revision}>Revisione {r.revision}</option>
+              ))}
+            </select>
+            {diff && (
+              <span className="text-gray-500">
+                {diff.changedCells} celle modificate
+                {diff.removedEmployees.length > 0 && ` · rimossi: ${diff.removedEmployees.join(', ')}`}
+              </span>
+            )}
+          </div>
+          {diff && <ShiftDiffGrid weekStart={weekStart} rows={diff.rows} />}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { FileSpreadsheet } from 'lucide-react';
+import { ExportFormat, exportRange, exportSchedule } from '../../lib/scheduleExport';
+import { MAX_REPORT_DAYS } from '../../lib/reports';
+import { addDays, formatDate, isISODate, parseISODate } from '../../lib/weeks';
+
+interface ScheduleExportProps {
+  // Settimana mostrata nella matrice, proposta come periodo iniziale
+  weekStart: string;
+}
+
+export function ScheduleExport({ weekStart }: ScheduleExportProps) {
+  const [from, setFrom] = useState(weekStart);
+  const [to, setTo] = useState(addDays(weekStart, 6));
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [includeAudit, setIncludeAudit] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const validRange = isISODate(from) && isISODate(to) && from <= to;
+  const range = validRange ? exportRange(from, to) : null;
+
+  const handleExport = async () => {
+    if (!range) {
+      setError('Indica un periodo valido');
+      return;
+    }
+    if ((parseISODate(range.to).getTime() - parseISODate(range.from).getTime()) / 86400000 + 1 > MAX_REPORT_DAYS) {
+      setError(`Il periodo può coprire al massimo ${MAX_REPORT_DAYS} giorni`);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      await exportSchedule(format, from, to, includeAudit);
+    } catch (err) {
+      console.error('Error exporting schedule:', err);
+      setError(err instanceof Error ? err.message : 'Errore nell\'esportazione dei turni');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 bg-white shadow sm:rounded-lg p-4 space-y-3">
+      <h2 className="text-lg font-medium text-gray-900">Esporta in CSV / Excel</h2>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end gap-4 text-sm">
+        <label className="block text-gray-700">
+          Dal
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="mt-1 block rounded-md border-gray-300 text-sm"
+          />
+        </label>
+        <label className="block text-gray-700">
+          Al
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="mt-1 block rounded-md border-gray-300 text-sm"
+          />
+        </label>
+        <label className="block text-gray-700">
+          Formato
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className="mt-1 block rounded-md border-gray-300 text-sm"
+          >
+            <option value="xlsx">Excel (.xlsx)</option>
+            <option value="csv">CSV</option>
+          </select>
+        </label>
+        {format === 'xlsx' && (
+          <label className="flex items-center gap-2 text-gray-700 pb-2">
+            <input
+              type="checkbox"
+              checked={includeAudit}
+              onChange={(e) => setIncludeAudit(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Elenco degli scambi accettati
+          </label>
+        )}
+        <button
+          onClick={handleExport}
+          disabled={isLoading}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <FileSpreadsheet className="h-4 w-4" />
+          {isLoading ? 'Esportazione...' : 'Esporta'}
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        {range && `Settimane intere dal ${formatDate(range.from)} al ${formatDate(range.to)}. `}
+        Una riga per dipendente e settimana, nelle colonne del formato di importazione: il file si può ricaricare
+        da "Carica matrice", che pubblica tutte le settimane una dopo l'altra.
+        {format === 'xlsx' && includeAudit && ' Gli scambi sono nel foglio "Scambi".'}
+      </p>
+    </div>
+  );
+}
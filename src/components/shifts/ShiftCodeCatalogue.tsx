@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { useShiftCodes } from '../../contexts/ShiftCodesContext';
+import { ShiftCategory, ShiftCode } from '../../types/schedule';
+import {
+  DEFAULT_CATEGORY_COLORS,
+  deleteShiftCode,
+  durationBetween,
+  formatDuration,
+  formatTime,
+  saveShiftCode,
+  SHIFT_CATEGORY_LABELS
+} from '../../lib/shiftCodes';
+
+const emptyShiftCode = (): ShiftCode => ({
+  code: '',
+  label: null,
+  category: 'work',
+  start_time: null,
+  end_time: null,
+  duration_minutes: null,
+  suffix_meaning: null,
+  color: DEFAULT_CATEGORY_COLORS.work,
+  swappable: true,
+  required_qualification: null
+});
+
+export function ShiftCodeCatalogue() {
+  const { codes, reload } = useShiftCodes();
+  const [draft, setDraft] = useState<ShiftCode | null>(null);
+  // Codice originale della voce in modifica, null per una nuova voce
+  const [editingCode, setEditingCode] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const startEdit = (shiftCode: ShiftCode | null) => {
+    setError(null);
+    setEditingCode(shiftCode?.code ?? null);
+    setDraft(shiftCode ? { ...shiftCode } : emptyShiftCode());
+  };
+
+  const updateDraft = (changes: Partial<ShiftCode>) => {
+    if (!draft) return;
+    const next = { ...draft, ...changes };
+
+    // La durata segue gli orari finché l'utente non la modifica a mano
+    if (('start_time' in changes || 'end_time' in changes) && next.start_time && next.end_time) {
+      next.duration_minutes = durationBetween(next.start_time, next.end_time);
+    }
+    if ('category' in changes && draft.color === DEFAULT_CATEGORY_COLORS[draft.category]) {
+      next.color = DEFAULT_CATEGORY_COLORS[next.category];
+    }
+    setDraft(next);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      if (!draft.code.trim()) {
+        throw new Error('Indica il codice del turno');
+      }
+      const isRest = draft.category === 'rest' || draft.category === 'holiday';
+      if (!isRest && !draft.start_time) {
+        throw new Error('Indica l\'orario di inizio del turno');
+      }
+
+      await saveShiftCode(draft, editingCode ?? undefined);
+      await reload();
+      setDraft(null);
+    } catch (err) {
+      console.error('Error saving shift code:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel salvataggio del codice turno');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (code: string) => {
+    if (!window.confirm(`Eliminare il codice ${code} dal catalogo?`)) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      await deleteShiftCode(code);
+      await reload();
+    } catch (err) {
+      console.error('Error deleting shift code:', err);
+      setError(err instanceof Error ? err.message : 'Errore nell\'eliminazione del codice turno');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-medium text-gray-900">Catalogo codici turno</h2>
+        <button
+          onClick={() => startEdit(null)}
+          className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700"
+        >
+          <Plus className="h-4 w-4" />
+          Nuovo codice
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {draft && (
+        <div className="border border-gray-200 rounded-md p-4 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Codice
+              <input
+                value={draft.code}
+                onChange={(e) => updateDraft({ code: e.target.value })}
+                placeholder="05.55+"
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Descrizione
+              <input
+                value={draft.label ?? ''}
+                onChange={(e) => updateDraft({ label: e.target.value || null })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Categoria
+              <select
+                value={draft.category}
+                onChange={(e) => updateDraft({ category: e.target.value as ShiftCategory })}
+                className={inputClass}
+              >
+                {Object.entries(SHIFT_CATEGORY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Colore
+              <input
+                type="color"
+                value={draft.color}
+                onChange={(e) => updateDraft({ color: e.target.value })}
+                className="mt-1 block h-9 w-full rounded-md border-gray-300"
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Inizio
+              <input
+                type="time"
+                value={formatTime(draft.start_time)}
+                onChange={(e) => updateDraft({ start_time: e.target.value || null })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Fine
+              <input
+                type="time"
+                value={formatTime(draft.end_time)}
+                onChange={(e) => updateDraft({ end_time: e.target.value || null })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Durata (minuti)
+              <input
+                type="number"
+                min={1}
+                value={draft.duration_minutes ?? ''}
+                onChange={(e) => updateDraft({ duration_minutes: e.target.value ? Number(e.target.value) : null })}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Qualifica richiesta
+              <input
+                value={draft.required_qualification ?? ''}
+                onChange={(e) => updateDraft({ required_qualification: e.target.value || null })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 pt-6">
+              <input
+                type="checkbox"
+                checked={draft.swappable}
+                onChange={(e) => updateDraft({ swappable: e.target.checked })}
+                className="rounded border-gray-300 text-indigo-600"
+              />
+              Scambiabile
+            </label>
+            <label className="block text-sm font-medium text-gray-700 col-span-2 md:col-span-3">
+              Significato del suffisso +/-
+              <input
+                value={draft.suffix_meaning ?? ''}
+                onChange={(e) => updateDraft({ suffix_meaning: e.target.value || null })}
+                placeholder="Es. + = prolungamento di 30 minuti"
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setDraft(null)}
+              className="px-4 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Annulla
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isLoading}
+              className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Salva
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              {['Codice', 'Descrizione', 'Categoria', 'Orario', 'Durata', 'Suffisso', 'Qualifica', 'Scambiabile', ''].map((header, i) => (
+                <th key={i} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">{header}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-100">
+            {codes.map(shiftCode => (
+              <tr key={shiftCode.code}>
+                <td className="px-4 py-2">
+                  <span className="inline-block px-2 rounded font-medium" style={{ backgroundColor: shiftCode.color }}>
+                    {shiftCode.code}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-gray-700">{shiftCode.label}</td>
+                <td className="px-4 py-2 text-gray-700">{SHIFT_CATEGORY_LABELS[shiftCode.category]}</td>
+                <td className="px-4 py-2 text-gray-700">
+                  {shiftCode.start_time && `${formatTime(shiftCode.start_time)}–${formatTime(shiftCode.end_time)}`}
+                </td>
+                <td className="px-4 py-2 text-gray-700">{formatDuration(shiftCode.duration_minutes)}</td>
+                <td className="px-4 py-2 text-gray-500">{shiftCode.suffix_meaning}</td>
+                <td className="px-4 py-2 text-gray-700">{shiftCode.required_qualification}</td>
+                <td className="px-4 py-2 text-gray-700">{shiftCode.swappable ? 'Sì' : 'No'}</td>
+                <td className="px-4 py-2 text-right whitespace-nowrap">
+                  <button
+                    onClick={() => startEdit(shiftCode)}
+                    className="p-1 hover:bg-gray-100 rounded"
+                    title="Modifica"
+                  >
+                    <Pencil className="h-4 w-4 text-gray-600" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(shiftCode.code)}
+                    disabled={isLoading}
+                    className="p-1 hover:bg-red-100 rounded disabled:opacity-50"
+                    title="Elimina"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
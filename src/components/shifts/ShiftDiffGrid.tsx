@@ -0,0 +1,54 @@
+import { PreviewRow } from '../../lib/importPreview';
+import { getWeekDates } from '../../lib/weeks';
+
+interface ShiftDiffGridProps {
+  weekStart: string;
+  rows: PreviewRow[];
+}
+
+export function ShiftDiffGrid({ weekStart, rows }: ShiftDiffGridProps) {
+  const weekDates = getWeekDates(weekStart);
+
+  return (
+    <div className="overflow-x-auto border border-gray-200 rounded-md">
+      <table className="min-w-full divide-y divide-gray-200 text-sm">
+        <thead className="bg-gray-50">
+          <tr>
+            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sigla</th>
+            {weekDates.map(d => (
+              <th key={d.iso} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">
+                {d.day} {d.full.slice(0, 5)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-100">
+          {rows.map((row, rowIndex) => (
+            <tr key={`${row.employeeCode}-${rowIndex}`} className={row.duplicate ? 'bg-red-50' : ''}>
+              <td className="px-4 py-2 font-medium text-gray-900 whitespace-nowrap">
+                {row.employeeCode}
+                {row.duplicate && <span className="ml-2 text-xs text-red-600">duplicata</span>}
+                {row.unregistered && <span className="ml-2 text-xs text-yellow-700">non registrato</span>}
+                {row.isNew && <span className="ml-2 text-xs text-indigo-600">nuovo</span>}
+              </td>
+              {row.cells.map((cell, i) => (
+                <td
+                  key={i}
+                  title={cell.changed ? `Prima: ${cell.previous || '—'}` : undefined}
+                  className={`px-4 py-2 whitespace-nowrap ${
+                    cell.changed ? 'bg-amber-100' : ''
+                  } ${cell.unknownCode ? 'text-red-600 font-semibold' : 'text-gray-700'}`}
+                >
+                  {cell.value || '—'}
+                  {cell.changed && (
+                    <span className="block text-xs text-gray-500 line-through">{cell.previous || '—'}</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
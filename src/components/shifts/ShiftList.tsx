@@ -1,11 +1,60 @@
-import React, { useState, useEffect } from 'react';
-import { Check, X } from 'lucide-react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { AlertTriangle, Check, Clock, Gift, History, MessageSquare, Repeat, ShieldAlert, WifiOff, X } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-import PDFExport from './PDFExport';
-import { PDFDocument } from 'pdf-lib';
+import { useShiftCodes } from '../../contexts/ShiftCodesContext';
+import { WeekNavigator } from './WeekNavigator';
+import { RevisionHistory } from './RevisionHistory';
+import { SwapChainBadge } from './SwapChainBadge';
+import { SwapThread } from './SwapThread';
+import { ReportGenerator } from './ReportGenerator';
+import { ScheduleExport } from './ScheduleExport';
+import { buildEffectiveWeek, cellKey, EffectiveShiftRow, loadEffectiveRows, Matrix } from '../../lib/schedule';
+import { loadOfflineWeek, refreshOfflineSchedule, saveOfflineWeek } from '../../lib/offlineSchedule';
+import {
+  acceptSwap,
+  acceptSwapChain,
+  cancelSwap,
+  cancelSwapChain,
+  chainAssignments,
+  isOpenSwapStatus,
+  isSwapRuleError,
+  latestMessages,
+  loadSwapChains,
+  loadSwapMessages,
+  rejectSwap,
+  rejectSwapChain,
+  requestSwap,
+  requestSwapChain,
+  ShiftAssignment,
+  SWAP_STATUS_LABELS,
+  swapAssignments,
+  SwapChain,
+  SwapMessage,
+  SwapStatus,
+  swapThreadIds
+} from '../../lib/swaps';
+import {
+  cancelShiftOffer,
+  CLAIM_MODE_LABELS,
+  createShiftOffer,
+  isOpenOfferStatus,
+  loadShiftOffers,
+  OfferClaimMode,
+  ShiftOffer
+} from '../../lib/offers';
+import { describeShiftCode } from '../../lib/shiftCodes';
+import { checkSwapRules, formatViolation } from '../../lib/swapRules';
+import {
+  checkAssignmentsCompliance,
+  COMPLIANCE_LOOKBACK_DAYS,
+  complianceByCell,
+  ComplianceSettings,
+  ComplianceViolation,
+  loadComplianceSettings
+} from '../../lib/compliance';
+import { addDays, formatDate, getWeekFromUrl, getWeekStart, setWeekInUrl, todayISO } from '../../lib/weeks';
 
-type Matrix = string[][];
 type SwapRequest = {
   id: string;
   date: string;
@@ -13,7 +62,15 @@ type SwapRequest = {
   toEmployee: string;
   fromShift: string;
   toShift: string;
-  status: 'pending' | 'accepted' | 'rejected' | 'cancelled';
+  status: SwapStatus;
+  // Scambio accettato i cui turni non corrispondono più alla matrice attuale
+  stale: boolean;
+  managerComment: string | null;
+  createdAt: string;
+  // Richiesta a cui questa risponde con una controproposta
+  counterOf: string | null;
+  // Scadenza della richiesta in attesa (chiusa dal job expire_stale_swaps)
+  expiresAt: string | null;
 };
 
 interface ShiftListProps {
@@ -22,21 +79,87 @@ interface ShiftListProps {
 
 export default function ShiftList({ initialDate }: ShiftListProps) {
   const [matrix, setMatrix] = useState<Matrix>([]);
+  const [swappedCells, setSwappedCells] = useState<Set<string>>(new Set());
+  // Turni della settimana e dei giorni attorno, necessari per verificare i riposi
+  const [surroundingRows, setSurroundingRows] = useState<EffectiveShiftRow[]>([]);
+  const [complianceSettings, setComplianceSettings] = useState<ComplianceSettings | null>(null);
   const [selectedCells, setSelectedCells] = useState<[number, number][]>([]);
   const [swaps, setSwaps] = useState<SwapRequest[]>([]);
-  const [currentWeekStart, setCurrentWeekStart] = useState(initialDate ? new Date(initialDate) : new Date());
+  const [chains, setChains] = useState<SwapChain[]>([]);
+  // Modalità rotazione: celle dello stesso giorno selezionate nell'ordine della rotazione
+  const [chainMode, setChainMode] = useState(false);
+  const [chainCells, setChainCells] = useState<[number, number][]>([]);
+  // Turni in bacheca e opzioni per offrire la cella selezionata
+  const [offers, setOffers] = useState<ShiftOffer[]>([]);
+  const [offerMode, setOfferMode] = useState<OfferClaimMode>('first_come');
+  const [offerNote, setOfferNote] = useState('');
+  // Scadenza facoltativa della prossima richiesta di scambio (datetime-local)
+  const [swapDeadline, setSwapDeadline] = useState('');
+  // Conversazione aperta e ultimo messaggio di ogni richiesta in attesa
+  const [threadSwapId, setThreadSwapId] = useState<string | null>(null);
+  const [lastMessages, setLastMessages] = useState<Map<string, SwapMessage>>(new Map());
+  const [currentWeekStart, setCurrentWeekStart] = useState(
+    () => getWeekFromUrl() ?? getWeekStart(initialDate ?? todayISO())
+  );
+  const [availableWeeks, setAvailableWeeks] = useState<string[]>([]);
   const [showUploader, setShowUploader] = useState(false);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [showRevisions, setShowRevisions] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { user } = useAuth();
-  const [uploadedJson, setUploadedJson] = useState<any>(null);
+  // Data della copia locale mostrata quando i turni non si possono caricare dalla rete
+  const [offlineSavedAt, setOfflineSavedAt] = useState<string | null>(null);
+  const { user, employee, can } = useAuth();
+  const { index: shiftCodes, lookup } = useShiftCodes();
+
+  const currentEmployeeCode = employee?.code;
+  // Chi approva gli scambi può scambiare turni altrui e tra giorni diversi
+  const canApprove = can('approve_swaps');
+
+  // Settimana mostrata e ultima richiesta della matrice: le risposte arrivate fuori ordine,
+  // o per una settimana lasciata nel frattempo, vengono scartate
+  const shownWeekStart = useRef(currentWeekStart);
+  const matrixRequestId = useRef(0);
+
+  // La settimana iniziale arriva in ritardo da App: la usiamo solo se l'URL non ne indica una
+  useEffect(() => {
+    if (initialDate && !getWeekFromUrl()) {
+      setCurrentWeekStart(getWeekStart(initialDate));
+    }
+  }, [initialDate]);
 
-  const currentEmployeeCode = user?.user_metadata?.full_name;
+  // Mantiene la settimana nell'URL e segue la navigazione avanti/indietro del browser
+  useEffect(() => {
+    setWeekInUrl(currentWeekStart);
+  }, [currentWeekStart]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      const week = getWeekFromUrl();
+      if (week) setCurrentWeekStart(week);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
 
   useEffect(() => {
     if (user) {
-      checkAdminStatus();
+      loadAvailableWeeks();
+      loadCompliance();
+      refreshOfflineSchedule().catch(err => console.error('Error refreshing offline schedule:', err));
+    }
+  }, [user]);
+
+  const complianceViolations = useMemo(
+    () => complianceSettings
+      ? complianceByCell(surroundingRows, currentWeekStart, addDays(currentWeekStart, 6), shiftCodes, complianceSettings)
+      : new Map<string, ComplianceViolation[]>(),
+    [surroundingRows, currentWeekStart, shiftCodes, complianceSettings]
+  );
+
+  useEffect(() => {
+    shownWeekStart.current = currentWeekStart;
+
+    if (user) {
       loadMatrix(currentWeekStart);
       loadSwaps();
 
@@ -61,6 +184,39 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
             await loadMatrix(currentWeekStart);
           }
         )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'swap_chains',
+          },
+          async () => {
+            await loadSwaps();
+            await loadMatrix(currentWeekStart);
+          }
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: 'INSERT',
+            schema: 'public',
+            table: 'swap_messages',
+          },
+          () => loadSwaps()
+        )
+        .on(
+          'postgres_changes',
+          {
+            event: '*',
+            schema: 'public',
+            table: 'shift_offers',
+          },
+          async () => {
+            await loadSwaps();
+            await loadMatrix(currentWeekStart);
+          }
+        )
         .subscribe();
 
       return () => {
@@ -70,88 +226,76 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
     }
   }, [user, currentWeekStart]);
 
-  const checkAdminStatus = async () => {
+  const loadAvailableWeeks = async () => {
     try {
       const { data, error } = await supabase
-        .from('users')
-        .select('role')
-        .eq('id', user?.id)
-        .maybeSingle();
+        .from('schedule_weeks')
+        .select('week_start_date')
+        .order('week_start_date', { ascending: false });
 
       if (error) throw error;
-      setIsAdmin(data?.role === 'admin' || false);
+      setAvailableWeeks((data || []).map(w => w.week_start_date));
     } catch (err) {
-      console.error('Error checking admin status:', err);
-      setIsAdmin(false);
+      console.error('Error loading weeks:', err);
     }
   };
 
-  const loadMatrix = async (startDate: Date) => {
+  const loadCompliance = async () => {
     try {
-      const formattedDate = startDate.toISOString().split('T')[0];
-      
-      const { data: scheduleData, error } = await supabase
-        .from('shifts_schedule')
-        .select('*')
-        .eq('week_start_date', formattedDate)
-        .order('display_order', { ascending: true });
+      setComplianceSettings(await loadComplianceSettings());
+    } catch (err) {
+      console.error('Error loading compliance settings:', err);
+    }
+  };
 
-      if (error) throw error;
+  const applyEffectiveRows = (weekStart: string, rows: EffectiveShiftRow[]) => {
+    const week = buildEffectiveWeek(weekStart, rows);
+    setMatrix(week.matrix);
+    setSwappedCells(week.swappedCells);
+    // Sostituisce i turni della settimana mantenendo quelli dei giorni attorno
+    setSurroundingRows(prev => [
+      ...prev.filter(row => row.date < weekStart || row.date > addDays(weekStart, 6)),
+      ...rows
+    ]);
+  };
 
-      if (scheduleData && scheduleData.length > 0) {
-        const weekDates = getWeekDates(startDate);
-        const headerRow = ["", ...weekDates.map(d => d.full)];
-        const daysRow = ["", ...weekDates.map(d => d.day)];
-        
-        const matrixData = scheduleData.map(row => [
-          row.employee_code,
-          row.sunday_shift || '',
-          row.monday_shift || '',
-          row.tuesday_shift || '',
-          row.wednesday_shift || '',
-          row.thursday_shift || '',
-          row.friday_shift || '',
-          row.saturday_shift || ''
-        ]);
-
-        setMatrix([headerRow, daysRow, ...matrixData]);
-      } else {
-        // Se non ci sono dati, controlla se ci sono dati per altre date
-        const { data: latestData, error: latestError } = await supabase
-          .from('shifts_schedule')
-          .select('week_start_date')
-          .order('week_start_date', { ascending: false })
-          .limit(1)
-          .single();
-
-        if (!latestError && latestData) {
-          // Se esistono dati per un'altra data, carica quelli
-          const newDate = new Date(latestData.week_start_date);
-          setCurrentWeekStart(newDate);
-          loadMatrix(newDate);
-        } else {
-          setMatrix([]);
-        }
-      }
+  const loadMatrix = async (weekStart: string) => {
+    if (weekStart !== shownWeekStart.current) return;
+    const current = ++matrixRequestId.current;
+
+    try {
+      const weekEnd = addDays(weekStart, 6);
+      const rows = await loadEffectiveRows(addDays(weekStart, -COMPLIANCE_LOOKBACK_DAYS), addDays(weekEnd, 1));
+      if (current !== matrixRequestId.current) return;
+      const weekRows = rows.filter(row => row.date >= weekStart && row.date <= weekEnd);
+      setSurroundingRows(rows);
+      applyEffectiveRows(weekStart, weekRows);
+      saveOfflineWeek(weekStart, weekRows);
+      setOfflineSavedAt(null);
     } catch (err) {
+      if (current !== matrixRequestId.current) return;
       console.error('Error loading matrix:', err);
-      setError('Errore nel caricamento dei turni');
+      const offline = loadOfflineWeek(weekStart);
+      if (offline) {
+        setSurroundingRows(offline.rows);
+        applyEffectiveRows(weekStart, offline.rows);
+        setOfflineSavedAt(offline.savedAt);
+      } else {
+        setError('Errore nel caricamento dei turni');
+      }
     }
   };
 
-  const getWeekDates = (startDate: Date) => {
-    const dates = [];
-    const days = ['Dom', 'Lun', 'Mar', 'Mer', 'Gio', 'Ven', 'Sab'];
-    
-    for (let i = 0; i < 7; i++) {
-      const date = new Date(startDate);
-      date.setDate(date.getDate() + i);
-      dates.push({
-        full: date.toLocaleDateString('it-IT'),
-        day: days[i]
-      });
+  // Le RPC degli scambi restituiscono la settimana effettiva aggiornata
+  const applySwapResult = (rows: EffectiveShiftRow[]) => {
+    const weekStart = shownWeekStart.current;
+    if (rows.length > 0 && rows[0].date >= weekStart && rows[0].date <= addDays(weekStart, 6)) {
+      // Le richieste della matrice ancora in corso sono precedenti allo scambio
+      matrixRequestId.current++;
+      applyEffectiveRows(weekStart, rows);
+    } else {
+      loadMatrix(weekStart);
     }
-    return dates;
   };
 
   const loadSwaps = async () => {
@@ -173,59 +317,57 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
           return acc;
         }, {});
 
-        setSwaps(Object.values(uniqueSwaps).map(swap => ({
+        const loadedSwaps: SwapRequest[] = Object.values(uniqueSwaps).map(swap => ({
           id: swap.id,
           date: swap.date,
           fromEmployee: swap.from_employee,
           toEmployee: swap.to_employee,
           fromShift: swap.from_shift,
           toShift: swap.to_shift,
-          status: swap.status
-        })));
+          status: swap.status,
+          stale: swap.stale ?? false,
+          managerComment: swap.manager_comment ?? null,
+          createdAt: swap.created_at,
+          counterOf: swap.counter_of ?? null,
+          expiresAt: swap.expires_at ?? null
+        }));
+        setSwaps(loadedSwaps);
+
+        const openIds = loadedSwaps.filter(swap => isOpenSwapStatus(swap.status)).map(swap => swap.id);
+        setLastMessages(latestMessages(await loadSwapMessages(openIds)));
       }
+
+      setChains(await loadSwapChains());
+      setOffers((await loadShiftOffers(todayISO())).filter(offer => isOpenOfferStatus(offer.status)));
     } catch (err) {
       console.error('Error loading swaps:', err);
     }
   };
 
-  const getFinalShift = (row: number, col: number): string => {
-    const date = matrix[0][col];
-    const employeeCode = matrix[row][0];
-    const baseShift = matrix[row][col];
-    
-    if (col === 0) return baseShift;
-
-    const formattedDate = date.split('/').reverse().join('-');
-    
-    // Cerca solo gli scambi accettati per questa data e questa sigla
-    const swap = swaps.find(s => 
-      s.status === 'accepted' && 
-      s.date === formattedDate &&
-      (s.fromEmployee === employeeCode || s.toEmployee === employeeCode)
-    );
-
-    // Se non ci sono scambi, ritorna il turno base
-    if (!swap) return baseShift;
-
-    // Se la sigla è quella che ha fatto la richiesta, ritorna il turno di destinazione
-    if (swap.fromEmployee === employeeCode) {
-      return swap.toShift;
-    }
-
-    // Se la sigla è quella che ha ricevuto la richiesta, ritorna il turno di origine
-    return swap.fromShift;
-  };
-
   const handleCellClick = async (row: number, col: number) => {
     if (col === 0) return;
 
     const employeeCode = matrix[row][0];
     const date = matrix[0][col];
 
+    if (chainMode) {
+      setChainCells(prev => {
+        if (prev.some(([r, c]) => r === row && c === col)) {
+          return prev.filter(([r, c]) => r !== row || c !== col);
+        }
+        if (prev.length === 0) {
+          // Chi non approva gli scambi parte dal proprio turno
+          return canApprove || employeeCode === currentEmployeeCode ? [[row, col]] : prev;
+        }
+        return prev[0][1] === col ? [...prev, [row, col]] : prev;
+      });
+      return;
+    }
+
     setSelectedCells(prev => {
       if (prev.length === 0) {
         // Prima selezione
-        if (isAdmin) {
+        if (canApprove) {
           return [[row, col]];
         } else {
           if (employeeCode !== currentEmployeeCode) {
@@ -243,7 +385,7 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
         }
 
         // Se non è admin, permette solo scambi nella stessa colonna (stessa data)
-        if (!isAdmin && firstCol !== col) {
+        if (!canApprove && firstCol !== col) {
           return prev;
         }
 
@@ -251,14 +393,17 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
         const toEmployee = matrix[row][0];
         const fromDate = matrix[0][firstCol];
         const toDate = matrix[0][col];
-        const fromShift = getFinalShift(firstRow, firstCol);
-        const toShift = getFinalShift(row, col);
+        const fromShift = matrix[firstRow][firstCol];
+        const toShift = matrix[row][col];
+
+        // Chi approva applica subito solo gli scambi che non lo coinvolgono
+        const autoAccept = canApprove && ![fromEmployee, toEmployee].includes(currentEmployeeCode ?? '');
 
         // Se è admin, crea un solo scambio invece di due
-        if (isAdmin && fromDate !== toDate) {
-          createSwapRequest(fromDate, fromEmployee, toEmployee, fromShift, toShift, true);
+        if (canApprove && fromDate !== toDate) {
+          createSwapRequest(fromDate, fromEmployee, toEmployee, fromShift, toShift, autoAccept);
         } else {
-          createSwapRequest(date, fromEmployee, toEmployee, fromShift, toShift, isAdmin);
+          createSwapRequest(date, fromEmployee, toEmployee, fromShift, toShift, autoAccept);
         }
         return [];
       }
@@ -267,70 +412,6 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
     });
   };
 
-  const createNotification = async (userId: string, message: string, type: string, swapId: string) => {
-    try {
-      await supabase.from('notifications').insert({
-        user_id: userId,
-        message,
-        type,
-        related_swap_id: swapId
-      });
-    } catch (error) {
-      console.error('Error creating notification:', error);
-    }
-  };
-
-  const handleSwapRequest = async (fromDate: string, fromEmployee: string, toEmployee: string, fromShift: string, toShift: string) => {
-    if (isLoading) return;
-
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      // Verifica le restrizioni per gli account non admin
-      if (!isAdmin) {
-        // Impedisci lo scambio di RI e NL
-        if (fromShift === 'RI' || fromShift === 'NL' || toShift === 'RI' || toShift === 'NL') {
-          setError('Non è possibile scambiare i turni RI e NL');
-          return;
-        }
-
-        // Impedisci lo scambio della prima colonna (sigle)
-        const fromShiftIndex = matrix[0].findIndex(s => s === fromShift);
-        if (fromShiftIndex === 0) {
-          setError('Non è possibile scambiare i turni della prima colonna');
-          return;
-        }
-      }
-
-      // Procedi con la creazione della richiesta di scambio
-      const { error: insertError } = await supabase
-        .from('shift_swaps_v2')
-        .insert({
-          date: fromDate.split('/').reverse().join('-'),
-          from_employee: fromEmployee,
-          to_employee: toEmployee,
-          from_shift: fromShift,
-          to_shift: toShift,
-          // Lo scambio viene accettato automaticamente SOLO se l'utente corrente è admin
-          status: isAdmin ? 'accepted' : 'pending'
-        });
-
-      if (insertError) throw insertError;
-      await loadSwaps();
-      // Se l'admin ha fatto lo scambio, aggiorna immediatamente la matrice
-      if (isAdmin) {
-        await loadMatrix(currentWeekStart);
-      }
-
-    } catch (err) {
-      console.error('Error creating swap request:', err);
-      setError('Errore nella creazione della richiesta di scambio');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const handleSwapResponse = async (swapId: string, accept: boolean) => {
     if (isLoading) return;
 
@@ -343,26 +424,28 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
 
       // Solo l'admin può accettare/rifiutare qualsiasi scambio
       // Gli utenti normali possono solo accettare/rifiutare scambi proposti a loro
-      if (!isAdmin && swap.toEmployee !== currentEmployeeCode) {
+      if (!canApprove && swap.toEmployee !== currentEmployeeCode) {
         setError('Non autorizzato a rispondere a questa richiesta');
         return;
       }
 
-      const { error: updateError } = await supabase
-        .from('shift_swaps_v2')
-        .update({ status: accept ? 'accepted' : 'rejected' })
-        .eq('id', swapId);
+      if (accept) {
+        const violations = await checkSwapRules(swap, { shiftCodes });
+        if (violations.length > 0) {
+          setError(violations.map(formatViolation).join('\n'));
+          return;
+        }
+        if (!(await confirmCompliance(swap.date, swapAssignments(swap)))) return;
+      }
 
-      if (updateError) throw updateError;
+      const rows = accept ? await acceptSwap(swapId) : await rejectSwap(swapId);
       
       await loadSwaps();
-      if (accept) {
-        await loadMatrix(currentWeekStart);
-      }
+      applySwapResult(rows);
 
     } catch (err) {
       console.error('Error updating swap:', err);
-      setError('Errore nell\'aggiornamento della richiesta di scambio');
+      setError(err instanceof Error ? err.message : 'Errore nell\'aggiornamento della richiesta di scambio');
     } finally {
       setIsLoading(false);
     }
@@ -374,15 +457,11 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
     try {
       setIsLoading(true);
 
-      const { error: updateError } = await supabase
-        .from('shift_swaps_v2')
-        .update({ status: 'cancelled' })
-        .eq('id', swapId);
-
-      if (updateError) throw updateError;
+      await cancelSwap(swapId);
       await loadSwaps();
     } catch (err) {
       console.error('Error cancelling swap:', err);
+      setError(err instanceof Error ? err.message : 'Errore nell\'annullamento della richiesta di scambio');
     } finally {
       setIsLoading(false);
     }
@@ -393,76 +472,220 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
 
     const date = matrix[0][col];
     const employeeCode = matrix[row][0];
-    const currentShift = getFinalShift(row, col);
+    const currentShift = matrix[row][col];
 
+    // Le richieste scadute restano in attesa fino al prossimo passaggio del job
     return swaps.find(swap => 
-      swap.status === 'pending' &&
+      isOpenSwapStatus(swap.status) &&
+      !(swap.expiresAt && new Date(swap.expiresAt).getTime() <= Date.now()) &&
       swap.date === date.split('/').reverse().join('-') &&
       ((swap.fromEmployee === employeeCode && swap.fromShift === currentShift) ||
        (swap.toEmployee === employeeCode && swap.toShift === currentShift))
     );
   };
 
-  const formatDate = (dateStr: string) => {
-    const [year, month, day] = dateStr.split('-');
-    return `${day}/${month}/${year}`;
+  // Rotazione aperta che coinvolge il dipendente in quel giorno
+  const getChainForCell = (row: number, col: number) => {
+    if (col === 0) return undefined;
+
+    const date = matrix[0][col].split('/').reverse().join('-');
+    const employeeCode = matrix[row][0];
+
+    return chains.find(chain =>
+      isOpenSwapStatus(chain.status) &&
+      chain.date === date &&
+      chain.participants.some(p => p.employee_code === employeeCode)
+    );
   };
 
-  async function convertPdfToJson(file: File) {
-    const arrayBuffer = await file.arrayBuffer();
-    const pdfDoc = await PDFDocument.load(arrayBuffer);
-    const pages = pdfDoc.getPages();
-    const jsonData = { week_start_date: '', shifts: [] };
-
-    // Example logic to extract data from the PDF
-    pages.forEach((page) => {
-      // Manually extract and parse text content from the page
-      // This is a placeholder for actual parsing logic
-      // jsonData.shifts.push({ employee_code: 'CA', ... });
-    });
+  const getOfferForCell = (row: number, col: number) => {
+    if (col === 0) return undefined;
+
+    const date = matrix[0][col].split('/').reverse().join('-');
+    return offers.find(offer => offer.date === date && offer.employee_code === matrix[row][0]);
+  };
+
+  const createOffer = async () => {
+    if (selectedCells.length !== 1) return;
+
+    const [row, col] = selectedCells[0];
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      await createShiftOffer(matrix[0][col].split('/').reverse().join('-'), matrix[row][0], offerMode, offerNote.trim() || undefined);
+      setSelectedCells([]);
+      setOfferNote('');
+      await loadSwaps();
+    } catch (err) {
+      console.error('Error creating shift offer:', err);
+      setError(err instanceof Error ? err.message : 'Errore nella pubblicazione del turno in bacheca');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCancelOffer = async (offerId: string) => {
+    if (isLoading) return;
+
+    try {
+      setIsLoading(true);
+      await cancelShiftOffer(offerId);
+      await loadSwaps();
+    } catch (err) {
+      console.error('Error cancelling shift offer:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel ritiro del turno dalla bacheca');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Anteprima della rotazione selezionata: ognuno prende il turno del successivo
+  const chainPreview = chainCells.map(([row, col], index) => {
+    const [nextRow, nextCol] = chainCells[(index + 1) % chainCells.length];
+    return {
+      employee: matrix[row][0],
+      shift: matrix[row][col],
+      takesShift: matrix[nextRow][nextCol],
+      takesFrom: matrix[nextRow][0]
+    };
+  });
 
-    return jsonData;
-  }
+  const createChainRequest = async () => {
+    if (chainCells.length < 3) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
 
-  const handleJsonUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const text = await file.text();
-      const jsonData = JSON.parse(text);
-      setUploadedJson(jsonData);
+      const date = matrix[0][chainCells[0][1]].split('/').reverse().join('-');
+      const assignments = chainPreview.map(p => ({ employee: p.employee, shift: p.takesShift }));
+      if (!(await confirmCompliance(date, assignments))) return;
+
+      const employees = chainPreview.map(p => p.employee);
+      // Chi approva applica subito solo le rotazioni a cui non partecipa
+      const autoAccept = canApprove && !employees.includes(currentEmployeeCode ?? '');
+      let rows;
+      try {
+        rows = await requestSwapChain(date, employees);
+      } catch (err) {
+        // Le regole delle rotazioni sono valutate dal database: chi approva può riprovare in deroga
+        if (!autoAccept || !isSwapRuleError(err)) throw err;
+        const overrideReason = window.prompt(
+          `La rotazione viola le regole:\n${(err as Error).message}\n\nPer applicarla in deroga indica il motivo:`
+        )?.trim();
+        if (!overrideReason) return;
+        rows = await requestSwapChain(date, employees, overrideReason);
+      }
+      setChainCells([]);
+      setChainMode(false);
+      await loadSwaps();
+      if (autoAccept) {
+        applySwapResult(rows);
+      }
+    } catch (err) {
+      console.error('Error creating swap chain:', err);
+      setError(err instanceof Error ? err.message : 'Errore nella creazione della rotazione');
+    } finally {
+      setIsLoading(false);
     }
   };
 
-  const handlePdfUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const jsonData = await convertPdfToJson(file);
-      setUploadedJson(jsonData);
+  const handleChainResponse = async (chainId: string, accept: boolean) => {
+    if (isLoading) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const chain = chains.find(c => c.id === chainId);
+      if (!chain) return;
+
+      if (accept && !(await confirmCompliance(chain.date, chainAssignments(chain)))) return;
+
+      const rows = accept ? await acceptSwapChain(chainId) : await rejectSwapChain(chainId);
+      await loadSwaps();
+      applySwapResult(rows);
+    } catch (err) {
+      console.error('Error updating swap chain:', err);
+      setError(err instanceof Error ? err.message : 'Errore nell\'aggiornamento della rotazione');
+    } finally {
+      setIsLoading(false);
     }
   };
 
+  const handleCancelChain = async (chainId: string) => {
+    if (isLoading) return;
+
+    try {
+      setIsLoading(true);
+      await cancelSwapChain(chainId);
+      await loadSwaps();
+    } catch (err) {
+      console.error('Error cancelling swap chain:', err);
+      setError(err instanceof Error ? err.message : 'Errore nell\'annullamento della rotazione');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Storico unico: ogni rotazione compare come una sola riga
+  const history = [
+    ...swaps.map(swap => ({ kind: 'swap' as const, createdAt: swap.createdAt, swap })),
+    ...chains.map(chain => ({ kind: 'chain' as const, createdAt: chain.created_at, chain }))
+  ].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  // Blocca o chiede conferma se lo scambio introduce violazioni dei riposi minimi
+  const confirmCompliance = async (swapDate: string, assignments: ShiftAssignment[]) => {
+    const { violations, enforcement } = await checkAssignmentsCompliance(swapDate, assignments, shiftCodes);
+    if (violations.length === 0) return true;
+
+    const messages = violations.map(v => v.message).join('\n');
+    if (enforcement === 'block') {
+      setError(`Lo scambio non rispetta i riposi minimi:\n${messages}`);
+      return false;
+    }
+    return window.confirm(`Lo scambio non rispetta i riposi minimi:\n${messages}\n\nProcedere comunque?`);
+  };
+
   const createSwapRequest = async (date: string, fromEmployee: string, toEmployee: string, fromShift: string, toShift: string, autoAccept: boolean = false) => {
     try {
       setIsLoading(true);
       setError(null);
 
-      const { error: insertError } = await supabase
-        .from('shift_swaps_v2')
-        .insert({
-          date: date.split('/').reverse().join('-'),
-          from_employee: fromEmployee,
-          to_employee: toEmployee,
-          from_shift: fromShift,
-          to_shift: toShift,
-          status: autoAccept ? 'accepted' : 'pending'
-        });
-
-      if (insertError) throw insertError;
+      const swap = {
+        date: date.split('/').reverse().join('-'),
+        fromEmployee,
+        toEmployee,
+        fromShift,
+        toShift
+      };
+
+      // Le stesse regole sono applicate dal database: qui mostriamo subito quale blocca lo scambio.
+      // Chi approva può applicarlo comunque in deroga alle regole derogabili, indicando il motivo.
+      const violations = await checkSwapRules(swap, { shiftCodes });
+      let overrideReason: string | undefined;
+      if (violations.length > 0) {
+        const messages = violations.map(formatViolation).join('\n');
+        if (!autoAccept || violations.some(v => !v.overridable)) {
+          setError(messages);
+          return;
+        }
+        overrideReason = window.prompt(`Lo scambio viola le regole:\n${messages}\n\nPer applicarlo in deroga indica il motivo:`)?.trim();
+        if (!overrideReason) return;
+      }
+      if (!(await confirmCompliance(swap.date, swapAssignments(swap)))) return;
+
+      const rows = await requestSwap(swap, swapDeadline ? new Date(swapDeadline).toISOString() : undefined, overrideReason);
+      setSwapDeadline('');
       await loadSwaps(); // Ricarica gli scambi immediatamente
+      if (autoAccept) {
+        applySwapResult(rows);
+      }
       
     } catch (err) {
       console.error('Error creating swap request:', err);
-      setError('Errore nella creazione della richiesta di scambio');
+      setError(err instanceof Error ? err.message : 'Errore nella creazione della richiesta di scambio');
     } finally {
       setIsLoading(false);
     }
@@ -471,19 +694,166 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <div className="flex items-center gap-2">
-          <span className="text-sm text-gray-600">
-            {currentWeekStart.toLocaleDateString('it-IT')} - {new Date(currentWeekStart.getTime() + 6 * 24 * 60 * 60 * 1000).toLocaleDateString('it-IT')}
-          </span>
+        <WeekNavigator
+          weekStart={currentWeekStart}
+          availableWeeks={availableWeeks}
+          onChange={setCurrentWeekStart}
+        />
+        <div className="flex gap-2">
+          <button
+            onClick={() => {
+              setChainMode(!chainMode);
+              setChainCells([]);
+              setSelectedCells([]);
+            }}
+            className={`inline-flex items-center gap-1 px-3 py-2 text-sm border rounded-md ${
+              chainMode ? 'border-purple-400 text-purple-700 bg-purple-50' : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+            }`}
+          >
+            <Repeat className="h-4 w-4" />
+            Rotazione
+          </button>
+          {can('upload_matrix') && (
+            <button
+              onClick={() => setShowRevisions(!showRevisions)}
+              className="inline-flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              <History className="h-4 w-4" />
+              Revisioni
+            </button>
+          )}
         </div>
       </div>
 
+      {chainMode && (
+        <div className="bg-purple-50 border border-purple-200 rounded-md p-4 space-y-2 text-sm text-purple-900">
+          <p>
+            Seleziona almeno tre turni dello stesso giorno nell'ordine della rotazione:
+            ognuno prende il turno del successivo e l'ultimo quello del primo.
+          </p>
+          {chainPreview.length > 0 && (
+            <ul className="list-disc list-inside">
+              {chainPreview.map(p => (
+                <li key={p.employee}>
+                  {p.employee} prende {p.takesShift} da {p.takesFrom}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setChainMode(false);
+                setChainCells([]);
+              }}
+              className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Annulla
+            </button>
+            <button
+              onClick={createChainRequest}
+              disabled={isLoading || chainCells.length < 3}
+              className="px-3 py-1 text-sm rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50"
+            >
+              Proponi rotazione
+            </button>
+          </div>
+        </div>
+      )}
+
+      {can('upload_matrix') && showRevisions && (
+        <RevisionHistory
+          weekStart={currentWeekStart}
+          onRestored={() => {
+            loadMatrix(currentWeekStart);
+            loadSwaps();
+          }}
+        />
+      )}
+
+      {!chainMode && selectedCells.length === 1 && (
+        <div className="bg-green-50 border border-green-200 rounded-md p-4 space-y-2 text-sm text-green-900">
+          <p>
+            Turno selezionato: <span className="font-medium">{matrix[selectedCells[0][0]][0]}</span>{' '}
+            {matrix[0][selectedCells[0][1]]} ({matrix[selectedCells[0][0]][selectedCells[0][1]]}).
+            Seleziona un'altra cella per proporre uno scambio, oppure cedilo in bacheca.
+          </p>
+          <label className="flex flex-wrap items-center gap-2">
+            Scadenza della richiesta di scambio (facoltativa)
+            <input
+              type="datetime-local"
+              value={swapDeadline}
+              onChange={(e) => setSwapDeadline(e.target.value)}
+              className="rounded-md border-gray-300 text-sm"
+            />
+          </label>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={offerMode}
+              onChange={(e) => setOfferMode(e.target.value as OfferClaimMode)}
+              className="rounded-md border-gray-300 text-sm"
+            >
+              {(Object.keys(CLAIM_MODE_LABELS) as OfferClaimMode[]).map(mode => (
+                <option key={mode} value={mode}>{CLAIM_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={offerNote}
+              onChange={(e) => setOfferNote(e.target.value)}
+              placeholder="Nota per i colleghi (facoltativa)"
+              className="flex-1 min-w-[12rem] rounded-md border-gray-300 text-sm"
+            />
+            <button
+              onClick={createOffer}
+              disabled={isLoading}
+              className="inline-flex items-center gap-1 px-3 py-1 text-sm rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+            >
+              <Gift className="h-4 w-4" />
+              Offri in bacheca
+            </button>
+          </div>
+        </div>
+      )}
+
+      {threadSwapId && (
+        <SwapThread
+          swaps={swapThreadIds(swaps, threadSwapId)
+            .map(id => swaps.find(swap => swap.id === id))
+            .filter((swap): swap is SwapRequest => swap !== undefined)}
+          currentEmployeeCode={currentEmployeeCode}
+          colleagues={matrix.slice(2).map(row => row[0])}
+          onClose={() => setThreadSwapId(null)}
+          onCountered={async (rows) => {
+            await loadSwaps();
+            applySwapResult(rows);
+          }}
+        />
+      )}
+
       {error && (
-        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+        <div className="bg-red-50 text-red-700 p-4 rounded-md whitespace-pre-line">
           {error}
         </div>
       )}
 
+      {offlineSavedAt && (
+        <div className="flex items-center gap-2 bg-amber-50 text-amber-800 p-3 rounded-md text-sm">
+          <WifiOff className="h-4 w-4" />
+          Sei offline: turni salvati il {new Date(offlineSavedAt).toLocaleString('it-IT')}. Scambi e modifiche non sono disponibili.
+        </div>
+      )}
+
+      {complianceViolations.size > 0 && (
+        <div className="flex items-center gap-2 text-sm text-red-700">
+          <ShieldAlert className="h-4 w-4" />
+          {complianceViolations.size === 1
+            ? '1 turno non rispetta i riposi minimi'
+            : `${complianceViolations.size} turni non rispettano i riposi minimi`}
+          {' '}(passa il mouse sulle celle evidenziate per i dettagli)
+        </div>
+      )}
+
       <div className="overflow-x-auto">
         {matrix.length > 0 ? (
           <table className="min-w-full divide-y divide-gray-200">
@@ -508,9 +878,21 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
                 <tr key={rowIndex}>
                   {row.map((cell, colIndex) => {
                     const swap = getSwapForCell(rowIndex + 2, colIndex);
-                    const isSelected = selectedCells.some(([r, c]) => r === rowIndex + 2 && c === colIndex);
+                    const chain = swap ? undefined : getChainForCell(rowIndex + 2, colIndex);
+                    const offer = swap || chain ? undefined : getOfferForCell(rowIndex + 2, colIndex);
+                    const isSelected = [...selectedCells, ...chainCells].some(([r, c]) => r === rowIndex + 2 && c === colIndex);
                     const isCurrentUser = row[0] === currentEmployeeCode;
-                    const finalShift = getFinalShift(rowIndex + 2, colIndex);
+                    const isSwapped = colIndex > 0 &&
+                      swappedCells.has(cellKey(row[0], matrix[0][colIndex].split('/').reverse().join('-')));
+                    const shiftCode = colIndex > 0 ? lookup(cell) : undefined;
+                    const cellViolations = colIndex > 0
+                      ? complianceViolations.get(cellKey(row[0], matrix[0][colIndex].split('/').reverse().join('-'))) ?? []
+                      : [];
+                    const cellTitle = [
+                      shiftCode && describeShiftCode(shiftCode),
+                      isSwapped && 'Turno modificato da uno scambio o da un turno ceduto',
+                      ...cellViolations.map(v => v.message)
+                    ].filter(Boolean).join('\n');
 
                     return (
                       <td
@@ -519,14 +901,33 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
                         className={`px-6 py-4 whitespace-nowrap relative ${
                           colIndex === 0 ? 'font-medium text-gray-900' : 'text-gray-500'
                         } cursor-pointer ${isSelected ? 'bg-yellow-100' : ''} ${
-                          isCurrentUser || isAdmin ? 'hover:bg-gray-50' : ''
+                          isCurrentUser || canApprove ? 'hover:bg-gray-50' : ''
                         }`}
                       >
                         {swap ? (
-                          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-2">
-                            <div className="font-medium">{finalShift}</div>
+                          <div className={`rounded-lg p-2 border ${
+                            swap.status === 'pending_manager' ? 'bg-blue-50 border-blue-200' : 'bg-yellow-50 border-yellow-200'
+                          }`}>
+                            <div className="font-medium">{cell}</div>
                             <div className="text-xs text-yellow-600">
-                              {swap.toEmployee === row[0] ? (
+                              {swap.status === 'pending_manager' ? (
+                                <div className="flex items-center justify-between gap-2 text-blue-700">
+                                  <span>In attesa del responsabile</span>
+                                  {swap.fromEmployee === currentEmployeeCode && (
+                                    <button
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleCancelSwap(swap.id);
+                                      }}
+                                      className="p-1 hover:bg-red-100 rounded disabled:opacity-50"
+                                      disabled={isLoading}
+                                      title="Annulla richiesta"
+                                    >
+                                      <X className="h-4 w-4 text-red-600" />
+                                    </button>
+                                  )}
+                                </div>
+                              ) : swap.toEmployee === row[0] ? (
                                 <div className="flex items-center gap-2">
                                   <span>Richiesta da {swap.fromEmployee}</span>
                                   <div className="flex gap-1">
@@ -571,9 +972,74 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
                                 </div>
                               )}
                             </div>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setThreadSwapId(swap.id);
+                              }}
+                              className="mt-1 flex max-w-[14rem] items-center gap-1 text-left text-xs text-gray-600 hover:text-indigo-700"
+                              title={lastMessages.get(swap.id)?.body ?? 'Apri i messaggi'}
+                            >
+                              <MessageSquare className="h-3 w-3 flex-shrink-0" />
+                              <span className="truncate">
+                                {lastMessages.has(swap.id)
+                                  ? `${lastMessages.get(swap.id)!.author_code ?? 'Responsabile'}: ${lastMessages.get(swap.id)!.body}`
+                                  : 'Messaggi'}
+                              </span>
+                            </button>
+                            {swap.expiresAt && (
+                              <div className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+                                <Clock className="h-3 w-3" />
+                                Scade il {new Date(swap.expiresAt).toLocaleString('it-IT', { dateStyle: 'short', timeStyle: 'short' })}
+                              </div>
+                            )}
+                          </div>
+                        ) : chain ? (
+                          <SwapChainBadge
+                            chain={chain}
+                            cell={cell}
+                            employeeCode={row[0]}
+                            currentEmployeeCode={currentEmployeeCode}
+                            currentUserId={user?.id}
+                            disabled={isLoading}
+                            onAccept={(chainId) => handleChainResponse(chainId, true)}
+                            onReject={(chainId) => handleChainResponse(chainId, false)}
+                            onCancel={handleCancelChain}
+                          />
+                        ) : offer ? (
+                          <div className="bg-green-50 border border-green-200 rounded-lg p-2">
+                            <div className="font-medium">{cell}</div>
+                            <div className="flex items-center justify-between gap-2 text-xs text-green-700">
+                              <span className="inline-flex items-center gap-1" title={offer.note ?? undefined}>
+                                <Gift className="h-3 w-3" />
+                                {offer.status === 'pending_manager' ? `Preso da ${offer.claimed_by}, da approvare` : 'In bacheca'}
+                              </span>
+                              {(offer.employee_code === currentEmployeeCode || canApprove) && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    handleCancelOffer(offer.id);
+                                  }}
+                                  className="p-1 hover:bg-red-100 rounded disabled:opacity-50"
+                                  disabled={isLoading}
+                                  title="Ritira dalla bacheca"
+                                >
+                                  <X className="h-4 w-4 text-red-600" />
+                                </button>
+                              )}
+                            </div>
                           </div>
                         ) : (
-                          <div>{finalShift}</div>
+                          <div
+                            className={`${shiftCode || isSwapped || cellViolations.length > 0 ? 'inline-flex items-center gap-1 px-1 rounded' : ''} ${
+                              isSwapped ? 'ring-1 ring-indigo-400 text-indigo-700 font-medium' : ''
+                            } ${cellViolations.length > 0 ? 'outline outline-2 outline-red-500' : ''}`}
+                            style={shiftCode ? { backgroundColor: shiftCode.color } : undefined}
+                            title={cellTitle || undefined}
+                          >
+                            {cell}
+                            {cellViolations.length > 0 && <ShieldAlert className="h-3 w-3 text-red-600" />}
+                          </div>
                         )}
                       </td>
                     );
@@ -583,8 +1049,16 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
             </tbody>
           </table>
         ) : (
-          <div className="text-center py-8 text-gray-500">
-            Nessun turno disponibile. Carica una nuova matrice.
+          <div className="text-center py-8 text-gray-500 space-y-2">
+            <p>Nessun turno caricato per questa settimana.</p>
+            {availableWeeks.length > 0 && (
+              <button
+                onClick={() => setCurrentWeekStart(availableWeeks[0])}
+                className="text-sm text-indigo-600 hover:text-indigo-800"
+              >
+                Vai all'ultima settimana caricata ({formatDate(availableWeeks[0])})
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -604,37 +1078,80 @@ export default function ShiftList({ initialDate }: ShiftListProps) {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {swaps.map((swap) => (
-                  <tr key={swap.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(swap.date)}</td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {swap.fromEmployee} ({swap.fromShift})
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {swap.toEmployee} ({swap.toShift})
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
-                        swap.status === 'accepted' ? 'bg-green-100 text-green-800' :
-                        swap.status === 'rejected' ? 'bg-red-100 text-red-800' :
-                        swap.status === 'cancelled' ? 'bg-gray-100 text-gray-800' :
-                        'bg-yellow-100 text-yellow-800'
-                      }`}>
-                        {swap.status === 'accepted' ? 'Accettato' :
-                         swap.status === 'rejected' ? 'Rifiutato' :
-                         swap.status === 'cancelled' ? 'Annullato' :
-                         'In attesa'}
-                      </span>
-                    </td>
-                  </tr>
-                ))}
+                {history.map((entry) => {
+                  const item = entry.kind === 'swap'
+                    ? { id: entry.swap.id, date: entry.swap.date, status: entry.swap.status, stale: entry.swap.stale, managerComment: entry.swap.managerComment }
+                    : { id: entry.chain.id, date: entry.chain.date, status: entry.chain.status, stale: entry.chain.stale, managerComment: entry.chain.manager_comment };
+
+                  return (
+                    <tr key={item.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatDate(item.date)}</td>
+                      {entry.kind === 'swap' ? (
+                        <>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {entry.swap.fromEmployee} ({entry.swap.fromShift})
+                            {entry.swap.counterOf && (
+                              <span className="ml-2 text-xs text-purple-700">controproposta</span>
+                            )}
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                            {entry.swap.toEmployee} ({entry.swap.toShift})
+                          </td>
+                        </>
+                      ) : (
+                        <td colSpan={2} className="px-6 py-4 text-sm text-gray-900">
+                          <span className="inline-flex items-center gap-1 font-medium text-purple-700">
+                            <Repeat className="h-3 w-3" />
+                            Rotazione:
+                          </span>{' '}
+                          {entry.chain.participants.map(p => `${p.employee_code} (${p.shift} → ${p.takes_shift})`).join(', ')}
+                        </td>
+                      )}
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                          item.status === 'accepted' ? 'bg-green-100 text-green-800' :
+                          item.status === 'rejected' ? 'bg-red-100 text-red-800' :
+                          item.status === 'cancelled' ? 'bg-gray-100 text-gray-800' :
+                          item.status === 'pending_manager' ? 'bg-blue-100 text-blue-800' :
+                          item.status === 'countered' ? 'bg-purple-100 text-purple-800' :
+                          item.status === 'expired' ? 'bg-orange-100 text-orange-800' :
+                          'bg-yellow-100 text-yellow-800'
+                        }`}>
+                          {SWAP_STATUS_LABELS[item.status]}
+                        </span>
+                        {item.stale && item.status === 'accepted' && (
+                          <span
+                            className="ml-2 inline-flex items-center gap-1 text-xs text-amber-700"
+                            title="I turni dello scambio non corrispondono più alla matrice pubblicata"
+                          >
+                            <AlertTriangle className="h-3 w-3" />
+                            Da verificare
+                          </span>
+                        )}
+                        {item.managerComment && (
+                          <p className="mt-1 text-xs text-gray-500">Responsabile: {item.managerComment}</p>
+                        )}
+                        {entry.kind === 'swap' && (
+                          <button
+                            onClick={() => setThreadSwapId(entry.swap.id)}
+                            className="ml-2 inline-flex items-center text-gray-400 hover:text-indigo-700"
+                            title="Messaggi"
+                          >
+                            <MessageSquare className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           </div>
         </div>
       </div>
 
-      <PDFExport matrix={matrix} />
+      <ReportGenerator weekStart={currentWeekStart} />
+      <ScheduleExport weekStart={currentWeekStart} />
     </div>
   );
 }
\ No newline at end of file
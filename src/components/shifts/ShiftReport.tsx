@@ -0,0 +1,219 @@
+import { Document, Page, StyleSheet, Text, View } from '@react-pdf/renderer';
+import { chunk, DAYS_PER_PAGE, ReportOrientation, ShiftReportData } from '../../lib/reports';
+import { describeShiftCode, findShiftCode, formatDuration, ShiftCodeIndex } from '../../lib/shiftCodes';
+import { formatDate } from '../../lib/weeks';
+
+interface ShiftReportProps {
+  data: ShiftReportData;
+  orientation: ReportOrientation;
+  perEmployee: boolean;
+  shiftCodes: ShiftCodeIndex;
+}
+
+const CODE_COLUMN_WIDTH = 10;
+const HOURS_COLUMN_WIDTH = 7;
+
+const styles = StyleSheet.create({
+  page: {
+    backgroundColor: '#ffffff',
+    paddingTop: 24,
+    paddingBottom: 36,
+    paddingHorizontal: 24,
+    fontSize: 8
+  },
+  title: {
+    fontSize: 14,
+    marginBottom: 4
+  },
+  subtitle: {
+    fontSize: 9,
+    color: '#555555',
+    marginBottom: 10
+  },
+  table: {
+    width: '100%',
+    borderTopWidth: 1,
+    borderLeftWidth: 1,
+    borderColor: '#999999'
+  },
+  row: {
+    flexDirection: 'row'
+  },
+  cell: {
+    paddingVertical: 3,
+    paddingHorizontal: 2,
+    borderRightWidth: 1,
+    borderBottomWidth: 1,
+    borderColor: '#999999',
+    textAlign: 'center'
+  },
+  header: {
+    backgroundColor: '#eeeeee',
+    fontFamily: 'Helvetica-Bold'
+  },
+  swapped: {
+    fontFamily: 'Helvetica-BoldOblique'
+  },
+  legend: {
+    marginTop: 12,
+    flexDirection: 'row',
+    flexWrap: 'wrap'
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '33%',
+    marginBottom: 3
+  },
+  swatch: {
+    width: 18,
+    paddingVertical: 1,
+    marginRight: 4,
+    borderWidth: 1,
+    borderColor: '#999999',
+    textAlign: 'center'
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 16,
+    left: 24,
+    right: 24,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    color: '#777777'
+  }
+});
+
+export function ShiftReport({ data, orientation, perEmployee, shiftCodes }: ShiftReportProps) {
+  const period = `dal ${formatDate(data.from)} al ${formatDate(data.to)}`;
+  const dayChunks = chunk(data.days, DAYS_PER_PAGE[orientation]);
+  const generatedAt = new Date().toLocaleString('it-IT');
+
+  const footer = (
+    <View style={styles.footer} fixed>
+      <Text>Generato il {generatedAt}</Text>
+      <Text render={({ pageNumber, totalPages }) => `Pagina ${pageNumber} di ${totalPages}`} />
+    </View>
+  );
+
+  const colorOf = (shift: string) => findShiftCode(shiftCodes, shift)?.color;
+
+  return (
+    <Document title={`Turni ${period}`}>
+      {dayChunks.map((days, chunkIndex) => {
+        const isLast = chunkIndex === dayChunks.length - 1;
+        const dayWidth = (100 - CODE_COLUMN_WIDTH - (isLast ? HOURS_COLUMN_WIDTH : 0)) / days.length;
+
+        return (
+          <Page key={days[0].iso} size="A4" orientation={orientation} style={styles.page}>
+            <View fixed>
+              <Text style={styles.title}>Turni {period}</Text>
+              <Text style={styles.subtitle}>
+                Giorni dal {formatDate(days[0].iso)} al {formatDate(days[days.length - 1].iso)}
+                {dayChunks.length > 1 && ` · parte ${chunkIndex + 1} di ${dayChunks.length}`}
+                {' · in corsivo grassetto con * i turni cambiati da scambi, rotazioni o offerte'}
+              </Text>
+            </View>
+
+            <View style={styles.table}>
+              <View style={styles.row} fixed>
+                <Text style={[styles.cell, styles.header, { width: `${CODE_COLUMN_WIDTH}%` }]}>Dipendente</Text>
+                {days.map(day => (
+                  <Text key={day.iso} style={[styles.cell, styles.header, { width: `${dayWidth}%` }]}>
+                    {day.day} {day.label}
+                  </Text>
+                ))}
+                {isLast && <Text style={[styles.cell, styles.header, { width: `${HOURS_COLUMN_WIDTH}%` }]}>Ore</Text>}
+              </View>
+
+              {data.employees.map(employee => (
+                <View key={employee.code} style={styles.row} wrap={false}>
+                  <Text style={[styles.cell, { width: `${CODE_COLUMN_WIDTH}%`, textAlign: 'left' }]}>{employee.code}</Text>
+                  {days.map(day => {
+                    const cell = employee.cells.get(day.iso);
+                    const color = cell ? colorOf(cell.shift) : undefined;
+                    return (
+                      <Text
+                        key={day.iso}
+                        style={[
+                          styles.cell,
+                          { width: `${dayWidth}%` },
+                          ...(color ? [{ backgroundColor: color }] : []),
+                          ...(cell?.swapped ? [styles.swapped] : [])
+                        ]}
+                      >
+                        {cell?.shift || '-'}{cell?.swapped ? '*' : ''}
+                      </Text>
+                    );
+                  })}
+                  {isLast && (
+                    <Text style={[styles.cell, { width: `${HOURS_COLUMN_WIDTH}%` }]}>
+                      {formatDuration(Math.round(employee.minutes))}
+                    </Text>
+                  )}
+                </View>
+              ))}
+            </View>
+
+            {isLast && data.legend.length > 0 && (
+              <View style={styles.legend} wrap={false}>
+                {data.legend.map(shiftCode => (
+                  <View key={shiftCode.code} style={styles.legendItem}>
+                    <Text style={[styles.swatch, { backgroundColor: shiftCode.color }]}>{shiftCode.code}</Text>
+                    <Text>{describeShiftCode(shiftCode)}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {footer}
+          </Page>
+        );
+      })}
+
+      {perEmployee && data.employees.map(employee => (
+        <Page key={employee.code} size="A4" style={styles.page}>
+          <View fixed>
+            <Text style={styles.title}>Turni di {employee.code}</Text>
+            <Text style={styles.subtitle}>
+              {period} · {formatDuration(Math.round(employee.minutes)) || '0h'} di turni lavorativi
+            </Text>
+          </View>
+
+          <View style={styles.table}>
+            <View style={styles.row} fixed>
+              <Text style={[styles.cell, styles.header, { width: '18%' }]}>Data</Text>
+              <Text style={[styles.cell, styles.header, { width: '12%' }]}>Turno</Text>
+              <Text style={[styles.cell, styles.header, { width: '70%' }]}>Dettaglio</Text>
+            </View>
+            {data.days.map(day => {
+              const cell = employee.cells.get(day.iso);
+              const shiftCode = cell ? findShiftCode(shiftCodes, cell.shift) : undefined;
+              return (
+                <View key={day.iso} style={styles.row} wrap={false}>
+                  <Text style={[styles.cell, { width: '18%', textAlign: 'left' }]}>{day.day} {formatDate(day.iso)}</Text>
+                  <Text
+                    style={[
+                      styles.cell,
+                      { width: '12%' },
+                      ...(shiftCode ? [{ backgroundColor: shiftCode.color }] : []),
+                      ...(cell?.swapped ? [styles.swapped] : [])
+                    ]}
+                  >
+                    {cell?.shift || '-'}{cell?.swapped ? '*' : ''}
+                  </Text>
+                  <Text style={[styles.cell, { width: '70%', textAlign: 'left' }]}>
+                    {shiftCode ? describeShiftCode(shiftCode) : ''}
+                    {cell?.swapped ? ' · cambiato da scambio' : ''}
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+
+          {footer}
+        </Page>
+      ))}
+    </Document>
+  );
+}
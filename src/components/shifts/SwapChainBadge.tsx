@@ -0,0 +1,88 @@
+import { Check, Repeat, X } from 'lucide-react';
+import { SwapChain } from '../../lib/swaps';
+
+interface SwapChainBadgeProps {
+  chain: SwapChain;
+  cell: string;
+  employeeCode: string;
+  currentEmployeeCode?: string;
+  currentUserId?: string;
+  disabled: boolean;
+  onAccept: (chainId: string) => void;
+  onReject: (chainId: string) => void;
+  onCancel: (chainId: string) => void;
+}
+
+// Cella coinvolta in una rotazione in attesa: mostra il turno che il dipendente riceverà
+export function SwapChainBadge({
+  chain,
+  cell,
+  employeeCode,
+  currentEmployeeCode,
+  currentUserId,
+  disabled,
+  onAccept,
+  onReject,
+  onCancel
+}: SwapChainBadgeProps) {
+  const participant = chain.participants.find(p => p.employee_code === employeeCode);
+  if (!participant) return null;
+
+  const waiting = chain.participants.filter(p => !p.accepted_at).map(p => p.employee_code);
+  const canRespond = chain.status === 'pending' && employeeCode === currentEmployeeCode && !participant.accepted_at;
+  const canCancel = chain.created_by === currentUserId && employeeCode === currentEmployeeCode;
+
+  const stopAnd = (action: (chainId: string) => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    action(chain.id);
+  };
+
+  return (
+    <div className="bg-purple-50 border border-purple-200 rounded-lg p-2">
+      <div className="font-medium">{cell}</div>
+      <div className="flex items-center justify-between gap-2 text-xs text-purple-700">
+        <span
+          className="inline-flex items-center gap-1"
+          title={chain.participants.map(p => `${p.employee_code}: ${p.shift} → ${p.takes_shift}`).join('\n')}
+        >
+          <Repeat className="h-3 w-3" />
+          {chain.status === 'pending_manager'
+            ? 'Rotazione in attesa del responsabile'
+            : `Rotazione: prende ${participant.takes_shift}${waiting.length > 0 ? ` (attende ${waiting.join(', ')})` : ''}`}
+        </span>
+        <div className="flex gap-1">
+          {canRespond && (
+            <>
+              <button
+                onClick={stopAnd(onAccept)}
+                className="p-1 hover:bg-green-100 rounded disabled:opacity-50"
+                disabled={disabled}
+                title="Accetta rotazione"
+              >
+                <Check className="h-4 w-4 text-green-600" />
+              </button>
+              <button
+                onClick={stopAnd(onReject)}
+                className="p-1 hover:bg-red-100 rounded disabled:opacity-50"
+                disabled={disabled}
+                title="Rifiuta rotazione"
+              >
+                <X className="h-4 w-4 text-red-600" />
+              </button>
+            </>
+          )}
+          {canCancel && (
+            <button
+              onClick={stopAnd(onCancel)}
+              className="p-1 hover:bg-red-100 rounded disabled:opacity-50"
+              disabled={disabled}
+              title="Annulla rotazione"
+            >
+              <X className="h-4 w-4 text-red-600" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { loadSwapExpirySettings, saveSwapExpirySettings, SwapExpirySettings } from '../../lib/swapExpiry';
+
+export function SwapExpirySettingsForm() {
+  const [settings, setSettings] = useState<SwapExpirySettings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  const loadSettings = async () => {
+    try {
+      setSettings(await loadSwapExpirySettings());
+    } catch (err) {
+      console.error('Error loading swap expiry settings:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento delle impostazioni sulle scadenze');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!settings) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setSaved(false);
+      await saveSwapExpirySettings(settings);
+      setSaved(true);
+    } catch (err) {
+      console.error('Error saving swap expiry settings:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel salvataggio delle impostazioni sulle scadenze');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const update = (changes: Partial<SwapExpirySettings>) => {
+    if (!settings) return;
+    setSaved(false);
+    setSettings({ ...settings, ...changes });
+  };
+
+  const inputClass = 'mt-1 block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+  return (
+    <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+      <h2 className="text-lg font-medium text-gray-900">Scadenza delle richieste</h2>
+      <p className="text-sm text-gray-600">
+        Le richieste di scambio ancora in attesa scadono automaticamente alla loro scadenza oppure
+        alcune ore prima dell'inizio del turno. I colleghi coinvolti ricevono una notifica.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {settings && (
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <label className="block text-sm font-medium text-gray-700">
+            Ore prima del turno
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={settings.hours_before_shift}
+              onChange={(e) => update({ hours_before_shift: Number(e.target.value) })}
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Scadenza predefinita (ore)
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={settings.default_deadline_hours ?? ''}
+              onChange={(e) => update({ default_deadline_hours: e.target.value ? Number(e.target.value) : null })}
+              placeholder="Nessuna"
+              className={inputClass}
+            />
+          </label>
+          <label className="block text-sm font-medium text-gray-700">
+            Fuso orario dei turni
+            <input
+              type="text"
+              value={settings.timezone}
+              onChange={(e) => update({ timezone: e.target.value })}
+              className={inputClass}
+            />
+          </label>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleSave}
+              disabled={isLoading || !settings.timezone.trim()}
+              className="px-4 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              Salva
+            </button>
+            {saved && <span className="text-sm text-green-700">Salvato</span>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useEffect, useState } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import {
+  addQualification,
+  deleteSwapRule,
+  EmployeeQualification,
+  loadQualifications,
+  loadSwapRules,
+  removeQualification,
+  saveSwapRule,
+  SWAP_RULE_TYPES,
+  SwapRule,
+  SwapRuleType
+} from '../../lib/swapRules';
+
+export function SwapRulesEditor() {
+  const [rules, setRules] = useState<SwapRule[]>([]);
+  const [qualifications, setQualifications] = useState<EmployeeQualification[]>([]);
+  const [newRuleType, setNewRuleType] = useState<SwapRuleType>('min_rest_hours');
+  const [newQualification, setNewQualification] = useState<EmployeeQualification>({ employee_code: '', qualification: '' });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    try {
+      const [loadedRules, loadedQualifications] = await Promise.all([loadSwapRules(), loadQualifications()]);
+      setRules(loadedRules);
+      setQualifications(loadedQualifications);
+    } catch (err) {
+      console.error('Error loading swap rules:', err);
+      setError(err instanceof Error ? err.message : 'Errore nel caricamento delle regole');
+    }
+  };
+
+  // Esegue un'operazione sul database e ricarica regole e qualifiche
+  const run = async (action: () => Promise<void>, fallbackMessage: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      await action();
+      await loadData();
+    } catch (err) {
+      console.error('Error updating swap rules:', err);
+      setError(err instanceof Error ? err.message : fallbackMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateRule = (id: string, changes: Partial<SwapRule>) => {
+    setRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleAddRule = () => run(async () => {
+    const type = SWAP_RULE_TYPES[newRuleType];
+    await saveSwapRule({
+      rule_type: newRuleType,
+      description: type.label,
+      params: Object.fromEntries(type.params.map(param => [param.key, param.defaultValue])),
+      enabled: true,
+      applies_to_admins: false
+    });
+  }, 'Errore nella creazione della regola');
+
+  const handleAddQualification = () => run(async () => {
+    const employeeCode = newQualification.employee_code.trim().toUpperCase();
+    const qualification = newQualification.qualification.trim();
+    if (!employeeCode || !qualification) {
+      throw new Error('Indica sigla e qualifica');
+    }
+    await addQualification({ employee_code: employeeCode, qualification });
+    setNewQualification({ employee_code: '', qualification: '' });
+  }, 'Errore nel salvataggio della qualifica');
+
+  const inputClass = 'rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500';
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <h2 className="text-lg font-medium text-gray-900">Regole per gli scambi</h2>
+          <div className="flex items-center gap-2">
+            <select
+              value={newRuleType}
+              onChange={(e) => setNewRuleType(e.target.value as SwapRuleType)}
+              className={inputClass}
+            >
+              {Object.entries(SWAP_RULE_TYPES).map(([type, { label }]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddRule}
+              disabled={isLoading}
+              className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+              Aggiungi
+            </button>
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-600">
+          Le regole attive vengono verificate quando uno scambio viene richiesto, accettato e approvato, anche per i
+          responsabili. Chi approva può applicare uno scambio in deroga alle regole derogabili indicando un motivo, che
+          resta registrato.
+        </p>
+
+        <ul className="divide-y divide-gray-100">
+          {rules.map(rule => (
+            <li key={rule.id} className="py-3 flex flex-wrap items-end gap-4">
+              <label className="block text-sm font-medium text-gray-700 flex-1 min-w-[16rem]">
+                {SWAP_RULE_TYPES[rule.rule_type].label}
+                <input
+                  value={rule.description}
+                  onChange={(e) => updateRule(rule.id, { description: e.target.value })}
+                  className={`mt-1 block w-full ${inputClass}`}
+                />
+              </label>
+              {SWAP_RULE_TYPES[rule.rule_type].params.map(param => (
+                <label key={param.key} className="block text-sm font-medium text-gray-700">
+                  {param.label}
+                  <input
+                    type={typeof param.defaultValue === 'number' ? 'number' : 'text'}
+                    value={rule.params[param.key] ?? param.defaultValue}
+                    onChange={(e) => updateRule(rule.id, {
+                      params: {
+                        ...rule.params,
+                        [param.key]: typeof param.defaultValue === 'number' ? Number(e.target.value) : e.target.value
+                      }
+                    })}
+                    className={`mt-1 block w-32 ${inputClass}`}
+                  />
+                </label>
+              ))}
+              <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600"
+                />
+                Attiva
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+                <input
+                  type="checkbox"
+                  checked={rule.applies_to_admins}
+                  onChange={(e) => updateRule(rule.id, { applies_to_admins: e.target.checked })}
+                  className="rounded border-gray-300 text-indigo-600"
+                />
+                Non derogabile dai responsabili
+              </label>
+              <div className="flex gap-1 pb-1">
+                <button
+                  onClick={() => run(() => saveSwapRule(rule), 'Errore nel salvataggio della regola')}
+                  disabled={isLoading}
+                  className="p-2 hover:bg-indigo-50 rounded disabled:opacity-50"
+                  title="Salva"
+                >
+                  <Save className="h-4 w-4 text-indigo-600" />
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Eliminare la regola "${rule.description}"?`)) {
+                      run(() => deleteSwapRule(rule.id), 'Errore nell\'eliminazione della regola');
+                    }
+                  }}
+                  disabled={isLoading}
+                  className="p-2 hover:bg-red-50 rounded disabled:opacity-50"
+                  title="Elimina"
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="bg-white shadow sm:rounded-lg p-4 space-y-4">
+        <h2 className="text-lg font-medium text-gray-900">Qualifiche dei dipendenti</h2>
+        <p className="text-sm text-gray-600">
+          Usate dalla regola sulle qualifiche insieme alla qualifica richiesta indicata nel catalogo dei codici turno.
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={newQualification.employee_code}
+            onChange={(e) => setNewQualification({ ...newQualification, employee_code: e.target.value })}
+            placeholder="Sigla"
+            className={`w-24 ${inputClass}`}
+          />
+          <input
+            value={newQualification.qualification}
+            onChange={(e) => setNewQualification({ ...newQualification, qualification: e.target.value })}
+            placeholder="Qualifica"
+            className={inputClass}
+          />
+          <button
+            onClick={handleAddQualification}
+            disabled={isLoading}
+            className="inline-flex items-center gap-1 px-3 py-2 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            Aggiungi
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {qualifications.map(q => (
+            <span
+              key={`${q.employee_code}-${q.qualification}`}
+              className="inline-flex items-center gap-1 px-2 py-1 text-sm bg-gray-100 rounded-md"
+            >
+              <span className="font-medium">{q.employee_code}</span>
+              {q.qualification}
+              <button
+                onClick={() => run(() => removeQualification(q), 'Errore nella rimozione della qualifica')}
+                disabled={isLoading}
+                className="ml-1 text-gray-400 hover:text-red-600"
+                title="Rimuovi"
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useEffect, useState } from 'react';
+import { CornerUpLeft, MessageSquare, Send, X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { EffectiveShiftRow } from '../../lib/schedule';
+import { counterSwap, loadSwapMessages, postSwapMessage, SwapMessage, SwapStatus } from '../../lib/swaps';
+import { formatDate } from '../../lib/weeks';
+
+export interface ThreadSwap {
+  id: string;
+  date: string;
+  fromEmployee: string;
+  toEmployee: string;
+  fromShift: string;
+  toShift: string;
+  status: SwapStatus;
+}
+
+interface SwapThreadProps {
+  // Richieste collegate da controproposte, dalla prima all'ultima
+  swaps: ThreadSwap[];
+  currentEmployeeCode?: string;
+  // Colleghi a cui proporre la controproposta
+  colleagues: string[];
+  onClose: () => void;
+  onCountered: (rows: EffectiveShiftRow[]) => void;
+}
+
+export function SwapThread({ swaps, currentEmployeeCode, colleagues, onClose, onCountered }: SwapThreadProps) {
+  const [messages, setMessages] = useState<SwapMessage[]>([]);
+  const [body, setBody] = useState('');
+  const [counterDate, setCounterDate] = useState('');
+  const [counterEmployee, setCounterEmployee] = useState('');
+  const [showCounter, setShowCounter] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const threadKey = swaps.map(swap => swap.id).join(',');
+  const latest = swaps[swaps.length - 1];
+  const canCounter = latest?.status === 'pending' && latest.toEmployee === currentEmployeeCode;
+  // Di default la controproposta va a chi ha chiesto lo scambio
+  const counterTarget = counterEmployee || latest?.fromEmployee;
+  const isSameCell = counterDate === latest?.date && counterTarget === latest?.fromEmployee;
+
+  useEffect(() => {
+    const swapIds = threadKey.split(',');
+    const loadMessages = async () => {
+      try {
+        setMessages(await loadSwapMessages(swapIds));
+      } catch (err) {
+        console.error('Error loading swap messages:', err);
+        setError(err instanceof Error ? err.message : 'Errore nel caricamento dei messaggi');
+      }
+    };
+
+    loadMessages();
+
+    const channel = supabase.channel(`swap-thread-${swapIds.join('-')}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'swap_messages' }, () => loadMessages())
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [threadKey]);
+
+  const handleSend = async () => {
+    if (!latest || !body.trim()) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const message = await postSwapMessage(latest.id, body.trim());
+      setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+      setBody('');
+    } catch (err) {
+      console.error('Error posting swap message:', err);
+      setError(err instanceof Error ? err.message : 'Errore nell\'invio del messaggio');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCounter = async () => {
+    if (!latest || !counterDate) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const rows = await counterSwap(latest.id, { date: counterDate, toEmployee: counterTarget }, body.trim() || undefined);
+      setBody('');
+      setCounterDate('');
+      setCounterEmployee('');
+      setShowCounter(false);
+      onCountered(rows);
+    } catch (err) {
+      console.error('Error creating counter-offer:', err);
+      setError(err instanceof Error ? err.message : 'Errore nella creazione della controproposta');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const describe = (swap: ThreadSwap) =>
+    `${formatDate(swap.date)}: ${swap.fromEmployee} (${swap.fromShift}) ↔ ${swap.toEmployee} (${swap.toShift})`;
+
+  return (
+    <div className="bg-white border border-gray-200 shadow-sm rounded-md p-4 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <h3 className="flex items-center gap-2 text-sm font-medium text-gray-900">
+          <MessageSquare className="h-4 w-4" />
+          Messaggi sullo scambio {latest && describe(latest)}
+        </h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="Chiudi">
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-2 rounded-md text-sm whitespace-pre-line">
+          {error}
+        </div>
+      )}
+
+      <div className="max-h-64 overflow-y-auto space-y-2 text-sm">
+        {swaps.map((swap, index) => {
+          const swapMessages = messages.filter(message => message.swap_id === swap.id);
+          return (
+            <div key={swap.id} className="space-y-2">
+              {index > 0 && (
+                <p className="flex items-center gap-1 text-xs text-purple-700">
+                  <CornerUpLeft className="h-3 w-3" />
+                  Controproposta di {swap.fromEmployee}: {describe(swap)}
+                </p>
+              )}
+              {swapMessages.map(message => (
+                <div
+                  key={message.id}
+                  className={`rounded-md px-3 py-2 ${
+                    message.author_code === currentEmployeeCode ? 'bg-indigo-50 ml-8' : 'bg-gray-50 mr-8'
+                  }`}
+                >
+                  <p className="text-xs text-gray-500">
+                    <span className="font-medium text-gray-700">{message.author_code ?? 'Responsabile'}</span>
+                    {' · '}{new Date(message.created_at).toLocaleString('it-IT')}
+                  </p>
+                  <p className="whitespace-pre-line text-gray-800">{message.body}</p>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+        {messages.length === 0 && <p className="text-gray-500">Nessun messaggio.</p>}
+      </div>
+
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        rows={2}
+        placeholder="Scrivi un messaggio"
+        className="block w-full rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+      />
+
+      {showCounter && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+          <label className="flex items-center gap-2">
+            Proponi invece lo scambio del
+            <input
+              type="date"
+              value={counterDate}
+              onChange={(e) => setCounterDate(e.target.value)}
+              className="rounded-md border-gray-300 text-sm"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            con
+            <select
+              value={counterTarget}
+              onChange={(e) => setCounterEmployee(e.target.value)}
+              className="rounded-md border-gray-300 text-sm"
+            >
+              {[...new Set([latest.fromEmployee, ...colleagues])]
+                .filter(code => code !== currentEmployeeCode)
+                .map(code => (
+                  <option key={code} value={code}>{code}</option>
+                ))}
+            </select>
+          </label>
+          <span className="text-xs text-gray-500">Il messaggio, se presente, accompagna la controproposta.</span>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        {canCounter && (
+          showCounter ? (
+            <button
+              onClick={handleCounter}
+              disabled={isLoading || !counterDate || isSameCell}
+              className="inline-flex items-center gap-1 px-3 py-1 text-sm rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50"
+            >
+              <CornerUpLeft className="h-4 w-4" />
+              Invia controproposta
+            </button>
+          ) : (
+            <button
+              onClick={() => setShowCounter(true)}
+              className="inline-flex items-center gap-1 px-3 py-1 text-sm rounded-md border border-purple-300 text-purple-700 bg-white hover:bg-purple-50"
+            >
+              <CornerUpLeft className="h-4 w-4" />
+              Controproposta
+            </button>
+          )
+        )}
+        <button
+          onClick={handleSend}
+          disabled={isLoading || !body.trim()}
+          className="inline-flex items-center gap-1 px-3 py-1 text-sm rounded-md text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          <Send className="h-4 w-4" />
+          Invia
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { ChevronLeft, ChevronRight, CalendarDays } from 'lucide-react';
+import { addDays, addWeeks, formatDate, getWeekStart, isISODate, todayISO } from '../../lib/weeks';
+
+interface WeekNavigatorProps {
+  weekStart: string;
+  availableWeeks: string[];
+  onChange: (weekStart: string) => void;
+}
+
+export function WeekNavigator({ weekStart, availableWeeks, onChange }: WeekNavigatorProps) {
+  const weekEnd = addDays(weekStart, 6);
+  const hasData = availableWeeks.includes(weekStart);
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="flex items-center rounded-md border border-gray-300 bg-white">
+        <button
+          onClick={() => onChange(addWeeks(weekStart, -1))}
+          className="p-2 text-gray-600 hover:bg-gray-50 rounded-l-md"
+          title="Settimana precedente"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </button>
+        <span className="px-3 text-sm font-medium text-gray-700 whitespace-nowrap">
+          {formatDate(weekStart)} - {formatDate(weekEnd)}
+        </span>
+        <button
+          onClick={() => onChange(addWeeks(weekStart, 1))}
+          className="p-2 text-gray-600 hover:bg-gray-50 rounded-r-md"
+          title="Settimana successiva"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </button>
+      </div>
+
+      <button
+        onClick={() => onChange(getWeekStart(todayISO()))}
+        className="px-3 py-2 text-sm border border-gray-300 rounded-md text-gray-700 bg-white hover:bg-gray-50"
+      >
+        Oggi
+      </button>
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <CalendarDays className="h-4 w-4" />
+        <input
+          type="date"
+          value={weekStart}
+          onChange={(e) => {
+            if (isISODate(e.target.value)) {
+              onChange(getWeekStart(e.target.value));
+            }
+          }}
+          className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        />
+      </label>
+
+      {availableWeeks.length > 0 && (
+        <select
+          value={hasData ? weekStart : ''}
+          onChange={(e) => e.target.value && onChange(e.target.value)}
+          className="rounded-md border-gray-300 text-sm shadow-sm focus:border-indigo-500 focus:ring-indigo-500"
+        >
+          <option value="">Settimane caricate ({availableWeeks.length})</option>
+          {availableWeeks.map(week => (
+            <option key={week} value={week}>
+              {formatDate(week)} - {formatDate(addDays(week, 6))}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,34 @@
-import { createContext, useContext, useEffect, useState } from 'react';
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
 import { User } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { loadEmployeeForUser } from '../lib/employees';
+import { clearOfflineSchedule } from '../lib/offlineSchedule';
+import { Capability, loadPermissions, Role } from '../lib/permissions';
+import { removePushSubscription } from '../lib/push';
+import { Employee } from '../types/schedule';
 
 interface AuthContextType {
   user: User | null;
+  // Dipendente collegato all'account, null per gli amministratori senza sigla
+  employee: Employee | null;
+  role: Role | null;
+  // Verifica una capacità del ruolo corrente, come has_capability() nel database
+  can: (capability: Capability) => boolean;
   loading: boolean;
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, password: string, employeeCode: string) => Promise<void>;
   signOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
+  reloadProfile: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [employee, setEmployee] = useState<Employee | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+  const [capabilities, setCapabilities] = useState<Set<Capability>>(new Set());
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -43,6 +57,40 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     };
   }, []);
 
+  // Il profilo dipende solo dall'utente: il rinnovo del token cambia l'oggetto user, non l'id
+  const userId = user?.id;
+
+  // Dipendente collegato, ruolo e capacità dell'utente corrente
+  const reloadProfile = useCallback(async () => {
+    if (!userId) {
+      setEmployee(null);
+      setRole(null);
+      setCapabilities(new Set());
+      return;
+    }
+
+    try {
+      const [linkedEmployee, permissions] = await Promise.all([
+        loadEmployeeForUser(userId),
+        loadPermissions(userId)
+      ]);
+      setEmployee(linkedEmployee);
+      setRole(permissions.role);
+      setCapabilities(new Set(permissions.capabilities));
+    } catch (error) {
+      console.error('Error loading profile:', error);
+      setEmployee(null);
+      setRole(null);
+      setCapabilities(new Set());
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    reloadProfile();
+  }, [reloadProfile]);
+
+  const can = (capability: Capability) => capabilities.has(capability);
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({ email, password });
     if (error) throw error;
@@ -67,6 +115,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signOut = async () => {
+    // I turni salvati offline e le notifiche push restano legati al dispositivo, non alla sessione
+    clearOfflineSchedule();
+    try {
+      await removePushSubscription();
+    } catch (error) {
+      console.error('Error removing push subscription:', error);
+    }
+
     try {
       // Clear local state first to ensure the user appears signed out immediately
       clearLocalAuth();
@@ -102,7 +158,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, signIn, signUp, signOut, resetPassword }}>
+    <AuthContext.Provider value={{ user, employee, role, can, loading, signIn, signUp, signOut, resetPassword, reloadProfile }}>
       {children}
     </AuthContext.Provider>
   );
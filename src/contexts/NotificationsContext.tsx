@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  AppNotification,
+  countUnreadNotifications,
+  loadNotifications,
+  markAllNotificationsRead,
+  markNotificationRead
+} from '../lib/notifications';
+import { acceptSwap, approveSwap, rejectSwap } from '../lib/swaps';
+import { useAuth } from './AuthContext';
+import { NotificationsContext, SwapAction } from './useNotifications';
+
+// Notifiche mostrate nel menu della campanella
+const RECENT_LIMIT = 10;
+
+export function NotificationsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [recent, setRecent] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [version, setVersion] = useState(0);
+
+  const reload = async (userId: string) => {
+    try {
+      const [latest, unread] = await Promise.all([
+        loadNotifications(userId, { limit: RECENT_LIMIT }),
+        countUnreadNotifications(userId)
+      ]);
+      setRecent(latest);
+      setUnreadCount(unread);
+      setVersion(v => v + 1);
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) {
+      setRecent([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    reload(user.id);
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${user.id}` },
+        () => reload(user.id)
+      )
+      // Lo stato degli scambi determina le azioni disponibili nelle notifiche
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'shift_swaps_v2' }, () => reload(user.id))
+      .subscribe();
+
+    return () => {
+      channel.unsubscribe();
+    };
+  }, [user]);
+
+  const markRead = async (id: string) => {
+    if (!user) return;
+    await markNotificationRead(id);
+    await reload(user.id);
+  };
+
+  const markAllRead = async () => {
+    if (!user) return;
+    await markAllNotificationsRead(user.id);
+    await reload(user.id);
+  };
+
+  const respondToSwap = async (notification: AppNotification, action: SwapAction, comment?: string) => {
+    if (!user || !notification.swap_id) return;
+
+    if (action === 'accept') {
+      await acceptSwap(notification.swap_id);
+    } else if (action === 'approve') {
+      await approveSwap(notification.swap_id, comment);
+    } else {
+      await rejectSwap(notification.swap_id, comment);
+    }
+
+    if (!notification.read) {
+      await markNotificationRead(notification.id);
+    }
+    await reload(user.id);
+  };
+
+  return (
+    <NotificationsContext.Provider value={{ recent, unreadCount, version, markRead, markAllRead, respondToSwap }}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+}
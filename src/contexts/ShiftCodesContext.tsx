@@ -0,0 +1,55 @@
+import { createContext, useContext, useEffect, useState } from 'react';
+import { ShiftCode } from '../types/schedule';
+import { findShiftCode, indexShiftCodes, loadShiftCodes, ShiftCodeIndex } from '../lib/shiftCodes';
+import { useAuth } from './AuthContext';
+
+interface ShiftCodesContextType {
+  codes: ShiftCode[];
+  index: ShiftCodeIndex;
+  loading: boolean;
+  lookup: (value: string | null | undefined) => ShiftCode | undefined;
+  reload: () => Promise<void>;
+}
+
+const ShiftCodesContext = createContext<ShiftCodesContextType | undefined>(undefined);
+
+export function ShiftCodesProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [codes, setCodes] = useState<ShiftCode[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = async () => {
+    try {
+      setCodes(await loadShiftCodes());
+    } catch (error) {
+      console.error('Error loading shift codes:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      reload();
+    } else {
+      setCodes([]);
+    }
+  }, [user]);
+
+  const index = indexShiftCodes(codes);
+  const lookup = (value: string | null | undefined) => findShiftCode(index, value);
+
+  return (
+    <ShiftCodesContext.Provider value={{ codes, index, loading, lookup, reload }}>
+      {children}
+    </ShiftCodesContext.Provider>
+  );
+}
+
+export function useShiftCodes() {
+  const context = useContext(ShiftCodesContext);
+  if (context === undefined) {
+    throw new Error('useShiftCodes must be used within a ShiftCodesProvider');
+  }
+  return context;
+}
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import { AppNotification } from '../lib/notifications';
+
+export type SwapAction = 'accept' | 'reject' | 'approve';
+
+export interface NotificationsContextType {
+  recent: AppNotification[];
+  unreadCount: number;
+  // Incrementato a ogni modifica, per ricaricare la cronologia completa
+  version: number;
+  markRead: (id: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  respondToSwap: (notification: AppNotification, action: SwapAction, comment?: string) => Promise<void>;
+}
+
+// Separato dal provider, così il file del componente esporta solo componenti (fast refresh)
+export const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export function useNotifications() {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationsProvider');
+  }
+  return context;
+}
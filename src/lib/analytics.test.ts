@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { computeWorkload, EmployeeWorkload, fairnessSummary, metricValue, presetRange } from './analytics';
+import { EffectiveShiftRow } from './schedule';
+import { indexShiftCodes } from './shiftCodes';
+import { ShiftCode } from '../types/schedule';
+
+const code = (overrides: Partial<ShiftCode> & Pick<ShiftCode, 'code' | 'category'>): ShiftCode => ({
+  label: null,
+  start_time: null,
+  end_time: null,
+  duration_minutes: null,
+  suffix_meaning: null,
+  color: '#ffffff',
+  swappable: true,
+  required_qualification: null,
+  ...overrides
+});
+
+const row = (employee_code: string, date: string, shift: string | null): EffectiveShiftRow => ({
+  employee_code,
+  date,
+  shift,
+  base_shift: shift,
+  swap_id: null,
+  display_order: null,
+  chain_id: null,
+  offer_id: null
+});
+
+const shiftCodes = indexShiftCodes([
+  code({ code: 'M', category: 'work', start_time: '06:00:00', end_time: '14:00:00' }),
+  code({ code: 'N', category: 'night', start_time: '22:00:00', duration_minutes: 600 }),
+  code({ code: 'RI', category: 'rest' }),
+  code({ code: 'FE', category: 'holiday' })
+]);
+
+const workload = (overrides: Partial<EmployeeWorkload>): EmployeeWorkload => ({
+  code: 'CA',
+  minutes: 0,
+  workedDays: 0,
+  nights: 0,
+  weekends: 0,
+  holidays: 0,
+  restDays: 0,
+  swaps: { requested: 0, received: 0, accepted: 0, rejected: 0, closed: 0 },
+  ...overrides
+});
+
+describe('presetRange', () => {
+  it('covers the current month, quarter or year', () => {
+    expect(presetRange('month', '2025-05-15')).toEqual({ from: '2025-05-01', to: '2025-05-31' });
+    expect(presetRange('quarter', '2025-05-15')).toEqual({ from: '2025-04-01', to: '2025-06-30' });
+    expect(presetRange('year', '2025-05-15')).toEqual({ from: '2025-01-01', to: '2025-12-31' });
+  });
+});
+
+describe('computeWorkload', () => {
+  // Da domenica 6 a sabato 19 aprile 2025: due settimane
+  const rows = [
+    row('CA', '2025-04-06', 'M'),
+    row('CA', '2025-04-07', 'N'),
+    row('CA', '2025-04-08', 'RI'),
+    row('CA', '2025-04-12', 'XX'),
+    row('DB', '2025-04-14', 'm'),
+    row('DB', '2025-04-19', 'N'),
+    row('DB', '2025-04-18', 'FE')
+  ];
+
+  it('sums hours, nights, weekends, holidays and rest days per employee', () => {
+    const { employees } = computeWorkload(rows, [], shiftCodes, '2025-04-06', '2025-04-19');
+
+    expect(employees.map(e => e.code)).toEqual(['CA', 'DB']);
+    expect(employees[0]).toMatchObject({ minutes: 480 + 600, workedDays: 2, nights: 1, weekends: 1, holidays: 0, restDays: 1 });
+    expect(employees[1]).toMatchObject({ minutes: 480 + 600, workedDays: 2, nights: 1, weekends: 1, holidays: 1, restDays: 0 });
+  });
+
+  it('groups the trend by week for short periods', () => {
+    const { trendUnit, trend } = computeWorkload(rows, [], shiftCodes, '2025-04-06', '2025-04-19');
+
+    expect(trendUnit).toBe('week');
+    expect(trend).toEqual([
+      { start: '2025-04-06', label: '06/04', minutes: 480 + 600, nights: 1, weekends: 1 },
+      { start: '2025-04-13', label: '13/04', minutes: 480 + 600, nights: 1, weekends: 1 }
+    ]);
+  });
+
+  it('groups the trend by month beyond twelve weeks, with empty months included', () => {
+    const { trendUnit, trend } = computeWorkload(rows, [], shiftCodes, '2025-04-01', '2025-06-30');
+
+    expect(trendUnit).toBe('month');
+    expect(trend.map(bucket => [bucket.start, bucket.label, bucket.minutes])).toEqual([
+      ['2025-04-01', '2025-04', 2 * (480 + 600)],
+      ['2025-05-01', '2025-05', 0],
+      ['2025-06-01', '2025-06', 0]
+    ]);
+  });
+
+  it('counts requests, responses and outcomes on both sides of each swap', () => {
+    const { employees } = computeWorkload([], [
+      { from_employee: 'CA', to_employee: 'DB', status: 'accepted' },
+      { from_employee: 'CA', to_employee: 'DB', status: 'rejected' },
+      { from_employee: 'DB', to_employee: 'CA', status: 'expired' },
+      { from_employee: 'DB', to_employee: 'EF', status: 'pending' }
+    ], shiftCodes, '2025-04-06', '2025-04-12');
+
+    expect(employees.map(e => [e.code, e.swaps])).toEqual([
+      ['CA', { requested: 2, received: 1, accepted: 1, rejected: 1, closed: 1 }],
+      ['DB', { requested: 2, received: 2, accepted: 1, rejected: 1, closed: 1 }],
+      ['EF', { requested: 0, received: 1, accepted: 0, rejected: 0, closed: 0 }]
+    ]);
+  });
+});
+
+describe('metricValue', () => {
+  it('reports hours from minutes and the other metrics as counts', () => {
+    const employee = workload({ minutes: 90, nights: 2, weekends: 3, holidays: 4, restDays: 5 });
+
+    expect(metricValue(employee, 'hours')).toBe(1.5);
+    expect(metricValue(employee, 'nights')).toBe(2);
+    expect(metricValue(employee, 'weekends')).toBe(3);
+    expect(metricValue(employee, 'holidays')).toBe(4);
+    expect(metricValue(employee, 'restDays')).toBe(5);
+  });
+});
+
+describe('fairnessSummary', () => {
+  it('compares only the employees who worked in the period', () => {
+    const summary = fairnessSummary([
+      workload({ code: 'CA', workedDays: 2, nights: 2 }),
+      workload({ code: 'DB', workedDays: 4, nights: 6 }),
+      workload({ code: 'EF', workedDays: 0, nights: 0 })
+    ], 'nights');
+
+    expect(summary).toEqual({ mean: 4, min: 2, max: 6, variation: 0.5 });
+  });
+
+  it('reports no variation when everyone has the same load or the mean is zero', () => {
+    expect(fairnessSummary([
+      workload({ code: 'CA', workedDays: 1, minutes: 480 }),
+      workload({ code: 'DB', workedDays: 1, minutes: 480 })
+    ], 'hours')?.variation).toBe(0);
+    expect(fairnessSummary([workload({ workedDays: 3 })], 'nights')).toEqual({ mean: 0, min: 0, max: 0, variation: 0 });
+  });
+
+  it('returns null when nobody worked', () => {
+    expect(fairnessSummary([workload({ restDays: 7 })], 'restDays')).toBeNull();
+    expect(fairnessSummary([], 'hours')).toBeNull();
+  });
+});
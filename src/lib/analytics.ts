@@ -0,0 +1,240 @@
+import { EffectiveShiftRow, loadEffectiveRows } from './schedule';
+import { findShiftCode, isWorkingShift, ShiftCodeIndex, shiftInterval } from './shiftCodes';
+import { SwapStatus } from './swaps';
+import { supabase } from './supabase';
+import { addDays, formatDate, getWeekStart, parseISODate, toISODate } from './weeks';
+
+// Carichi di lavoro per dipendente calcolati sui turni effettivi (scambi, rotazioni e
+// offerte applicati) e attività di scambio da shift_swaps_v2, su un periodo qualsiasi.
+
+export type AnalyticsPreset = 'month' | 'quarter' | 'year' | 'custom';
+
+export type WorkloadMetric = 'hours' | 'nights' | 'weekends' | 'holidays' | 'restDays';
+
+export const WORKLOAD_METRIC_LABELS: Record<WorkloadMetric, string> = {
+  hours: 'Ore',
+  nights: 'Notti',
+  weekends: 'Weekend lavorati',
+  holidays: 'Festivi',
+  restDays: 'Riposi'
+};
+
+export interface SwapActivity {
+  requested: number;
+  received: number;
+  accepted: number;
+  rejected: number;
+  // Annullati e scaduti
+  closed: number;
+}
+
+export interface EmployeeWorkload {
+  code: string;
+  minutes: number;
+  workedDays: number;
+  nights: number;
+  // Sabati e domeniche con un turno lavorativo
+  weekends: number;
+  // Giorni con un codice della categoria festivo / non lavorativo
+  holidays: number;
+  restDays: number;
+  swaps: SwapActivity;
+}
+
+export interface TrendBucket {
+  start: string;
+  label: string;
+  minutes: number;
+  nights: number;
+  weekends: number;
+}
+
+export interface FairnessSummary {
+  mean: number;
+  min: number;
+  max: number;
+  // Deviazione standard relativa alla media (0: carico perfettamente uniforme)
+  variation: number;
+}
+
+export interface WorkloadAnalytics {
+  employees: EmployeeWorkload[];
+  trendUnit: 'week' | 'month';
+  trend: TrendBucket[];
+}
+
+interface SwapRow {
+  from_employee: string;
+  to_employee: string;
+  status: SwapStatus;
+}
+
+// Oltre dodici settimane l'andamento è mostrato per mese
+const WEEKLY_TREND_MAX_DAYS = 84;
+
+export function presetRange(preset: Exclude<AnalyticsPreset, 'custom'>, today: string): { from: string; to: string } {
+  const date = parseISODate(today);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const startMonth = preset === 'month' ? month : preset === 'quarter' ? month - (month % 3) : 0;
+  const months = preset === 'month' ? 1 : preset === 'quarter' ? 3 : 12;
+
+  return {
+    from: toISODate(new Date(Date.UTC(year, startMonth, 1))),
+    to: toISODate(new Date(Date.UTC(year, startMonth + months, 0)))
+  };
+}
+
+const emptyWorkload = (code: string): EmployeeWorkload => ({
+  code,
+  minutes: 0,
+  workedDays: 0,
+  nights: 0,
+  weekends: 0,
+  holidays: 0,
+  restDays: 0,
+  swaps: { requested: 0, received: 0, accepted: 0, rejected: 0, closed: 0 }
+});
+
+function trendStart(date: string, unit: 'week' | 'month'): string {
+  return unit === 'week' ? getWeekStart(date) : `${date.slice(0, 7)}-01`;
+}
+
+export function computeWorkload(
+  rows: EffectiveShiftRow[],
+  swaps: SwapRow[],
+  shiftCodes: ShiftCodeIndex,
+  from: string,
+  to: string
+): WorkloadAnalytics {
+  const employees = new Map<string, EmployeeWorkload>();
+  const workload = (code: string) => {
+    if (!employees.has(code)) employees.set(code, emptyWorkload(code));
+    return employees.get(code)!;
+  };
+
+  const days = (parseISODate(to).getTime() - parseISODate(from).getTime()) / 86400000 + 1;
+  const trendUnit = days > WEEKLY_TREND_MAX_DAYS ? 'month' : 'week';
+  const trend = new Map<string, TrendBucket>();
+  for (let day = from; day <= to; day = addDays(day, 1)) {
+    const start = trendStart(day, trendUnit);
+    if (!trend.has(start)) {
+      trend.set(start, {
+        start,
+        label: trendUnit === 'week' ? formatDate(start).slice(0, 5) : start.slice(0, 7),
+        minutes: 0,
+        nights: 0,
+        weekends: 0
+      });
+    }
+  }
+
+  rows.forEach(row => {
+    const item = workload(row.employee_code);
+    const shiftCode = findShiftCode(shiftCodes, row.shift);
+    if (!shiftCode) return;
+
+    const bucket = trend.get(trendStart(row.date, trendUnit));
+    if (shiftCode.category === 'rest') item.restDays++;
+    if (shiftCode.category === 'holiday') item.holidays++;
+    if (!isWorkingShift(shiftCode)) return;
+
+    const interval = shiftInterval(shiftCode, row.date);
+    const minutes = interval ? (interval.end.getTime() - interval.start.getTime()) / 60000 : 0;
+    const weekDay = parseISODate(row.date).getUTCDay();
+    const isNight = shiftCode.category === 'night';
+    const isWeekend = weekDay === 0 || weekDay === 6;
+
+    item.workedDays++;
+    item.minutes += minutes;
+    if (isNight) item.nights++;
+    if (isWeekend) item.weekends++;
+    if (bucket) {
+      bucket.minutes += minutes;
+      if (isNight) bucket.nights++;
+      if (isWeekend) bucket.weekends++;
+    }
+  });
+
+  swaps.forEach(swap => {
+    const requester = workload(swap.from_employee);
+    const recipient = workload(swap.to_employee);
+    requester.swaps.requested++;
+    recipient.swaps.received++;
+
+    const outcome = swap.status === 'accepted' ? 'accepted'
+      : swap.status === 'rejected' ? 'rejected'
+      : swap.status === 'cancelled' || swap.status === 'expired' ? 'closed'
+      : null;
+    if (outcome) {
+      requester.swaps[outcome]++;
+      recipient.swaps[outcome]++;
+    }
+  });
+
+  return {
+    employees: Array.from(employees.values()).sort((a, b) => a.code.localeCompare(b.code)),
+    trendUnit,
+    trend: Array.from(trend.values())
+  };
+}
+
+export function metricValue(employee: EmployeeWorkload, metric: WorkloadMetric): number {
+  switch (metric) {
+    case 'hours':
+      return employee.minutes / 60;
+    case 'nights':
+      return employee.nights;
+    case 'weekends':
+      return employee.weekends;
+    case 'holidays':
+      return employee.holidays;
+    case 'restDays':
+      return employee.restDays;
+  }
+}
+
+// Confronto solo tra chi ha lavorato nel periodo, per non contare assenti e sigle dismesse
+export function fairnessSummary(employees: EmployeeWorkload[], metric: WorkloadMetric): FairnessSummary | null {
+  const values = employees.filter(e => e.workedDays > 0).map(e => metricValue(e, metric));
+  if (values.length === 0) return null;
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return {
+    mean,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    variation: mean > 0 ? Math.sqrt(variance) / mean : 0
+  };
+}
+
+// Come per i turni effettivi, un anno di scambi può superare il max_rows dell'API
+const SWAP_ROWS_PAGE_SIZE = 1000;
+
+async function loadSwapRows(from: string, to: string): Promise<SwapRow[]> {
+  const rows: SwapRow[] = [];
+
+  for (let offset = 0; ; offset += SWAP_ROWS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('shift_swaps_v2')
+      .select('from_employee, to_employee, status')
+      .gte('date', from)
+      .lte('date', to)
+      .order('id', { ascending: true })
+      .range(offset, offset + SWAP_ROWS_PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    rows.push(...((data as SwapRow[] | null) ?? []));
+    if (!data || data.length < SWAP_ROWS_PAGE_SIZE) return rows;
+  }
+}
+
+export async function loadWorkloadAnalytics(from: string, to: string, shiftCodes: ShiftCodeIndex): Promise<WorkloadAnalytics> {
+  const [rows, swaps] = await Promise.all([
+    loadEffectiveRows(from, to),
+    loadSwapRows(from, to)
+  ]);
+
+  return computeWorkload(rows, swaps, shiftCodes, from, to);
+}
@@ -0,0 +1,36 @@
+import { downloadBlob } from './download';
+import { supabase } from './supabase';
+
+// Calendario personale dei turni effettivi, servito dalla funzione calendar-feed.
+// Il link di iscrizione contiene un token segreto: rigenerarlo invalida quello precedente.
+
+const FEED_FUNCTION_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed`;
+
+export const calendarFeedUrl = (token: string) => `${FEED_FUNCTION_URL}?token=${token}`;
+
+// Indirizzo webcal://, aperto direttamente dalle app di calendario di telefono e computer
+export const calendarSubscribeUrl = (token: string) => calendarFeedUrl(token).replace(/^https?:\/\//, 'webcal://');
+
+export async function loadCalendarFeedToken(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('calendar_feeds')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data?.token ?? null;
+}
+
+export async function rotateCalendarFeedToken(): Promise<string> {
+  const { data, error } = await supabase.rpc('rotate_calendar_feed');
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+export async function downloadCalendar(): Promise<void> {
+  const { data, error } = await supabase.functions.invoke<string>('calendar-feed', { method: 'GET' });
+  if (error) throw new Error(error.message);
+
+  downloadBlob(new Blob([data ?? ''], { type: 'text/calendar' }), 'turni.ics');
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { complianceByCell, ComplianceSettings, evaluateCompliance } from './compliance';
+import { EffectiveShiftRow } from './schedule';
+import { indexShiftCodes } from './shiftCodes';
+import { ShiftCode } from '../types/schedule';
+
+const code = (overrides: Partial<ShiftCode> & Pick<ShiftCode, 'code' | 'category'>): ShiftCode => ({
+  label: null,
+  start_time: null,
+  end_time: null,
+  duration_minutes: null,
+  suffix_meaning: null,
+  color: '#ffffff',
+  swappable: true,
+  required_qualification: null,
+  ...overrides
+});
+
+const row = (employee_code: string, date: string, shift: string | null): EffectiveShiftRow => ({
+  employee_code,
+  date,
+  shift,
+  base_shift: shift,
+  swap_id: null,
+  display_order: null,
+  chain_id: null,
+  offer_id: null
+});
+
+const shiftCodes = indexShiftCodes([
+  code({ code: 'M', category: 'work', start_time: '06:00:00', end_time: '14:00:00' }),
+  code({ code: 'P', category: 'work', start_time: '14:00:00', end_time: '22:00:00' }),
+  code({ code: 'S', category: 'work', start_time: '11:00:00', end_time: '19:00:00' }),
+  code({ code: 'G', category: 'work', start_time: '09:00:00', end_time: '17:00:00' }),
+  code({ code: 'N', category: 'night', start_time: '22:00:00', duration_minutes: 600 }),
+  code({ code: 'RI', category: 'rest' })
+]);
+
+const settings: ComplianceSettings = { min_daily_rest_hours: 11, min_weekly_rest_hours: 35, enforcement: 'warn' };
+
+// Turni di un solo dipendente, per giorno
+const evaluate = (shifts: Record<string, string>, from: string, to: string, overrides: Partial<ComplianceSettings> = {}) =>
+  evaluateCompliance('CA', from, to, (_, date) => shifts[date] ?? null, shiftCodes, { ...settings, ...overrides });
+
+// Da lunedì 31/03 a domenica 06/04 con lo stesso turno ogni giorno
+const week = (shift: string): Record<string, string> => ({
+  '2025-03-31': shift,
+  '2025-04-01': shift,
+  '2025-04-02': shift,
+  '2025-04-03': shift,
+  '2025-04-04': shift,
+  '2025-04-05': shift,
+  '2025-04-06': shift
+});
+
+describe('evaluateCompliance: daily rest', () => {
+  it('accepts exactly the minimum rest between two shifts', () => {
+    // S finisce alle 19:00, M inizia alle 06:00: 11 ore
+    expect(evaluate({ '2025-04-01': 'S', '2025-04-02': 'M' }, '2025-04-01', '2025-04-02')).toEqual([]);
+  });
+
+  it('reports a rest shorter than the minimum on the day of the later shift', () => {
+    expect(evaluate({ '2025-04-01': 'P', '2025-04-02': 'M' }, '2025-04-01', '2025-04-02')).toEqual([{
+      employeeCode: 'CA',
+      date: '2025-04-02',
+      rule: 'daily_rest',
+      message: 'CA ha solo 8.0 ore di riposo prima del turno del 02/04 (minimo 11)'
+    }]);
+    expect(evaluate({ '2025-04-01': 'S', '2025-04-02': 'M' }, '2025-04-01', '2025-04-02', { min_daily_rest_hours: 11.5 }))
+      .toHaveLength(1);
+  });
+
+  it('measures the rest after a night shift from the next morning', () => {
+    const violations = evaluate({ '2025-04-01': 'N', '2025-04-02': 'P' }, '2025-04-01', '2025-04-02');
+
+    expect(violations.map(v => v.message)).toEqual(['CA ha solo 6.0 ore di riposo prima del turno del 02/04 (minimo 11)']);
+  });
+
+  it('looks at the shift before the period but reports only days inside it', () => {
+    expect(evaluate({ '2025-03-31': 'P', '2025-04-01': 'M' }, '2025-04-01', '2025-04-01').map(v => v.date))
+      .toEqual(['2025-04-01']);
+    // Il riposo breve tra il 30 e il 31/03 cade prima del periodo
+    expect(evaluate({ '2025-03-30': 'P', '2025-03-31': 'M', '2025-04-01': 'M' }, '2025-04-01', '2025-04-01')).toEqual([]);
+  });
+
+  it('skips rest days and cells without a shift', () => {
+    expect(evaluate({ '2025-04-01': 'P', '2025-04-02': 'RI', '2025-04-03': 'M' }, '2025-04-01', '2025-04-03')).toEqual([]);
+  });
+});
+
+describe('evaluateCompliance: weekly rest', () => {
+  it('reports every day whose seven-day window has no long enough rest', () => {
+    const violations = evaluate(week('M'), '2025-04-06', '2025-04-06');
+
+    expect(violations).toEqual([{
+      employeeCode: 'CA',
+      date: '2025-04-06',
+      rule: 'weekly_rest',
+      message: 'CA ha al massimo 16.0 ore di riposo consecutive nei 7 giorni fino al 06/04 (minimo 35)'
+    }]);
+  });
+
+  it('accepts a rest day in the window', () => {
+    expect(evaluate({ ...week('M'), '2025-04-02': 'RI' }, '2025-04-06', '2025-04-06')).toEqual([]);
+  });
+
+  it('accepts exactly the minimum weekly rest and reports one minute less', () => {
+    // Da P del 01/04 (fine alle 22:00) a G del 03/04 (inizio alle 09:00): 35 ore
+    const shifts = { ...week('M'), '2025-04-01': 'P', '2025-04-02': 'RI', '2025-04-03': 'G' };
+
+    expect(evaluate(shifts, '2025-04-06', '2025-04-06')).toEqual([]);
+    expect(evaluate(shifts, '2025-04-06', '2025-04-06', { min_weekly_rest_hours: 35 + 1 / 60 }).map(v => v.rule))
+      .toEqual(['weekly_rest']);
+  });
+
+  it('counts the free time at the edges of the window', () => {
+    // Solo due turni all'inizio della finestra: il riposo va fino alla mezzanotte di fine finestra
+    expect(evaluate({ '2025-03-31': 'M', '2025-04-01': 'M' }, '2025-04-01', '2025-04-06')).toEqual([]);
+  });
+});
+
+describe('complianceByCell', () => {
+  it('groups the violations of every employee by cell', () => {
+    const rows = [
+      ...Object.entries(week('M')).map(([date, shift]) => row('CA', date, shift)),
+      row('DB', '2025-04-05', 'P'),
+      row('DB', '2025-04-06', 'M')
+    ];
+
+    const byCell = complianceByCell(rows, '2025-04-06', '2025-04-06', shiftCodes, settings);
+
+    expect(Array.from(byCell.keys()).sort()).toEqual(['CA|2025-04-06', 'DB|2025-04-06'].sort());
+    expect(byCell.get('CA|2025-04-06')?.map(v => v.rule)).toEqual(['weekly_rest']);
+    expect(byCell.get('DB|2025-04-06')?.map(v => v.rule)).toEqual(['daily_rest']);
+  });
+
+  it('returns an empty map when every rest is respected', () => {
+    expect(complianceByCell([row('CA', '2025-04-02', 'M'), row('CA', '2025-04-03', 'M')], '2025-04-02', '2025-04-03', shiftCodes, settings).size)
+      .toBe(0);
+  });
+});
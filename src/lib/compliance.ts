@@ -0,0 +1,185 @@
+import { supabase } from './supabase';
+import { cellKey, EffectiveShiftRow, loadEffectiveRows } from './schedule';
+import { findShiftCode, shiftInterval, ShiftCodeIndex, ShiftInterval } from './shiftCodes';
+import { ShiftAssignment, swapAssignments, SwapRequestParams } from './swaps';
+import { addDays, formatDate } from './weeks';
+
+// Verifica dei riposi minimi sulla matrice effettiva, come compliance_violations nel database.
+// Il riposo giornaliero è misurato tra turni consecutivi anche a cavallo di due settimane;
+// quello settimanale è il riposo più lungo nei 7 giorni che terminano in ogni giorno lavorato.
+
+export type ComplianceRule = 'daily_rest' | 'weekly_rest';
+export type ComplianceEnforcement = 'warn' | 'block';
+
+export interface ComplianceSettings {
+  min_daily_rest_hours: number;
+  min_weekly_rest_hours: number;
+  enforcement: ComplianceEnforcement;
+}
+
+export interface ComplianceViolation {
+  employeeCode: string;
+  date: string;
+  rule: ComplianceRule;
+  message: string;
+}
+
+export const COMPLIANCE_RULE_LABELS: Record<ComplianceRule, string> = {
+  daily_rest: 'Riposo giornaliero',
+  weekly_rest: 'Riposo settimanale'
+};
+
+// Giorni precedenti necessari per valutare le finestre settimanali del primo giorno
+export const COMPLIANCE_LOOKBACK_DAYS = 7;
+
+type ShiftLookup = (employeeCode: string, date: string) => string | null;
+
+const HOUR_MS = 60 * 60 * 1000;
+const toHours = (ms: number) => (ms / HOUR_MS).toFixed(1);
+
+function workedIntervals(
+  employeeCode: string,
+  from: string,
+  to: string,
+  shiftOf: ShiftLookup,
+  shiftCodes: ShiftCodeIndex
+): (ShiftInterval & { date: string })[] {
+  const intervals: (ShiftInterval & { date: string })[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const interval = shiftInterval(findShiftCode(shiftCodes, shiftOf(employeeCode, date)), date);
+    if (interval) intervals.push({ ...interval, date });
+  }
+  return intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+export function evaluateCompliance(
+  employeeCode: string,
+  from: string,
+  to: string,
+  shiftOf: ShiftLookup,
+  shiftCodes: ShiftCodeIndex,
+  settings: ComplianceSettings
+): ComplianceViolation[] {
+  const violations: ComplianceViolation[] = [];
+  const intervals = workedIntervals(employeeCode, addDays(from, -COMPLIANCE_LOOKBACK_DAYS), to, shiftOf, shiftCodes);
+  const minDaily = settings.min_daily_rest_hours * HOUR_MS;
+  const minWeekly = settings.min_weekly_rest_hours * HOUR_MS;
+
+  intervals.forEach((current, i) => {
+    if (current.date < from) return;
+
+    const previous = intervals[i - 1];
+    const rest = previous ? current.start.getTime() - previous.end.getTime() : Infinity;
+    if (rest < minDaily) {
+      violations.push({
+        employeeCode,
+        date: current.date,
+        rule: 'daily_rest',
+        message: `${employeeCode} ha solo ${toHours(rest)} ore di riposo prima del turno del ` +
+          `${formatDate(current.date).slice(0, 5)} (minimo ${settings.min_daily_rest_hours})`
+      });
+    }
+
+    const windowStart = new Date(`${addDays(current.date, -6)}T00:00:00`).getTime();
+    const windowEnd = new Date(`${addDays(current.date, 1)}T00:00:00`).getTime();
+    let freeFrom = windowStart;
+    let longest = 0;
+    intervals
+      .filter(other => other.end.getTime() > windowStart && other.start.getTime() < windowEnd)
+      .forEach(other => {
+        longest = Math.max(longest, other.start.getTime() - freeFrom);
+        freeFrom = Math.max(freeFrom, other.end.getTime());
+      });
+    longest = Math.max(longest, windowEnd - freeFrom);
+
+    if (longest < minWeekly) {
+      violations.push({
+        employeeCode,
+        date: current.date,
+        rule: 'weekly_rest',
+        message: `${employeeCode} ha al massimo ${toHours(longest)} ore di riposo consecutive nei 7 giorni ` +
+          `fino al ${formatDate(current.date).slice(0, 5)} (minimo ${settings.min_weekly_rest_hours})`
+      });
+    }
+  });
+
+  return violations;
+}
+
+// Violazioni per cella (chiave cellKey) delle date tra from e to.
+// Le righe devono coprire anche i COMPLIANCE_LOOKBACK_DAYS precedenti e il giorno successivo.
+export function complianceByCell(
+  rows: EffectiveShiftRow[],
+  from: string,
+  to: string,
+  shiftCodes: ShiftCodeIndex,
+  settings: ComplianceSettings
+): Map<string, ComplianceViolation[]> {
+  const shifts = new Map(rows.map(row => [cellKey(row.employee_code, row.date), row.shift]));
+  const shiftOf: ShiftLookup = (employeeCode, date) => shifts.get(cellKey(employeeCode, date)) ?? null;
+  const byCell = new Map<string, ComplianceViolation[]>();
+
+  new Set(rows.map(row => row.employee_code)).forEach(employeeCode => {
+    evaluateCompliance(employeeCode, from, to, shiftOf, shiftCodes, settings).forEach(violation => {
+      const key = cellKey(violation.employeeCode, violation.date);
+      byCell.set(key, [...(byCell.get(key) ?? []), violation]);
+    });
+  });
+
+  return byCell;
+}
+
+export async function loadComplianceSettings(): Promise<ComplianceSettings> {
+  const { data, error } = await supabase
+    .from('compliance_settings')
+    .select('min_daily_rest_hours, min_weekly_rest_hours, enforcement')
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ?? { min_daily_rest_hours: 11, min_weekly_rest_hours: 35, enforcement: 'warn' };
+}
+
+export async function saveComplianceSettings(settings: ComplianceSettings): Promise<void> {
+  const { error } = await supabase
+    .from('compliance_settings')
+    .update({ ...settings, updated_at: new Date().toISOString() })
+    .eq('id', true);
+
+  if (error) throw new Error(error.message);
+}
+
+// Violazioni introdotte dallo scambio: quelle già presenti nella matrice non contano
+export async function checkSwapCompliance(
+  swap: SwapRequestParams,
+  shiftCodes: ShiftCodeIndex
+): Promise<{ violations: ComplianceViolation[]; enforcement: ComplianceEnforcement }> {
+  return checkAssignmentsCompliance(swap.date, swapAssignments(swap), shiftCodes);
+}
+
+// Come assignment_compliance_violations nel database: solo le violazioni introdotte dalle assegnazioni
+export async function checkAssignmentsCompliance(
+  swapDate: string,
+  assignments: ShiftAssignment[],
+  shiftCodes: ShiftCodeIndex
+): Promise<{ violations: ComplianceViolation[]; enforcement: ComplianceEnforcement }> {
+  const [settings, rows] = await Promise.all([
+    loadComplianceSettings(),
+    loadEffectiveRows(addDays(swapDate, -COMPLIANCE_LOOKBACK_DAYS - 1), addDays(swapDate, 6))
+  ]);
+
+  const shifts = new Map(rows.map(row => [cellKey(row.employee_code, row.date), row.shift]));
+  const before: ShiftLookup = (employeeCode, date) => shifts.get(cellKey(employeeCode, date)) ?? null;
+
+  const violations = assignments.flatMap(({ employee, shift }) => {
+    const after: ShiftLookup = (employeeCode, date) =>
+      date === swapDate && employeeCode === employee ? shift : before(employeeCode, date);
+    const existing = new Set(
+      evaluateCompliance(employee, swapDate, addDays(swapDate, 6), before, shiftCodes, settings)
+        .map(v => `${v.date}|${v.rule}`)
+    );
+    return evaluateCompliance(employee, swapDate, addDays(swapDate, 6), after, shiftCodes, settings)
+      .filter(v => !existing.has(`${v.date}|${v.rule}`));
+  });
+
+  return { violations, enforcement: settings.enforcement };
+}
@@ -0,0 +1,10 @@
+// Salvataggio nel browser dei file generati dall'app (PDF, calendari, fogli di calcolo)
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,114 @@
+import { supabase } from './supabase';
+import { ContractType, Employee } from '../types/schedule';
+import { Role } from './permissions';
+
+// Anagrafica dei dipendenti: ogni sigla della matrice corrisponde a una riga di employees,
+// collegata all'account che la usa tramite user_id (current_employee_code nel database).
+
+export const CONTRACT_TYPE_LABELS: Record<ContractType, string> = {
+  full_time: 'Tempo pieno',
+  part_time: 'Part-time',
+  fixed_term: 'Tempo determinato',
+  external: 'Esterno'
+};
+
+export interface UserAccount {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  role: Role;
+}
+
+export interface DirectoryMismatches {
+  // Sigle presenti nella matrice ma non in anagrafica
+  unknownCodes: string[];
+  // Dipendenti attivi senza account collegato
+  withoutAccount: Employee[];
+  // Account non amministratori non collegati a nessun dipendente
+  unlinkedAccounts: UserAccount[];
+}
+
+export const normalizeEmployeeCode = (code: string) => code.trim().toUpperCase();
+
+export function isActiveOn(employee: Employee, date: string): boolean {
+  return (!employee.active_from || employee.active_from <= date) &&
+    (!employee.active_to || employee.active_to >= date);
+}
+
+export async function loadEmployees(): Promise<Employee[]> {
+  const { data, error } = await supabase
+    .from('employees')
+    .select('code, display_name, email, team, contract_type, weekly_hours, active_from, active_to, user_id')
+    .order('code', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export async function loadEmployeeForUser(userId: string): Promise<Employee | null> {
+  const { data, error } = await supabase
+    .from('employees')
+    .select('code, display_name, email, team, contract_type, weekly_hours, active_from, active_to, user_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function saveEmployee(employee: Employee): Promise<void> {
+  const { error } = await supabase
+    .from('employees')
+    .upsert({ ...employee, code: normalizeEmployeeCode(employee.code) });
+
+  if (error) throw new Error(error.message);
+}
+
+export async function deleteEmployee(code: string): Promise<void> {
+  const { error } = await supabase.from('employees').delete().eq('code', code);
+  if (error) throw new Error(error.message);
+}
+
+export async function linkEmployeeAccount(code: string, userId: string | null): Promise<void> {
+  const { error } = await supabase
+    .from('employees')
+    .update({ user_id: userId })
+    .eq('code', code);
+
+  if (error) throw new Error(error.message);
+}
+
+export async function loadUserAccounts(): Promise<UserAccount[]> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('id, email, full_name, role')
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export async function loadMatrixEmployeeCodes(): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('shifts_schedule')
+    .select('employee_code');
+
+  if (error) throw new Error(error.message);
+  return Array.from(new Set((data || []).map(row => normalizeEmployeeCode(row.employee_code)))).sort();
+}
+
+export function findDirectoryMismatches(
+  employees: Employee[],
+  matrixCodes: string[],
+  accounts: UserAccount[],
+  today: string
+): DirectoryMismatches {
+  const known = new Set(employees.map(e => e.code));
+  const linked = new Set(employees.map(e => e.user_id).filter(Boolean));
+
+  return {
+    unknownCodes: matrixCodes.filter(code => !known.has(code)),
+    withoutAccount: employees.filter(e => !e.user_id && isActiveOn(e, today)),
+    unlinkedAccounts: accounts.filter(a => a.role !== 'admin' && !linked.has(a.id))
+  };
+}
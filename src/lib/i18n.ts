@@ -0,0 +1,29 @@
+// Lingua dei testi generati dal client (per ora i testi delle notifiche), scelta dal browser.
+// L'italiano resta la lingua predefinita dell'app.
+
+export type Locale = 'it' | 'en';
+
+const LOCALES: Locale[] = ['it', 'en'];
+
+const LOCALE_TAGS: Record<Locale, string> = {
+  it: 'it-IT',
+  en: 'en-GB'
+};
+
+export function getLocale(): Locale {
+  for (const language of navigator.languages ?? [navigator.language]) {
+    const locale = LOCALES.find(l => language.toLowerCase().startsWith(l));
+    if (locale) return locale;
+  }
+  return 'it';
+}
+
+// Le date arrivano dal database come YYYY-MM-DD, senza fuso orario
+export function formatDate(date: string, locale: Locale = getLocale()): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(LOCALE_TAGS[locale]);
+}
+
+export function formatDateTime(timestamp: string, locale: Locale = getLocale()): string {
+  return new Date(timestamp).toLocaleString(LOCALE_TAGS[locale]);
+}
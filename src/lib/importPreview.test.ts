@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { buildImportPreview, isKnownShiftCode } from './importPreview';
+import { MatrixData } from '../types/schedule';
+
+const knownCodes = new Set(['M', 'P', 'N', 'RI', '05.55+']);
+
+const upload: MatrixData = {
+  week_start_date: '2025-03-30',
+  shifts: [
+    { employee_code: 'CA', sunday_shift: 'RI', monday_shift: 'M', tuesday_shift: 'XX' },
+    { employee_code: 'DB', sunday_shift: 'N' },
+    { employee_code: 'EF', monday_shift: 'P' },
+    { employee_code: 'DB', saturday_shift: 'RI' }
+  ]
+};
+
+describe('isKnownShiftCode', () => {
+  it('accepts empty cells and catalogued codes in any case or time format', () => {
+    expect(isKnownShiftCode('', knownCodes)).toBe(true);
+    expect(isKnownShiftCode('m', knownCodes)).toBe(true);
+    expect(isKnownShiftCode('05:55+', knownCodes)).toBe(true);
+    expect(isKnownShiftCode('XX', knownCodes)).toBe(false);
+  });
+});
+
+describe('buildImportPreview', () => {
+  it('maps every uploaded code to its row and flags the codes without an account', () => {
+    const preview = buildImportPreview(upload, [], { registeredEmployees: ['CA', 'DB'], knownCodes });
+
+    expect(preview.rows.map(row => [row.employeeCode, row.unregistered])).toEqual([
+      ['CA', false],
+      ['DB', false],
+      ['EF', true],
+      ['DB', false]
+    ]);
+    expect(preview.unregisteredEmployees).toEqual(['EF']);
+  });
+
+  it('reports the employees listed twice', () => {
+    const preview = buildImportPreview(upload, []);
+
+    expect(preview.duplicateEmployees).toEqual(['DB']);
+    expect(preview.rows.filter(row => row.duplicate)).toHaveLength(2);
+  });
+
+  it('lists the shift codes missing from the catalogue once', () => {
+    const preview = buildImportPreview(upload, [], { knownCodes });
+
+    expect(preview.unknownCodes).toEqual(['XX']);
+    expect(preview.rows[0].cells.map(cell => cell.unknownCode)).toEqual([false, false, true, false, false, false, false]);
+  });
+
+  it('checks nothing it was not given: no catalogue, no employee directory', () => {
+    const preview = buildImportPreview(upload, []);
+
+    expect(preview.unknownCodes).toEqual([]);
+    expect(preview.unregisteredEmployees).toEqual([]);
+  });
+
+  it('without a saved week, shows no previous values and no new employees', () => {
+    const preview = buildImportPreview(upload, []);
+
+    expect(preview.hasExistingData).toBe(false);
+    expect(preview.changedCells).toBe(0);
+    expect(preview.rows.every(row => !row.isNew && row.cells.every(cell => cell.previous === null))).toBe(true);
+  });
+
+  it('compares each code with its saved row: changed cells, new and removed employees', () => {
+    const preview = buildImportPreview(upload, [
+      { employee_code: 'CA', sunday_shift: 'RI', monday_shift: 'P' },
+      { employee_code: 'GH', sunday_shift: 'M' }
+    ]);
+
+    expect(preview.hasExistingData).toBe(true);
+    expect(preview.rows[0].cells.slice(0, 3)).toEqual([
+      { value: 'RI', previous: 'RI', changed: false, unknownCode: false },
+      { value: 'M', previous: 'P', changed: true, unknownCode: false },
+      { value: 'XX', previous: '', changed: true, unknownCode: false }
+    ]);
+    expect(preview.changedCells).toBe(2);
+    expect(preview.rows.map(row => [row.employeeCode, row.isNew])).toEqual([
+      ['CA', false],
+      ['DB', true],
+      ['EF', true],
+      ['DB', true]
+    ]);
+    expect(preview.removedEmployees).toEqual(['GH']);
+  });
+});
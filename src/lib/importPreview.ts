@@ -0,0 +1,111 @@
+import { supabase } from './supabase';
+import { DAY_KEYS, normalizeShiftValue } from './matrixImport';
+import { loadEmployees } from './employees';
+import { loadShiftCodes } from './shiftCodes';
+import { MatrixData, ShiftData } from '../types/schedule';
+
+// Anteprima di un'importazione: confronta la matrice letta dal file con i turni
+// già presenti per la stessa settimana senza scrivere nulla sul database.
+
+export interface PreviewCell {
+  value: string;
+  previous: string | null;
+  changed: boolean;
+  unknownCode: boolean;
+}
+
+export interface PreviewRow {
+  employeeCode: string;
+  cells: PreviewCell[];
+  isNew: boolean;
+  duplicate: boolean;
+  unregistered: boolean;
+}
+
+export interface ImportPreview {
+  data: MatrixData;
+  rows: PreviewRow[];
+  hasExistingData: boolean;
+  removedEmployees: string[];
+  changedCells: number;
+  unknownCodes: string[];
+  duplicateEmployees: string[];
+  unregisteredEmployees: string[];
+}
+
+export interface PreviewOptions {
+  // Omesso quando si confrontano due revisioni già salvate
+  registeredEmployees?: string[];
+  // Codici del catalogo turni; se omesso nessun codice viene segnalato
+  knownCodes?: Set<string>;
+}
+
+export function isKnownShiftCode(value: string, knownCodes: Set<string>): boolean {
+  return value === '' || knownCodes.has(normalizeShiftValue(value));
+}
+
+export function buildImportPreview(
+  data: MatrixData,
+  existing: ShiftData[],
+  { registeredEmployees, knownCodes }: PreviewOptions = {}
+): ImportPreview {
+  const existingByCode = new Map(existing.map(row => [row.employee_code, row]));
+  const registered = registeredEmployees ? new Set(registeredEmployees) : null;
+  const seen = new Map<string, number>();
+  data.shifts.forEach(shift => seen.set(shift.employee_code, (seen.get(shift.employee_code) ?? 0) + 1));
+
+  const rows = data.shifts.map(shift => {
+    const previousRow = existingByCode.get(shift.employee_code);
+    const cells = DAY_KEYS.map(day => {
+      const value = shift[day] ?? '';
+      const previous = previousRow ? previousRow[day] ?? '' : null;
+      return {
+        value,
+        previous,
+        changed: previous !== null && previous !== value,
+        unknownCode: knownCodes !== undefined && !isKnownShiftCode(value, knownCodes)
+      };
+    });
+
+    return {
+      employeeCode: shift.employee_code,
+      cells,
+      isNew: existing.length > 0 && !previousRow,
+      duplicate: (seen.get(shift.employee_code) ?? 0) > 1,
+      unregistered: registered !== null && !registered.has(shift.employee_code)
+    };
+  });
+
+  const uploaded = new Set(data.shifts.map(shift => shift.employee_code));
+  const unique = (values: string[]) => Array.from(new Set(values)).sort();
+
+  return {
+    data,
+    rows,
+    hasExistingData: existing.length > 0,
+    removedEmployees: existing.map(row => row.employee_code).filter(code => !uploaded.has(code)),
+    changedCells: rows.reduce((total, row) => total + row.cells.filter(cell => cell.changed).length, 0),
+    unknownCodes: unique(rows.flatMap(row => row.cells.filter(cell => cell.unknownCode).map(cell => cell.value))),
+    duplicateEmployees: unique(rows.filter(row => row.duplicate).map(row => row.employeeCode)),
+    unregisteredEmployees: unique(rows.filter(row => row.unregistered).map(row => row.employeeCode))
+  };
+}
+
+export async function loadImportPreview(data: MatrixData): Promise<ImportPreview> {
+  const [{ data: existing, error: existingError }, employees, shiftCodes] = await Promise.all([
+    supabase
+      .from('shifts_schedule')
+      .select('*')
+      .eq('week_start_date', data.week_start_date)
+      .order('display_order', { ascending: true }),
+    loadEmployees(),
+    loadShiftCodes()
+  ]);
+
+  if (existingError) throw existingError;
+
+  return buildImportPreview(data, existing || [], {
+    registeredEmployees: employees.filter(e => e.user_id).map(e => e.code),
+    knownCodes: new Set(shiftCodes.map(code => code.code))
+  });
+}
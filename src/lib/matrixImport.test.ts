@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  detectColumnMapping,
+  detectWeekStart,
+  getImportFormat,
+  normalizeShiftValue,
+  parseDateCell,
+  readTableRows,
+  rowsToMatrixData,
+  TableRows
+} from './matrixImport';
+
+const workbookFile = (rows: (string | number)[][], name = 'turni.xlsx') => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Turni');
+  return new File([XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })], name);
+};
+
+// Matrice come arriva dal reparto: titolo, sigle senza intestazione e giorni con la data
+const matrix: TableRows = [
+  ['Turni settimana dal 30/03/2025', '', '', '', '', '', '', ''],
+  ['', 'Dom 30/03', 'Lun 31/03', 'Mar 01/04', 'Mer 02/04', 'Gio 03/04', 'Ven 04/04', 'Sab 05/04'],
+  ['ca', 'RI', '06:00', 'm', '', 'N', 'N', 'RI'],
+  ['', '', '', '', '', '', '', ''],
+  ['DB', 'P', 'P', 'RI', 'M', 'M', '05.55+', 'FE'],
+  ['', 'Dom', 'Lun', 'Mar', 'Mer', 'Gio', 'Ven', 'Sab'],
+  ['06/04/2025', '', '', '', '', '', '', '']
+];
+
+describe('getImportFormat', () => {
+  it('recognises the format from the extension', () => {
+    expect(getImportFormat(new File([], 'turni.JSON'))).toBe('json');
+    expect(getImportFormat(new File([], 'turni.txt'))).toBe('csv');
+    expect(getImportFormat(new File([], 'turni.ods'))).toBe('xlsx');
+    expect(getImportFormat(new File([], 'turni.pdf'))).toBe('pdf');
+    expect(getImportFormat(new File([], 'turni.docx'))).toBeNull();
+  });
+});
+
+describe('parseDateCell', () => {
+  it('reads ISO and European dates inside the cell', () => {
+    expect(parseDateCell('2025-03-30')).toBe('2025-03-30');
+    expect(parseDateCell('Dom 30/03/2025')).toBe('2025-03-30');
+    expect(parseDateCell('1.4.25')).toBe('2025-04-01');
+  });
+
+  it('rejects impossible dates and plain text', () => {
+    expect(parseDateCell('31/02/2025')).toBeNull();
+    expect(parseDateCell('2025-02-30')).toBeNull();
+    expect(parseDateCell('RI')).toBeNull();
+  });
+});
+
+describe('detectColumnMapping', () => {
+  it('finds the header row by its day names and the code column without a header', () => {
+    expect(detectColumnMapping(matrix)).toEqual({
+      headerRow: 1,
+      employeeColumn: 0,
+      weekColumn: null,
+      dayColumns: {
+        sunday_shift: 1,
+        monday_shift: 2,
+        tuesday_shift: 3,
+        wednesday_shift: 4,
+        thursday_shift: 5,
+        friday_shift: 6,
+        saturday_shift: 7
+      }
+    });
+  });
+
+  it('uses the named code and week columns in any order', () => {
+    const mapping = detectColumnMapping([
+      ['Lunedì', 'Martedì', 'Settimana', 'Mercoledì', 'Giovedì', 'Venerdì', 'Sigla']
+    ]);
+
+    expect(mapping).toMatchObject({ headerRow: 0, employeeColumn: 6, weekColumn: 2 });
+    expect(mapping?.dayColumns).toMatchObject({ sunday_shift: null, monday_shift: 0, wednesday_shift: 3, saturday_shift: null });
+  });
+
+  it('returns null without at least five day headers', () => {
+    expect(detectColumnMapping([['Sigla', 'Lun', 'Mar', 'Mer', 'Gio']])).toBeNull();
+  });
+});
+
+describe('detectWeekStart', () => {
+  it('takes the Sunday of the first date found in the top rows', () => {
+    expect(detectWeekStart(matrix, detectColumnMapping(matrix))).toBe('2025-03-30');
+  });
+
+  it('prefers the week column when there is one', () => {
+    const rows = [
+      ['Stampato il 15/05/2025'],
+      ['settimana', 'sigla', 'dom', 'lun', 'mar', 'mer', 'gio', 'ven', 'sab'],
+      ['2025-04-09', 'CA', 'M']
+    ];
+
+    expect(detectWeekStart(rows, detectColumnMapping(rows))).toBe('2025-04-06');
+  });
+});
+
+describe('normalizeShiftValue', () => {
+  it('uppercases the code and writes start times with a dot', () => {
+    expect(normalizeShiftValue(' m ')).toBe('M');
+    expect(normalizeShiftValue('6:00+')).toBe('6.00+');
+    expect(normalizeShiftValue('05.55+')).toBe('05.55+');
+    expect(normalizeShiftValue(undefined)).toBe('');
+  });
+});
+
+describe('rowsToMatrixData', () => {
+  it('maps each employee code to its shifts and skips blank, repeated header and date rows', () => {
+    const mapping = detectColumnMapping(matrix)!;
+
+    expect(rowsToMatrixData(matrix, mapping, '2025-03-30')).toEqual({
+      week_start_date: '2025-03-30',
+      shifts: [
+        {
+          employee_code: 'CA',
+          sunday_shift: 'RI',
+          monday_shift: '06.00',
+          tuesday_shift: 'M',
+          thursday_shift: 'N',
+          friday_shift: 'N',
+          saturday_shift: 'RI'
+        },
+        {
+          employee_code: 'DB',
+          sunday_shift: 'P',
+          monday_shift: 'P',
+          tuesday_shift: 'RI',
+          wednesday_shift: 'M',
+          thursday_shift: 'M',
+          friday_shift: '05.55+',
+          saturday_shift: 'FE'
+        }
+      ]
+    });
+  });
+
+  it('leaves out the days without a mapped column', () => {
+    const mapping = detectColumnMapping(matrix)!;
+    mapping.dayColumns.saturday_shift = null;
+
+    expect(rowsToMatrixData(matrix, mapping, '2025-03-30').shifts[1].saturday_shift).toBeUndefined();
+  });
+});
+
+describe('readTableRows', () => {
+  it('reads the first sheet of a workbook as trimmed text, without empty rows', async () => {
+    const file = workbookFile([
+      ['Sigla', 'Dom', 'Lun', 'Mar', 'Mer', 'Gio', 'Ven', 'Sab'],
+      [' CA ', 'RI', 'M', 'M', 'P', 'P', 'N', 'N'],
+      [],
+      ['DB', 'M', '', 'RI', 6, '', '', 'FE']
+    ]);
+
+    expect(await readTableRows(file, 'xlsx')).toEqual([
+      ['Sigla', 'Dom', 'Lun', 'Mar', 'Mer', 'Gio', 'Ven', 'Sab'],
+      ['CA', 'RI', 'M', 'M', 'P', 'P', 'N', 'N'],
+      ['DB', 'M', '', 'RI', '6', '', '', 'FE']
+    ]);
+  });
+
+  it('turns a workbook into the matrix of the week', async () => {
+    const rows = await readTableRows(workbookFile([
+      ['Settimana', 'Sigla', 'Domenica', 'Lunedì', 'Martedì', 'Mercoledì', 'Giovedì', 'Venerdì', 'Sabato'],
+      ['2025-03-30', 'ca', 'RI', '06:00', '', '', '', '', ''],
+      ['2025-04-06', 'CA', 'M', '', '', '', '', '', '']
+    ]), 'xlsx');
+    const mapping = detectColumnMapping(rows)!;
+
+    expect(rowsToMatrixData(rows, mapping, detectWeekStart(rows, mapping)!)).toEqual({
+      week_start_date: '2025-03-30',
+      shifts: [{ employee_code: 'CA', sunday_shift: 'RI', monday_shift: '06.00' }]
+    });
+  });
+});
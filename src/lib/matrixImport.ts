@@ -0,0 +1,326 @@
+import Papa from 'papaparse';
+import { DayKey, MatrixData, ShiftData } from '../types/schedule';
+import { getWeekStart, isISODate } from './weeks';
+
+// Converte i file della pianificazione (CSV, Excel, PDF testuale) in righe di testo
+// e poi, tramite una mappatura delle colonne, nel formato MatrixData usato per il JSON.
+
+export const DAY_KEYS: DayKey[] = [
+  'sunday_shift',
+  'monday_shift',
+  'tuesday_shift',
+  'wednesday_shift',
+  'thursday_shift',
+  'friday_shift',
+  'saturday_shift'
+];
+
+export const DAY_KEY_LABELS: Record<DayKey, string> = {
+  sunday_shift: 'Domenica',
+  monday_shift: 'Lunedì',
+  tuesday_shift: 'Martedì',
+  wednesday_shift: 'Mercoledì',
+  thursday_shift: 'Giovedì',
+  friday_shift: 'Venerdì',
+  saturday_shift: 'Sabato'
+};
+
+// Il worker viene copiato da vite-plugin-static-copy (vedi vite.config.ts)
+const PDF_WORKER_SRC = '/public/pdf.worker.min.mjs';
+
+const DAY_ALIASES: Record<DayKey, string[]> = {
+  sunday_shift: ['dom', 'domenica', 'sun', 'sunday', 'sunday_shift'],
+  monday_shift: ['lun', 'lunedi', 'lunedì', 'mon', 'monday', 'monday_shift'],
+  tuesday_shift: ['mar', 'martedi', 'martedì', 'tue', 'tuesday', 'tuesday_shift'],
+  wednesday_shift: ['mer', 'mercoledi', 'mercoledì', 'wed', 'wednesday', 'wednesday_shift'],
+  thursday_shift: ['gio', 'giovedi', 'giovedì', 'thu', 'thursday', 'thursday_shift'],
+  friday_shift: ['ven', 'venerdi', 'venerdì', 'fri', 'friday', 'friday_shift'],
+  saturday_shift: ['sab', 'sabato', 'sat', 'saturday', 'saturday_shift']
+};
+
+const EMPLOYEE_ALIASES = ['sigla', 'sigle', 'codice', 'cod', 'dipendente', 'matricola', 'employee', 'employee_code'];
+const WEEK_ALIASES = ['week_start_date', 'settimana', 'week'];
+
+const HEADER_SCAN_ROWS = 15;
+const PDF_LINE_TOLERANCE = 3;
+
+export type TableRows = string[][];
+export type ImportFormat = 'json' | 'csv' | 'xlsx' | 'pdf';
+
+export interface ColumnMapping {
+  // Indice della riga di intestazione; i dati iniziano dalla riga successiva
+  headerRow: number;
+  employeeColumn: number;
+  weekColumn: number | null;
+  dayColumns: Record<DayKey, number | null>;
+}
+
+export function getImportFormat(file: File): ImportFormat | null {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'json':
+      return 'json';
+    case 'csv':
+    case 'txt':
+      return 'csv';
+    case 'xlsx':
+    case 'xls':
+    case 'ods':
+      return 'xlsx';
+    case 'pdf':
+      return 'pdf';
+    default:
+      return null;
+  }
+}
+
+export async function readTableRows(file: File, format: Exclude<ImportFormat, 'json'>): Promise<TableRows> {
+  switch (format) {
+    case 'csv':
+      return readCsv(file);
+    case 'xlsx':
+      return readSpreadsheet(file);
+    case 'pdf':
+      return readPdf(file);
+  }
+}
+
+function readCsv(file: File): Promise<TableRows> {
+  return new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      skipEmptyLines: 'greedy',
+      complete: (results) => resolve(results.data.map(row => row.map(cell => String(cell ?? '').trim()))),
+      error: (error) => reject(new Error(`Errore nella lettura del CSV: ${error.message}`))
+    });
+  });
+}
+
+async function readSpreadsheet(file: File): Promise<TableRows> {
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error('Il file Excel non contiene fogli di lavoro');
+  }
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+  return rows
+    .map(row => row.map(cell => String(cell ?? '').trim()))
+    .filter(row => row.some(cell => cell !== ''));
+}
+
+interface PdfToken {
+  text: string;
+  x: number;
+}
+
+async function readPdf(file: File): Promise<TableRows> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = PDF_WORKER_SRC;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const lines: PdfToken[][] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const pageLines: { y: number; tokens: PdfToken[] }[] = [];
+
+    content.items.forEach(item => {
+      if (!('str' in item) || !item.str.trim()) return;
+
+      const x = item.transform[4];
+      const y = item.transform[5];
+      const charWidth = item.str.length > 0 ? item.width / item.str.length : 0;
+
+      let line = pageLines.find(l => Math.abs(l.y - y) <= PDF_LINE_TOLERANCE);
+      if (!line) {
+        line = { y, tokens: [] };
+        pageLines.push(line);
+      }
+
+      // Un elemento di testo può contenere più celle separate da spazi
+      let offset = 0;
+      item.str.split(/(\s+)/).forEach(part => {
+        if (part.trim()) {
+          line!.tokens.push({ text: part.trim(), x: x + offset * charWidth });
+        }
+        offset += part.length;
+      });
+    });
+
+    pageLines
+      .sort((a, b) => b.y - a.y)
+      .forEach(line => lines.push(line.tokens.sort((a, b) => a.x - b.x)));
+  }
+
+  if (lines.length === 0) {
+    throw new Error('Il PDF non contiene testo selezionabile. Le scansioni non sono supportate.');
+  }
+
+  return alignPdfLines(lines);
+}
+
+// Allinea i token di ogni riga alle colonne dell'intestazione in base alla posizione orizzontale
+function alignPdfLines(lines: PdfToken[][]): TableRows {
+  const headerIndex = lines.findIndex(line => countDayHeaders(line.map(t => t.text)) >= 5);
+  if (headerIndex === -1) {
+    return lines.map(line => line.map(t => t.text));
+  }
+
+  const anchors = lines[headerIndex].map(t => t.x);
+  const minDataX = Math.min(...lines.slice(headerIndex + 1).flat().map(t => t.x));
+  if (minDataX < anchors[0] - PDF_LINE_TOLERANCE * 3) {
+    // La colonna delle sigle spesso non ha intestazione
+    anchors.unshift(minDataX);
+  }
+
+  return lines.map(line => {
+    const cells = anchors.map(() => '');
+    line.forEach(token => {
+      let nearest = 0;
+      anchors.forEach((anchor, i) => {
+        if (Math.abs(anchor - token.x) < Math.abs(anchors[nearest] - token.x)) nearest = i;
+      });
+      cells[nearest] = cells[nearest] ? `${cells[nearest]} ${token.text}` : token.text;
+    });
+    return cells;
+  });
+}
+
+function normalizeHeader(cell: string): string {
+  return cell.toLowerCase().trim().replace(/[.:]/g, '');
+}
+
+function matchDay(cell: string): DayKey | null {
+  // Accetta anche intestazioni come "Dom 30/03"
+  const word = normalizeHeader(cell).split(/[\s/-]/)[0];
+  return DAY_KEYS.find(day => DAY_ALIASES[day].includes(word)) ?? null;
+}
+
+function countDayHeaders(cells: string[]): number {
+  return new Set(cells.map(matchDay).filter(Boolean)).size;
+}
+
+export function emptyColumnMapping(): ColumnMapping {
+  return {
+    headerRow: 0,
+    employeeColumn: 0,
+    weekColumn: null,
+    dayColumns: {
+      sunday_shift: 1,
+      monday_shift: 2,
+      tuesday_shift: 3,
+      wednesday_shift: 4,
+      thursday_shift: 5,
+      friday_shift: 6,
+      saturday_shift: 7
+    }
+  };
+}
+
+export function detectColumnMapping(rows: TableRows): ColumnMapping | null {
+  for (let r = 0; r < Math.min(rows.length, HEADER_SCAN_ROWS); r++) {
+    if (countDayHeaders(rows[r]) < 5) continue;
+
+    const dayColumns = Object.fromEntries(DAY_KEYS.map(day => [day, null])) as Record<DayKey, number | null>;
+    rows[r].forEach((cell, c) => {
+      const day = matchDay(cell);
+      if (day && dayColumns[day] === null) dayColumns[day] = c;
+    });
+
+    const headers = rows[r].map(normalizeHeader);
+    const weekIndex = headers.findIndex(h => WEEK_ALIASES.includes(h));
+    const weekColumn = weekIndex === -1 ? null : weekIndex;
+    const usedColumns = new Set<number | null>([...Object.values(dayColumns), weekColumn]);
+
+    let employeeColumn = headers.findIndex(h => EMPLOYEE_ALIASES.includes(h));
+    if (employeeColumn === -1) {
+      employeeColumn = Math.max(0, rows[r].findIndex((_, c) => !usedColumns.has(c)));
+    }
+
+    return { headerRow: r, employeeColumn, weekColumn, dayColumns };
+  }
+
+  return null;
+}
+
+export function parseDateCell(cell: string): string | null {
+  const value = cell.trim();
+  // Una data ISO impossibile non va riletta come europea ("2025-02-30" non è il 25/02/30)
+  const iso = value.match(/(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return isISODate(iso[0]) ? iso[0] : null;
+
+  const european = value.match(/(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+  if (european) {
+    const [, day, month, year] = european;
+    const fullYear = year.length === 2 ? `20${year}` : year;
+    const candidate = `${fullYear}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    if (isISODate(candidate)) return candidate;
+  }
+
+  return null;
+}
+
+export function detectWeekStart(rows: TableRows, mapping: ColumnMapping | null): string | null {
+  if (mapping?.weekColumn != null) {
+    for (const row of rows.slice(mapping.headerRow + 1)) {
+      const date = parseDateCell(row[mapping.weekColumn] ?? '');
+      if (date) return getWeekStart(date);
+    }
+  }
+
+  for (const row of rows.slice(0, HEADER_SCAN_ROWS)) {
+    for (const cell of row) {
+      const date = parseDateCell(cell);
+      if (date) return getWeekStart(date);
+    }
+  }
+
+  return null;
+}
+
+// Settimane presenti nella colonna della settimana, in ordine: i file esportati ne contengono più d'una
+export function detectWeekStarts(rows: TableRows, mapping: ColumnMapping): string[] {
+  const { weekColumn } = mapping;
+  if (weekColumn === null) return [];
+
+  const weeks = new Set<string>();
+  rows.slice(mapping.headerRow + 1).forEach(row => {
+    const date = parseDateCell(row[weekColumn] ?? '');
+    if (date) weeks.add(getWeekStart(date));
+  });
+  return Array.from(weeks).sort();
+}
+
+export function normalizeShiftValue(value: string | undefined): string {
+  return (value ?? '')
+    .trim()
+    .toUpperCase()
+    .replace(/^(\d{1,2}):(\d{2})/, '$1.$2');
+}
+
+export function rowsToMatrixData(rows: TableRows, mapping: ColumnMapping, weekStartDate: string): MatrixData {
+  const shifts: ShiftData[] = [];
+
+  rows.slice(mapping.headerRow + 1).forEach(row => {
+    const employeeCode = (row[mapping.employeeColumn] ?? '').trim().toUpperCase();
+    // Salta righe vuote, righe di date e intestazioni ripetute su più pagine
+    if (!employeeCode || parseDateCell(employeeCode) || countDayHeaders(row) >= 5) return;
+
+    if (mapping.weekColumn !== null) {
+      const rowWeek = parseDateCell(row[mapping.weekColumn] ?? '');
+      if (rowWeek && getWeekStart(rowWeek) !== weekStartDate) return;
+    }
+
+    const shift: ShiftData = { employee_code: employeeCode };
+    DAY_KEYS.forEach(day => {
+      const column = mapping.dayColumns[day];
+      const value = column === null ? '' : normalizeShiftValue(row[column]);
+      if (value) shift[day] = value;
+    });
+    shifts.push(shift);
+  });
+
+  return { week_start_date: weekStartDate, shifts };
+}
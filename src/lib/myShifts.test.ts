@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { findNextShift, monthRange, MyShift, summarizePeriod } from './myShifts';
+import { findShiftCode, indexShiftCodes } from './shiftCodes';
+import { ShiftCode } from '../types/schedule';
+
+const code = (overrides: Partial<ShiftCode> & Pick<ShiftCode, 'code' | 'category'>): ShiftCode => ({
+  label: null,
+  start_time: null,
+  end_time: null,
+  duration_minutes: null,
+  suffix_meaning: null,
+  color: '#ffffff',
+  swappable: true,
+  required_qualification: null,
+  ...overrides
+});
+
+const index = indexShiftCodes([
+  code({ code: 'M', category: 'work', start_time: '06:00:00', end_time: '14:00:00' }),
+  code({ code: 'N', category: 'night', start_time: '22:00:00', duration_minutes: 600 }),
+  code({ code: 'RI', category: 'rest' })
+]);
+const lookup = (value: string | null | undefined) => findShiftCode(index, value);
+
+const shift = (date: string, value: string | null): MyShift => ({ date, shift: value, changed: false });
+
+describe('monthRange', () => {
+  it('covers the whole calendar month of the day', () => {
+    expect(monthRange('2024-02-15')).toEqual({ from: '2024-02-01', to: '2024-02-29' });
+    expect(monthRange('2025-12-31')).toEqual({ from: '2025-12-01', to: '2025-12-31' });
+  });
+});
+
+describe('findNextShift', () => {
+  const shifts = [shift('2025-04-01', 'RI'), shift('2025-04-02', 'M'), shift('2025-04-03', 'N')];
+
+  it('skips rest days and returns the first shift not yet over', () => {
+    const next = findNextShift(shifts, lookup, new Date(2025, 3, 1, 12, 0));
+
+    expect(next?.date).toBe('2025-04-02');
+    expect(next?.start).toEqual(new Date(2025, 3, 2, 6, 0));
+    expect(next?.end).toEqual(new Date(2025, 3, 2, 14, 0));
+    expect(next?.shiftCode?.code).toBe('M');
+  });
+
+  it('keeps a shift in progress until it ends', () => {
+    expect(findNextShift(shifts, lookup, new Date(2025, 3, 2, 13, 59))?.date).toBe('2025-04-02');
+    expect(findNextShift(shifts, lookup, new Date(2025, 3, 2, 14, 0))?.date).toBe('2025-04-03');
+  });
+
+  it('returns null when every shift is over', () => {
+    expect(findNextShift(shifts, lookup, new Date(2025, 3, 4, 8, 1))).toBeNull();
+  });
+});
+
+describe('summarizePeriod', () => {
+  const shifts = [
+    shift('2025-03-31', 'M'),
+    shift('2025-04-01', 'M'),
+    shift('2025-04-02', 'RI'),
+    shift('2025-04-03', 'N'),
+    shift('2025-04-04', 'RI'),
+    shift('2025-04-05', null),
+    shift('2025-04-06', 'XX')
+  ];
+
+  it('splits worked and planned minutes and counts the rest days still ahead', () => {
+    const summary = summarizePeriod(shifts, lookup, '2025-04-01', '2025-04-07', null, new Date(2025, 3, 3, 12, 0));
+
+    expect(summary).toEqual({
+      workedMinutes: 480,
+      plannedMinutes: 480 + 600,
+      contractMinutes: null,
+      restDays: 2,
+      restDaysRemaining: 1
+    });
+  });
+
+  it('prorates the weekly contract hours over the days of the period', () => {
+    const week = summarizePeriod(shifts, lookup, '2025-04-01', '2025-04-07', 36, new Date(2025, 3, 1));
+    const month = summarizePeriod(shifts, lookup, '2025-04-01', '2025-04-30', 36, new Date(2025, 3, 1));
+
+    expect(week.contractMinutes).toBe(36 * 60);
+    expect(month.contractMinutes).toBe(Math.round(36 * 60 * 30 / 7));
+  });
+
+  it('ignores shifts outside the period', () => {
+    const summary = summarizePeriod(shifts, lookup, '2025-04-02', '2025-04-02', null, new Date(2025, 3, 1));
+
+    expect(summary.plannedMinutes).toBe(0);
+    expect(summary.restDays).toBe(1);
+    expect(summary.restDaysRemaining).toBe(1);
+  });
+});
@@ -0,0 +1,154 @@
+import { supabase } from './supabase';
+import { EffectiveShiftRow } from './schedule';
+import { isWorkingShift, shiftInterval } from './shiftCodes';
+import { ShiftOffer } from './offers';
+import { SwapChain, SwapStatus } from './swaps';
+import { addDays, parseISODate, toISODate } from './weeks';
+import { ShiftCode } from '../types/schedule';
+
+// Dati della vista personale: i turni effettivi del dipendente collegato all'utente,
+// gli scambi, le rotazioni e le offerte ancora aperti che lo coinvolgono e il riepilogo delle ore rispetto al contratto.
+
+type ShiftLookup = (value: string | null | undefined) => ShiftCode | undefined;
+
+export interface MyShift {
+  date: string;
+  shift: string | null;
+  // Turno modificato da uno scambio, una rotazione o un'offerta accettati
+  changed: boolean;
+}
+
+export interface MySwap {
+  id: string;
+  date: string;
+  from_employee: string;
+  to_employee: string;
+  from_shift: string;
+  to_shift: string;
+  status: SwapStatus;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface PeriodSummary {
+  // Minuti dei turni già conclusi e di tutti i turni del periodo
+  workedMinutes: number;
+  plannedMinutes: number;
+  // Minuti previsti dal contratto nel periodo (null senza ore settimanali in anagrafica)
+  contractMinutes: number | null;
+  restDays: number;
+  restDaysRemaining: number;
+}
+
+export function monthRange(today: string) {
+  const date = parseISODate(today);
+  const first = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  const last = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0));
+  return { from: toISODate(first), to: toISODate(last) };
+}
+
+export async function loadMyShifts(employeeCode: string, from: string, to: string): Promise<MyShift[]> {
+  const { data, error } = await supabase
+    .from('effective_shifts')
+    .select('date, shift, swap_id, chain_id, offer_id')
+    .eq('employee_code', employeeCode)
+    .gte('date', from)
+    .lte('date', to)
+    .order('date', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return ((data as Pick<EffectiveShiftRow, 'date' | 'shift' | 'swap_id' | 'chain_id' | 'offer_id'>[] | null) ?? [])
+    .map(row => ({ date: row.date, shift: row.shift, changed: Boolean(row.swap_id || row.chain_id || row.offer_id) }));
+}
+
+export async function loadMyOpenSwaps(employeeCode: string): Promise<MySwap[]> {
+  const { data, error } = await supabase
+    .from('shift_swaps_v2')
+    .select('id, date, from_employee, to_employee, from_shift, to_shift, status, expires_at, created_at')
+    .or(`from_employee.eq.${employeeCode},to_employee.eq.${employeeCode}`)
+    .in('status', ['pending', 'pending_manager'])
+    .order('date', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// Rotazioni aperte in cui il dipendente è tra i partecipanti, con tutti i partecipanti
+export async function loadMyOpenChains(employeeCode: string): Promise<SwapChain[]> {
+  const { data, error } = await supabase
+    .from('swap_chains')
+    .select('id, date, status, created_by, created_at, peer_accepted_at, manager_comment, stale, participants:swap_chain_participants(position, employee_code, shift, takes_shift, accepted_at), mine:swap_chain_participants!inner(employee_code)')
+    .eq('mine.employee_code', employeeCode)
+    .in('status', ['pending', 'pending_manager'])
+    .order('date', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return ((data || []) as SwapChain[]).map(chain => ({
+    ...chain,
+    participants: [...chain.participants].sort((a, b) => a.position - b.position)
+  }));
+}
+
+// Turni offerti dal dipendente ancora in bacheca, e turni altrui che ha preso in attesa del responsabile
+export async function loadMyOpenOffers(employeeCode: string): Promise<ShiftOffer[]> {
+  const { data, error } = await supabase
+    .from('shift_offers')
+    .select('*')
+    .or(`employee_code.eq.${employeeCode},claimed_by.eq.${employeeCode}`)
+    .in('status', ['open', 'pending_manager'])
+    .order('date', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// Primo turno lavorativo non ancora concluso
+export function findNextShift(shifts: MyShift[], lookup: ShiftLookup, now: Date = new Date()) {
+  for (const item of shifts) {
+    const interval = shiftInterval(lookup(item.shift), item.date);
+    if (interval && interval.end > now) {
+      return { ...item, ...interval, shiftCode: lookup(item.shift) };
+    }
+  }
+  return null;
+}
+
+export function summarizePeriod(
+  shifts: MyShift[],
+  lookup: ShiftLookup,
+  from: string,
+  to: string,
+  weeklyHours: number | null,
+  now: Date = new Date()
+): PeriodSummary {
+  const today = toISODate(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+  const summary: PeriodSummary = {
+    workedMinutes: 0,
+    plannedMinutes: 0,
+    contractMinutes: null,
+    restDays: 0,
+    restDaysRemaining: 0
+  };
+
+  shifts
+    .filter(item => item.date >= from && item.date <= to)
+    .forEach(item => {
+      const shiftCode = lookup(item.shift);
+      const interval = shiftInterval(shiftCode, item.date);
+      if (interval) {
+        const minutes = (interval.end.getTime() - interval.start.getTime()) / 60000;
+        summary.plannedMinutes += minutes;
+        if (interval.end <= now) summary.workedMinutes += minutes;
+      } else if (shiftCode && !isWorkingShift(shiftCode)) {
+        summary.restDays++;
+        if (item.date >= today) summary.restDaysRemaining++;
+      }
+    });
+
+  if (weeklyHours) {
+    const days = (parseISODate(addDays(to, 1)).getTime() - parseISODate(from).getTime()) / 86400000;
+    summary.contractMinutes = Math.round(weeklyHours * 60 * days / 7);
+  }
+
+  return summary;
+}
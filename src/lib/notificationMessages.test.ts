@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { formatDate } from './i18n';
+import { renderNotificationMessage } from './notificationMessages';
+import { AppNotification } from './notifications';
+
+const notification = (overrides: Partial<AppNotification>): AppNotification => ({
+  id: 'notification-1',
+  kind: 'swap_request',
+  event: null,
+  payload: {},
+  message: 'Messaggio salvato dal database',
+  read: false,
+  created_at: '2025-04-01T08:00:00Z',
+  swap_id: null,
+  chain_id: null,
+  offer_id: null,
+  swap: null,
+  ...overrides
+});
+
+describe('renderNotificationMessage', () => {
+  it('builds the text from the event and the payload', () => {
+    const request = notification({
+      event: 'requested',
+      payload: { date: '2025-04-02', from_employee: 'CA', from_shift: 'M', to_shift: 'P' }
+    });
+
+    expect(renderNotificationMessage(request, 'it')).toBe(
+      `CA ti chiede di scambiare il turno del ${formatDate('2025-04-02', 'it')}: M con il tuo P`
+    );
+  });
+
+  it('renders the same event in the requested locale', () => {
+    const approved = notification({
+      kind: 'swap_chain',
+      event: 'approved',
+      payload: { date: '2025-04-02', comment: 'ok' }
+    });
+
+    expect(renderNotificationMessage(approved, 'it')).toBe(`La rotazione del ${formatDate('2025-04-02', 'it')} è stata approvata: ok`);
+    expect(renderNotificationMessage(approved, 'en')).toBe(`The rotation on ${formatDate('2025-04-02', 'en')} was approved: ok`);
+  });
+
+  it('omits the optional comment when the payload has none', () => {
+    const rejected = notification({ kind: 'swap_chain', event: 'rejected', payload: { date: '2025-04-02' } });
+
+    expect(renderNotificationMessage(rejected, 'it')).toBe(`La rotazione del ${formatDate('2025-04-02', 'it')} è stata rifiutata`);
+  });
+
+  it('lists every participant of a rotation awaiting approval', () => {
+    const approval = notification({
+      kind: 'swap_chain',
+      event: 'approval_needed',
+      payload: {
+        date: '2025-04-02',
+        participants: [
+          { employee: 'CA', shift: 'M', takes_shift: 'P', from_employee: 'DB' },
+          { employee: 'DB', shift: 'P', takes_shift: 'N', from_employee: 'EF' }
+        ]
+      }
+    });
+
+    expect(renderNotificationMessage(approval, 'en')).toBe(
+      `Rotation on ${formatDate('2025-04-02', 'en')} needs approval: CA takes P from DB, DB takes N from EF`
+    );
+  });
+
+  it('falls back to the stored message without an event or for an unknown one', () => {
+    expect(renderNotificationMessage(notification({ event: null }), 'en')).toBe('Messaggio salvato dal database');
+    expect(renderNotificationMessage(notification({ event: 'unknown_event' }), 'en')).toBe('Messaggio salvato dal database');
+    expect(renderNotificationMessage(notification({ kind: 'info', event: 'requested' }), 'it')).toBe('Messaggio salvato dal database');
+  });
+});
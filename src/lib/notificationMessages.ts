@@ -0,0 +1,177 @@
+import { formatDate, getLocale, Locale } from './i18n';
+import { AppNotification, NotificationKind, NotificationPayload } from './notifications';
+
+// Testo delle notifiche costruito dal tipo, dall'evento e dai dati salvati dal database.
+// Le notifiche precedenti agli eventi, o con un evento sconosciuto, mostrano il messaggio salvato.
+
+interface MessageContext {
+  p: NotificationPayload;
+  date: (value?: string) => string;
+}
+
+type MessageTemplate = (context: MessageContext) => string;
+
+type MessageCatalog = Partial<Record<NotificationKind, Record<string, MessageTemplate>>>;
+
+const it: MessageCatalog = {
+  swap_request: {
+    requested: ({ p, date }) =>
+      `${p.from_employee} ti chiede di scambiare il turno del ${date(p.date)}: ${p.from_shift} con il tuo ${p.to_shift}`,
+    countered: ({ p, date }) =>
+      `${p.from_employee} ti propone in alternativa il turno del ${date(p.date)} (controproposta alla richiesta del ${date(p.original_date)})`
+  },
+  swap_approval: {
+    awaiting_manager: ({ p, date }) =>
+      `${p.to_employee} ha accettato lo scambio del ${date(p.date)}, ora in attesa di approvazione del responsabile`,
+    approval_needed: ({ p, date }) =>
+      `Scambio tra ${p.from_employee} (${p.from_shift}) e ${p.to_employee} (${p.to_shift}) del ${date(p.date)} da approvare`
+  },
+  swap_accepted: {
+    accepted: ({ p, date }) => `La tua richiesta di scambio per il ${date(p.date)} è stata accettata da ${p.to_employee}`,
+    approved: ({ p, date }) =>
+      `Lo scambio tra ${p.from_employee} e ${p.to_employee} del ${date(p.date)} è stato approvato dal responsabile${p.comment ? `: ${p.comment}` : ''}`
+  },
+  swap_rejected: {
+    rejected: ({ p, date }) => `La tua richiesta di scambio per il ${date(p.date)} è stata rifiutata da ${p.to_employee}`,
+    countered_elsewhere: ({ p, date }) =>
+      `${p.to_employee} non ha accettato la tua richiesta di scambio per il ${date(p.date)} e ha proposto uno scambio a ${p.counter_employee} per il ${date(p.counter_date)}`,
+    manager_rejected: ({ p, date }) =>
+      `Lo scambio tra ${p.from_employee} e ${p.to_employee} del ${date(p.date)} è stato rifiutato dal responsabile${p.comment ? `: ${p.comment}` : ''}`
+  },
+  swap_cancelled: {
+    cancelled: ({ p, date }) => `${p.from_employee} ha annullato la richiesta di scambio per il ${date(p.date)}`
+  },
+  swap_expired: {
+    expired: ({ p, date }) =>
+      `La richiesta di scambio tra ${p.from_employee} e ${p.to_employee} del ${date(p.date)} è scaduta senza essere conclusa`
+  },
+  swap_message: {
+    message: ({ p, date }) => `${p.author ?? 'Il responsabile'} sullo scambio del ${date(p.date)}: ${p.excerpt}`
+  },
+  swap_chain: {
+    proposed: ({ p, date }) =>
+      `Nuova proposta di rotazione per il ${date(p.date)}: prenderesti il turno ${p.takes_shift} al posto di ${p.shift}`,
+    approval_needed: ({ p, date }) =>
+      `Rotazione del ${date(p.date)} da approvare: ${(p.participants ?? [])
+        .map(s => `${s.employee} prende ${s.takes_shift} da ${s.from_employee}`)
+        .join(', ')}`,
+    awaiting_manager: ({ p, date }) =>
+      `Tutti i partecipanti hanno accettato la rotazione del ${date(p.date)}, ora in attesa di approvazione del responsabile`,
+    approved: ({ p, date }) => `La rotazione del ${date(p.date)} è stata approvata${p.comment ? `: ${p.comment}` : ''}`,
+    rejected: ({ p, date }) => `La rotazione del ${date(p.date)} è stata rifiutata${p.comment ? `: ${p.comment}` : ''}`,
+    cancelled: ({ p, date }) => `La rotazione del ${date(p.date)} è stata annullata`,
+    expired: ({ p, date }) => `La rotazione del ${date(p.date)} è scaduta senza essere conclusa`
+  },
+  shift_offer: {
+    offered: ({ p, date }) =>
+      `${p.employee} offre il turno ${p.shift} del ${date(p.date)}: ${p.claim_mode === 'first_come'
+        ? 'il primo che lo prende in bacheca lo prenota, poi approva il responsabile'
+        : 'candidati in bacheca, sceglierà il responsabile'}`,
+    claimed: ({ p, date }) => `${p.claimed_by} si è candidato per il turno ${p.shift} del ${date(p.date)} offerto da ${p.employee}`,
+    awaiting_manager: ({ p, date }) =>
+      `${p.claimed_by} ha preso il tuo turno ${p.shift} del ${date(p.date)}, ora in attesa di approvazione del responsabile`,
+    approval_needed: ({ p, date }) =>
+      `Turno ${p.shift} del ${date(p.date)} offerto da ${p.employee} e preso da ${p.claimed_by} da approvare`,
+    claim_rejected: ({ p, date }) =>
+      `La presa del turno ${p.shift} del ${date(p.date)} da parte di ${p.claimed_by} è stata rifiutata dal responsabile${p.comment ? `: ${p.comment}` : ''}`,
+    taken: ({ p, date }) => `Il tuo turno ${p.shift} del ${date(p.date)} è stato preso da ${p.claimed_by}`,
+    assigned: ({ p, date }) => `Ti è stato assegnato il turno ${p.shift} del ${date(p.date)} offerto da ${p.employee}`,
+    unavailable: ({ p, date }) => `Il turno ${p.shift} del ${date(p.date)} a cui ti eri candidato non è più disponibile`,
+    expired: ({ p, date }) =>
+      `L'offerta del turno ${p.shift} del ${date(p.date)} di ${p.employee} è scaduta senza essere conclusa`
+  },
+  shift_reminder: {
+    reminder: ({ p, date }) => `Promemoria: il ${date(p.date)} sei in turno ${p.shift} dalle ${p.start_time}`
+  },
+  schedule_published: {
+    published: ({ p, date }) => `Sono stati pubblicati i turni della settimana del ${date(p.week_start)}`,
+    updated: ({ p, date }) => `Sono stati aggiornati i turni della settimana del ${date(p.week_start)} (revisione ${p.revision})`
+  }
+};
+
+const en: MessageCatalog = {
+  swap_request: {
+    requested: ({ p, date }) =>
+      `${p.from_employee} asks to swap their ${p.from_shift} shift on ${date(p.date)} for your ${p.to_shift}`,
+    countered: ({ p, date }) =>
+      `${p.from_employee} proposes the shift on ${date(p.date)} instead (counter-offer to the request for ${date(p.original_date)})`
+  },
+  swap_approval: {
+    awaiting_manager: ({ p, date }) =>
+      `${p.to_employee} accepted the swap on ${date(p.date)}, now awaiting manager approval`,
+    approval_needed: ({ p, date }) =>
+      `Swap between ${p.from_employee} (${p.from_shift}) and ${p.to_employee} (${p.to_shift}) on ${date(p.date)} needs approval`
+  },
+  swap_accepted: {
+    accepted: ({ p, date }) => `Your swap request for ${date(p.date)} was accepted by ${p.to_employee}`,
+    approved: ({ p, date }) =>
+      `The swap between ${p.from_employee} and ${p.to_employee} on ${date(p.date)} was approved by the manager${p.comment ? `: ${p.comment}` : ''}`
+  },
+  swap_rejected: {
+    rejected: ({ p, date }) => `Your swap request for ${date(p.date)} was declined by ${p.to_employee}`,
+    countered_elsewhere: ({ p, date }) =>
+      `${p.to_employee} did not accept your swap request for ${date(p.date)} and proposed a swap to ${p.counter_employee} on ${date(p.counter_date)}`,
+    manager_rejected: ({ p, date }) =>
+      `The swap between ${p.from_employee} and ${p.to_employee} on ${date(p.date)} was rejected by the manager${p.comment ? `: ${p.comment}` : ''}`
+  },
+  swap_cancelled: {
+    cancelled: ({ p, date }) => `${p.from_employee} cancelled the swap request for ${date(p.date)}`
+  },
+  swap_expired: {
+    expired: ({ p, date }) =>
+      `The swap request between ${p.from_employee} and ${p.to_employee} on ${date(p.date)} expired without being completed`
+  },
+  swap_message: {
+    message: ({ p, date }) => `${p.author ?? 'The manager'} on the swap of ${date(p.date)}: ${p.excerpt}`
+  },
+  swap_chain: {
+    proposed: ({ p, date }) =>
+      `New rotation proposal for ${date(p.date)}: you would take shift ${p.takes_shift} instead of ${p.shift}`,
+    approval_needed: ({ p, date }) =>
+      `Rotation on ${date(p.date)} needs approval: ${(p.participants ?? [])
+        .map(s => `${s.employee} takes ${s.takes_shift} from ${s.from_employee}`)
+        .join(', ')}`,
+    awaiting_manager: ({ p, date }) =>
+      `All participants accepted the rotation on ${date(p.date)}, now awaiting manager approval`,
+    approved: ({ p, date }) => `The rotation on ${date(p.date)} was approved${p.comment ? `: ${p.comment}` : ''}`,
+    rejected: ({ p, date }) => `The rotation on ${date(p.date)} was rejected${p.comment ? `: ${p.comment}` : ''}`,
+    cancelled: ({ p, date }) => `The rotation on ${date(p.date)} was cancelled`,
+    expired: ({ p, date }) => `The rotation on ${date(p.date)} expired without being completed`
+  },
+  shift_offer: {
+    offered: ({ p, date }) =>
+      `${p.employee} is offering shift ${p.shift} on ${date(p.date)}: ${p.claim_mode === 'first_come'
+        ? 'the first to take it on the board books it, then the manager approves'
+        : 'apply on the board, the manager will choose'}`,
+    claimed: ({ p, date }) => `${p.claimed_by} applied for shift ${p.shift} on ${date(p.date)} offered by ${p.employee}`,
+    awaiting_manager: ({ p, date }) =>
+      `${p.claimed_by} took your shift ${p.shift} on ${date(p.date)}, now awaiting manager approval`,
+    approval_needed: ({ p, date }) =>
+      `Shift ${p.shift} on ${date(p.date)} offered by ${p.employee} and taken by ${p.claimed_by} needs approval`,
+    claim_rejected: ({ p, date }) =>
+      `The manager rejected ${p.claimed_by} taking shift ${p.shift} on ${date(p.date)}${p.comment ? `: ${p.comment}` : ''}`,
+    taken: ({ p, date }) => `Your shift ${p.shift} on ${date(p.date)} was taken by ${p.claimed_by}`,
+    assigned: ({ p, date }) => `You were assigned shift ${p.shift} on ${date(p.date)} offered by ${p.employee}`,
+    unavailable: ({ p, date }) => `Shift ${p.shift} on ${date(p.date)} you applied for is no longer available`,
+    expired: ({ p, date }) => `The offer of shift ${p.shift} on ${date(p.date)} by ${p.employee} expired without being completed`
+  },
+  shift_reminder: {
+    reminder: ({ p, date }) => `Reminder: on ${date(p.date)} you work shift ${p.shift} from ${p.start_time}`
+  },
+  schedule_published: {
+    published: ({ p, date }) => `The schedule for the week of ${date(p.week_start)} has been published`,
+    updated: ({ p, date }) => `The schedule for the week of ${date(p.week_start)} has been updated (revision ${p.revision})`
+  }
+};
+
+const CATALOGS: Record<Locale, MessageCatalog> = { it, en };
+
+export function renderNotificationMessage(notification: AppNotification, locale: Locale = getLocale()): string {
+  const template = notification.event ? CATALOGS[locale][notification.kind]?.[notification.event] : undefined;
+  if (!template) return notification.message;
+
+  return template({
+    p: notification.payload,
+    date: value => (value ? formatDate(value, locale) : '')
+  });
+}
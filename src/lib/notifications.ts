@@ -0,0 +1,206 @@
+import { supabase } from './supabase';
+import { OfferClaimMode } from './offers';
+import { SwapStatus } from './swaps';
+
+// Il tipo è assegnato dal database (notification_kind) in base allo scambio,
+// alla rotazione o al turno in bacheca collegati alla notifica.
+
+export type NotificationKind =
+  | 'swap_request'
+  | 'swap_approval'
+  | 'swap_accepted'
+  | 'swap_rejected'
+  | 'swap_cancelled'
+  | 'swap_expired'
+  | 'swap_message'
+  | 'swap_chain'
+  | 'shift_offer'
+  | 'shift_reminder'
+  | 'schedule_published'
+  | 'info';
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  swap_request: 'Richiesta di scambio',
+  swap_approval: 'Approvazione',
+  swap_accepted: 'Scambio accettato',
+  swap_rejected: 'Scambio rifiutato',
+  swap_cancelled: 'Scambio annullato',
+  swap_expired: 'Scambio scaduto',
+  swap_message: 'Messaggio',
+  swap_chain: 'Rotazione',
+  shift_offer: 'Bacheca',
+  shift_reminder: 'Promemoria turno',
+  schedule_published: 'Turni pubblicati',
+  info: 'Avviso'
+};
+
+export type NotificationFilter = 'all' | 'requests' | 'outcomes' | 'messages' | 'chains' | 'offers' | 'schedule';
+
+export const NOTIFICATION_FILTERS: { filter: NotificationFilter; label: string; kinds?: NotificationKind[] }[] = [
+  { filter: 'all', label: 'Tutte' },
+  { filter: 'requests', label: 'Da gestire', kinds: ['swap_request', 'swap_approval'] },
+  { filter: 'outcomes', label: 'Esiti', kinds: ['swap_accepted', 'swap_rejected', 'swap_cancelled', 'swap_expired'] },
+  { filter: 'messages', label: 'Messaggi', kinds: ['swap_message'] },
+  { filter: 'chains', label: 'Rotazioni', kinds: ['swap_chain'] },
+  { filter: 'offers', label: 'Bacheca', kinds: ['shift_offer'] },
+  { filter: 'schedule', label: 'Turni', kinds: ['shift_reminder', 'schedule_published'] }
+];
+
+export const NOTIFICATIONS_PAGE_SIZE = 20;
+
+// Dati dell'evento salvati dal database, da cui il client costruisce il testo (notificationMessages)
+export interface NotificationPayload {
+  date?: string;
+  original_date?: string;
+  // Controproposta inviata a un altro collega
+  counter_date?: string;
+  counter_employee?: string;
+  from_employee?: string;
+  to_employee?: string;
+  from_shift?: string;
+  to_shift?: string;
+  comment?: string;
+  author?: string;
+  excerpt?: string;
+  employee?: string;
+  shift?: string;
+  takes_shift?: string;
+  claimed_by?: string;
+  claim_mode?: OfferClaimMode;
+  participants?: { employee: string; shift: string; takes_shift: string; from_employee: string }[];
+  week_start?: string;
+  revision?: number;
+  start_time?: string;
+}
+
+export interface AppNotification {
+  id: string;
+  kind: NotificationKind;
+  // Cosa è successo all'interno del tipo, ad es. 'approved' o 'manager_rejected' (null nelle notifiche meno recenti)
+  event: string | null;
+  payload: NotificationPayload;
+  // Testo in italiano usato per email e push e per le notifiche senza evento
+  message: string;
+  read: boolean;
+  created_at: string;
+  swap_id: string | null;
+  chain_id: string | null;
+  offer_id: string | null;
+  // Stato attuale dello scambio collegato, per le azioni dirette
+  swap: {
+    id: string;
+    date: string;
+    from_employee: string;
+    to_employee: string;
+    status: SwapStatus;
+  } | null;
+}
+
+export interface NotificationQuery {
+  filter?: NotificationFilter;
+  unreadOnly?: boolean;
+  offset?: number;
+  limit?: number;
+}
+
+export async function loadNotifications(
+  userId: string,
+  { filter = 'all', unreadOnly = false, offset = 0, limit = NOTIFICATIONS_PAGE_SIZE }: NotificationQuery = {}
+): Promise<AppNotification[]> {
+  let query = supabase
+    .from('notifications')
+    .select(`
+      id, kind, event, payload, message, read, created_at, swap_id, chain_id, offer_id,
+      swap:shift_swaps_v2 (id, date, from_employee, to_employee, status)
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  const kinds = NOTIFICATION_FILTERS.find(f => f.filter === filter)?.kinds;
+  if (kinds) {
+    query = query.in('kind', kinds);
+  }
+  if (unreadOnly) {
+    query = query.eq('read', false);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return (data as unknown as AppNotification[] | null) ?? [];
+}
+
+export async function countUnreadNotifications(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('read', false);
+
+  if (error) throw new Error(error.message);
+  return count ?? 0;
+}
+
+export async function markNotificationRead(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read: true })
+    .eq('id', id);
+
+  if (error) throw new Error(error.message);
+}
+
+export async function markAllNotificationsRead(userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read: true })
+    .eq('user_id', userId)
+    .eq('read', false);
+
+  if (error) throw new Error(error.message);
+}
+
+// Consegna via email: la coda è riempita dal database e svuotata dalla funzione notification-dispatch
+export const EMAIL_NOTIFICATION_KINDS: NotificationKind[] = [
+  'swap_request',
+  'swap_approval',
+  'swap_accepted',
+  'swap_rejected',
+  'swap_expired',
+  'swap_message',
+  'shift_reminder',
+  'schedule_published'
+];
+
+export interface NotificationPreferences {
+  email_enabled: boolean;
+  email_kinds: NotificationKind[];
+  // Ore di anticipo del promemoria prima dell'inizio del turno (null: nessun promemoria)
+  reminder_hours: number | null;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  email_enabled: false,
+  email_kinds: ['swap_request', 'swap_approval', 'swap_accepted', 'swap_rejected', 'shift_reminder', 'schedule_published'],
+  reminder_hours: null
+};
+
+export async function loadNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('email_enabled, email_kinds, reminder_hours')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ?? DEFAULT_NOTIFICATION_PREFERENCES;
+}
+
+export async function saveNotificationPreferences(userId: string, preferences: NotificationPreferences): Promise<void> {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ user_id: userId, ...preferences, updated_at: new Date().toISOString() });
+
+  if (error) throw new Error(error.message);
+}
@@ -0,0 +1,134 @@
+import { supabase } from './supabase';
+import { EffectiveShiftRow } from './schedule';
+
+// Bacheca dei turni offerti: chi offre cede il turno senza prenderne uno in cambio
+// e riceve il giorno libero del collega che lo prende. Idoneità e assegnazione
+// sono verificate dalle RPC del database, come per gli scambi: anche il turno preso
+// al primo che arriva passa dal responsabile prima di essere applicato.
+
+export type OfferClaimMode = 'first_come' | 'admin_pick';
+export type OfferStatus = 'open' | 'pending_manager' | 'accepted' | 'cancelled' | 'expired';
+
+export const CLAIM_MODE_LABELS: Record<OfferClaimMode, string> = {
+  first_come: 'Al primo che lo prende',
+  admin_pick: 'Sceglie il responsabile'
+};
+
+export const OFFER_STATUS_LABELS: Record<OfferStatus, string> = {
+  open: 'In bacheca',
+  pending_manager: 'Da approvare',
+  accepted: 'Assegnato',
+  cancelled: 'Ritirato',
+  expired: 'Scaduto'
+};
+
+export interface ShiftOffer {
+  id: string;
+  date: string;
+  employee_code: string;
+  shift: string;
+  claim_mode: OfferClaimMode;
+  note: string | null;
+  status: OfferStatus;
+  claimed_by: string | null;
+  claimer_shift: string | null;
+  created_by: string | null;
+  created_at: string;
+  // Quando il collega ha preso il turno, in attesa del responsabile
+  claimed_at: string | null;
+  responded_at: string | null;
+  manager_comment: string | null;
+  stale: boolean;
+}
+
+// Offerte che occupano ancora la cella: in bacheca o prese e in attesa del responsabile
+export const isOpenOfferStatus = (status: OfferStatus) => status === 'open' || status === 'pending_manager';
+
+export interface OfferCandidate {
+  employee_code: string;
+  current_shift: string | null;
+  eligible: boolean;
+  // Motivo dell'esclusione, oppure avviso sui riposi quando non sono bloccanti
+  reason: string | null;
+  claimed_at: string | null;
+}
+
+export async function loadShiftOffers(fromDate?: string): Promise<ShiftOffer[]> {
+  let query = supabase
+    .from('shift_offers')
+    .select('*')
+    .order('date', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (fromDate) {
+    query = query.gte('date', fromDate);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export async function loadOffersAwaitingApproval(): Promise<ShiftOffer[]> {
+  const { data, error } = await supabase
+    .from('shift_offers')
+    .select('*')
+    .eq('status', 'pending_manager')
+    .order('date', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export async function loadOfferCandidates(offerId: string): Promise<OfferCandidate[]> {
+  const { data, error } = await supabase.rpc('shift_offer_candidates', { p_offer_id: offerId });
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export async function createShiftOffer(date: string, employeeCode: string, claimMode: OfferClaimMode, note?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('shift_offer_create', {
+    p_date: date,
+    p_employee: employeeCode,
+    p_claim_mode: claimMode,
+    p_note: note ?? null
+  });
+  if (error) throw new Error(error.message);
+  return data as string;
+}
+
+async function callOfferRpc(fn: string, args: Record<string, unknown>): Promise<EffectiveShiftRow[]> {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) throw new Error(error.message);
+  return (data as EffectiveShiftRow[] | null) ?? [];
+}
+
+// Con first_come prenota il turno in attesa del responsabile, con admin_pick registra la candidatura
+export function claimShiftOffer(offerId: string) {
+  return callOfferRpc('shift_offer_claim', { p_offer_id: offerId });
+}
+
+export function assignShiftOffer(offerId: string, employeeCode: string) {
+  return callOfferRpc('shift_offer_assign', { p_offer_id: offerId, p_employee: employeeCode });
+}
+
+export function approveShiftOffer(offerId: string, comment?: string) {
+  return callOfferRpc('shift_offer_approve', { p_offer_id: offerId, p_comment: comment ?? null });
+}
+
+// Il rifiuto rimette il turno in bacheca; il motivo è obbligatorio
+export async function rejectShiftOffer(offerId: string, comment: string): Promise<void> {
+  const { error } = await supabase.rpc('shift_offer_reject', { p_offer_id: offerId, p_comment: comment });
+  if (error) throw new Error(error.message);
+}
+
+// Ritira la candidatura o rinuncia al turno preso finché non è approvato
+export async function withdrawOfferClaim(offerId: string): Promise<void> {
+  const { error } = await supabase.rpc('shift_offer_withdraw', { p_offer_id: offerId });
+  if (error) throw new Error(error.message);
+}
+
+export async function cancelShiftOffer(offerId: string): Promise<void> {
+  const { error } = await supabase.rpc('shift_offer_cancel', { p_offer_id: offerId });
+  if (error) throw new Error(error.message);
+}
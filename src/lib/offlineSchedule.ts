@@ -0,0 +1,56 @@
+import { EffectiveShiftRow, loadEffectiveRows } from './schedule';
+import { addDays, addWeeks, getWeekStart, todayISO } from './weeks';
+
+// Copia locale della settimana corrente e della successiva, per consultare i turni
+// anche senza rete. Le altre settimane non vengono salvate.
+
+const STORAGE_KEY = 'offline-schedule';
+
+export interface OfflineWeek {
+  weekStart: string;
+  rows: EffectiveShiftRow[];
+  savedAt: string;
+}
+
+const offlineWeekStarts = () => {
+  const current = getWeekStart(todayISO());
+  return [current, addWeeks(current, 1)];
+};
+
+function readWeeks(): OfflineWeek[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+export function saveOfflineWeek(weekStart: string, rows: EffectiveShiftRow[]) {
+  const kept = offlineWeekStarts();
+  if (!kept.includes(weekStart)) return;
+
+  const weeks = readWeeks().filter(week => week.weekStart !== weekStart && kept.includes(week.weekStart));
+  weeks.push({ weekStart, rows, savedAt: new Date().toISOString() });
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(weeks));
+  } catch (err) {
+    console.error('Error saving offline schedule:', err);
+  }
+}
+
+export function loadOfflineWeek(weekStart: string): OfflineWeek | null {
+  return readWeeks().find(week => week.weekStart === weekStart) ?? null;
+}
+
+// Aggiorna entrambe le settimane, anche quando l'utente ne sta guardando un'altra
+export async function refreshOfflineSchedule(): Promise<void> {
+  await Promise.all(offlineWeekStarts().map(async weekStart => {
+    saveOfflineWeek(weekStart, await loadEffectiveRows(weekStart, addDays(weekStart, 6)));
+  }));
+}
+
+// All'uscita la copia locale non deve restare a chi usa il dispositivo dopo
+export function clearOfflineSchedule() {
+  localStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,53 @@
+import { supabase } from './supabase';
+
+// Ruoli e capacità: la tabella role_capabilities è la stessa usata da has_capability()
+// nelle policy RLS e nelle RPC, quindi l'interfaccia mostra solo ciò che il database consente.
+
+export type Role = 'admin' | 'scheduler' | 'team_lead' | 'employee';
+
+export type Capability =
+  | 'upload_matrix'
+  | 'approve_swaps'
+  | 'manage_settings'
+  | 'manage_employees'
+  | 'manage_roles'
+  | 'reset_data'
+  | 'view_analytics';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Amministratore',
+  scheduler: 'Pianificatore',
+  team_lead: 'Responsabile di team',
+  employee: 'Dipendente'
+};
+
+export interface Permissions {
+  role: Role | null;
+  capabilities: Capability[];
+}
+
+export async function loadPermissions(userId: string): Promise<Permissions> {
+  const [{ data: profile, error: profileError }, { data: capabilities, error: capabilitiesError }] = await Promise.all([
+    supabase.from('users').select('role').eq('id', userId).maybeSingle(),
+    supabase.rpc('current_capabilities')
+  ]);
+
+  if (profileError) throw new Error(profileError.message);
+  if (capabilitiesError) throw new Error(capabilitiesError.message);
+
+  return {
+    role: (profile?.role as Role | undefined) ?? null,
+    capabilities: (capabilities as Capability[] | null) ?? []
+  };
+}
+
+export async function setUserRole(userId: string, role: Role): Promise<void> {
+  const { error } = await supabase.rpc('set_user_role', { p_user_id: userId, p_role: role });
+  if (error) throw new Error(error.message);
+}
+
+// Con pendingSwapsOnly elimina solo gli scambi in attesa e le relative notifiche
+export async function resetScheduleData(pendingSwapsOnly = false): Promise<void> {
+  const { error } = await supabase.rpc('reset_schedule_data', { p_pending_swaps_only: pendingSwapsOnly });
+  if (error) throw new Error(error.message);
+}
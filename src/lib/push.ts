@@ -0,0 +1,86 @@
+import { supabase } from './supabase';
+
+// Installazione come PWA e notifiche Web Push. Il service worker (public/sw.js) è registrato
+// solo nella build di produzione, per non mettere in cache i moduli del server di sviluppo.
+// Le push sono inviate dalla funzione notification-dispatch con le chiavi VAPID.
+
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(err => {
+      console.error('Error registering service worker:', err);
+    });
+  });
+}
+
+export const isPushSupported = () =>
+  Boolean(VAPID_PUBLIC_KEY) &&
+  import.meta.env.PROD &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+// La chiave VAPID è in base64url, PushManager la vuole in byte
+function decodeBase64Url(value: string): Uint8Array {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+export async function enablePush(): Promise<void> {
+  if (!isPushSupported() || !VAPID_PUBLIC_KEY) {
+    throw new Error('Le notifiche push non sono disponibili su questo browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Permesso per le notifiche negato dal browser');
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription() ??
+    await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(VAPID_PUBLIC_KEY)
+    });
+
+  const { endpoint, keys } = subscription.toJSON();
+  const { error } = await supabase.rpc('push_subscribe', {
+    p_endpoint: endpoint,
+    p_p256dh: keys?.p256dh,
+    p_auth: keys?.auth,
+    p_user_agent: navigator.userAgent
+  });
+  if (error) throw new Error(error.message);
+}
+
+export async function disablePush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase.rpc('push_unsubscribe', { p_endpoint: subscription.endpoint });
+  if (error) throw new Error(error.message);
+  await subscription.unsubscribe();
+}
+
+// All'uscita: il dispositivo non deve più ricevere le notifiche dell'utente. Non attende
+// serviceWorker.ready, che non si risolve mai se il worker non è registrato.
+export async function removePushSubscription(): Promise<void> {
+  if (!isPushSupported()) return;
+  const registration = await navigator.serviceWorker.getRegistration();
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  // La riga sul server si elimina finché la sessione è valida; l'iscrizione del browser si chiude comunque
+  const { error } = await supabase.rpc('push_unsubscribe', { p_endpoint: subscription.endpoint });
+  await subscription.unsubscribe();
+  if (error) throw new Error(error.message);
+}
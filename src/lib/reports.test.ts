@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { buildReportData, chunk, reportFileName, reportRange } from './reports';
+import { EffectiveShiftRow } from './schedule';
+import { indexShiftCodes } from './shiftCodes';
+import { ShiftCode } from '../types/schedule';
+
+const code = (overrides: Partial<ShiftCode> & Pick<ShiftCode, 'code' | 'category'>): ShiftCode => ({
+  label: null,
+  start_time: null,
+  end_time: null,
+  duration_minutes: null,
+  suffix_meaning: null,
+  color: '#ffffff',
+  swappable: true,
+  required_qualification: null,
+  ...overrides
+});
+
+const row = (employee_code: string, date: string, shift: string | null, overrides: Partial<EffectiveShiftRow> = {}): EffectiveShiftRow => ({
+  employee_code,
+  date,
+  shift,
+  base_shift: shift,
+  swap_id: null,
+  display_order: null,
+  chain_id: null,
+  offer_id: null,
+  ...overrides
+});
+
+const shiftCodes = indexShiftCodes([
+  code({ code: 'M', category: 'work', start_time: '06:00:00', end_time: '14:00:00' }),
+  code({ code: 'N', category: 'night', start_time: '22:00:00', end_time: '06:00:00' }),
+  code({ code: 'RI', category: 'rest' })
+]);
+
+describe('reportRange', () => {
+  it('starts the week on Sunday', () => {
+    expect(reportRange('week', '2025-04-02')).toEqual({ from: '2025-03-30', to: '2025-04-05' });
+    expect(reportRange('week', '2025-03-30')).toEqual({ from: '2025-03-30', to: '2025-04-05' });
+  });
+
+  it('covers the whole month, leap years included', () => {
+    expect(reportRange('month', '2024-02-10')).toEqual({ from: '2024-02-01', to: '2024-02-29' });
+    expect(reportRange('month', '2025-12-31')).toEqual({ from: '2025-12-01', to: '2025-12-31' });
+  });
+});
+
+describe('reportFileName', () => {
+  it('names the file after the period', () => {
+    expect(reportFileName('week', '2025-03-30', '2025-04-05')).toBe('turni_settimana_2025-03-30.pdf');
+    expect(reportFileName('month', '2025-04-01', '2025-04-30')).toBe('turni_2025-04.pdf');
+    expect(reportFileName('custom', '2025-04-03', '2025-04-20')).toBe('turni_2025-04-03_2025-04-20.pdf');
+  });
+});
+
+describe('buildReportData', () => {
+  it('lists every day of the period with its short date and weekday', () => {
+    const data = buildReportData([], '2025-03-30', '2025-04-01', shiftCodes);
+
+    expect(data.days).toEqual([
+      { iso: '2025-03-30', label: '30/03', day: 'Dom' },
+      { iso: '2025-03-31', label: '31/03', day: 'Lun' },
+      { iso: '2025-04-01', label: '01/04', day: 'Mar' }
+    ]);
+  });
+
+  it('keeps the row order, marks changed cells and sums the working minutes', () => {
+    const data = buildReportData([
+      row('DB', '2025-03-30', 'M'),
+      row('DB', '2025-03-31', 'n', { swap_id: 'swap-1' }),
+      row('CA', '2025-03-30', 'RI', { offer_id: 'offer-1' }),
+      row('CA', '2025-03-31', null)
+    ], '2025-03-30', '2025-03-31', shiftCodes);
+
+    expect(data.employees.map(employee => employee.code)).toEqual(['DB', 'CA']);
+
+    const [db, ca] = data.employees;
+    expect(db.minutes).toBe(8 * 60 + 8 * 60);
+    expect(db.cells.get('2025-03-31')).toEqual({ shift: 'n', swapped: true });
+    expect(ca.minutes).toBe(0);
+    expect(ca.cells.get('2025-03-30')).toEqual({ shift: 'RI', swapped: true });
+    expect(ca.cells.get('2025-03-31')).toEqual({ shift: '', swapped: false });
+  });
+
+  it('builds the legend from the catalogued codes in use, sorted by code', () => {
+    const data = buildReportData([
+      row('CA', '2025-03-30', 'RI'),
+      row('CA', '2025-03-31', 'M'),
+      row('DB', '2025-03-30', 'M'),
+      row('DB', '2025-03-31', 'XX')
+    ], '2025-03-30', '2025-03-31', shiftCodes);
+
+    expect(data.legend.map(shiftCode => shiftCode.code)).toEqual(['M', 'RI']);
+  });
+});
+
+describe('chunk', () => {
+  it('splits the items into pages of the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 3)).toEqual([]);
+  });
+});
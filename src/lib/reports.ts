@@ -0,0 +1,124 @@
+import { EffectiveShiftRow, loadEffectiveRows } from './schedule';
+import { ShiftCodeIndex, findShiftCode, shiftInterval } from './shiftCodes';
+import { addDays, formatDate, getWeekStart, parseISODate, toISODate, WEEK_DAY_LABELS } from './weeks';
+import { ShiftCode } from '../types/schedule';
+
+// Report PDF dei turni effettivi (scambi, rotazioni e offerte applicati) su un periodo
+// qualsiasi: qui i dati e le scelte di impaginazione, il documento è in ShiftReport.
+
+export type ReportPeriod = 'week' | 'month' | 'custom';
+
+export type ReportOrientation = 'landscape' | 'portrait';
+
+export interface ReportOptions {
+  from: string;
+  to: string;
+  orientation: ReportOrientation;
+  // Una pagina aggiuntiva per ogni dipendente con l'elenco dei suoi turni
+  perEmployee: boolean;
+}
+
+export interface ReportCell {
+  shift: string;
+  swapped: boolean;
+}
+
+export interface ReportEmployee {
+  code: string;
+  cells: Map<string, ReportCell>;
+  // Minuti dei turni lavorativi del periodo
+  minutes: number;
+}
+
+export interface ReportDay {
+  iso: string;
+  label: string;
+  day: string;
+}
+
+export interface ShiftReportData {
+  from: string;
+  to: string;
+  days: ReportDay[];
+  employees: ReportEmployee[];
+  // Codici presenti nel periodo, per la legenda
+  legend: ShiftCode[];
+}
+
+// Colonne di giorni per pagina: oltre, la griglia prosegue su un'altra pagina
+export const DAYS_PER_PAGE: Record<ReportOrientation, number> = {
+  landscape: 16,
+  portrait: 10
+};
+
+export const MAX_REPORT_DAYS = 366;
+
+export function reportRange(period: ReportPeriod, reference: string): { from: string; to: string } {
+  if (period === 'week') {
+    const from = getWeekStart(reference);
+    return { from, to: addDays(from, 6) };
+  }
+
+  const date = parseISODate(reference);
+  return {
+    from: toISODate(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))),
+    to: toISODate(new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)))
+  };
+}
+
+export function reportFileName(period: ReportPeriod, from: string, to: string): string {
+  switch (period) {
+    case 'week':
+      return `turni_settimana_${from}.pdf`;
+    case 'month':
+      return `turni_${from.slice(0, 7)}.pdf`;
+    default:
+      return `turni_${from}_${to}.pdf`;
+  }
+}
+
+export function buildReportData(rows: EffectiveShiftRow[], from: string, to: string, shiftCodes: ShiftCodeIndex): ShiftReportData {
+  const days: ReportDay[] = [];
+  for (let iso = from; iso <= to; iso = addDays(iso, 1)) {
+    days.push({ iso, label: formatDate(iso).slice(0, 5), day: WEEK_DAY_LABELS[parseISODate(iso).getUTCDay()] });
+  }
+
+  const employees = new Map<string, ReportEmployee>();
+  const legend = new Map<string, ShiftCode>();
+
+  rows.forEach(row => {
+    if (!employees.has(row.employee_code)) {
+      employees.set(row.employee_code, { code: row.employee_code, cells: new Map(), minutes: 0 });
+    }
+    const employee = employees.get(row.employee_code)!;
+    const shift = row.shift ?? '';
+    employee.cells.set(row.date, { shift, swapped: Boolean(row.swap_id || row.chain_id || row.offer_id) });
+
+    const shiftCode = findShiftCode(shiftCodes, shift);
+    if (shiftCode) {
+      legend.set(shiftCode.code, shiftCode);
+      const interval = shiftInterval(shiftCode, row.date);
+      if (interval) employee.minutes += (interval.end.getTime() - interval.start.getTime()) / 60000;
+    }
+  });
+
+  return {
+    from,
+    to,
+    days,
+    employees: Array.from(employees.values()),
+    legend: Array.from(legend.values()).sort((a, b) => a.code.localeCompare(b.code))
+  };
+}
+
+export async function loadReportData(from: string, to: string, shiftCodes: ShiftCodeIndex): Promise<ShiftReportData> {
+  return buildReportData(await loadEffectiveRows(from, to), from, to, shiftCodes);
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
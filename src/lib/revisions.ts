@@ -0,0 +1,48 @@
+import { supabase } from './supabase';
+import { MatrixData, ShiftData } from '../types/schedule';
+
+// Ogni caricamento di una settimana è salvato come revisione numerata: la pubblicazione
+// e il ripristino passano dalle RPC, che sostituiscono le righe della settimana in blocco.
+
+export interface ScheduleRevision {
+  id: string;
+  week_start_date: string;
+  revision: number;
+  shifts: ShiftData[];
+  note: string | null;
+  restored_from: number | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export async function loadRevisions(weekStart: string): Promise<ScheduleRevision[]> {
+  const { data, error } = await supabase
+    .from('schedule_revisions')
+    .select('*')
+    .eq('week_start_date', weekStart)
+    .order('revision', { ascending: false });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export async function publishRevision(data: MatrixData, note?: string): Promise<ScheduleRevision> {
+  const { data: revision, error } = await supabase.rpc('publish_schedule_revision', {
+    p_week_start: data.week_start_date,
+    p_shifts: data.shifts,
+    p_note: note ?? null
+  });
+
+  if (error) throw new Error(error.message);
+  return revision as ScheduleRevision;
+}
+
+export async function rollbackRevision(weekStart: string, revision: number): Promise<ScheduleRevision> {
+  const { data, error } = await supabase.rpc('rollback_schedule_revision', {
+    p_week_start: weekStart,
+    p_revision: revision
+  });
+
+  if (error) throw new Error(error.message);
+  return data as ScheduleRevision;
+}
@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+import { formatDate, getWeekDates } from './weeks';
+
+// Il turno effettivo di ogni cella è calcolato dal database nella tabella
+// effective_shifts: qui ci limitiamo a leggerlo e a darne forma di matrice.
+
+export type Matrix = string[][];
+
+export interface EffectiveShiftRow {
+  employee_code: string;
+  date: string;
+  shift: string | null;
+  base_shift: string | null;
+  swap_id: string | null;
+  display_order: number | null;
+  chain_id: string | null;
+  offer_id: string | null;
+}
+
+export interface EffectiveWeek {
+  // Riga 0: date, riga 1: giorni, poi una riga per dipendente con la sigla in colonna 0
+  matrix: Matrix;
+  // Chiave `${employee_code}|${date}` delle celle modificate da uno scambio, una rotazione o un'offerta accettati
+  swappedCells: Set<string>;
+}
+
+export const cellKey = (employeeCode: string, date: string) => `${employeeCode}|${date}`;
+
+// Righe per richiesta, pari al max_rows dell'API: i periodi lunghi sono letti a pagine
+const EFFECTIVE_ROWS_PAGE_SIZE = 1000;
+
+export async function loadEffectiveRows(from: string, to: string): Promise<EffectiveShiftRow[]> {
+  const rows: EffectiveShiftRow[] = [];
+
+  for (let offset = 0; ; offset += EFFECTIVE_ROWS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('effective_shifts')
+      .select('employee_code, date, shift, base_shift, swap_id, display_order, chain_id, offer_id')
+      .gte('date', from)
+      .lte('date', to)
+      .order('display_order', { ascending: true })
+      .order('employee_code', { ascending: true })
+      .order('date', { ascending: true })
+      .range(offset, offset + EFFECTIVE_ROWS_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < EFFECTIVE_ROWS_PAGE_SIZE) return rows;
+  }
+}
+
+export function buildEffectiveWeek(weekStart: string, rows: EffectiveShiftRow[]): EffectiveWeek {
+  const weekDates = getWeekDates(weekStart);
+  const employees = new Map<string, Record<string, string>>();
+  const swappedCells = new Set<string>();
+
+  rows.forEach(row => {
+    if (!employees.has(row.employee_code)) {
+      employees.set(row.employee_code, {});
+    }
+    employees.get(row.employee_code)![row.date] = row.shift || '';
+    if (row.swap_id || row.chain_id || row.offer_id) {
+      swappedCells.add(cellKey(row.employee_code, row.date));
+    }
+  });
+
+  if (employees.size === 0) {
+    return { matrix: [], swappedCells };
+  }
+
+  const headerRow = ['', ...weekDates.map(d => formatDate(d.iso))];
+  const daysRow = ['', ...weekDates.map(d => d.day)];
+  const employeeRows = Array.from(employees.entries()).map(([code, shifts]) => [
+    code,
+    ...weekDates.map(d => shifts[d.iso] ?? '')
+  ]);
+
+  return { matrix: [headerRow, daysRow, ...employeeRows], swappedCells };
+}
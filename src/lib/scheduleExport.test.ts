@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { detectColumnMapping, detectWeekStarts, rowsToMatrixData } from './matrixImport';
+import { AcceptedSwap, buildAuditRows, buildExportRows, EXPORT_HEADER, exportRange } from './scheduleExport';
+import { EffectiveShiftRow } from './schedule';
+
+const row = (employee_code: string, date: string, shift: string | null): EffectiveShiftRow => ({
+  employee_code,
+  date,
+  shift,
+  base_shift: shift,
+  swap_id: null,
+  display_order: null,
+  chain_id: null,
+  offer_id: null
+});
+
+describe('exportRange', () => {
+  it('extends the period to whole weeks from Sunday to Saturday', () => {
+    expect(exportRange('2025-04-02', '2025-04-09')).toEqual({ from: '2025-03-30', to: '2025-04-12' });
+    expect(exportRange('2025-03-30', '2025-04-05')).toEqual({ from: '2025-03-30', to: '2025-04-05' });
+  });
+});
+
+describe('buildExportRows', () => {
+  it('writes one row per employee and week in the import columns', () => {
+    const rows = buildExportRows([
+      row('CA', '2025-03-30', 'RI'),
+      row('CA', '2025-03-31', 'M'),
+      row('DB', '2025-03-30', 'N'),
+      row('CA', '2025-04-06', 'P'),
+      row('CA', '2025-04-12', null)
+    ]);
+
+    expect(rows).toEqual([
+      EXPORT_HEADER,
+      ['2025-03-30', 'CA', 'RI', 'M', '', '', '', '', ''],
+      ['2025-03-30', 'DB', 'N', '', '', '', '', '', ''],
+      ['2025-04-06', 'CA', 'P', '', '', '', '', '', '']
+    ]);
+  });
+
+  it('sorts the weeks even when the rows are not in date order', () => {
+    const rows = buildExportRows([row('CA', '2025-04-07', 'M'), row('CA', '2025-03-31', 'P')]);
+
+    expect(rows.slice(1).map(cells => cells[0])).toEqual(['2025-03-30', '2025-04-06']);
+  });
+
+  it('can be imported again, one week at a time', () => {
+    const rows = buildExportRows([
+      row('CA', '2025-03-30', 'RI'),
+      row('DB', '2025-03-31', '05.55+'),
+      row('CA', '2025-04-07', 'M')
+    ]);
+    const mapping = detectColumnMapping(rows);
+
+    expect(mapping).not.toBeNull();
+    expect(detectWeekStarts(rows, mapping!)).toEqual(['2025-03-30', '2025-04-06']);
+    expect(rowsToMatrixData(rows, mapping!, '2025-03-30')).toEqual({
+      week_start_date: '2025-03-30',
+      shifts: [
+        { employee_code: 'CA', sunday_shift: 'RI' },
+        { employee_code: 'DB', monday_shift: '05.55+' }
+      ]
+    });
+    expect(rowsToMatrixData(rows, mapping!, '2025-04-06').shifts).toEqual([
+      { employee_code: 'CA', monday_shift: 'M' }
+    ]);
+  });
+});
+
+describe('buildAuditRows', () => {
+  const swap: AcceptedSwap = {
+    id: 'swap-1',
+    date: '2025-04-02',
+    from_employee: 'CA',
+    to_employee: 'DB',
+    from_shift: 'M',
+    to_shift: 'P',
+    created_at: '2025-03-28T09:00:00Z',
+    peer_accepted_at: null,
+    responded_at: '2025-03-29T10:30:00Z',
+    manager_comment: null,
+    stale: true
+  };
+
+  it('writes the header and one row per accepted swap', () => {
+    const rows = buildAuditRows([swap]);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0][0]).toBe('Data');
+    expect(rows[1]).toEqual([
+      '2025-04-02',
+      'CA',
+      'M',
+      'DB',
+      'P',
+      new Date(swap.created_at).toLocaleString('it-IT'),
+      '',
+      new Date(swap.responded_at!).toLocaleString('it-IT'),
+      '',
+      'sì'
+    ]);
+  });
+
+  it('writes only the header without swaps', () => {
+    expect(buildAuditRows([])).toHaveLength(1);
+  });
+});
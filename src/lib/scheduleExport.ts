@@ -0,0 +1,143 @@
+import Papa from 'papaparse';
+import { downloadBlob } from './download';
+import { DAY_KEYS, TableRows } from './matrixImport';
+import { EffectiveShiftRow, loadEffectiveRows } from './schedule';
+import { supabase } from './supabase';
+import { addDays, getWeekStart } from './weeks';
+
+// Esportazione dei turni effettivi in CSV ed Excel. Le colonne seguono il formato MatrixData
+// (settimana, sigla, un turno per giorno da domenica), così il file si può ricaricare
+// con MatrixUploader: il periodo è esteso a settimane intere, con una riga per dipendente
+// e settimana, e l'importazione pubblica una revisione per ogni settimana del file.
+// L'elenco degli scambi accettati è solo nell'Excel, in un secondo foglio.
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export const EXPORT_HEADER = ['week_start_date', 'employee_code', ...DAY_KEYS];
+
+const AUDIT_HEADER = [
+  'Data',
+  'Cede',
+  'Turno ceduto',
+  'Riceve',
+  'Turno ricevuto',
+  'Richiesto il',
+  'Accettato dal collega il',
+  'Concluso il',
+  'Commento del responsabile',
+  'Superato da una revisione'
+];
+
+export interface AcceptedSwap {
+  id: string;
+  date: string;
+  from_employee: string;
+  to_employee: string;
+  from_shift: string;
+  to_shift: string;
+  created_at: string;
+  peer_accepted_at: string | null;
+  responded_at: string | null;
+  manager_comment: string | null;
+  stale: boolean;
+}
+
+export function exportRange(from: string, to: string) {
+  const weekStart = getWeekStart(from);
+  return { from: weekStart, to: addDays(getWeekStart(to), 6) };
+}
+
+export function buildExportRows(rows: EffectiveShiftRow[]): TableRows {
+  const weeks = new Map<string, Map<string, string[]>>();
+
+  rows.forEach(row => {
+    const weekStart = getWeekStart(row.date);
+    if (!weeks.has(weekStart)) weeks.set(weekStart, new Map());
+    const employees = weeks.get(weekStart)!;
+    if (!employees.has(row.employee_code)) {
+      employees.set(row.employee_code, [weekStart, row.employee_code, ...DAY_KEYS.map(() => '')]);
+    }
+
+    const dayIndex = DAY_KEYS.findIndex((_, i) => addDays(weekStart, i) === row.date);
+    employees.get(row.employee_code)![2 + dayIndex] = row.shift ?? '';
+  });
+
+  // Le righe arrivano già nell'ordine della matrice (display_order, sigla)
+  const weekRows = Array.from(weeks.keys())
+    .sort()
+    .flatMap(weekStart => Array.from(weeks.get(weekStart)!.values()));
+
+  return [EXPORT_HEADER, ...weekRows];
+}
+
+const ACCEPTED_SWAPS_PAGE_SIZE = 1000;
+
+export async function loadAcceptedSwaps(from: string, to: string): Promise<AcceptedSwap[]> {
+  const swaps: AcceptedSwap[] = [];
+
+  for (let offset = 0; ; offset += ACCEPTED_SWAPS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('shift_swaps_v2')
+      .select('id, date, from_employee, to_employee, from_shift, to_shift, created_at, peer_accepted_at, responded_at, manager_comment, stale')
+      .eq('status', 'accepted')
+      .gte('date', from)
+      .lte('date', to)
+      .order('date', { ascending: true })
+      .order('responded_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + ACCEPTED_SWAPS_PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    swaps.push(...(data ?? []));
+    if (!data || data.length < ACCEPTED_SWAPS_PAGE_SIZE) return swaps;
+  }
+}
+
+const formatTimestamp = (value: string | null) => (value ? new Date(value).toLocaleString('it-IT') : '');
+
+export function buildAuditRows(swaps: AcceptedSwap[]): TableRows {
+  return [
+    AUDIT_HEADER,
+    ...swaps.map(swap => [
+      swap.date,
+      swap.from_employee,
+      swap.from_shift,
+      swap.to_employee,
+      swap.to_shift,
+      formatTimestamp(swap.created_at),
+      formatTimestamp(swap.peer_accepted_at),
+      formatTimestamp(swap.responded_at),
+      swap.manager_comment ?? '',
+      swap.stale ? 'sì' : ''
+    ])
+  ];
+}
+
+export async function exportSchedule(format: ExportFormat, from: string, to: string, includeAudit: boolean): Promise<void> {
+  const range = exportRange(from, to);
+  const withAudit = includeAudit && format === 'xlsx';
+  const [rows, swaps] = await Promise.all([
+    loadEffectiveRows(range.from, range.to),
+    withAudit ? loadAcceptedSwaps(range.from, range.to) : Promise.resolve([])
+  ]);
+  if (rows.length === 0) {
+    throw new Error('Nessun turno nel periodo selezionato');
+  }
+
+  const baseName = `turni_${range.from}_${range.to}`;
+  const scheduleRows = buildExportRows(rows);
+
+  if (format === 'csv') {
+    downloadBlob(new Blob([Papa.unparse(scheduleRows)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+    return;
+  }
+
+  // I turni restano nel primo foglio, l'unico letto dall'importazione
+  const XLSX = await import('xlsx');
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(scheduleRows), 'Turni');
+  if (withAudit) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(buildAuditRows(swaps)), 'Scambi');
+  }
+  XLSX.writeFile(workbook, `${baseName}.xlsx`);
+}
@@ -0,0 +1,111 @@
+import { supabase } from './supabase';
+import { normalizeShiftValue } from './matrixImport';
+import { ShiftCategory, ShiftCode } from '../types/schedule';
+
+// Catalogo dei codici turno: orari, durata, categoria e scambiabilità di ogni valore
+// che può comparire nella matrice. Le celle si confrontano sempre in forma normalizzata.
+
+export const SHIFT_CATEGORY_LABELS: Record<ShiftCategory, string> = {
+  work: 'Lavoro',
+  night: 'Notte',
+  rest: 'Riposo',
+  holiday: 'Festivo / non lavorativo'
+};
+
+export const DEFAULT_CATEGORY_COLORS: Record<ShiftCategory, string> = {
+  work: '#e0e7ff',
+  night: '#c7d2fe',
+  rest: '#f3f4f6',
+  holiday: '#fef3c7'
+};
+
+export type ShiftCodeIndex = Map<string, ShiftCode>;
+
+export async function loadShiftCodes(): Promise<ShiftCode[]> {
+  const { data, error } = await supabase
+    .from('shift_codes')
+    .select('*')
+    .order('category', { ascending: true })
+    .order('start_time', { ascending: true, nullsFirst: true })
+    .order('code', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export async function saveShiftCode(shiftCode: ShiftCode, previousCode?: string): Promise<void> {
+  const row = { ...shiftCode, code: normalizeShiftValue(shiftCode.code) };
+  const { error } = previousCode && previousCode !== row.code
+    ? await supabase.from('shift_codes').update(row).eq('code', previousCode)
+    : await supabase.from('shift_codes').upsert(row);
+
+  if (error) throw new Error(error.message);
+}
+
+export async function deleteShiftCode(code: string): Promise<void> {
+  const { error } = await supabase.from('shift_codes').delete().eq('code', code);
+  if (error) throw new Error(error.message);
+}
+
+export function indexShiftCodes(codes: ShiftCode[]): ShiftCodeIndex {
+  return new Map(codes.map(code => [code.code, code]));
+}
+
+export function findShiftCode(index: ShiftCodeIndex, value: string | null | undefined): ShiftCode | undefined {
+  const normalized = normalizeShiftValue(value ?? '');
+  return normalized ? index.get(normalized) : undefined;
+}
+
+// I codici non catalogati restano scambiabili, come nel database
+export function isSwappable(index: ShiftCodeIndex, value: string | null | undefined): boolean {
+  return findShiftCode(index, value)?.swappable ?? true;
+}
+
+export function isWorkingShift(shiftCode: ShiftCode | undefined): boolean {
+  return !!shiftCode && (shiftCode.category === 'work' || shiftCode.category === 'night');
+}
+
+export interface ShiftInterval {
+  start: Date;
+  end: Date;
+}
+
+// Inizio e fine di un turno lavorativo in ora locale, come parse_shift_time nel database
+export function shiftInterval(shiftCode: ShiftCode | undefined, date: string): ShiftInterval | null {
+  if (!shiftCode || !isWorkingShift(shiftCode) || !shiftCode.start_time) return null;
+
+  const start = new Date(`${date}T${shiftCode.start_time}`);
+  const minutes = shiftCode.duration_minutes
+    ?? (shiftCode.end_time ? durationBetween(shiftCode.start_time, shiftCode.end_time) : 8 * 60);
+  return { start, end: new Date(start.getTime() + minutes * 60 * 1000) };
+}
+
+// Durata in minuti tra due orari HH:MM, considerando i turni che passano la mezzanotte
+export function durationBetween(start: string, end: string): number {
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const diff = toMinutes(end) - toMinutes(start);
+  return diff > 0 ? diff : diff + 24 * 60;
+}
+
+export function formatTime(time: string | null): string {
+  return time ? time.slice(0, 5) : '';
+}
+
+export function formatDuration(minutes: number | null): string {
+  if (!minutes) return '';
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h${String(rest).padStart(2, '0')}` : `${hours}h`;
+}
+
+export function describeShiftCode(shiftCode: ShiftCode): string {
+  const times = shiftCode.start_time
+    ? `${formatTime(shiftCode.start_time)}–${formatTime(shiftCode.end_time)}`
+    : SHIFT_CATEGORY_LABELS[shiftCode.category];
+  return [shiftCode.label, times, formatDuration(shiftCode.duration_minutes), shiftCode.suffix_meaning]
+    .filter(Boolean)
+    .join(' · ');
+}
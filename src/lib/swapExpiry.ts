@@ -0,0 +1,30 @@
+import { supabase } from './supabase';
+
+// Le richieste di scambio aperte scadono alla loro scadenza o poche ore prima del turno.
+// La chiusura avviene nel database (expire_stale_swaps, eseguita periodicamente da pg_cron).
+
+export interface SwapExpirySettings {
+  hours_before_shift: number;
+  // Scadenza predefinita delle nuove richieste, in ore dalla creazione (null: nessuna)
+  default_deadline_hours: number | null;
+  timezone: string;
+}
+
+export async function loadSwapExpirySettings(): Promise<SwapExpirySettings> {
+  const { data, error } = await supabase
+    .from('swap_expiry_settings')
+    .select('hours_before_shift, default_deadline_hours, timezone')
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ?? { hours_before_shift: 0, default_deadline_hours: null, timezone: 'Europe/Rome' };
+}
+
+export async function saveSwapExpirySettings(settings: SwapExpirySettings): Promise<void> {
+  const { error } = await supabase
+    .from('swap_expiry_settings')
+    .update({ ...settings, updated_at: new Date().toISOString() })
+    .eq('id', true);
+
+  if (error) throw new Error(error.message);
+}
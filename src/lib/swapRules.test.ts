@@ -0,0 +1,213 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { evaluateSwapRules, SwapRule, SwapRuleContext, SwapRuleType } from './swapRules';
+import { indexShiftCodes } from './shiftCodes';
+import { SwapRequestParams } from './swaps';
+import { ShiftCode } from '../types/schedule';
+
+const code = (overrides: Partial<ShiftCode> & Pick<ShiftCode, 'code' | 'category'>): ShiftCode => ({
+  label: null,
+  start_time: null,
+  end_time: null,
+  duration_minutes: null,
+  suffix_meaning: null,
+  color: '#ffffff',
+  swappable: true,
+  required_qualification: null,
+  ...overrides
+});
+
+const rule = (rule_type: SwapRuleType, params: SwapRule['params'] = {}, overrides: Partial<SwapRule> = {}): SwapRule => ({
+  id: rule_type,
+  rule_type,
+  description: rule_type,
+  params,
+  enabled: true,
+  applies_to_admins: false,
+  ...overrides
+});
+
+const shiftCodes = indexShiftCodes([
+  code({ code: 'M', category: 'work', start_time: '06:00:00', end_time: '14:00:00' }),
+  code({ code: 'P', category: 'work', start_time: '14:00:00', end_time: '22:00:00' }),
+  code({ code: 'S', category: 'work', start_time: '11:00:00', end_time: '19:00:00' }),
+  code({ code: 'N', category: 'night', start_time: '22:00:00', duration_minutes: 600, required_qualification: 'notte' }),
+  code({ code: 'RI', category: 'rest' }),
+  code({ code: 'FE', category: 'holiday', swappable: false })
+]);
+
+// Turni prima dello scambio, per dipendente e giorno
+const context = (
+  shifts: Record<string, Record<string, string>> = {},
+  overrides: Partial<SwapRuleContext> = {}
+): SwapRuleContext => ({
+  shiftCodes,
+  shiftOf: (employee, date) => shifts[employee]?.[date] ?? null,
+  qualifications: [],
+  now: new Date('2025-01-01T00:00:00Z'),
+  ...overrides
+});
+
+const swap = (date: string, fromShift: string, toShift: string): SwapRequestParams => ({
+  date,
+  fromEmployee: 'CA',
+  toEmployee: 'DB',
+  fromShift,
+  toShift
+});
+
+// Giorni consecutivi con lo stesso turno, a partire da una data
+const days = (from: string, count: number, shift: string): Record<string, string> =>
+  Object.fromEntries(Array.from({ length: count }, (_, i) => {
+    const date = new Date(`${from}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + i);
+    return [date.toISOString().slice(0, 10), shift];
+  }));
+
+describe('evaluateSwapRules', () => {
+  it('skips disabled rules and lets approvers override only rules that do not apply to them', () => {
+    const violations = evaluateSwapRules(
+      [
+        rule('swappable_codes', {}, { id: 'a' }),
+        rule('swappable_codes', {}, { id: 'b', applies_to_admins: true }),
+        rule('swappable_codes', {}, { id: 'c', enabled: false })
+      ],
+      swap('2025-04-02', 'FE', 'M'),
+      context()
+    );
+
+    expect(violations.map(v => [v.ruleId, v.overridable, v.message])).toEqual([
+      ['a', true, 'il turno FE non può essere scambiato'],
+      ['b', false, 'il turno FE non può essere scambiato']
+    ]);
+  });
+
+  it('requires the qualification of the shift each employee takes', () => {
+    const violations = evaluateSwapRules([rule('qualification_match')], swap('2025-04-02', 'N', 'M'), context({}, {
+      qualifications: [{ employee_code: 'CA', qualification: 'notte' }]
+    }));
+
+    expect(violations.map(v => v.message)).toEqual(['DB non ha la qualifica notte richiesta dal turno N']);
+  });
+});
+
+describe('min_rest_hours', () => {
+  const rest = [rule('min_rest_hours', { hours: 11 })];
+
+  it('checks the rest before and after the shift each employee takes', () => {
+    const violations = evaluateSwapRules(rest, swap('2025-04-02', 'P', 'M'), context({
+      // CA prende M dopo un P: 8 ore; DB prende P prima di un M: 8 ore
+      CA: { '2025-04-01': 'P' },
+      DB: { '2025-04-03': 'M' }
+    }));
+
+    expect(violations.map(v => v.message)).toEqual([
+      'CA avrebbe solo 8.0 ore di riposo prima del turno M del 02/04 (minimo 11)',
+      'DB avrebbe solo 8.0 ore di riposo dopo il turno P del 02/04 (minimo 11)'
+    ]);
+  });
+
+  it('accepts exactly the minimum rest', () => {
+    // S finisce alle 19:00, M inizia alle 06:00: 11 ore
+    expect(evaluateSwapRules(rest, swap('2025-04-02', 'S', 'M'), context({ CA: { '2025-04-01': 'S' } }))).toEqual([]);
+  });
+
+  it('counts the night shift until it ends the next morning', () => {
+    const violations = evaluateSwapRules(rest, swap('2025-04-02', 'M', 'S'), context({ CA: { '2025-04-01': 'N' } }));
+
+    expect(violations.map(v => v.message)).toEqual([
+      'CA avrebbe solo 3.0 ore di riposo prima del turno S del 02/04 (minimo 11)'
+    ]);
+  });
+
+  it('ignores rest days, holidays and empty cells around the shift', () => {
+    expect(evaluateSwapRules(rest, swap('2025-04-02', 'P', 'M'), context({
+      CA: { '2025-04-01': 'RI', '2025-04-03': 'FE' }
+    }))).toEqual([]);
+  });
+
+  describe('in the week the clocks go forward', () => {
+    const timeZone = process.env.TZ;
+    beforeAll(() => {
+      process.env.TZ = 'Europe/Rome';
+    });
+    afterAll(() => {
+      process.env.TZ = timeZone;
+    });
+
+    it('measures the rest in elapsed hours, one fewer than on the clock', () => {
+      // La notte di sabato 29/03 dura 10 ore reali e finisce alle 09:00 dell'ora legale
+      const violations = evaluateSwapRules(rest, swap('2025-03-30', 'M', 'P'), context({
+        CA: { '2025-03-29': 'N' }
+      }));
+
+      expect(violations.map(v => v.message)).toEqual([
+        'CA avrebbe solo 5.0 ore di riposo prima del turno P del 30/03 (minimo 11)'
+      ]);
+    });
+  });
+});
+
+describe('max_consecutive_days', () => {
+  const streak = [rule('max_consecutive_days', { days: 6 })];
+
+  it('allows a streak of exactly the limit, counting days before and after', () => {
+    expect(evaluateSwapRules(streak, swap('2025-04-03', 'RI', 'M'), context({
+      CA: { ...days('2025-03-31', 3, 'M'), ...days('2025-04-04', 2, 'P') }
+    }))).toEqual([]);
+  });
+
+  it('reports a streak longer than the limit', () => {
+    const violations = evaluateSwapRules(streak, swap('2025-04-03', 'RI', 'N'), context({
+      CA: { ...days('2025-03-31', 3, 'M'), ...days('2025-04-04', 3, 'P') }
+    }));
+
+    expect(violations.map(v => v.message)).toEqual(['CA lavorerebbe più di 6 giorni consecutivi']);
+  });
+
+  it('breaks the streak on rest days and holidays and ignores non-working shifts', () => {
+    expect(evaluateSwapRules(streak, swap('2025-04-03', 'RI', 'M'), context({
+      CA: { ...days('2025-03-28', 6, 'M'), '2025-04-02': 'FE', ...days('2025-04-04', 5, 'P') }
+    }))).toEqual([]);
+    expect(evaluateSwapRules(streak, swap('2025-04-03', 'M', 'RI'), context({
+      CA: days('2025-03-27', 10, 'M')
+    }))).toEqual([]);
+  });
+
+  it('falls back to the default of six days without a parameter', () => {
+    const violations = evaluateSwapRules([rule('max_consecutive_days')], swap('2025-04-03', 'RI', 'M'), context({
+      CA: days('2025-03-28', 6, 'M')
+    }));
+
+    expect(violations).toHaveLength(1);
+  });
+});
+
+describe('min_notice_hours', () => {
+  const notice = [rule('min_notice_hours', { hours: 24, timezone: 'Europe/Rome' })];
+
+  it('measures the notice from the earliest start in the time zone of the rule', () => {
+    // M del 02/04 inizia alle 06:00 di Roma, le 04:00 UTC
+    const at = (now: string) => evaluateSwapRules(notice, swap('2025-04-02', 'P', 'M'), context({}, { now: new Date(now) }));
+
+    expect(at('2025-04-01T04:00:00Z')).toEqual([]);
+    expect(at('2025-04-01T04:00:01Z').map(v => v.message)).toEqual([
+      'gli scambi vanno richiesti almeno 24 ore prima dell\'inizio del turno'
+    ]);
+  });
+
+  it('uses the offset of the day of the shift across the clock change', () => {
+    // Domenica 30/03 le 06:00 di Roma sono già ora legale: le 04:00 UTC, non le 05:00
+    const at = (now: string) => evaluateSwapRules(notice, swap('2025-03-30', 'M', 'P'), context({}, { now: new Date(now) }));
+
+    expect(at('2025-03-29T04:00:00Z')).toEqual([]);
+    expect(at('2025-03-29T04:30:00Z')).toHaveLength(1);
+  });
+
+  it('takes midnight as the start of shifts without times', () => {
+    const at = (now: string) => evaluateSwapRules(notice, swap('2025-10-27', 'RI', 'FE'), context({}, { now: new Date(now) }));
+
+    // Lunedì 27/10 è già ora solare: mezzanotte a Roma sono le 23:00 UTC del giorno prima
+    expect(at('2025-10-25T23:00:00Z')).toEqual([]);
+    expect(at('2025-10-25T23:00:01Z')).toHaveLength(1);
+  });
+});
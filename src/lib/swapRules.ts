@@ -0,0 +1,264 @@
+import { supabase } from './supabase';
+import { cellKey, loadEffectiveRows } from './schedule';
+import { findShiftCode, isSwappable, isWorkingShift, shiftInterval, ShiftCodeIndex } from './shiftCodes';
+import { SwapRequestParams } from './swaps';
+import { addDays, formatDate, zonedDateTime } from './weeks';
+
+// Regole di ammissibilità degli scambi, definite nella tabella swap_rules.
+// Il database applica le stesse regole (assert_assignment_rules): qui le valutiamo
+// in anticipo per mostrare all'utente quale regola blocca lo scambio.
+// Le regole valgono per tutti; chi approva può derogare a quelle senza applies_to_admins
+// indicando un motivo, che il database registra in swap_rule_overrides.
+
+export type SwapRuleType =
+  | 'swappable_codes'
+  | 'min_rest_hours'
+  | 'max_consecutive_days'
+  | 'min_notice_hours'
+  | 'qualification_match';
+
+export interface SwapRule {
+  id: string;
+  rule_type: SwapRuleType;
+  description: string;
+  params: Record<string, number | string>;
+  enabled: boolean;
+  applies_to_admins: boolean;
+}
+
+export interface SwapRuleViolation {
+  ruleId: string;
+  ruleType: SwapRuleType;
+  description: string;
+  message: string;
+  // Un approvatore può applicare comunque lo scambio con una deroga motivata
+  overridable: boolean;
+}
+
+export interface EmployeeQualification {
+  employee_code: string;
+  qualification: string;
+}
+
+interface SwapRuleParam {
+  key: string;
+  label: string;
+  defaultValue: number | string;
+}
+
+export const SWAP_RULE_TYPES: Record<SwapRuleType, { label: string; params: SwapRuleParam[] }> = {
+  swappable_codes: { label: 'Turni non scambiabili (dal catalogo)', params: [] },
+  min_rest_hours: { label: 'Riposo minimo tra due turni', params: [{ key: 'hours', label: 'Ore', defaultValue: 11 }] },
+  max_consecutive_days: {
+    label: 'Massimo di giorni lavorativi consecutivi',
+    params: [{ key: 'days', label: 'Giorni', defaultValue: 6 }]
+  },
+  min_notice_hours: {
+    label: 'Preavviso minimo prima dell\'inizio del turno',
+    params: [
+      { key: 'hours', label: 'Ore', defaultValue: 24 },
+      { key: 'timezone', label: 'Fuso orario', defaultValue: 'Europe/Rome' }
+    ]
+  },
+  qualification_match: { label: 'Qualifica richiesta dal turno', params: [] }
+};
+
+export interface SwapRuleContext {
+  shiftCodes: ShiftCodeIndex;
+  // Turno effettivo prima dello scambio
+  shiftOf: (employeeCode: string, date: string) => string | null;
+  qualifications: EmployeeQualification[];
+  now: Date;
+}
+
+const numberParam = (rule: SwapRule, key: string) =>
+  Number(rule.params[key] ?? SWAP_RULE_TYPES[rule.rule_type].params.find(p => p.key === key)?.defaultValue);
+
+const stringParam = (rule: SwapRule, key: string) =>
+  String(rule.params[key] ?? SWAP_RULE_TYPES[rule.rule_type].params.find(p => p.key === key)?.defaultValue);
+
+const hoursBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / (60 * 60 * 1000);
+
+export function evaluateSwapRules(
+  rules: SwapRule[],
+  swap: SwapRequestParams,
+  context: SwapRuleContext
+): SwapRuleViolation[] {
+  const violations: SwapRuleViolation[] = [];
+  const { shiftCodes, shiftOf } = context;
+  const lookup = (value: string | null) => findShiftCode(shiftCodes, value);
+  const isWorking = (value: string | null) => isWorkingShift(lookup(value));
+
+  // Dopo lo scambio ognuno lavora il turno dell'altro
+  const assignments = [
+    { employee: swap.fromEmployee, shift: swap.toShift },
+    { employee: swap.toEmployee, shift: swap.fromShift }
+  ];
+
+  rules
+    .filter(rule => rule.enabled)
+    .forEach(rule => {
+      const report = (message: string) => violations.push({
+        ruleId: rule.id,
+        ruleType: rule.rule_type,
+        description: rule.description,
+        message,
+        overridable: !rule.applies_to_admins
+      });
+
+      switch (rule.rule_type) {
+        case 'swappable_codes':
+          [swap.fromShift, swap.toShift]
+            .filter(shift => !isSwappable(shiftCodes, shift))
+            .forEach(shift => report(`il turno ${shift} non può essere scambiato`));
+          break;
+
+        case 'min_notice_hours': {
+          const limit = numberParam(rule, 'hours');
+          // Come nel database gli orari sono ora locale del fuso della regola, non del browser
+          const timeZone = stringParam(rule, 'timezone');
+          const starts = [swap.fromShift, swap.toShift].map(shift => {
+            const shiftCode = lookup(shift);
+            const startTime = shiftInterval(shiftCode, swap.date) ? shiftCode!.start_time! : '00:00';
+            return zonedDateTime(swap.date, startTime, timeZone);
+          });
+          const earliest = new Date(Math.min(...starts.map(d => d.getTime())));
+          if (hoursBetween(context.now, earliest) < limit) {
+            report(`gli scambi vanno richiesti almeno ${limit} ore prima dell'inizio del turno`);
+          }
+          break;
+        }
+
+        case 'min_rest_hours': {
+          const limit = numberParam(rule, 'hours');
+          assignments.forEach(({ employee, shift }) => {
+            const current = shiftInterval(lookup(shift), swap.date);
+            if (!current) return;
+
+            const previousDate = addDays(swap.date, -1);
+            const previous = shiftInterval(lookup(shiftOf(employee, previousDate)), previousDate);
+            if (previous && hoursBetween(previous.end, current.start) < limit) {
+              report(`${employee} avrebbe solo ${hoursBetween(previous.end, current.start).toFixed(1)} ore di riposo ` +
+                `prima del turno ${shift} del ${formatDate(swap.date).slice(0, 5)} (minimo ${limit})`);
+            }
+
+            const nextDate = addDays(swap.date, 1);
+            const next = shiftInterval(lookup(shiftOf(employee, nextDate)), nextDate);
+            if (next && hoursBetween(current.end, next.start) < limit) {
+              report(`${employee} avrebbe solo ${hoursBetween(current.end, next.start).toFixed(1)} ore di riposo ` +
+                `dopo il turno ${shift} del ${formatDate(swap.date).slice(0, 5)} (minimo ${limit})`);
+            }
+          });
+          break;
+        }
+
+        case 'max_consecutive_days': {
+          const limit = numberParam(rule, 'days');
+          assignments.forEach(({ employee, shift }) => {
+            if (!isWorking(shift)) return;
+
+            let streak = 1;
+            for (let d = addDays(swap.date, -1); streak <= limit && isWorking(shiftOf(employee, d)); d = addDays(d, -1)) {
+              streak++;
+            }
+            for (let d = addDays(swap.date, 1); streak <= limit && isWorking(shiftOf(employee, d)); d = addDays(d, 1)) {
+              streak++;
+            }
+            if (streak > limit) {
+              report(`${employee} lavorerebbe più di ${limit} giorni consecutivi`);
+            }
+          });
+          break;
+        }
+
+        case 'qualification_match':
+          assignments.forEach(({ employee, shift }) => {
+            const required = lookup(shift)?.required_qualification;
+            const qualified = context.qualifications.some(
+              q => q.employee_code === employee && q.qualification === required
+            );
+            if (required && !qualified) {
+              report(`${employee} non ha la qualifica ${required} richiesta dal turno ${shift}`);
+            }
+          });
+          break;
+      }
+    });
+
+  return violations;
+}
+
+export function formatViolation(violation: SwapRuleViolation): string {
+  return `${violation.description}: ${violation.message}`;
+}
+
+export async function loadSwapRules(): Promise<SwapRule[]> {
+  const { data, error } = await supabase
+    .from('swap_rules')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export async function saveSwapRule(rule: Omit<SwapRule, 'id'> & { id?: string }): Promise<void> {
+  const { error } = await supabase
+    .from('swap_rules')
+    .upsert({ ...rule, updated_at: new Date().toISOString() });
+
+  if (error) throw new Error(error.message);
+}
+
+export async function deleteSwapRule(id: string): Promise<void> {
+  const { error } = await supabase.from('swap_rules').delete().eq('id', id);
+  if (error) throw new Error(error.message);
+}
+
+export async function loadQualifications(): Promise<EmployeeQualification[]> {
+  const { data, error } = await supabase
+    .from('employee_qualifications')
+    .select('employee_code, qualification')
+    .order('employee_code', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export async function addQualification(qualification: EmployeeQualification): Promise<void> {
+  const { error } = await supabase.from('employee_qualifications').upsert(qualification);
+  if (error) throw new Error(error.message);
+}
+
+export async function removeQualification({ employee_code, qualification }: EmployeeQualification): Promise<void> {
+  const { error } = await supabase
+    .from('employee_qualifications')
+    .delete()
+    .eq('employee_code', employee_code)
+    .eq('qualification', qualification);
+
+  if (error) throw new Error(error.message);
+}
+
+// Carica regole, qualifiche e i turni attorno alla data dello scambio e valuta le regole
+export async function checkSwapRules(
+  swap: SwapRequestParams,
+  { shiftCodes }: { shiftCodes: ShiftCodeIndex }
+): Promise<SwapRuleViolation[]> {
+  const rules = (await loadSwapRules()).filter(rule => rule.enabled);
+  if (rules.length === 0) return [];
+
+  const maxDays = Math.max(1, ...rules.filter(r => r.rule_type === 'max_consecutive_days').map(r => numberParam(r, 'days')));
+  const [rows, qualifications] = await Promise.all([
+    loadEffectiveRows(addDays(swap.date, -maxDays), addDays(swap.date, maxDays)),
+    rules.some(r => r.rule_type === 'qualification_match') ? loadQualifications() : Promise.resolve([])
+  ]);
+
+  const shifts = new Map(rows.map(row => [cellKey(row.employee_code, row.date), row.shift]));
+  return evaluateSwapRules(rules, swap, {
+    shiftCodes,
+    shiftOf: (employeeCode, date) => shifts.get(cellKey(employeeCode, date)) ?? null,
+    qualifications,
+    now: new Date()
+  });
+}
@@ -0,0 +1,241 @@
+import { supabase } from './supabase';
+import { EffectiveShiftRow } from './schedule';
+
+// Le transizioni di stato degli scambi avvengono solo tramite le RPC del database,
+// che validano i turni, prendono i lock e restituiscono la settimana effettiva aggiornata.
+
+export type SwapStatus = 'pending' | 'pending_manager' | 'accepted' | 'rejected' | 'cancelled' | 'countered' | 'expired';
+
+export const SWAP_STATUS_LABELS: Record<SwapStatus, string> = {
+  pending: 'In attesa',
+  pending_manager: 'Da approvare',
+  accepted: 'Accettato',
+  rejected: 'Rifiutato',
+  cancelled: 'Annullato',
+  countered: 'Controproposta',
+  expired: 'Scaduto'
+};
+
+// Scambi non ancora conclusi: in attesa del collega o del responsabile
+export const isOpenSwapStatus = (status: SwapStatus) => status === 'pending' || status === 'pending_manager';
+
+export interface SwapRequestParams {
+  date: string;
+  fromEmployee: string;
+  toEmployee: string;
+  fromShift: string;
+  toShift: string;
+}
+
+// Turno che un dipendente lavorerà nel giorno dello scambio o della rotazione
+export interface ShiftAssignment {
+  employee: string;
+  shift: string;
+}
+
+export const swapAssignments = (swap: SwapRequestParams): ShiftAssignment[] => [
+  { employee: swap.fromEmployee, shift: swap.toShift },
+  { employee: swap.toEmployee, shift: swap.fromShift }
+];
+
+// L'hint del database distingue le violazioni delle regole (swap_rule:<tipo>) dagli altri errori
+async function callSwapRpc(fn: string, args: Record<string, unknown>): Promise<EffectiveShiftRow[]> {
+  const { data, error } = await supabase.rpc(fn, args);
+  if (error) throw Object.assign(new Error(error.message), { hint: error.hint });
+  return (data as EffectiveShiftRow[] | null) ?? [];
+}
+
+export const isSwapRuleError = (err: unknown) =>
+  err instanceof Error && 'hint' in err && String(err.hint).startsWith('swap_rule:');
+
+// Senza scadenza vale quella predefinita delle impostazioni (se configurata).
+// Il motivo della deroga alle regole conta solo per chi può approvare.
+export function requestSwap(
+  { date, fromEmployee, toEmployee, fromShift, toShift }: SwapRequestParams,
+  expiresAt?: string,
+  overrideReason?: string
+) {
+  return callSwapRpc('swap_request', {
+    p_date: date,
+    p_from_employee: fromEmployee,
+    p_to_employee: toEmployee,
+    p_from_shift: fromShift,
+    p_to_shift: toShift,
+    p_expires_at: expiresAt ?? null,
+    p_override_reason: overrideReason ?? null
+  });
+}
+
+export function acceptSwap(swapId: string) {
+  return callSwapRpc('swap_accept', { p_swap_id: swapId });
+}
+
+// Il commento è obbligatorio quando il responsabile rifiuta uno scambio da approvare
+export function rejectSwap(swapId: string, comment?: string) {
+  return callSwapRpc('swap_reject', { p_swap_id: swapId, p_comment: comment ?? null });
+}
+
+export function approveSwap(swapId: string, comment?: string, overrideReason?: string) {
+  return callSwapRpc('swap_approve', { p_swap_id: swapId, p_comment: comment ?? null, p_override_reason: overrideReason ?? null });
+}
+
+export function cancelSwap(swapId: string) {
+  return callSwapRpc('swap_cancel', { p_swap_id: swapId });
+}
+
+// Controproposta di chi ha ricevuto la richiesta: il proprio turno in un altro giorno e/o
+// con un altro collega. Senza collega va a chi aveva chiesto lo scambio.
+export function counterSwap(swapId: string, { date, toEmployee }: { date: string; toEmployee?: string }, message?: string) {
+  return callSwapRpc('swap_counter', {
+    p_swap_id: swapId,
+    p_date: date,
+    p_to_employee: toEmployee ?? null,
+    p_message: message ?? null
+  });
+}
+
+export interface SwapMessage {
+  id: string;
+  swap_id: string;
+  author_id: string | null;
+  author_code: string | null;
+  body: string;
+  created_at: string;
+}
+
+export async function loadSwapMessages(swapIds: string[]): Promise<SwapMessage[]> {
+  if (swapIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('swap_messages')
+    .select('id, swap_id, author_id, author_code, body, created_at')
+    .in('swap_id', swapIds)
+    .order('created_at', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export async function postSwapMessage(swapId: string, body: string): Promise<SwapMessage> {
+  const { data, error } = await supabase.rpc('swap_message_post', { p_swap_id: swapId, p_body: body });
+  if (error) throw new Error(error.message);
+  return data as SwapMessage;
+}
+
+// Richieste collegate da controproposte, dalla prima all'ultima
+export function swapThreadIds<T extends { id: string; counterOf: string | null }>(swaps: T[], swapId: string): string[] {
+  const byId = new Map(swaps.map(swap => [swap.id, swap]));
+  const ids: string[] = [];
+
+  let current = byId.get(swapId);
+  while (current && !ids.includes(current.id)) {
+    ids.unshift(current.id);
+    current = current.counterOf ? byId.get(current.counterOf) : undefined;
+  }
+
+  let next = swaps.find(swap => swap.counterOf === swapId);
+  while (next && !ids.includes(next.id)) {
+    ids.push(next.id);
+    const previousId: string = next.id;
+    next = swaps.find(swap => swap.counterOf === previousId);
+  }
+
+  return ids.length > 0 ? ids : [swapId];
+}
+
+// Ultimo messaggio di ogni richiesta (i messaggi sono in ordine cronologico)
+export function latestMessages(messages: SwapMessage[]): Map<string, SwapMessage> {
+  return new Map(messages.map(message => [message.swap_id, message]));
+}
+
+export interface PendingApproval {
+  id: string;
+  date: string;
+  from_employee: string;
+  to_employee: string;
+  from_shift: string;
+  to_shift: string;
+  created_at: string;
+  peer_accepted_at: string | null;
+}
+
+export async function loadPendingApprovals(): Promise<PendingApproval[]> {
+  const { data, error } = await supabase
+    .from('shift_swaps_v2')
+    .select('id, date, from_employee, to_employee, from_shift, to_shift, created_at, peer_accepted_at')
+    .eq('status', 'pending_manager')
+    .order('date', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+// Rotazioni tra tre o più dipendenti nello stesso giorno: ogni partecipante prende
+// il turno del successivo e l'ultimo quello del primo. La rotazione è applicata
+// in un solo passaggio quando tutti hanno accettato e il responsabile l'ha approvata.
+
+export interface SwapChainParticipant {
+  position: number;
+  employee_code: string;
+  shift: string;
+  takes_shift: string;
+  accepted_at: string | null;
+}
+
+export interface SwapChain {
+  id: string;
+  date: string;
+  status: SwapStatus;
+  created_by: string | null;
+  created_at: string;
+  peer_accepted_at: string | null;
+  manager_comment: string | null;
+  stale: boolean;
+  participants: SwapChainParticipant[];
+}
+
+export const chainAssignments = (chain: Pick<SwapChain, 'participants'>): ShiftAssignment[] =>
+  chain.participants.map(p => ({ employee: p.employee_code, shift: p.takes_shift }));
+
+export async function loadSwapChains(status?: SwapStatus): Promise<SwapChain[]> {
+  let query = supabase
+    .from('swap_chains')
+    .select('id, date, status, created_by, created_at, peer_accepted_at, manager_comment, stale, participants:swap_chain_participants(position, employee_code, shift, takes_shift, accepted_at)')
+    .order('created_at', { ascending: false });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) throw new Error(error.message);
+  return ((data || []) as SwapChain[]).map(chain => ({
+    ...chain,
+    participants: [...chain.participants].sort((a, b) => a.position - b.position)
+  }));
+}
+
+// Come per gli scambi, il motivo della deroga alle regole conta solo per chi può approvare
+export function requestSwapChain(date: string, employees: string[], overrideReason?: string) {
+  return callSwapRpc('swap_chain_request', { p_date: date, p_employees: employees, p_override_reason: overrideReason ?? null });
+}
+
+export function acceptSwapChain(chainId: string) {
+  return callSwapRpc('swap_chain_accept', { p_chain_id: chainId });
+}
+
+export function approveSwapChain(chainId: string, comment?: string, overrideReason?: string) {
+  return callSwapRpc('swap_chain_approve', {
+    p_chain_id: chainId,
+    p_comment: comment ?? null,
+    p_override_reason: overrideReason ?? null
+  });
+}
+
+export function rejectSwapChain(chainId: string, comment?: string) {
+  return callSwapRpc('swap_chain_reject', { p_chain_id: chainId, p_comment: comment ?? null });
+}
+
+export function cancelSwapChain(chainId: string) {
+  return callSwapRpc('swap_chain_cancel', { p_chain_id: chainId });
+}
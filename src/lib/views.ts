@@ -0,0 +1,21 @@
+// Sezione dell'app indicata nel parametro ?view= (assente per la matrice dei turni)
+
+export type AppView = 'schedule' | 'my' | 'offers' | 'notifications' | 'approvals' | 'upload' | 'codes' | 'rules' | 'employees' | 'analytics';
+
+const APP_VIEWS: AppView[] = ['schedule', 'my', 'offers', 'notifications', 'approvals', 'upload', 'codes', 'rules', 'employees', 'analytics'];
+
+export function getViewFromUrl(): AppView {
+  const view = new URLSearchParams(window.location.search).get('view');
+  return APP_VIEWS.find(v => v === view) ?? 'schedule';
+}
+
+export function setViewInUrl(view: AppView) {
+  const url = new URL(window.location.href);
+  if ((url.searchParams.get('view') ?? 'schedule') === view) return;
+  if (view === 'schedule') {
+    url.searchParams.delete('view');
+  } else {
+    url.searchParams.set('view', view);
+  }
+  window.history.pushState({ view }, '', url);
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { addDays, getWeekDates, getWeekStart, isISODate, zonedDateTime } from './weeks';
+
+describe('isISODate', () => {
+  it('accepts only real calendar dates', () => {
+    expect(isISODate('2024-02-29')).toBe(true);
+    expect(isISODate('2025-02-29')).toBe(false);
+    expect(isISODate('2025-4-1')).toBe(false);
+    expect(isISODate(null)).toBe(false);
+  });
+});
+
+describe('getWeekStart', () => {
+  it('returns the Sunday of the week', () => {
+    expect(getWeekStart('2025-03-30')).toBe('2025-03-30');
+    expect(getWeekStart('2025-04-05')).toBe('2025-03-30');
+    expect(getWeekStart('2025-01-01')).toBe('2024-12-29');
+  });
+});
+
+describe('addDays', () => {
+  it('moves by whole days across the clock changes', () => {
+    expect(addDays('2025-03-29', 1)).toBe('2025-03-30');
+    expect(addDays('2025-03-30', 1)).toBe('2025-03-31');
+    expect(addDays('2025-10-26', -1)).toBe('2025-10-25');
+    expect(getWeekDates('2025-10-26').map(d => d.iso)).toEqual([
+      '2025-10-26', '2025-10-27', '2025-10-28', '2025-10-29', '2025-10-30', '2025-10-31', '2025-11-01'
+    ]);
+  });
+});
+
+describe('zonedDateTime', () => {
+  it('reads the time as local time of the zone, in winter and in summer', () => {
+    expect(zonedDateTime('2025-01-15', '08:00', 'Europe/Rome').toISOString()).toBe('2025-01-15T07:00:00.000Z');
+    expect(zonedDateTime('2025-07-15', '08:00', 'Europe/Rome').toISOString()).toBe('2025-07-15T06:00:00.000Z');
+    expect(zonedDateTime('2025-07-15', '08:00', 'America/New_York').toISOString()).toBe('2025-07-15T12:00:00.000Z');
+    expect(zonedDateTime('2025-07-15', '08:00', 'UTC').toISOString()).toBe('2025-07-15T08:00:00.000Z');
+  });
+
+  it('switches offset at 02:00 on the day the clocks go forward', () => {
+    expect(zonedDateTime('2025-03-30', '01:00', 'Europe/Rome').toISOString()).toBe('2025-03-30T00:00:00.000Z');
+    expect(zonedDateTime('2025-03-30', '03:00', 'Europe/Rome').toISOString()).toBe('2025-03-30T01:00:00.000Z');
+    expect(zonedDateTime('2025-03-30', '06:00', 'Europe/Rome').toISOString()).toBe('2025-03-30T04:00:00.000Z');
+  });
+
+  it('moves a time skipped by the clocks forward, as the database does', () => {
+    expect(zonedDateTime('2025-03-30', '02:30', 'Europe/Rome').toISOString()).toBe('2025-03-30T01:30:00.000Z');
+  });
+
+  it('reads a repeated time as standard time on the day the clocks go back', () => {
+    expect(zonedDateTime('2025-10-26', '01:30', 'Europe/Rome').toISOString()).toBe('2025-10-25T23:30:00.000Z');
+    expect(zonedDateTime('2025-10-26', '02:30', 'Europe/Rome').toISOString()).toBe('2025-10-26T01:30:00.000Z');
+    expect(zonedDateTime('2025-10-26', '06:00', 'Europe/Rome').toISOString()).toBe('2025-10-26T05:00:00.000Z');
+  });
+
+  it('keeps a day of 23 and one of 25 hours between midnights', () => {
+    const hours = (date: string) =>
+      (zonedDateTime(addDays(date, 1), '00:00', 'Europe/Rome').getTime() -
+        zonedDateTime(date, '00:00', 'Europe/Rome').getTime()) / (60 * 60 * 1000);
+
+    expect(hours('2025-03-30')).toBe(23);
+    expect(hours('2025-10-26')).toBe(25);
+    expect(hours('2025-04-02')).toBe(24);
+  });
+});
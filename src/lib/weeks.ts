@@ -0,0 +1,97 @@
+// Le settimane della matrice iniziano di domenica e sono identificate dalla
+// data ISO (YYYY-MM-DD) salvata in shifts_schedule.week_start_date.
+// Tutti i calcoli avvengono in UTC per evitare slittamenti dovuti al fuso orario.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const WEEK_DAY_LABELS = ['Dom', 'Lun', 'Mar', 'Mer', 'Gio', 'Ven', 'Sab'];
+
+export function isISODate(value: string | null | undefined): value is string {
+  if (!value || !ISO_DATE.test(value)) return false;
+  return toISODate(parseISODate(value)) === value;
+}
+
+export function parseISODate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function toISODate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function todayISO(): string {
+  const now = new Date();
+  return toISODate(new Date(Date.UTC(now.getFullYear(), now.getMonth(), now.getDate())));
+}
+
+export function addDays(value: string, days: number): string {
+  return toISODate(new Date(parseISODate(value).getTime() + days * DAY_MS));
+}
+
+export function addWeeks(value: string, weeks: number): string {
+  return addDays(value, weeks * 7);
+}
+
+export function getWeekStart(value: string): string {
+  const date = parseISODate(value);
+  return addDays(value, -date.getUTCDay());
+}
+
+export function formatDate(value: string): string {
+  const [year, month, day] = value.split('-');
+  return `${day}/${month}/${year}`;
+}
+
+export function getWeekDates(weekStart: string) {
+  return WEEK_DAY_LABELS.map((day, i) => {
+    const iso = addDays(weekStart, i);
+    return { iso, full: formatDate(iso), day };
+  });
+}
+
+// Scarto in millisecondi tra l'ora locale del fuso e UTC in un dato istante
+function timeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  const local = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return local - Math.floor(instant / 1000) * 1000;
+}
+
+// Istante di una data e un orario HH:MM espressi nell'ora locale di un fuso IANA,
+// come `timestamp AT TIME ZONE` nel database, indipendente dal fuso del browser
+export function zonedDateTime(date: string, time: string, timeZone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = parseISODate(date).getTime() + (hours * 60 + minutes) * 60 * 1000;
+  // Il secondo passaggio corregge lo scarto nei giorni del cambio d'ora
+  const firstGuess = wallClock - timeZoneOffset(wallClock, timeZone);
+  return new Date(wallClock - timeZoneOffset(firstGuess, timeZone));
+}
+
+export function getWeekFromUrl(): string | null {
+  const week = new URLSearchParams(window.location.search).get('week');
+  return isISODate(week) ? getWeekStart(week) : null;
+}
+
+export function setWeekInUrl(weekStart: string) {
+  const url = new URL(window.location.href);
+  const current = url.searchParams.get('week');
+  if (current === weekStart) return;
+  url.searchParams.set('week', weekStart);
+  // Il primo caricamento non deve aggiungere una voce alla cronologia
+  if (current === null) {
+    window.history.replaceState({ week: weekStart }, '', url);
+  } else {
+    window.history.pushState({ week: weekStart }, '', url);
+  }
+}
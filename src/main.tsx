@@ -1,13 +1,22 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { AuthProvider } from './contexts/AuthContext';
+import { ShiftCodesProvider } from './contexts/ShiftCodesContext';
+import { NotificationsProvider } from './contexts/NotificationsContext';
 import App from './App';
+import { registerServiceWorker } from './lib/push';
 import './index.css';
 
+registerServiceWorker();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <AuthProvider>
-      <App />
+      <ShiftCodesProvider>
+        <NotificationsProvider>
+          <App />
+        </NotificationsProvider>
+      </ShiftCodesProvider>
     </AuthProvider>
   </StrictMode>
 );
\ No newline at end of file
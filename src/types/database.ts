@@ -70,21 +70,21 @@ export interface Database {
       users: {
         Row: {
           id: string
-          role: 'admin' | 'user'
+          role: 'admin' | 'scheduler' | 'team_lead' | 'employee'
           full_name: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id: string
-          role?: 'admin' | 'user'
+          role?: 'admin' | 'scheduler' | 'team_lead' | 'employee'
           full_name?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
-          role?: 'admin' | 'user'
+          role?: 'admin' | 'scheduler' | 'team_lead' | 'employee'
           full_name?: string | null
           created_at?: string
           updated_at?: string
@@ -0,0 +1,57 @@
+export type DayKey =
+  | 'sunday_shift'
+  | 'monday_shift'
+  | 'tuesday_shift'
+  | 'wednesday_shift'
+  | 'thursday_shift'
+  | 'friday_shift'
+  | 'saturday_shift';
+
+export interface ShiftData {
+  employee_code: string;
+  sunday_shift?: string;
+  monday_shift?: string;
+  tuesday_shift?: string;
+  wednesday_shift?: string;
+  thursday_shift?: string;
+  friday_shift?: string;
+  saturday_shift?: string;
+  [key: string]: string | undefined;
+}
+
+export interface MatrixData {
+  week_start_date: string;
+  shifts: ShiftData[];
+}
+
+export type ShiftCategory = 'work' | 'night' | 'rest' | 'holiday';
+
+export interface ShiftCode {
+  code: string;
+  label: string | null;
+  category: ShiftCategory;
+  // Orari nel formato restituito da Postgres (HH:MM:SS)
+  start_time: string | null;
+  end_time: string | null;
+  duration_minutes: number | null;
+  suffix_meaning: string | null;
+  color: string;
+  swappable: boolean;
+  required_qualification: string | null;
+}
+
+export type ContractType = 'full_time' | 'part_time' | 'fixed_term' | 'external';
+
+export interface Employee {
+  code: string;
+  display_name: string | null;
+  email: string | null;
+  team: string | null;
+  contract_type: ContractType | null;
+  // Ore settimanali da contratto, confrontate con le ore lavorate
+  weekly_hours: number | null;
+  active_from: string | null;
+  active_to: string | null;
+  // Account collegato alla sigla, null se il dipendente non si è ancora registrato
+  user_id: string | null;
+}
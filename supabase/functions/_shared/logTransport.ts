@@ -0,0 +1,13 @@
+import type { MailMessage, MailTransport } from './mail.ts';
+
+// Scrive le email nel log invece di inviarle (sviluppo senza server SMTP)
+export class LogTransport implements MailTransport {
+  send(message: MailMessage): Promise<void> {
+    console.log(`[mail] a ${message.to}: ${message.subject}\n${message.text}`);
+    return Promise.resolve();
+  }
+
+  close(): Promise<void> {
+    return Promise.resolve();
+  }
+}
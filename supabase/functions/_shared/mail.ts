@@ -0,0 +1,43 @@
+import { LogTransport } from './logTransport.ts';
+import { SmtpTransport } from './smtpTransport.ts';
+
+// Canale di invio delle email: l'implementazione è scelta con MAIL_TRANSPORT,
+// così la funzione di invio non dipende dal fornitore
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+export function createMailTransport(): MailTransport {
+  const kind = Deno.env.get('MAIL_TRANSPORT') ?? 'smtp';
+
+  switch (kind) {
+    case 'smtp':
+      return new SmtpTransport({
+        hostname: requireEnv('SMTP_HOST'),
+        port: Number(Deno.env.get('SMTP_PORT') ?? 587),
+        tls: Deno.env.get('SMTP_TLS') === 'true',
+        username: Deno.env.get('SMTP_USER'),
+        password: Deno.env.get('SMTP_PASSWORD'),
+        from: requireEnv('SMTP_FROM')
+      });
+    case 'log':
+      return new LogTransport();
+    default:
+      throw new Error(`MAIL_TRANSPORT non supportato: ${kind}`);
+  }
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`Variabile d'ambiente mancante: ${name}`);
+  return value;
+}
@@ -0,0 +1,66 @@
+import webpush from 'npm:web-push@3.6.7';
+
+// Canale Web Push: con PUSH_TRANSPORT=webpush le notifiche sono firmate con le chiavi VAPID
+// e consegnate al servizio push del browser; con `log` sono solo scritte nel log
+
+export interface PushSubscriptionData {
+  id: string;
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+}
+
+export interface PushTransport {
+  send(subscription: PushSubscriptionData, payload: PushPayload): Promise<void>;
+}
+
+// Il browser ha revocato l'iscrizione: va eliminata invece di riprovare
+export class PushSubscriptionGoneError extends Error {}
+
+class WebPushTransport implements PushTransport {
+  constructor(subject: string, publicKey: string, privateKey: string) {
+    webpush.setVapidDetails(subject, publicKey, privateKey);
+  }
+
+  async send(subscription: PushSubscriptionData, payload: PushPayload): Promise<void> {
+    try {
+      await webpush.sendNotification(subscription, JSON.stringify(payload), { TTL: 24 * 60 * 60 });
+    } catch (err) {
+      const status = (err as { statusCode?: number }).statusCode;
+      if (status === 404 || status === 410) {
+        throw new PushSubscriptionGoneError(`Iscrizione push scaduta (${status})`);
+      }
+      throw err;
+    }
+  }
+}
+
+class LogPushTransport implements PushTransport {
+  send(subscription: PushSubscriptionData, payload: PushPayload): Promise<void> {
+    console.log(`[push] a ${subscription.endpoint}: ${payload.title} - ${payload.body}`);
+    return Promise.resolve();
+  }
+}
+
+export function createPushTransport(): PushTransport {
+  const kind = Deno.env.get('PUSH_TRANSPORT') ?? 'webpush';
+
+  switch (kind) {
+    case 'webpush': {
+      const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+      const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+      if (!publicKey || !privateKey) throw new Error('Chiavi VAPID mancanti');
+      return new WebPushTransport(Deno.env.get('VAPID_SUBJECT') ?? 'mailto:turni@example.com', publicKey, privateKey);
+    }
+    case 'log':
+      return new LogPushTransport();
+    default:
+      throw new Error(`PUSH_TRANSPORT non supportato: ${kind}`);
+  }
+}
@@ -0,0 +1,46 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import type { MailMessage, MailTransport } from './mail.ts';
+
+export interface SmtpOptions {
+  hostname: string;
+  port: number;
+  // TLS implicito (porta 465); senza, la connessione resta in chiaro come nei catcher locali
+  tls: boolean;
+  username?: string;
+  password?: string;
+  from: string;
+}
+
+export class SmtpTransport implements MailTransport {
+  private client: SMTPClient;
+  private from: string;
+
+  constructor(options: SmtpOptions) {
+    this.from = options.from;
+    this.client = new SMTPClient({
+      connection: {
+        hostname: options.hostname,
+        port: options.port,
+        tls: options.tls,
+        auth: options.username && options.password
+          ? { username: options.username, password: options.password }
+          : undefined
+      },
+      debug: { allowUnsecure: !options.tls, noStartTLS: !options.tls }
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.client.send({
+      from: this.from,
+      to: message.to,
+      subject: message.subject,
+      content: message.text,
+      html: message.html
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.client.close();
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { FeedEvent, renderCalendar } from './ics.ts';
+
+const event = (overrides: Partial<FeedEvent> = {}): FeedEvent => ({
+  employee_code: 'CA',
+  date: '2025-04-02',
+  shift: 'M',
+  label: 'Mattina',
+  category: 'work',
+  starts_at: '2025-04-02T06:00:00+02:00',
+  ends_at: '2025-04-02T14:00:00+02:00',
+  updated_at: '2025-03-30T10:15:30.123Z',
+  ...overrides
+});
+
+const unfold = (calendar: string) => calendar.replace(/\r\n /g, '');
+
+describe('renderCalendar', () => {
+  it('converts timed shifts to UTC without separators or milliseconds', () => {
+    const calendar = renderCalendar([event()], 'Turni CA');
+
+    expect(calendar).toContain('\r\nDTSTART:20250402T040000Z\r\n');
+    expect(calendar).toContain('\r\nDTEND:20250402T120000Z\r\n');
+    expect(calendar).toContain('\r\nLAST-MODIFIED:20250330T101530Z\r\n');
+    expect(calendar).toContain('\r\nTRANSP:OPAQUE\r\n');
+  });
+
+  it('renders shifts without times as all-day events ending the next day', () => {
+    const calendar = renderCalendar(
+      [event({ date: '2025-12-31', shift: 'RI', category: 'rest', starts_at: null, ends_at: null })],
+      'Turni CA'
+    );
+
+    expect(calendar).toContain('\r\nDTSTART;VALUE=DATE:20251231\r\n');
+    expect(calendar).toContain('\r\nDTEND;VALUE=DATE:20260101\r\n');
+    expect(calendar).toContain('\r\nSUMMARY:Riposo (RI)\r\n');
+    expect(calendar).toContain('\r\nTRANSP:TRANSPARENT\r\n');
+  });
+
+  it('folds long lines at 75 bytes with a leading space on continuation lines', () => {
+    const label = 'Turno di reperibilità notturna con più sedi, trasferte e rientri programmati';
+    const calendar = renderCalendar([event({ label })], 'Turni CA');
+    const encoder = new TextEncoder();
+
+    const lines = calendar.split('\r\n');
+    lines.forEach(line => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+    expect(lines.filter(line => line.startsWith(' ')).length).toBeGreaterThan(0);
+    expect(unfold(calendar)).toContain(`\r\nSUMMARY:${label.replace(/,/g, '\\,')} (M)\r\n`);
+  });
+
+  it('never splits a multi-byte character across folded lines', () => {
+    const label = 'è'.repeat(60);
+    const calendar = renderCalendar([event({ label })], 'Turni CA');
+
+    expect(calendar).not.toContain('�');
+    expect(unfold(calendar)).toContain(`SUMMARY:${label} (M)`);
+  });
+
+  it('escapes text values and ends every line with CRLF', () => {
+    const calendar = renderCalendar([], 'Turni; CA, reparto\\A');
+
+    expect(calendar).toContain('X-WR-CALNAME:Turni\\; CA\\, reparto\\\\A');
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.replace(/\r\n/g, '')).not.toContain('\n');
+  });
+});
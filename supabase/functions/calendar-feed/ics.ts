@@ -0,0 +1,98 @@
+// Costruzione del calendario iCalendar (RFC 5545) con un evento per ogni giorno di turno
+
+export interface FeedEvent {
+  employee_code: string;
+  date: string;
+  shift: string;
+  label: string | null;
+  category: 'work' | 'night' | 'rest' | 'holiday' | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  updated_at: string | null;
+}
+
+const CATEGORY_SUMMARIES: Record<string, string> = {
+  rest: 'Riposo',
+  holiday: 'Non lavorativo'
+};
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Righe al massimo di 75 byte, le successive iniziano con uno spazio
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+const formatUtc = (timestamp: string) =>
+  new Date(timestamp).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatDate = (date: string) => date.replace(/-/g, '');
+
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+}
+
+function summaryFor(event: FeedEvent): string {
+  const name = event.category ? CATEGORY_SUMMARIES[event.category] ?? event.label : event.label;
+  return name ? `${name} (${event.shift})` : `Turno ${event.shift}`;
+}
+
+export function renderCalendar(events: FeedEvent[], name: string): string {
+  const now = formatUtc(new Date().toISOString());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Gestione turni//Calendario turni//IT',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H'
+  ];
+
+  for (const event of events) {
+    const modified = event.updated_at ? formatUtc(event.updated_at) : now;
+    lines.push(
+      'BEGIN:VEVENT',
+      // Un evento per dipendente e giorno: uno scambio accettato aggiorna l'evento esistente
+      `UID:${event.employee_code}-${formatDate(event.date)}@turni`,
+      `DTSTAMP:${now}`,
+      `LAST-MODIFIED:${modified}`,
+      `SEQUENCE:${event.updated_at ? Math.floor(new Date(event.updated_at).getTime() / 1000) : 0}`,
+      `SUMMARY:${escapeText(summaryFor(event))}`
+    );
+
+    if (event.starts_at && event.ends_at) {
+      lines.push(`DTSTART:${formatUtc(event.starts_at)}`, `DTEND:${formatUtc(event.ends_at)}`, 'TRANSP:OPAQUE');
+    } else {
+      lines.push(
+        `DTSTART;VALUE=DATE:${formatDate(event.date)}`,
+        `DTEND;VALUE=DATE:${formatDate(nextDay(event.date))}`,
+        'TRANSP:TRANSPARENT'
+      );
+    }
+
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,70 @@
+/*
+  Calendario personale dei turni in formato iCalendar. Due modi di accesso:
+    - ?token=<token> - link di iscrizione per le app di calendario, che non possono
+      autenticarsi (token creato con rotate_calendar_feed)
+    - Authorization: Bearer <jwt dell'utente> - download una tantum dall'app
+
+  La verifica del JWT della piattaforma è disattivata in config.toml ([functions.calendar-feed]):
+  l'accesso è controllato qui.
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { FeedEvent, renderCalendar } from './ics.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  const resolveUser = async (): Promise<string | null> => {
+    const token = new URL(req.url).searchParams.get('token');
+    if (token) {
+      const { data, error } = await supabase
+        .from('calendar_feeds')
+        .select('user_id')
+        .eq('token', token)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data?.user_id ?? null;
+    }
+
+    const jwt = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+    if (!jwt) return null;
+    const { data } = await supabase.auth.getUser(jwt);
+    return data.user?.id ?? null;
+  };
+
+  try {
+    const userId = await resolveUser();
+    if (!userId) {
+      return new Response('Calendario non trovato', { status: 404, headers: corsHeaders });
+    }
+
+    const { data, error } = await supabase.rpc('calendar_feed_events', { p_user_id: userId });
+    if (error) throw new Error(error.message);
+
+    const events = (data as FeedEvent[] | null) ?? [];
+    const name = events.length > 0 ? `Turni ${events[0].employee_code}` : 'Turni';
+
+    return new Response(renderCalendar(events, name), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="turni.ics"',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (err) {
+    console.error('Error building calendar feed:', err);
+    return new Response('Errore nella generazione del calendario', { status: 500, headers: corsHeaders });
+  }
+});
@@ -0,0 +1,99 @@
+/*
+  Invia le notifiche accodate in notification_deliveries, via email e Web Push. È chiamata
+  ogni minuto da pg_cron (invoke_notification_dispatch), subito dopo ogni notifica push,
+  e può essere invocata a mano per lo sviluppo.
+
+  Per provarla in locale, con il catcher SMTP (Inbucket, http://localhost:54324) e le push
+  scritte nel log o inviate con le chiavi VAPID di sviluppo:
+    supabase functions serve notification-dispatch --env-file supabase/functions/.env.example
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createMailTransport } from '../_shared/mail.ts';
+import { createPushTransport, PushSubscriptionGoneError } from '../_shared/push.ts';
+import { QueuedDelivery, renderNotificationEmail, renderPushPayload } from './templates.ts';
+
+const BATCH_SIZE = 50;
+
+type Channel = 'email' | 'push';
+
+Deno.serve(async () => {
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+  const appUrl = Deno.env.get('APP_URL');
+
+  const claim = async (channel: Channel): Promise<QueuedDelivery[]> => {
+    const { data, error } = await supabase.rpc('claim_notification_deliveries', {
+      p_channel: channel,
+      p_limit: BATCH_SIZE
+    });
+    if (error) throw new Error(error.message);
+    return (data as QueuedDelivery[] | null) ?? [];
+  };
+
+  const complete = async (delivery: QueuedDelivery, sendError: string | null) => {
+    const { error } = await supabase.rpc('complete_notification_delivery', {
+      p_id: delivery.id,
+      p_error: sendError
+    });
+    if (error) {
+      console.error('Error recording notification delivery:', error);
+    }
+  };
+
+  // Invia ogni consegna e ne registra l'esito; gli errori di una non fermano le altre
+  const dispatch = async (deliveries: QueuedDelivery[], send: (delivery: QueuedDelivery) => Promise<void>) => {
+    let sent = 0;
+    let failed = 0;
+
+    for (const delivery of deliveries) {
+      try {
+        await send(delivery);
+        await complete(delivery, null);
+        sent++;
+      } catch (err) {
+        if (err instanceof PushSubscriptionGoneError && delivery.subscription) {
+          // Elimina anche le consegne in coda verso lo stesso dispositivo
+          await supabase.from('push_subscriptions').delete().eq('id', delivery.subscription.id);
+        } else {
+          console.error('Error sending notification:', err);
+          await complete(delivery, err instanceof Error ? err.message : String(err));
+        }
+        failed++;
+      }
+    }
+
+    return { sent, failed };
+  };
+
+  try {
+    const emails = await claim('email');
+    let emailResult = { sent: 0, failed: 0 };
+    if (emails.length > 0) {
+      const transport = createMailTransport();
+      try {
+        emailResult = await dispatch(emails, delivery =>
+          transport.send(renderNotificationEmail(delivery, appUrl))
+        );
+      } finally {
+        await transport.close();
+      }
+    }
+
+    const pushes = await claim('push');
+    let pushResult = { sent: 0, failed: 0 };
+    if (pushes.length > 0) {
+      const transport = createPushTransport();
+      pushResult = await dispatch(pushes, async delivery => {
+        if (!delivery.subscription) throw new Error('Iscrizione push non trovata');
+        await transport.send(delivery.subscription, renderPushPayload(delivery, appUrl));
+      });
+    }
+
+    return Response.json({ email: emailResult, push: pushResult });
+  } catch (err) {
+    console.error('Error dispatching notifications:', err);
+    return Response.json({ error: err instanceof Error ? err.message : String(err) }, { status: 500 });
+  }
+});
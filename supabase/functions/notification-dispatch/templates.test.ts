@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { QueuedDelivery, renderNotificationEmail, renderPushPayload } from './templates.ts';
+
+const delivery = (overrides: Partial<QueuedDelivery> = {}): QueuedDelivery => ({
+  id: 'delivery-1',
+  notification_id: 'notification-1',
+  recipient: 'ca@example.com',
+  kind: 'swap_request',
+  message: 'Nuova richiesta di scambio da CA per il turno del 02/04/2025',
+  swap_id: null,
+  created_at: '2025-04-01T08:00:00Z',
+  attempts: 0,
+  subscription: null,
+  ...overrides
+});
+
+describe('renderNotificationEmail', () => {
+  it('uses the subject of the notification kind and links the notifications page', () => {
+    const email = renderNotificationEmail(delivery(), 'https://turni.example.com/');
+
+    expect(email.to).toBe('ca@example.com');
+    expect(email.subject).toBe('Nuova richiesta di scambio turno');
+    expect(email.text).toContain('Apri le notifiche: https://turni.example.com/?view=notifications');
+    expect(email.html).toContain('<a href="https://turni.example.com/?view=notifications">');
+  });
+
+  it('falls back to a generic subject and omits the link without an app url', () => {
+    const email = renderNotificationEmail(delivery({ kind: 'unknown' }));
+
+    expect(email.subject).toBe('Notifica turni');
+    expect(email.text).not.toContain('Apri le notifiche');
+    expect(email.html).not.toContain('<a ');
+  });
+
+  it('escapes the message in the html body', () => {
+    const email = renderNotificationEmail(delivery({ message: 'Turno <b>"N"</b> & riposo' }));
+
+    expect(email.html).toContain('<p>Turno &lt;b&gt;&quot;N&quot;&lt;/b&gt; &amp; riposo</p>');
+    expect(email.text).toContain('Turno <b>"N"</b> & riposo');
+  });
+});
+
+describe('renderPushPayload', () => {
+  it('groups the notifications of the same swap under one tag', () => {
+    const payload = renderPushPayload(delivery({ swap_id: 'swap-9' }), 'https://turni.example.com');
+
+    expect(payload).toEqual({
+      title: 'Nuova richiesta di scambio turno',
+      body: delivery().message,
+      url: 'https://turni.example.com/?view=notifications',
+      tag: 'swap-swap-9'
+    });
+  });
+
+  it('tags other notifications by id and links the relative page without an app url', () => {
+    const payload = renderPushPayload(delivery());
+
+    expect(payload.tag).toBe('notification-1');
+    expect(payload.url).toBe('/?view=notifications');
+  });
+});
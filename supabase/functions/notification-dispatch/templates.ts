@@ -0,0 +1,64 @@
+import type { MailMessage } from '../_shared/mail.ts';
+import type { PushPayload, PushSubscriptionData } from '../_shared/push.ts';
+
+export interface QueuedDelivery {
+  id: string;
+  notification_id: string;
+  recipient: string;
+  kind: string;
+  message: string;
+  swap_id: string | null;
+  created_at: string;
+  attempts: number;
+  // Solo per il canale push
+  subscription: PushSubscriptionData | null;
+}
+
+const SUBJECTS: Record<string, string> = {
+  swap_request: 'Nuova richiesta di scambio turno',
+  swap_approval: 'Scambio turno da approvare',
+  swap_accepted: 'Scambio turno accettato',
+  swap_rejected: 'Scambio turno rifiutato',
+  swap_cancelled: 'Richiesta di scambio annullata',
+  swap_expired: 'Richiesta di scambio scaduta',
+  swap_message: 'Nuovo messaggio su uno scambio',
+  swap_chain: 'Aggiornamento su una rotazione di turni',
+  shift_offer: 'Aggiornamento dalla bacheca turni',
+  shift_reminder: 'Promemoria turno',
+  schedule_published: 'Nuovi turni pubblicati'
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const notificationsLink = (appUrl?: string) =>
+  appUrl ? `${appUrl.replace(/\/$/, '')}/?view=notifications` : undefined;
+
+export function renderNotificationEmail(delivery: QueuedDelivery, appUrl?: string): MailMessage {
+  const subject = SUBJECTS[delivery.kind] ?? 'Notifica turni';
+  const link = notificationsLink(appUrl);
+
+  const text = [
+    delivery.message,
+    link && `Apri le notifiche: ${link}`,
+    'Puoi disattivare le email dalle preferenze nella pagina delle notifiche.'
+  ].filter(Boolean).join('\n\n');
+
+  const html = [
+    `<p>${escapeHtml(delivery.message)}</p>`,
+    link && `<p><a href="${escapeHtml(link)}">Apri le notifiche</a></p>`,
+    '<p style="color:#6b7280;font-size:12px">Puoi disattivare le email dalle preferenze nella pagina delle notifiche.</p>'
+  ].filter(Boolean).join('\n');
+
+  return { to: delivery.recipient, subject, text, html };
+}
+
+// Le notifiche dello stesso scambio si sostituiscono sul dispositivo invece di accumularsi
+export function renderPushPayload(delivery: QueuedDelivery, appUrl?: string): PushPayload {
+  return {
+    title: SUBJECTS[delivery.kind] ?? 'Notifica turni',
+    body: delivery.message,
+    url: notificationsLink(appUrl) ?? '/?view=notifications',
+    tag: delivery.swap_id ? `swap-${delivery.swap_id}` : delivery.notification_id
+  };
+}
@@ -0,0 +1,19 @@
+/*
+  # Add schedule weeks view
+
+  1. Changes
+    - Add `schedule_weeks` view listing every week with uploaded shifts
+    - Used by the week navigator to jump between weeks with data
+*/
+
+CREATE OR REPLACE VIEW schedule_weeks
+WITH (security_invoker = true)
+AS
+SELECT
+  week_start_date,
+  count(*) AS employee_count,
+  max(created_at) AS uploaded_at
+FROM shifts_schedule
+GROUP BY week_start_date;
+
+GRANT SELECT ON schedule_weeks TO authenticated;
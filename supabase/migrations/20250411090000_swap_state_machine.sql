@@ -0,0 +1,377 @@
+/*
+  # Server-side swap state machine
+
+  1. Changes
+    - Replace `handle_swap_cascade` with explicit RPCs for request/accept/reject/cancel
+    - Enforce legal status transitions (pending -> accepted/rejected/cancelled only)
+    - Serialize concurrent accepts touching the same employee and date with advisory locks
+    - Every RPC returns the effective schedule of the week containing the swap
+    - Clients can no longer insert or update swaps directly
+
+  2. Effective shift
+    - A swap on `date` gives `to_shift` to `from_employee` and `from_shift` to `to_employee`
+    - The effective shift of a cell is the one assigned by the last accepted swap
+      involving that employee on that date, or the base shift if there is none
+*/
+
+-- La cascata implicita viene sostituita dalla validazione al momento dell'accettazione
+DROP TRIGGER IF EXISTS on_swap_cascade ON shift_swaps_v2;
+DROP FUNCTION IF EXISTS handle_swap_cascade CASCADE;
+
+-- Status and audit columns
+ALTER TABLE shift_swaps_v2 DROP CONSTRAINT IF EXISTS shift_swaps_v2_status_check;
+ALTER TABLE shift_swaps_v2
+  ADD CONSTRAINT shift_swaps_v2_status_check
+  CHECK (status IN ('pending', 'accepted', 'rejected', 'cancelled'));
+
+ALTER TABLE shift_swaps_v2
+  ADD COLUMN IF NOT EXISTS responded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS responded_by uuid REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+CREATE INDEX IF NOT EXISTS idx_shift_swaps_v2_date_status ON shift_swaps_v2(date, status);
+
+-- Helpers
+CREATE OR REPLACE FUNCTION current_employee_code()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT full_name FROM users WHERE id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin');
+$$;
+
+CREATE OR REPLACE FUNCTION week_start_of(p_date date)
+RETURNS date
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_date - extract(dow FROM p_date)::integer;
+$$;
+
+CREATE OR REPLACE FUNCTION base_shift(p_employee text, p_date date)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE extract(dow FROM p_date)::integer
+    WHEN 0 THEN s.sunday_shift
+    WHEN 1 THEN s.monday_shift
+    WHEN 2 THEN s.tuesday_shift
+    WHEN 3 THEN s.wednesday_shift
+    WHEN 4 THEN s.thursday_shift
+    WHEN 5 THEN s.friday_shift
+    WHEN 6 THEN s.saturday_shift
+  END
+  FROM shifts_schedule s
+  WHERE s.week_start_date = week_start_of(p_date)
+    AND s.employee_code = p_employee
+  ORDER BY s.created_at DESC
+  LIMIT 1;
+$$;
+
+-- Turno effettivo: l'ultimo scambio accettato vince, altrimenti il turno base
+CREATE OR REPLACE FUNCTION last_accepted_swap(p_employee text, p_date date)
+RETURNS shift_swaps_v2
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT sw.*
+  FROM shift_swaps_v2 sw
+  WHERE sw.date = p_date
+    AND sw.status = 'accepted'
+    AND (sw.from_employee = p_employee OR sw.to_employee = p_employee)
+  ORDER BY sw.responded_at DESC NULLS LAST, sw.created_at DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION effective_shift(p_employee text, p_date date)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT CASE WHEN sw.from_employee = p_employee THEN sw.to_shift ELSE sw.from_shift END
+      FROM last_accepted_swap(p_employee, p_date) sw
+      WHERE sw.id IS NOT NULL
+    ),
+    base_shift(p_employee, p_date)
+  );
+$$;
+
+CREATE TYPE effective_shift_row AS (
+  employee_code text,
+  date date,
+  shift text,
+  base_shift text,
+  swap_id uuid,
+  display_order integer
+);
+
+CREATE OR REPLACE FUNCTION get_effective_week(p_week_start date)
+RETURNS SETOF effective_shift_row
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    cell.employee_code,
+    cell.date,
+    effective_shift(cell.employee_code, cell.date),
+    base_shift(cell.employee_code, cell.date),
+    (last_accepted_swap(cell.employee_code, cell.date)).id,
+    cell.display_order
+  FROM (
+    SELECT
+      s.employee_code,
+      (s.week_start_date + d.day_offset)::date AS date,
+      s.display_order
+    FROM shifts_schedule s
+    CROSS JOIN generate_series(0, 6) AS d(day_offset)
+    WHERE s.week_start_date = p_week_start
+  ) cell
+  ORDER BY cell.display_order, cell.employee_code, cell.date;
+$$;
+
+-- Blocca gli scambi che toccano le stesse persone nello stesso giorno.
+-- I lock vengono presi in ordine per evitare deadlock tra accettazioni concorrenti.
+CREATE OR REPLACE FUNCTION lock_swap_cells(p_date date, p_employees text[])
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  employee text;
+BEGIN
+  FOR employee IN SELECT DISTINCT e FROM unnest(p_employees) AS e ORDER BY e LOOP
+    PERFORM pg_advisory_xact_lock(hashtext('swap:' || p_date || ':' || employee));
+  END LOOP;
+END;
+$$;
+
+-- Consente solo le transizioni pending -> accepted/rejected/cancelled
+CREATE OR REPLACE FUNCTION enforce_swap_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status <> 'pending' OR NEW.status NOT IN ('accepted', 'rejected', 'cancelled') THEN
+      RAISE EXCEPTION 'Transizione di stato non consentita: % -> %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_swap_transition_trigger ON shift_swaps_v2;
+CREATE TRIGGER enforce_swap_transition_trigger
+  BEFORE UPDATE ON shift_swaps_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_swap_transition();
+
+-- Verifica che i turni registrati nello scambio siano ancora quelli effettivi
+CREATE OR REPLACE FUNCTION assert_swap_shifts_current(p_swap shift_swaps_v2)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF effective_shift(p_swap.from_employee, p_swap.date) IS DISTINCT FROM p_swap.from_shift
+     OR effective_shift(p_swap.to_employee, p_swap.date) IS DISTINCT FROM p_swap.to_shift THEN
+    RAISE EXCEPTION 'I turni di % e % del % sono cambiati nel frattempo: la richiesta non è più valida',
+      p_swap.from_employee, p_swap.to_employee, to_char(p_swap.date, 'DD/MM/YYYY')
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION swap_request(
+  p_date date,
+  p_from_employee text,
+  p_to_employee text,
+  p_from_shift text,
+  p_to_shift text
+)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_is_admin boolean := is_admin();
+  new_swap shift_swaps_v2;
+BEGIN
+  IF NOT caller_is_admin AND p_from_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Puoi richiedere scambi solo per i tuoi turni'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_from_employee = p_to_employee THEN
+    RAISE EXCEPTION 'Non è possibile scambiare un turno con se stessi';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, ARRAY[p_from_employee, p_to_employee]);
+
+  IF EXISTS (
+    SELECT 1 FROM shift_swaps_v2
+    WHERE date = p_date
+      AND from_employee = p_from_employee
+      AND to_employee = p_to_employee
+      AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Esiste già una richiesta in attesa per questo scambio'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  new_swap.date := p_date;
+  new_swap.from_employee := p_from_employee;
+  new_swap.to_employee := p_to_employee;
+  new_swap.from_shift := p_from_shift;
+  new_swap.to_shift := p_to_shift;
+
+  -- Gli scambi dell'amministratore vengono applicati subito, anche tra date diverse
+  IF NOT caller_is_admin THEN
+    PERFORM assert_swap_shifts_current(new_swap);
+  END IF;
+
+  INSERT INTO shift_swaps_v2 (date, from_employee, to_employee, from_shift, to_shift, status, responded_at, responded_by)
+  VALUES (
+    p_date, p_from_employee, p_to_employee, p_from_shift, p_to_shift,
+    CASE WHEN caller_is_admin THEN 'accepted' ELSE 'pending' END,
+    CASE WHEN caller_is_admin THEN now() END,
+    CASE WHEN caller_is_admin THEN auth.uid() END
+  );
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION swap_accept(p_swap_id uuid)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+BEGIN
+  SELECT * INTO swap FROM shift_swaps_v2 WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT is_admin() AND swap.to_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Non autorizzato a rispondere a questa richiesta'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF swap.status <> 'pending' THEN
+    RAISE EXCEPTION 'La richiesta non è più in attesa (stato: %)', swap.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM lock_swap_cells(swap.date, ARRAY[swap.from_employee, swap.to_employee]);
+  PERFORM assert_swap_shifts_current(swap);
+
+  UPDATE shift_swaps_v2
+  SET status = 'accepted', responded_at = now(), responded_by = auth.uid()
+  WHERE id = p_swap_id;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(swap.date));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION close_swap(p_swap_id uuid, p_status text)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+  allowed_employee text;
+BEGIN
+  SELECT * INTO swap FROM shift_swaps_v2 WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Rifiuta chi riceve la richiesta, annulla chi l'ha creata
+  allowed_employee := CASE p_status WHEN 'rejected' THEN swap.to_employee ELSE swap.from_employee END;
+
+  IF NOT is_admin() AND allowed_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Non autorizzato a modificare questa richiesta'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF swap.status <> 'pending' THEN
+    RAISE EXCEPTION 'La richiesta non è più in attesa (stato: %)', swap.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE shift_swaps_v2
+  SET status = p_status, responded_at = now(), responded_by = auth.uid()
+  WHERE id = p_swap_id;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(swap.date));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION swap_reject(p_swap_id uuid)
+RETURNS SETOF effective_shift_row
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM close_swap(p_swap_id, 'rejected');
+$$;
+
+CREATE OR REPLACE FUNCTION swap_cancel(p_swap_id uuid)
+RETURNS SETOF effective_shift_row
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM close_swap(p_swap_id, 'cancelled');
+$$;
+
+REVOKE EXECUTE ON FUNCTION close_swap FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION lock_swap_cells FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_effective_week TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_request TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_accept TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_reject TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_cancel TO authenticated;
+
+-- Le scritture passano solo dalle RPC
+DROP POLICY IF EXISTS "Anyone can create swaps" ON shift_swaps_v2;
+DROP POLICY IF EXISTS "Anyone can update swaps" ON shift_swaps_v2;
+DROP POLICY IF EXISTS "Anyone can delete swaps" ON shift_swaps_v2;
+DROP POLICY IF EXISTS "Admins can delete swaps" ON shift_swaps_v2;
+
+CREATE POLICY "Admins can delete swaps"
+  ON shift_swaps_v2
+  FOR DELETE
+  TO authenticated
+  USING (is_admin());
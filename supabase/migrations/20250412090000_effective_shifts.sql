@@ -0,0 +1,172 @@
+/*
+  # Materialized effective schedule
+
+  1. New Tables
+    - `effective_shifts` - one row per employee and day with the shift actually worked
+      after applying accepted swaps in acceptance order over `shifts_schedule`
+
+  2. Changes
+    - `rebuild_effective_week` recomputes a week from scratch
+    - Triggers on `shifts_schedule` and `shift_swaps_v2` keep the table up to date
+    - `effective_shift` and `get_effective_week` now read from the table, so the UI,
+      the PDF export and the swap RPCs share the same source of truth
+*/
+
+CREATE TABLE IF NOT EXISTS effective_shifts (
+  date date NOT NULL,
+  employee_code text NOT NULL,
+  week_start_date date NOT NULL,
+  shift text,
+  base_shift text,
+  swap_id uuid REFERENCES shift_swaps_v2(id) ON DELETE SET NULL,
+  display_order integer,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (date, employee_code)
+);
+
+ALTER TABLE effective_shifts ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_effective_shifts_week ON effective_shifts(week_start_date);
+CREATE INDEX IF NOT EXISTS idx_effective_shifts_employee ON effective_shifts(employee_code, date);
+
+CREATE POLICY "Anyone can read effective shifts"
+  ON effective_shifts
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Ricostruisce una settimana: turni base, poi gli scambi accettati nell'ordine di accettazione
+CREATE OR REPLACE FUNCTION rebuild_effective_week(p_week_start date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+BEGIN
+  DELETE FROM effective_shifts WHERE week_start_date = p_week_start;
+
+  INSERT INTO effective_shifts (date, employee_code, week_start_date, shift, base_shift, display_order)
+  SELECT DISTINCT ON (cell.date, cell.employee_code)
+    cell.date, cell.employee_code, p_week_start, cell.shift, cell.shift, cell.display_order
+  FROM (
+    SELECT
+      (s.week_start_date + d.day_offset)::date AS date,
+      s.employee_code,
+      CASE d.day_offset
+        WHEN 0 THEN s.sunday_shift
+        WHEN 1 THEN s.monday_shift
+        WHEN 2 THEN s.tuesday_shift
+        WHEN 3 THEN s.wednesday_shift
+        WHEN 4 THEN s.thursday_shift
+        WHEN 5 THEN s.friday_shift
+        WHEN 6 THEN s.saturday_shift
+      END AS shift,
+      s.display_order,
+      s.created_at
+    FROM shifts_schedule s
+    CROSS JOIN generate_series(0, 6) AS d(day_offset)
+    WHERE s.week_start_date = p_week_start
+  ) cell
+  ORDER BY cell.date, cell.employee_code, cell.created_at DESC;
+
+  FOR swap IN
+    SELECT * FROM shift_swaps_v2
+    WHERE status = 'accepted'
+      AND date BETWEEN p_week_start AND p_week_start + 6
+    ORDER BY responded_at NULLS FIRST, created_at
+  LOOP
+    UPDATE effective_shifts
+    SET shift = swap.to_shift, swap_id = swap.id, updated_at = now()
+    WHERE date = swap.date AND employee_code = swap.from_employee;
+
+    UPDATE effective_shifts
+    SET shift = swap.from_shift, swap_id = swap.id, updated_at = now()
+    WHERE date = swap.date AND employee_code = swap.to_employee;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_effective_from_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM rebuild_effective_week(OLD.week_start_date);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.week_start_date <> OLD.week_start_date) THEN
+    PERFORM rebuild_effective_week(NEW.week_start_date);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_effective_from_schedule_trigger ON shifts_schedule;
+CREATE TRIGGER refresh_effective_from_schedule_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON shifts_schedule
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_effective_from_schedule();
+
+CREATE OR REPLACE FUNCTION refresh_effective_from_swap()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'accepted' THEN
+      PERFORM rebuild_effective_week(week_start_of(OLD.date));
+    END IF;
+  ELSIF NEW.status = 'accepted' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'accepted') THEN
+    PERFORM rebuild_effective_week(week_start_of(NEW.date));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_effective_from_swap_trigger ON shift_swaps_v2;
+CREATE TRIGGER refresh_effective_from_swap_trigger
+  AFTER INSERT OR UPDATE OR DELETE ON shift_swaps_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_effective_from_swap();
+
+-- Lettura dalla tabella materializzata
+CREATE OR REPLACE FUNCTION effective_shift(p_employee text, p_date date)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT shift FROM effective_shifts WHERE employee_code = p_employee AND date = p_date;
+$$;
+
+CREATE OR REPLACE FUNCTION get_effective_week(p_week_start date)
+RETURNS SETOF effective_shift_row
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT employee_code, date, shift, base_shift, swap_id, display_order
+  FROM effective_shifts
+  WHERE week_start_date = p_week_start
+  ORDER BY display_order, employee_code, date;
+$$;
+
+DROP FUNCTION IF EXISTS last_accepted_swap(text, date);
+
+-- Popola la tabella per le settimane già caricate
+DO $$
+DECLARE
+  week date;
+BEGIN
+  FOR week IN SELECT DISTINCT week_start_date FROM shifts_schedule LOOP
+    PERFORM rebuild_effective_week(week);
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,281 @@
+/*
+  # Versioned schedule revisions
+
+  1. New Tables
+    - `schedule_revisions` - every upload of a week is stored as a numbered snapshot
+      of its rows, so earlier versions can be compared and restored
+
+  2. Changes
+    - Duplicate rows in `shifts_schedule` are removed (the most recent one wins) and
+      (week_start_date, employee_code) becomes unique
+    - `publish_schedule_revision` replaces the rows of a week atomically; uploading the
+      same data as the latest revision is a no-op
+    - `rollback_schedule_revision` publishes a copy of an earlier revision as a new one
+    - Accepted swaps whose shifts no longer match the schedule are flagged with `stale`
+      while the week is rebuilt
+*/
+
+-- Rimuove i duplicati lasciati dai caricamenti precedenti
+DELETE FROM shifts_schedule s
+USING shifts_schedule newer
+WHERE s.week_start_date = newer.week_start_date
+  AND s.employee_code = newer.employee_code
+  AND (coalesce(s.created_at, '-infinity'), s.id) < (coalesce(newer.created_at, '-infinity'), newer.id);
+
+ALTER TABLE shifts_schedule DROP CONSTRAINT IF EXISTS shifts_schedule_week_employee_key;
+ALTER TABLE shifts_schedule
+  ADD CONSTRAINT shifts_schedule_week_employee_key UNIQUE (week_start_date, employee_code);
+
+CREATE TABLE IF NOT EXISTS schedule_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  week_start_date date NOT NULL,
+  revision integer NOT NULL,
+  shifts jsonb NOT NULL,
+  note text,
+  restored_from integer,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (week_start_date, revision)
+);
+
+ALTER TABLE schedule_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read schedule revisions"
+  ON schedule_revisions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE shift_swaps_v2
+  ADD COLUMN IF NOT EXISTS stale boolean NOT NULL DEFAULT false;
+
+-- Porta le righe nel formato salvato nelle revisioni: solo le colonne note, celle vuote omesse
+CREATE OR REPLACE FUNCTION normalize_schedule_shifts(p_shifts jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(jsonb_agg(jsonb_strip_nulls(jsonb_build_object(
+    'employee_code', upper(trim(elem->>'employee_code')),
+    'sunday_shift', nullif(trim(elem->>'sunday_shift'), ''),
+    'monday_shift', nullif(trim(elem->>'monday_shift'), ''),
+    'tuesday_shift', nullif(trim(elem->>'tuesday_shift'), ''),
+    'wednesday_shift', nullif(trim(elem->>'wednesday_shift'), ''),
+    'thursday_shift', nullif(trim(elem->>'thursday_shift'), ''),
+    'friday_shift', nullif(trim(elem->>'friday_shift'), ''),
+    'saturday_shift', nullif(trim(elem->>'saturday_shift'), '')
+  )) ORDER BY ord), '[]'::jsonb)
+  FROM jsonb_array_elements(p_shifts) WITH ORDINALITY AS t(elem, ord);
+$$;
+
+CREATE OR REPLACE FUNCTION apply_schedule_revision(
+  p_week_start date,
+  p_shifts jsonb,
+  p_note text,
+  p_restored_from integer
+)
+RETURNS schedule_revisions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  normalized jsonb := normalize_schedule_shifts(p_shifts);
+  latest schedule_revisions;
+  result schedule_revisions;
+BEGIN
+  IF NOT is_admin() THEN
+    RAISE EXCEPTION 'Solo gli amministratori possono pubblicare la matrice dei turni'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_week_start IS DISTINCT FROM week_start_of(p_week_start) THEN
+    RAISE EXCEPTION 'La settimana deve iniziare di domenica'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF jsonb_array_length(normalized) = 0 THEN
+    RAISE EXCEPTION 'La matrice non contiene turni'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(normalized) elem
+    GROUP BY elem->>'employee_code'
+    HAVING count(*) > 1 OR coalesce(elem->>'employee_code', '') = ''
+  ) THEN
+    RAISE EXCEPTION 'La matrice contiene sigle vuote o duplicate'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('schedule:' || p_week_start));
+
+  SELECT * INTO latest
+  FROM schedule_revisions
+  WHERE week_start_date = p_week_start
+  ORDER BY revision DESC
+  LIMIT 1;
+
+  -- Ricaricare gli stessi dati non crea una nuova revisione
+  IF latest.id IS NOT NULL AND latest.shifts = normalized THEN
+    RETURN latest;
+  END IF;
+
+  INSERT INTO schedule_revisions (week_start_date, revision, shifts, note, restored_from, created_by)
+  VALUES (p_week_start, coalesce(latest.revision, 0) + 1, normalized, p_note, p_restored_from, auth.uid())
+  RETURNING * INTO result;
+
+  DELETE FROM shifts_schedule
+  WHERE week_start_date = p_week_start
+    AND employee_code NOT IN (SELECT elem->>'employee_code' FROM jsonb_array_elements(normalized) elem);
+
+  INSERT INTO shifts_schedule (
+    week_start_date, employee_code,
+    sunday_shift, monday_shift, tuesday_shift, wednesday_shift,
+    thursday_shift, friday_shift, saturday_shift, display_order
+  )
+  SELECT
+    p_week_start, elem->>'employee_code',
+    elem->>'sunday_shift', elem->>'monday_shift', elem->>'tuesday_shift', elem->>'wednesday_shift',
+    elem->>'thursday_shift', elem->>'friday_shift', elem->>'saturday_shift', ord::integer
+  FROM jsonb_array_elements(normalized) WITH ORDINALITY AS t(elem, ord)
+  ON CONFLICT (week_start_date, employee_code) DO UPDATE SET
+    sunday_shift = EXCLUDED.sunday_shift,
+    monday_shift = EXCLUDED.monday_shift,
+    tuesday_shift = EXCLUDED.tuesday_shift,
+    wednesday_shift = EXCLUDED.wednesday_shift,
+    thursday_shift = EXCLUDED.thursday_shift,
+    friday_shift = EXCLUDED.friday_shift,
+    saturday_shift = EXCLUDED.saturday_shift,
+    display_order = EXCLUDED.display_order;
+
+  RETURN result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION publish_schedule_revision(
+  p_week_start date,
+  p_shifts jsonb,
+  p_note text DEFAULT NULL
+)
+RETURNS schedule_revisions
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM apply_schedule_revision(p_week_start, p_shifts, p_note, NULL);
+$$;
+
+CREATE OR REPLACE FUNCTION rollback_schedule_revision(p_week_start date, p_revision integer)
+RETURNS schedule_revisions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target schedule_revisions;
+BEGIN
+  SELECT * INTO target
+  FROM schedule_revisions
+  WHERE week_start_date = p_week_start AND revision = p_revision;
+
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Revisione % non trovata per la settimana del %',
+      p_revision, to_char(p_week_start, 'DD/MM/YYYY')
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN apply_schedule_revision(
+    p_week_start,
+    target.shifts,
+    'Ripristino della revisione ' || p_revision,
+    p_revision
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_schedule_revision FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION publish_schedule_revision TO authenticated;
+GRANT EXECUTE ON FUNCTION rollback_schedule_revision TO authenticated;
+
+-- Come prima, ma segnala gli scambi accettati i cui turni non corrispondono più alla matrice
+CREATE OR REPLACE FUNCTION rebuild_effective_week(p_week_start date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+  is_stale boolean;
+BEGIN
+  DELETE FROM effective_shifts WHERE week_start_date = p_week_start;
+
+  INSERT INTO effective_shifts (date, employee_code, week_start_date, shift, base_shift, display_order)
+  SELECT DISTINCT ON (cell.date, cell.employee_code)
+    cell.date, cell.employee_code, p_week_start, cell.shift, cell.shift, cell.display_order
+  FROM (
+    SELECT
+      (s.week_start_date + d.day_offset)::date AS date,
+      s.employee_code,
+      CASE d.day_offset
+        WHEN 0 THEN s.sunday_shift
+        WHEN 1 THEN s.monday_shift
+        WHEN 2 THEN s.tuesday_shift
+        WHEN 3 THEN s.wednesday_shift
+        WHEN 4 THEN s.thursday_shift
+        WHEN 5 THEN s.friday_shift
+        WHEN 6 THEN s.saturday_shift
+      END AS shift,
+      s.display_order,
+      s.created_at
+    FROM shifts_schedule s
+    CROSS JOIN generate_series(0, 6) AS d(day_offset)
+    WHERE s.week_start_date = p_week_start
+  ) cell
+  ORDER BY cell.date, cell.employee_code, cell.created_at DESC;
+
+  FOR swap IN
+    SELECT * FROM shift_swaps_v2
+    WHERE status = 'accepted'
+      AND date BETWEEN p_week_start AND p_week_start + 6
+    ORDER BY responded_at NULLS FIRST, created_at
+  LOOP
+    is_stale := effective_shift(swap.from_employee, swap.date) IS DISTINCT FROM swap.from_shift
+      OR effective_shift(swap.to_employee, swap.date) IS DISTINCT FROM swap.to_shift;
+
+    IF is_stale IS DISTINCT FROM swap.stale THEN
+      UPDATE shift_swaps_v2 SET stale = is_stale WHERE id = swap.id;
+    END IF;
+
+    UPDATE effective_shifts
+    SET shift = swap.to_shift, swap_id = swap.id, updated_at = now()
+    WHERE date = swap.date AND employee_code = swap.from_employee;
+
+    UPDATE effective_shifts
+    SET shift = swap.from_shift, swap_id = swap.id, updated_at = now()
+    WHERE date = swap.date AND employee_code = swap.to_employee;
+  END LOOP;
+END;
+$$;
+
+-- Revisione iniziale per le settimane già caricate
+INSERT INTO schedule_revisions (week_start_date, revision, shifts, note)
+SELECT
+  s.week_start_date,
+  1,
+  normalize_schedule_shifts(jsonb_agg(to_jsonb(s) ORDER BY s.display_order NULLS LAST, s.employee_code)),
+  'Versione iniziale'
+FROM shifts_schedule s
+GROUP BY s.week_start_date
+ON CONFLICT (week_start_date, revision) DO NOTHING;
+
+DO $$
+DECLARE
+  week date;
+BEGIN
+  FOR week IN SELECT DISTINCT week_start_date FROM shifts_schedule LOOP
+    PERFORM rebuild_effective_week(week);
+  END LOOP;
+END;
+$$;
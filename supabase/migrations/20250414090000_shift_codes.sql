@@ -0,0 +1,170 @@
+/*
+  # Shift code catalogue
+
+  1. New Tables
+    - `shift_codes` - admin-managed catalogue of the values used in `shifts_schedule`
+      (e.g. "05.55+", "12.45-", "RI", "NL") with start/end time, duration, category,
+      meaning of the +/- suffix, display colour and whether the shift can be swapped
+
+  2. Changes
+    - The catalogue is seeded with RI/NL and every code already present in the schedule,
+      using the previous 8-hour assumption for durations
+    - `parse_shift_time` reads times and durations from the catalogue
+    - Pending swap requests involving a non-swappable code are rejected
+      (this replaces the RI/NL check that lived in the client)
+*/
+
+CREATE TABLE IF NOT EXISTS shift_codes (
+  code text PRIMARY KEY,
+  label text,
+  category text NOT NULL DEFAULT 'work' CHECK (category IN ('work', 'night', 'rest', 'holiday')),
+  start_time time,
+  end_time time,
+  duration_minutes integer CHECK (duration_minutes IS NULL OR duration_minutes > 0),
+  suffix_meaning text,
+  color text NOT NULL DEFAULT '#e0e7ff' CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  swappable boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (category IN ('rest', 'holiday') OR start_time IS NOT NULL)
+);
+
+ALTER TABLE shift_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read shift codes"
+  ON shift_codes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage shift codes"
+  ON shift_codes
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Stessa normalizzazione dell'importazione: maiuscolo e "05:55" -> "05.55"
+CREATE OR REPLACE FUNCTION normalize_shift_code(p_value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT nullif(upper(regexp_replace(trim(p_value), '^(\d{1,2}):(\d{2})', '\1.\2')), '');
+$$;
+
+CREATE OR REPLACE FUNCTION is_swappable_shift(p_value text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  -- I codici non ancora catalogati restano scambiabili
+  SELECT coalesce(
+    (SELECT swappable FROM shift_codes WHERE code = normalize_shift_code(p_value)),
+    true
+  );
+$$;
+
+-- Catalogo iniziale
+INSERT INTO shift_codes (code, label, category, color, swappable)
+VALUES
+  ('RI', 'Riposo', 'rest', '#f3f4f6', false),
+  ('NL', 'Non lavorativo', 'holiday', '#fef3c7', false)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO shift_codes (code, category, start_time, end_time, duration_minutes, color)
+SELECT
+  code,
+  CASE WHEN start_time >= '20:00' OR start_time < '05:00' THEN 'night' ELSE 'work' END,
+  start_time,
+  start_time + interval '8 hours',
+  480,
+  CASE WHEN start_time >= '20:00' OR start_time < '05:00' THEN '#c7d2fe' ELSE '#e0e7ff' END
+FROM (
+  SELECT DISTINCT
+    normalize_shift_code(value) AS code,
+    make_time(
+      split_part(regexp_replace(normalize_shift_code(value), '[+-]$', ''), '.', 1)::int,
+      split_part(regexp_replace(normalize_shift_code(value), '[+-]$', ''), '.', 2)::int,
+      0
+    ) AS start_time
+  FROM shifts_schedule s
+  CROSS JOIN LATERAL unnest(ARRAY[
+    s.sunday_shift, s.monday_shift, s.tuesday_shift, s.wednesday_shift,
+    s.thursday_shift, s.friday_shift, s.saturday_shift
+  ]) AS value
+  WHERE normalize_shift_code(value) ~ '^([01]?\d|2[0-3])\.[0-5]\d[+-]?$'
+) existing
+ON CONFLICT (code) DO NOTHING;
+
+-- Orari e durate dal catalogo invece delle 8 ore fisse
+CREATE OR REPLACE FUNCTION parse_shift_time(shift_time text, base_date date)
+RETURNS timestamptz[]
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  info shift_codes;
+  start_at timestamptz;
+BEGIN
+  SELECT * INTO info FROM shift_codes WHERE code = normalize_shift_code(shift_time);
+
+  IF info.code IS NULL OR info.start_time IS NULL OR info.category IN ('rest', 'holiday') THEN
+    RETURN NULL;
+  END IF;
+
+  start_at := base_date + info.start_time;
+  RETURN ARRAY[
+    start_at,
+    CASE
+      WHEN info.duration_minutes IS NOT NULL THEN start_at + make_interval(mins => info.duration_minutes)
+      WHEN info.end_time IS NOT NULL AND info.end_time > info.start_time THEN base_date + info.end_time
+      WHEN info.end_time IS NOT NULL THEN base_date + 1 + info.end_time
+      ELSE start_at + interval '8 hours'
+    END
+  ];
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_swappable_shifts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Gli scambi inseriti dagli amministratori nascono già accettati
+  IF NEW.status = 'pending'
+     AND (NOT is_swappable_shift(NEW.from_shift) OR NOT is_swappable_shift(NEW.to_shift)) THEN
+    RAISE EXCEPTION 'Il turno % non può essere scambiato',
+      CASE WHEN is_swappable_shift(NEW.from_shift) THEN NEW.to_shift ELSE NEW.from_shift END
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_swappable_shifts_trigger ON shift_swaps_v2;
+CREATE TRIGGER enforce_swappable_shifts_trigger
+  BEFORE INSERT ON shift_swaps_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_swappable_shifts();
+
+CREATE OR REPLACE FUNCTION touch_shift_code()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.code := normalize_shift_code(NEW.code);
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_shift_code_trigger ON shift_codes;
+CREATE TRIGGER touch_shift_code_trigger
+  BEFORE INSERT OR UPDATE ON shift_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_shift_code();
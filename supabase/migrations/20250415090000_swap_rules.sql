@@ -0,0 +1,265 @@
+/*
+  # Configurable swap eligibility rules
+
+  1. New Tables
+    - `swap_rules` - declarative rules (type + jsonb parameters) checked whenever a swap
+      is requested or accepted; rules can be disabled or extended to admin swaps
+    - `employee_qualifications` - qualifications held by each employee code
+
+  2. Changes
+    - `shift_codes.required_qualification` - qualification needed to work a shift code
+    - `swap_rule_violations` evaluates the enabled rules against the schedule as it would
+      be after the swap; the first violation aborts the insert/accept with the rule name
+    - The `swappable_codes` rule replaces the `enforce_swappable_shifts` trigger
+    - Rule types: swappable_codes, min_rest_hours, max_consecutive_days,
+      min_notice_hours, qualification_match (the client evaluates the same rules)
+*/
+
+CREATE TABLE IF NOT EXISTS swap_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_type text NOT NULL CHECK (rule_type IN (
+    'swappable_codes', 'min_rest_hours', 'max_consecutive_days', 'min_notice_hours', 'qualification_match'
+  )),
+  description text NOT NULL,
+  params jsonb NOT NULL DEFAULT '{}'::jsonb,
+  enabled boolean NOT NULL DEFAULT true,
+  applies_to_admins boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS employee_qualifications (
+  employee_code text NOT NULL,
+  qualification text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (employee_code, qualification)
+);
+
+ALTER TABLE shift_codes ADD COLUMN IF NOT EXISTS required_qualification text;
+
+ALTER TABLE swap_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE employee_qualifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read swap rules"
+  ON swap_rules
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage swap rules"
+  ON swap_rules
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+CREATE POLICY "Anyone can read employee qualifications"
+  ON employee_qualifications
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage employee qualifications"
+  ON employee_qualifications
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Regole iniziali: solo il divieto su RI/NL era già in vigore, le altre partono disattivate
+INSERT INTO swap_rules (rule_type, description, params, enabled)
+VALUES
+  ('swappable_codes', 'Turni non scambiabili', '{}', true),
+  ('min_rest_hours', 'Riposo minimo tra due turni', '{"hours": 11}', false),
+  ('max_consecutive_days', 'Giorni lavorativi consecutivi', '{"days": 6}', false),
+  ('min_notice_hours', 'Preavviso minimo', '{"hours": 24, "timezone": "Europe/Rome"}', false),
+  ('qualification_match', 'Qualifiche richieste', '{}', false);
+
+-- Viene sostituito dalla regola swappable_codes
+DROP TRIGGER IF EXISTS enforce_swappable_shifts_trigger ON shift_swaps_v2;
+DROP FUNCTION IF EXISTS enforce_swappable_shifts();
+
+-- Un turno è lavorativo se il catalogo gli assegna un orario
+CREATE OR REPLACE FUNCTION is_working_shift(p_value text, p_date date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT parse_shift_time(p_value, p_date) IS NOT NULL;
+$$;
+
+-- Valuta le regole attive sulla matrice come sarebbe dopo lo scambio:
+-- from_employee lavora to_shift e to_employee lavora from_shift nel giorno dello scambio
+CREATE OR REPLACE FUNCTION swap_rule_violations(
+  p_date date,
+  p_from_employee text,
+  p_to_employee text,
+  p_from_shift text,
+  p_to_shift text,
+  p_caller_is_admin boolean
+)
+RETURNS TABLE (rule_id uuid, rule_type text, description text, message text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  rule swap_rules;
+  assignment record;
+  current_times timestamptz[];
+  other_times timestamptz[];
+  rest interval;
+  limit_value numeric;
+  streak integer;
+  check_day date;
+  earliest_start timestamptz;
+  required text;
+BEGIN
+  FOR rule IN
+    SELECT * FROM swap_rules
+    WHERE enabled AND (applies_to_admins OR NOT p_caller_is_admin)
+    ORDER BY created_at
+  LOOP
+    rule_id := rule.id;
+    rule_type := rule.rule_type;
+    description := rule.description;
+
+    IF rule.rule_type = 'swappable_codes' THEN
+      FOR assignment IN SELECT unnest(ARRAY[p_from_shift, p_to_shift]) AS shift LOOP
+        IF NOT is_swappable_shift(assignment.shift) THEN
+          message := format('il turno %s non può essere scambiato', assignment.shift);
+          RETURN NEXT;
+        END IF;
+      END LOOP;
+
+    ELSIF rule.rule_type = 'min_notice_hours' THEN
+      limit_value := coalesce((rule.params->>'hours')::numeric, 24);
+      -- Gli orari del catalogo sono ora locale del reparto
+      SELECT min(coalesce(
+        (parse_shift_time(s, p_date))[1]::timestamp,
+        p_date::timestamp
+      ) AT TIME ZONE coalesce(rule.params->>'timezone', 'Europe/Rome'))
+      INTO earliest_start
+      FROM unnest(ARRAY[p_from_shift, p_to_shift]) AS s;
+
+      IF earliest_start - now() < limit_value * interval '1 hour' THEN
+        message := format('gli scambi vanno richiesti almeno %s ore prima dell''inizio del turno', limit_value);
+        RETURN NEXT;
+      END IF;
+
+    ELSE
+      FOR assignment IN
+        SELECT * FROM (VALUES (p_from_employee, p_to_shift), (p_to_employee, p_from_shift)) AS a(employee, shift)
+      LOOP
+        IF rule.rule_type = 'min_rest_hours' THEN
+          limit_value := coalesce((rule.params->>'hours')::numeric, 11);
+          current_times := parse_shift_time(assignment.shift, p_date);
+          CONTINUE WHEN current_times IS NULL;
+
+          other_times := parse_shift_time(effective_shift(assignment.employee, p_date - 1), p_date - 1);
+          rest := current_times[1] - other_times[2];
+          IF rest IS NOT NULL AND rest < limit_value * interval '1 hour' THEN
+            message := format('%s avrebbe solo %s ore di riposo prima del turno %s del %s (minimo %s)',
+              assignment.employee, round(extract(epoch FROM rest) / 3600, 1),
+              assignment.shift, to_char(p_date, 'DD/MM'), limit_value);
+            RETURN NEXT;
+          END IF;
+
+          other_times := parse_shift_time(effective_shift(assignment.employee, p_date + 1), p_date + 1);
+          rest := other_times[1] - current_times[2];
+          IF rest IS NOT NULL AND rest < limit_value * interval '1 hour' THEN
+            message := format('%s avrebbe solo %s ore di riposo dopo il turno %s del %s (minimo %s)',
+              assignment.employee, round(extract(epoch FROM rest) / 3600, 1),
+              assignment.shift, to_char(p_date, 'DD/MM'), limit_value);
+            RETURN NEXT;
+          END IF;
+
+        ELSIF rule.rule_type = 'max_consecutive_days' THEN
+          limit_value := coalesce((rule.params->>'days')::numeric, 6);
+          CONTINUE WHEN NOT is_working_shift(assignment.shift, p_date);
+
+          streak := 1;
+          check_day := p_date - 1;
+          WHILE streak <= limit_value AND is_working_shift(effective_shift(assignment.employee, check_day), check_day) LOOP
+            streak := streak + 1;
+            check_day := check_day - 1;
+          END LOOP;
+          check_day := p_date + 1;
+          WHILE streak <= limit_value AND is_working_shift(effective_shift(assignment.employee, check_day), check_day) LOOP
+            streak := streak + 1;
+            check_day := check_day + 1;
+          END LOOP;
+
+          IF streak > limit_value THEN
+            message := format('%s lavorerebbe più di %s giorni consecutivi', assignment.employee, limit_value);
+            RETURN NEXT;
+          END IF;
+
+        ELSIF rule.rule_type = 'qualification_match' THEN
+          SELECT required_qualification INTO required
+          FROM shift_codes
+          WHERE code = normalize_shift_code(assignment.shift);
+
+          IF required IS NOT NULL AND NOT EXISTS (
+            SELECT 1 FROM employee_qualifications q
+            WHERE q.employee_code = assignment.employee AND q.qualification = required
+          ) THEN
+            message := format('%s non ha la qualifica %s richiesta dal turno %s',
+              assignment.employee, required, assignment.shift);
+            RETURN NEXT;
+          END IF;
+        END IF;
+      END LOOP;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION assert_swap_rules(p_swap shift_swaps_v2, p_caller_is_admin boolean)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  violation record;
+BEGIN
+  SELECT * INTO violation
+  FROM swap_rule_violations(
+    p_swap.date, p_swap.from_employee, p_swap.to_employee,
+    p_swap.from_shift, p_swap.to_shift, p_caller_is_admin
+  )
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '%: %', violation.description, violation.message
+      USING ERRCODE = 'check_violation', HINT = 'swap_rule:' || violation.rule_type;
+  END IF;
+END;
+$$;
+
+-- Le regole si applicano alla richiesta e di nuovo all'accettazione
+CREATE OR REPLACE FUNCTION enforce_swap_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.status IN ('pending', 'accepted'))
+     OR (TG_OP = 'UPDATE' AND OLD.status = 'pending' AND NEW.status = 'accepted') THEN
+    PERFORM assert_swap_rules(NEW, is_admin());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_swap_rules_trigger ON shift_swaps_v2;
+CREATE TRIGGER enforce_swap_rules_trigger
+  BEFORE INSERT OR UPDATE OF status ON shift_swaps_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_swap_rules();
+
+REVOKE EXECUTE ON FUNCTION swap_rule_violations FROM PUBLIC, anon, authenticated;
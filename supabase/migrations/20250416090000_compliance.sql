@@ -0,0 +1,192 @@
+/*
+  # Rest-period compliance
+
+  1. New Tables
+    - `compliance_settings` - single row with the minimum daily rest between two shifts,
+      the minimum uninterrupted weekly rest and the enforcement mode for swaps
+
+  2. Changes
+    - `shift_intervals_for` returns the worked intervals of an employee over a date range,
+      optionally replacing the shift of one day to evaluate a swap before applying it
+    - `compliance_violations` checks daily rest between consecutive shifts and the longest
+      rest in every 7-day window, reading the effective schedule across week boundaries
+    - With enforcement = 'block' a swap that introduces new violations is rejected when it
+      is requested and again when it is accepted; with 'warn' only the client warns
+*/
+
+CREATE TABLE IF NOT EXISTS compliance_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  min_daily_rest_hours numeric NOT NULL DEFAULT 11 CHECK (min_daily_rest_hours >= 0),
+  min_weekly_rest_hours numeric NOT NULL DEFAULT 35 CHECK (min_weekly_rest_hours >= 0),
+  enforcement text NOT NULL DEFAULT 'warn' CHECK (enforcement IN ('warn', 'block')),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO compliance_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE compliance_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read compliance settings"
+  ON compliance_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update compliance settings"
+  ON compliance_settings
+  FOR UPDATE
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Intervalli lavorati dal dipendente; p_override_shift sostituisce il turno di p_override_date
+CREATE OR REPLACE FUNCTION shift_intervals_for(
+  p_employee text,
+  p_from date,
+  p_to date,
+  p_override_date date DEFAULT NULL,
+  p_override_shift text DEFAULT NULL
+)
+RETURNS TABLE (shift_date date, starts_at timestamptz, ends_at timestamptz)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT day, times[1], times[2]
+  FROM (
+    SELECT
+      g::date AS day,
+      parse_shift_time(
+        CASE WHEN g::date = p_override_date THEN p_override_shift ELSE effective_shift(p_employee, g::date) END,
+        g::date
+      ) AS times
+    FROM generate_series(p_from, p_to, interval '1 day') AS g
+  ) s
+  WHERE times IS NOT NULL
+  ORDER BY day;
+$$;
+
+-- Violazioni dei riposi per i turni compresi tra p_from e p_to.
+-- Il riposo settimanale è verificato sulla finestra di 7 giorni che termina in ogni giorno lavorato.
+CREATE OR REPLACE FUNCTION compliance_violations(
+  p_employee text,
+  p_from date,
+  p_to date,
+  p_override_date date DEFAULT NULL,
+  p_override_shift text DEFAULT NULL
+)
+RETURNS TABLE (violation_date date, rule text, message text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  settings compliance_settings;
+  shift record;
+  window_start timestamptz;
+  window_end timestamptz;
+  free_from timestamptz;
+  longest interval;
+BEGIN
+  SELECT * INTO settings FROM compliance_settings;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Riposo giornaliero tra un turno e il precedente, anche a cavallo di due settimane
+  FOR shift IN
+    SELECT *, lag(ends_at) OVER (ORDER BY starts_at) AS previous_end
+    FROM shift_intervals_for(p_employee, p_from - 1, p_to, p_override_date, p_override_shift)
+  LOOP
+    IF shift.shift_date >= p_from AND shift.previous_end IS NOT NULL
+       AND shift.starts_at - shift.previous_end < settings.min_daily_rest_hours * interval '1 hour' THEN
+      violation_date := shift.shift_date;
+      rule := 'daily_rest';
+      message := format('%s ha solo %s ore di riposo prima del turno del %s (minimo %s)',
+        p_employee, round(extract(epoch FROM shift.starts_at - shift.previous_end) / 3600, 1),
+        to_char(shift.shift_date, 'DD/MM'), settings.min_daily_rest_hours);
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+
+  -- Riposo settimanale: il riposo più lungo nella finestra dei 7 giorni che termina nel giorno lavorato
+  FOR violation_date IN
+    SELECT i.shift_date FROM shift_intervals_for(p_employee, p_from, p_to, p_override_date, p_override_shift) AS i
+  LOOP
+    window_start := (violation_date - 6)::timestamptz;
+    window_end := (violation_date + 1)::timestamptz;
+    free_from := window_start;
+    longest := interval '0';
+
+    FOR shift IN
+      SELECT * FROM shift_intervals_for(p_employee, violation_date - 7, violation_date, p_override_date, p_override_shift) AS i
+      WHERE i.ends_at > window_start AND i.starts_at < window_end
+      ORDER BY i.starts_at
+    LOOP
+      longest := greatest(longest, shift.starts_at - free_from);
+      free_from := greatest(free_from, shift.ends_at);
+    END LOOP;
+    longest := greatest(longest, window_end - free_from);
+
+    IF longest < settings.min_weekly_rest_hours * interval '1 hour' THEN
+      rule := 'weekly_rest';
+      message := format('%s ha al massimo %s ore di riposo consecutive nei 7 giorni fino al %s (minimo %s)',
+        p_employee, round(extract(epoch FROM longest) / 3600, 1),
+        to_char(violation_date, 'DD/MM'), settings.min_weekly_rest_hours);
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Solo le violazioni introdotte dallo scambio: quelle già presenti nella matrice non lo bloccano.
+-- Il giorno dello scambio tocca il riposo giornaliero fino al giorno dopo
+-- e le finestre settimanali fino a sei giorni dopo.
+CREATE OR REPLACE FUNCTION swap_compliance_violations(p_swap shift_swaps_v2)
+RETURNS TABLE (employee_code text, violation_date date, rule text, message text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT a.employee, after_swap.violation_date, after_swap.rule, after_swap.message
+  FROM (VALUES (p_swap.from_employee, p_swap.to_shift), (p_swap.to_employee, p_swap.from_shift)) AS a(employee, shift)
+  CROSS JOIN LATERAL compliance_violations(a.employee, p_swap.date, p_swap.date + 6, p_swap.date, a.shift) AS after_swap
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM compliance_violations(a.employee, p_swap.date, p_swap.date + 6) AS before_swap
+    WHERE before_swap.violation_date = after_swap.violation_date
+      AND before_swap.rule = after_swap.rule
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_swap_compliance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  violation record;
+BEGIN
+  IF ((TG_OP = 'INSERT' AND NEW.status IN ('pending', 'accepted'))
+      OR (TG_OP = 'UPDATE' AND OLD.status = 'pending' AND NEW.status = 'accepted'))
+     AND (SELECT enforcement FROM compliance_settings) = 'block' THEN
+    SELECT * INTO violation FROM swap_compliance_violations(NEW) LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Riposi non rispettati: %', violation.message
+        USING ERRCODE = 'check_violation', HINT = 'compliance:' || violation.rule;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_swap_compliance_trigger ON shift_swaps_v2;
+CREATE TRIGGER enforce_swap_compliance_trigger
+  BEFORE INSERT OR UPDATE OF status ON shift_swaps_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_swap_compliance();
+
+REVOKE EXECUTE ON FUNCTION compliance_violations FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,140 @@
+/*
+  # Employee directory
+
+  1. New Tables
+    - `employees` - one row per employee code with display name, email, team,
+      contract type and active period, optionally linked to an auth user
+
+  2. Changes
+    - Existing codes from the matrix and from `users.full_name` are imported and
+      linked to the account that registered with the same code
+    - `current_employee_code()` resolves the code through `employees.user_id`
+      instead of comparing `users.full_name`
+    - New accounts are linked on signup when the chosen code is free;
+      `signup_employee_codes()` lists those codes to the signup form
+    - Linking an account keeps `users.full_name` in sync for older triggers
+*/
+
+CREATE TABLE IF NOT EXISTS employees (
+  code text PRIMARY KEY CHECK (code = upper(btrim(code)) AND code <> ''),
+  display_name text,
+  email text,
+  team text,
+  contract_type text CHECK (contract_type IN ('full_time', 'part_time', 'fixed_term', 'external')),
+  active_from date,
+  active_to date,
+  user_id uuid UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (active_to IS NULL OR active_from IS NULL OR active_to >= active_from)
+);
+
+ALTER TABLE employees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read employees"
+  ON employees
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage employees"
+  ON employees
+  FOR ALL
+  TO authenticated
+  USING (is_admin())
+  WITH CHECK (is_admin());
+
+-- Import delle sigle già presenti; ADMIN non è un dipendente
+INSERT INTO employees (code)
+SELECT DISTINCT upper(btrim(employee_code))
+FROM shifts_schedule
+WHERE btrim(coalesce(employee_code, '')) <> ''
+UNION
+SELECT DISTINCT upper(btrim(full_name))
+FROM users
+WHERE btrim(coalesce(full_name, '')) <> '' AND upper(btrim(full_name)) <> 'ADMIN'
+ON CONFLICT (code) DO NOTHING;
+
+-- Collega il primo account registrato con ciascuna sigla
+UPDATE employees e
+SET user_id = u.id, email = coalesce(e.email, u.email)
+FROM (
+  SELECT DISTINCT ON (upper(btrim(full_name))) id, email, upper(btrim(full_name)) AS code
+  FROM users
+  WHERE full_name IS NOT NULL
+  ORDER BY upper(btrim(full_name)), created_at
+) u
+WHERE e.code = u.code AND e.user_id IS NULL;
+
+CREATE OR REPLACE FUNCTION current_employee_code()
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT code FROM employees WHERE user_id = auth.uid();
+$$;
+
+-- Mantiene users.full_name allineato alla sigla collegata
+CREATE OR REPLACE FUNCTION sync_employee_account()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.updated_at := now();
+
+  IF NEW.user_id IS NOT NULL THEN
+    UPDATE users SET full_name = NEW.code WHERE id = NEW.user_id AND full_name IS DISTINCT FROM NEW.code;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_employee_account_trigger ON employees;
+CREATE TRIGGER sync_employee_account_trigger
+  BEFORE INSERT OR UPDATE ON employees
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_employee_account();
+
+-- Alla registrazione l'account viene collegato alla sigla scelta, se libera
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  employee_code text := upper(btrim(new.raw_user_meta_data->>'full_name'));
+BEGIN
+  INSERT INTO public.users (id, role, full_name, email)
+  VALUES (
+    new.id,
+    CASE WHEN employee_code = 'ADMIN' THEN 'admin' ELSE 'user' END,
+    new.raw_user_meta_data->>'full_name',
+    new.email
+  );
+
+  UPDATE public.employees
+  SET user_id = new.id, email = coalesce(email, new.email)
+  WHERE code = employee_code AND user_id IS NULL;
+
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sigle attive ancora senza account, mostrate nel modulo di registrazione
+CREATE OR REPLACE FUNCTION signup_employee_codes()
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT code
+  FROM employees
+  WHERE user_id IS NULL
+    AND (active_to IS NULL OR active_to >= current_date)
+  ORDER BY code;
+$$;
+
+GRANT EXECUTE ON FUNCTION signup_employee_codes() TO anon, authenticated;
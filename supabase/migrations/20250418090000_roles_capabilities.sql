@@ -0,0 +1,518 @@
+/*
+  # Roles and capabilities
+
+  1. New Tables
+    - `role_capabilities` - capabilities granted to each role
+
+  2. Changes
+    - Roles are now admin, scheduler, team_lead and employee (`user` becomes `employee`)
+    - Capabilities: upload_matrix, approve_swaps, manage_settings, manage_employees,
+      manage_roles, reset_data
+    - `has_capability()` replaces `is_admin()` in RLS policies and RPCs, so the client
+      (which reads the same table through `current_capabilities()`) and the database agree
+    - A role can only be changed through `set_user_role()` by someone with manage_roles
+    - `reset_schedule_data()` replaces the client-side deletes of the reset buttons
+
+  3. Security
+    - Swaps are visible to their employees and to anyone who can approve swaps
+    - Direct inserts/updates on swaps and schedule rows stay closed: writes go through RPCs
+*/
+
+-- Ruoli
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+UPDATE users SET role = 'employee' WHERE role = 'user';
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'employee';
+ALTER TABLE users
+  ADD CONSTRAINT users_role_check
+  CHECK (role IN ('admin', 'scheduler', 'team_lead', 'employee'));
+
+CREATE TABLE IF NOT EXISTS role_capabilities (
+  role text NOT NULL CHECK (role IN ('admin', 'scheduler', 'team_lead', 'employee')),
+  capability text NOT NULL CHECK (capability IN (
+    'upload_matrix', 'approve_swaps', 'manage_settings', 'manage_employees', 'manage_roles', 'reset_data'
+  )),
+  PRIMARY KEY (role, capability)
+);
+
+ALTER TABLE role_capabilities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read role capabilities"
+  ON role_capabilities
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO role_capabilities (role, capability)
+VALUES
+  ('admin', 'upload_matrix'),
+  ('admin', 'approve_swaps'),
+  ('admin', 'manage_settings'),
+  ('admin', 'manage_employees'),
+  ('admin', 'manage_roles'),
+  ('admin', 'reset_data'),
+  ('scheduler', 'upload_matrix'),
+  ('scheduler', 'approve_swaps'),
+  ('scheduler', 'manage_settings'),
+  ('scheduler', 'manage_employees'),
+  ('team_lead', 'approve_swaps')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION has_capability(p_capability text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users u
+    JOIN role_capabilities rc ON rc.role = u.role
+    WHERE u.id = auth.uid() AND rc.capability = p_capability
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION current_capabilities()
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT rc.capability
+  FROM users u
+  JOIN role_capabilities rc ON rc.role = u.role
+  WHERE u.id = auth.uid()
+  ORDER BY rc.capability;
+$$;
+
+-- Il ruolo si cambia solo tramite set_user_role
+CREATE OR REPLACE FUNCTION protect_user_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND auth.uid() IS NOT NULL AND NOT has_capability('manage_roles') THEN
+    RAISE EXCEPTION 'Non autorizzato a modificare i ruoli'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_user_role_trigger ON users;
+CREATE TRIGGER protect_user_role_trigger
+  BEFORE UPDATE OF role ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_user_role();
+
+CREATE OR REPLACE FUNCTION set_user_role(p_user_id uuid, p_role text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_capability('manage_roles') THEN
+    RAISE EXCEPTION 'Non autorizzato a modificare i ruoli'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_user_id = auth.uid() AND p_role <> 'admin' THEN
+    RAISE EXCEPTION 'Non puoi rimuovere il tuo ruolo di amministratore'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE users SET role = p_role WHERE id = p_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION current_capabilities() TO authenticated;
+GRANT EXECUTE ON FUNCTION set_user_role(uuid, text) TO authenticated;
+
+-- Le nuove registrazioni partono dal ruolo employee
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  employee_code text := upper(btrim(new.raw_user_meta_data->>'full_name'));
+BEGIN
+  INSERT INTO public.users (id, role, full_name, email)
+  VALUES (
+    new.id,
+    CASE WHEN employee_code = 'ADMIN' THEN 'admin' ELSE 'employee' END,
+    new.raw_user_meta_data->>'full_name',
+    new.email
+  );
+
+  UPDATE public.employees
+  SET user_id = new.id, email = coalesce(email, new.email)
+  WHERE code = employee_code AND user_id IS NULL;
+
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Policy sulle tabelle di configurazione
+DROP POLICY IF EXISTS "Admins can manage shift codes" ON shift_codes;
+CREATE POLICY "Schedulers can manage shift codes"
+  ON shift_codes
+  FOR ALL
+  TO authenticated
+  USING (has_capability('manage_settings'))
+  WITH CHECK (has_capability('manage_settings'));
+
+DROP POLICY IF EXISTS "Admins can manage swap rules" ON swap_rules;
+CREATE POLICY "Schedulers can manage swap rules"
+  ON swap_rules
+  FOR ALL
+  TO authenticated
+  USING (has_capability('manage_settings'))
+  WITH CHECK (has_capability('manage_settings'));
+
+DROP POLICY IF EXISTS "Admins can update compliance settings" ON compliance_settings;
+CREATE POLICY "Schedulers can update compliance settings"
+  ON compliance_settings
+  FOR UPDATE
+  TO authenticated
+  USING (has_capability('manage_settings'))
+  WITH CHECK (has_capability('manage_settings'));
+
+DROP POLICY IF EXISTS "Admins can manage employees" ON employees;
+CREATE POLICY "Schedulers can manage employees"
+  ON employees
+  FOR ALL
+  TO authenticated
+  USING (has_capability('manage_employees'))
+  WITH CHECK (has_capability('manage_employees'));
+
+DROP POLICY IF EXISTS "Admins can manage employee qualifications" ON employee_qualifications;
+CREATE POLICY "Schedulers can manage employee qualifications"
+  ON employee_qualifications
+  FOR ALL
+  TO authenticated
+  USING (has_capability('manage_employees'))
+  WITH CHECK (has_capability('manage_employees'));
+
+-- Scambi e matrice: le policy accumulate nel tempo vengono sostituite da un insieme unico
+DO $$
+DECLARE
+  policy record;
+BEGIN
+  FOR policy IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public' AND tablename IN ('shift_swaps_v2', 'shifts_schedule')
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I', policy.policyname, policy.tablename);
+  END LOOP;
+END;
+$$;
+
+CREATE POLICY "Employees and approvers can view swaps"
+  ON shift_swaps_v2
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_capability('approve_swaps')
+    OR from_employee = current_employee_code()
+    OR to_employee = current_employee_code()
+  );
+
+CREATE POLICY "Reset capability can delete swaps"
+  ON shift_swaps_v2
+  FOR DELETE
+  TO authenticated
+  USING (has_capability('reset_data'));
+
+CREATE POLICY "Anyone can read shifts schedule"
+  ON shifts_schedule
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Reset capability can delete shifts schedule"
+  ON shifts_schedule
+  FOR DELETE
+  TO authenticated
+  USING (has_capability('reset_data'));
+
+-- Pubblicazione della matrice
+CREATE OR REPLACE FUNCTION apply_schedule_revision(
+  p_week_start date,
+  p_shifts jsonb,
+  p_note text,
+  p_restored_from integer
+)
+RETURNS schedule_revisions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  normalized jsonb := normalize_schedule_shifts(p_shifts);
+  latest schedule_revisions;
+  result schedule_revisions;
+BEGIN
+  IF NOT has_capability('upload_matrix') THEN
+    RAISE EXCEPTION 'Non autorizzato a pubblicare la matrice dei turni'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_week_start IS DISTINCT FROM week_start_of(p_week_start) THEN
+    RAISE EXCEPTION 'La settimana deve iniziare di domenica'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF jsonb_array_length(normalized) = 0 THEN
+    RAISE EXCEPTION 'La matrice non contiene turni'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(normalized) elem
+    GROUP BY elem->>'employee_code'
+    HAVING count(*) > 1 OR coalesce(elem->>'employee_code', '') = ''
+  ) THEN
+    RAISE EXCEPTION 'La matrice contiene sigle vuote o duplicate'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('schedule:' || p_week_start));
+
+  SELECT * INTO latest
+  FROM schedule_revisions
+  WHERE week_start_date = p_week_start
+  ORDER BY revision DESC
+  LIMIT 1;
+
+  -- Ricaricare gli stessi dati non crea una nuova revisione
+  IF latest.id IS NOT NULL AND latest.shifts = normalized THEN
+    RETURN latest;
+  END IF;
+
+  INSERT INTO schedule_revisions (week_start_date, revision, shifts, note, restored_from, created_by)
+  VALUES (p_week_start, coalesce(latest.revision, 0) + 1, normalized, p_note, p_restored_from, auth.uid())
+  RETURNING * INTO result;
+
+  DELETE FROM shifts_schedule
+  WHERE week_start_date = p_week_start
+    AND employee_code NOT IN (SELECT elem->>'employee_code' FROM jsonb_array_elements(normalized) elem);
+
+  INSERT INTO shifts_schedule (
+    week_start_date, employee_code,
+    sunday_shift, monday_shift, tuesday_shift, wednesday_shift,
+    thursday_shift, friday_shift, saturday_shift, display_order
+  )
+  SELECT
+    p_week_start, elem->>'employee_code',
+    elem->>'sunday_shift', elem->>'monday_shift', elem->>'tuesday_shift', elem->>'wednesday_shift',
+    elem->>'thursday_shift', elem->>'friday_shift', elem->>'saturday_shift', ord::integer
+  FROM jsonb_array_elements(normalized) WITH ORDINALITY AS t(elem, ord)
+  ON CONFLICT (week_start_date, employee_code) DO UPDATE SET
+    sunday_shift = EXCLUDED.sunday_shift,
+    monday_shift = EXCLUDED.monday_shift,
+    tuesday_shift = EXCLUDED.tuesday_shift,
+    wednesday_shift = EXCLUDED.wednesday_shift,
+    thursday_shift = EXCLUDED.thursday_shift,
+    friday_shift = EXCLUDED.friday_shift,
+    saturday_shift = EXCLUDED.saturday_shift,
+    display_order = EXCLUDED.display_order;
+
+  RETURN result;
+END;
+$$;
+
+-- RPC degli scambi: chi può approvare agisce anche per conto degli altri
+CREATE OR REPLACE FUNCTION swap_request(
+  p_date date,
+  p_from_employee text,
+  p_to_employee text,
+  p_from_shift text,
+  p_to_shift text
+)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_can_approve boolean := has_capability('approve_swaps');
+  new_swap shift_swaps_v2;
+BEGIN
+  IF NOT caller_can_approve AND p_from_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Puoi richiedere scambi solo per i tuoi turni'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_from_employee = p_to_employee THEN
+    RAISE EXCEPTION 'Non è possibile scambiare un turno con se stessi';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, ARRAY[p_from_employee, p_to_employee]);
+
+  IF EXISTS (
+    SELECT 1 FROM shift_swaps_v2
+    WHERE date = p_date
+      AND from_employee = p_from_employee
+      AND to_employee = p_to_employee
+      AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Esiste già una richiesta in attesa per questo scambio'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  new_swap.date := p_date;
+  new_swap.from_employee := p_from_employee;
+  new_swap.to_employee := p_to_employee;
+  new_swap.from_shift := p_from_shift;
+  new_swap.to_shift := p_to_shift;
+
+  -- Gli scambi di chi può approvare vengono applicati subito, anche tra date diverse
+  IF NOT caller_can_approve THEN
+    PERFORM assert_swap_shifts_current(new_swap);
+  END IF;
+
+  INSERT INTO shift_swaps_v2 (date, from_employee, to_employee, from_shift, to_shift, status, responded_at, responded_by)
+  VALUES (
+    p_date, p_from_employee, p_to_employee, p_from_shift, p_to_shift,
+    CASE WHEN caller_can_approve THEN 'accepted' ELSE 'pending' END,
+    CASE WHEN caller_can_approve THEN now() END,
+    CASE WHEN caller_can_approve THEN auth.uid() END
+  );
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION swap_accept(p_swap_id uuid)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+BEGIN
+  SELECT * INTO swap FROM shift_swaps_v2 WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps') AND swap.to_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Non autorizzato a rispondere a questa richiesta'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF swap.status <> 'pending' THEN
+    RAISE EXCEPTION 'La richiesta non è più in attesa (stato: %)', swap.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM lock_swap_cells(swap.date, ARRAY[swap.from_employee, swap.to_employee]);
+  PERFORM assert_swap_shifts_current(swap);
+
+  UPDATE shift_swaps_v2
+  SET status = 'accepted', responded_at = now(), responded_by = auth.uid()
+  WHERE id = p_swap_id;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(swap.date));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION close_swap(p_swap_id uuid, p_status text)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+  allowed_employee text;
+BEGIN
+  SELECT * INTO swap FROM shift_swaps_v2 WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  -- Rifiuta chi riceve la richiesta, annulla chi l'ha creata
+  allowed_employee := CASE p_status WHEN 'rejected' THEN swap.to_employee ELSE swap.from_employee END;
+
+  IF NOT has_capability('approve_swaps') AND allowed_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Non autorizzato a modificare questa richiesta'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF swap.status <> 'pending' THEN
+    RAISE EXCEPTION 'La richiesta non è più in attesa (stato: %)', swap.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE shift_swaps_v2
+  SET status = p_status, responded_at = now(), responded_by = auth.uid()
+  WHERE id = p_swap_id;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(swap.date));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_swap_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.status IN ('pending', 'accepted'))
+     OR (TG_OP = 'UPDATE' AND OLD.status = 'pending' AND NEW.status = 'accepted') THEN
+    PERFORM assert_swap_rules(NEW, has_capability('approve_swaps'));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_auth_user(user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_capability('manage_roles') THEN
+    RAISE EXCEPTION 'Non autorizzato a eliminare gli account'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  DELETE FROM auth.users WHERE id = user_id;
+END;
+$$;
+
+-- Azzeramento dei dati: con p_pending_swaps_only elimina solo gli scambi in attesa
+CREATE OR REPLACE FUNCTION reset_schedule_data(p_pending_swaps_only boolean DEFAULT false)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_capability('reset_data') THEN
+    RAISE EXCEPTION 'Non autorizzato ad azzerare i dati'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_pending_swaps_only THEN
+    DELETE FROM notifications WHERE type = 'swap_request';
+    DELETE FROM shift_swaps_v2 WHERE status = 'pending';
+    RETURN;
+  END IF;
+
+  DELETE FROM notifications WHERE true;
+  DELETE FROM shift_swaps_v2 WHERE true;
+  DELETE FROM schedule_revisions WHERE true;
+  DELETE FROM shifts_schedule WHERE true;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION reset_schedule_data(boolean) TO authenticated;
@@ -0,0 +1,472 @@
+/*
+  # Manager approval for swaps
+
+  1. Changes
+    - New status `pending_manager`: a swap accepted by `to_employee` waits for a
+      manager (anyone with the approve_swaps capability) before being applied
+    - `swap_accept` moves a pending swap to `pending_manager`; an approver who is not
+      involved in the swap can still accept it directly
+    - New RPC `swap_approve` for the manager stage; `swap_reject` takes an optional
+      comment, mandatory when a manager rejects a swap awaiting approval
+    - Swap rules and rest-period checks run at peer acceptance and again at approval
+    - `notify_swap_status_change` is the single notifier for status changes and now
+      covers the manager stage; `handle_swap_notification` only announces new requests
+    - `reset_schedule_data(true)` also removes swaps awaiting approval
+
+  2. New Columns on `shift_swaps_v2`
+    - `peer_accepted_at`, `peer_accepted_by` - acceptance by the colleague
+    - `manager_comment` - note left by the manager, required on rejection
+*/
+
+ALTER TABLE shift_swaps_v2 DROP CONSTRAINT IF EXISTS shift_swaps_v2_status_check;
+ALTER TABLE shift_swaps_v2
+  ADD CONSTRAINT shift_swaps_v2_status_check
+  CHECK (status IN ('pending', 'pending_manager', 'accepted', 'rejected', 'cancelled'));
+
+ALTER TABLE shift_swaps_v2
+  ADD COLUMN IF NOT EXISTS peer_accepted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS peer_accepted_by uuid REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS manager_comment text;
+
+-- Transizioni: pending -> pending_manager -> accepted, con rifiuto o annullamento da entrambi gli stati aperti
+CREATE OR REPLACE FUNCTION enforce_swap_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('pending_manager', 'accepted', 'rejected', 'cancelled'))
+      OR (OLD.status = 'pending_manager' AND NEW.status IN ('accepted', 'rejected', 'cancelled'))
+    ) THEN
+      RAISE EXCEPTION 'Transizione di stato non consentita: % -> %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- Regole e riposi valgono sia all'accettazione del collega sia all'approvazione del responsabile
+CREATE OR REPLACE FUNCTION enforce_swap_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.status IN ('pending', 'accepted'))
+     OR (TG_OP = 'UPDATE' AND OLD.status IN ('pending', 'pending_manager')
+         AND NEW.status IN ('pending_manager', 'accepted')) THEN
+    PERFORM assert_swap_rules(NEW, has_capability('approve_swaps'));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_swap_compliance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  violation record;
+BEGIN
+  IF ((TG_OP = 'INSERT' AND NEW.status IN ('pending', 'accepted'))
+      OR (TG_OP = 'UPDATE' AND OLD.status IN ('pending', 'pending_manager')
+          AND NEW.status IN ('pending_manager', 'accepted')))
+     AND (SELECT enforcement FROM compliance_settings) = 'block' THEN
+    SELECT * INTO violation FROM swap_compliance_violations(NEW) LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Riposi non rispettati: %', violation.message
+        USING ERRCODE = 'check_violation', HINT = 'compliance:' || violation.rule;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION swap_request(
+  p_date date,
+  p_from_employee text,
+  p_to_employee text,
+  p_from_shift text,
+  p_to_shift text
+)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_can_approve boolean := has_capability('approve_swaps');
+  new_swap shift_swaps_v2;
+BEGIN
+  IF NOT caller_can_approve AND p_from_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Puoi richiedere scambi solo per i tuoi turni'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_from_employee = p_to_employee THEN
+    RAISE EXCEPTION 'Non è possibile scambiare un turno con se stessi';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, ARRAY[p_from_employee, p_to_employee]);
+
+  IF EXISTS (
+    SELECT 1 FROM shift_swaps_v2
+    WHERE date = p_date
+      AND from_employee = p_from_employee
+      AND to_employee = p_to_employee
+      AND status IN ('pending', 'pending_manager')
+  ) THEN
+    RAISE EXCEPTION 'Esiste già una richiesta in attesa per questo scambio'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  new_swap.date := p_date;
+  new_swap.from_employee := p_from_employee;
+  new_swap.to_employee := p_to_employee;
+  new_swap.from_shift := p_from_shift;
+  new_swap.to_shift := p_to_shift;
+
+  -- Gli scambi di chi può approvare vengono applicati subito, anche tra date diverse
+  IF NOT caller_can_approve THEN
+    PERFORM assert_swap_shifts_current(new_swap);
+  END IF;
+
+  INSERT INTO shift_swaps_v2 (date, from_employee, to_employee, from_shift, to_shift, status, responded_at, responded_by)
+  VALUES (
+    p_date, p_from_employee, p_to_employee, p_from_shift, p_to_shift,
+    CASE WHEN caller_can_approve THEN 'accepted' ELSE 'pending' END,
+    CASE WHEN caller_can_approve THEN now() END,
+    CASE WHEN caller_can_approve THEN auth.uid() END
+  );
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+-- Accettazione del collega: lo scambio passa al responsabile.
+-- Un approvatore non coinvolto può accettare per conto del collega e applicarlo subito.
+CREATE OR REPLACE FUNCTION swap_accept(p_swap_id uuid)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+  caller_code text := current_employee_code();
+  approve_directly boolean;
+BEGIN
+  SELECT * INTO swap FROM shift_swaps_v2 WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF (NOT has_capability('approve_swaps') AND swap.to_employee IS DISTINCT FROM caller_code)
+     OR swap.from_employee = caller_code THEN
+    RAISE EXCEPTION 'Non autorizzato a rispondere a questa richiesta'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF swap.status <> 'pending' THEN
+    RAISE EXCEPTION 'La richiesta non è più in attesa (stato: %)', swap.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  approve_directly := has_capability('approve_swaps')
+    AND caller_code IS DISTINCT FROM swap.from_employee
+    AND caller_code IS DISTINCT FROM swap.to_employee;
+
+  PERFORM lock_swap_cells(swap.date, ARRAY[swap.from_employee, swap.to_employee]);
+  PERFORM assert_swap_shifts_current(swap);
+
+  UPDATE shift_swaps_v2
+  SET status = CASE WHEN approve_directly THEN 'accepted' ELSE 'pending_manager' END,
+      peer_accepted_at = now(),
+      peer_accepted_by = auth.uid(),
+      responded_at = CASE WHEN approve_directly THEN now() END,
+      responded_by = CASE WHEN approve_directly THEN auth.uid() END
+  WHERE id = p_swap_id;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(swap.date));
+END;
+$$;
+
+-- Approvazione del responsabile: nessuno approva uno scambio che lo coinvolge
+CREATE OR REPLACE FUNCTION swap_approve(p_swap_id uuid, p_comment text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+  caller_code text := current_employee_code();
+BEGIN
+  SELECT * INTO swap FROM shift_swaps_v2 WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps') THEN
+    RAISE EXCEPTION 'Non autorizzato ad approvare gli scambi'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF caller_code IN (swap.from_employee, swap.to_employee) THEN
+    RAISE EXCEPTION 'Non puoi approvare uno scambio che ti coinvolge'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF swap.status <> 'pending_manager' THEN
+    RAISE EXCEPTION 'Lo scambio non è in attesa di approvazione (stato: %)', swap.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM lock_swap_cells(swap.date, ARRAY[swap.from_employee, swap.to_employee]);
+  PERFORM assert_swap_shifts_current(swap);
+
+  UPDATE shift_swaps_v2
+  SET status = 'accepted',
+      responded_at = now(),
+      responded_by = auth.uid(),
+      manager_comment = nullif(btrim(p_comment), '')
+  WHERE id = p_swap_id;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(swap.date));
+END;
+$$;
+
+-- La firma cambia: swap_reject e swap_cancel vengono ricreate sotto
+DROP FUNCTION IF EXISTS swap_reject(uuid);
+DROP FUNCTION IF EXISTS swap_cancel(uuid);
+DROP FUNCTION IF EXISTS close_swap(uuid, text);
+
+CREATE OR REPLACE FUNCTION close_swap(p_swap_id uuid, p_status text, p_comment text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+  allowed_employee text;
+BEGIN
+  -- Qui si chiude soltanto: l'accettazione passa da swap_accept e swap_approve
+  IF p_status NOT IN ('rejected', 'cancelled') THEN
+    RAISE EXCEPTION 'Stato di chiusura non valido: %', p_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO swap FROM shift_swaps_v2 WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF swap.status NOT IN ('pending', 'pending_manager') THEN
+    RAISE EXCEPTION 'La richiesta non è più in attesa (stato: %)', swap.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Rifiuta chi riceve la richiesta (o il responsabile dopo l'accettazione), annulla chi l'ha creata
+  allowed_employee := CASE
+    WHEN p_status = 'cancelled' THEN swap.from_employee
+    WHEN swap.status = 'pending' THEN swap.to_employee
+  END;
+
+  IF NOT has_capability('approve_swaps') AND allowed_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Non autorizzato a modificare questa richiesta'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_status = 'rejected' AND swap.status = 'pending_manager' AND btrim(coalesce(p_comment, '')) = '' THEN
+    RAISE EXCEPTION 'Indica il motivo del rifiuto'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE shift_swaps_v2
+  SET status = p_status,
+      responded_at = now(),
+      responded_by = auth.uid(),
+      manager_comment = coalesce(nullif(btrim(p_comment), ''), manager_comment)
+  WHERE id = p_swap_id;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(swap.date));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION swap_reject(p_swap_id uuid, p_comment text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM close_swap(p_swap_id, 'rejected', p_comment);
+$$;
+
+CREATE OR REPLACE FUNCTION swap_cancel(p_swap_id uuid)
+RETURNS SETOF effective_shift_row
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM close_swap(p_swap_id, 'cancelled');
+$$;
+
+REVOKE EXECUTE ON FUNCTION close_swap FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION swap_approve TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_reject TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_cancel TO authenticated;
+
+-- Notifiche
+CREATE OR REPLACE FUNCTION employee_user_id(p_employee text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT user_id FROM employees WHERE code = p_employee;
+$$;
+
+-- La nuova richiesta viene annunciata al collega; i cambi di stato li gestisce notify_swap_status_change
+CREATE OR REPLACE FUNCTION handle_swap_notification()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  to_user_id uuid := employee_user_id(NEW.to_employee);
+BEGIN
+  IF NEW.status = 'pending' AND to_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    VALUES (
+      to_user_id,
+      NEW.id,
+      format('Nuova richiesta di scambio da %s per il turno del %s',
+        NEW.from_employee, to_char(NEW.date, 'DD/MM/YYYY'))
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_shift_swap_notification ON shift_swaps_v2;
+CREATE TRIGGER on_shift_swap_notification
+  AFTER INSERT ON shift_swaps_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_swap_notification();
+
+CREATE OR REPLACE FUNCTION notify_swap_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  from_user_id uuid := employee_user_id(NEW.from_employee);
+  to_user_id uuid := employee_user_id(NEW.to_employee);
+  swap_date text := to_char(NEW.date, 'DD/MM/YYYY');
+  comment_suffix text := coalesce(': ' || NEW.manager_comment, '');
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'pending_manager' THEN
+    IF from_user_id IS NOT NULL THEN
+      INSERT INTO notifications (user_id, swap_id, message)
+      VALUES (from_user_id, NEW.id,
+        format('%s ha accettato lo scambio del %s, ora in attesa di approvazione del responsabile', NEW.to_employee, swap_date));
+    END IF;
+
+    -- Tutti gli approvatori non coinvolti nello scambio
+    INSERT INTO notifications (user_id, swap_id, message)
+    SELECT u.id, NEW.id,
+      format('Scambio tra %s e %s del %s da approvare', NEW.from_employee, NEW.to_employee, swap_date)
+    FROM users u
+    JOIN role_capabilities rc ON rc.role = u.role AND rc.capability = 'approve_swaps'
+    WHERE u.id IS DISTINCT FROM from_user_id AND u.id IS DISTINCT FROM to_user_id;
+
+  ELSIF NEW.status = 'accepted' AND OLD.status = 'pending_manager' THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    SELECT recipient, NEW.id,
+      format('Lo scambio tra %s e %s del %s è stato approvato dal responsabile%s', NEW.from_employee, NEW.to_employee, swap_date, comment_suffix)
+    FROM unnest(ARRAY[from_user_id, to_user_id]) AS recipient
+    WHERE recipient IS NOT NULL;
+
+  ELSIF NEW.status = 'accepted' AND from_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    VALUES (from_user_id, NEW.id,
+      format('La tua richiesta di scambio per il %s è stata accettata da %s', swap_date, NEW.to_employee));
+
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'pending_manager' THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    SELECT recipient, NEW.id,
+      format('Lo scambio tra %s e %s del %s è stato rifiutato dal responsabile%s', NEW.from_employee, NEW.to_employee, swap_date, comment_suffix)
+    FROM unnest(ARRAY[from_user_id, to_user_id]) AS recipient
+    WHERE recipient IS NOT NULL;
+
+  ELSIF NEW.status = 'rejected' AND from_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    VALUES (from_user_id, NEW.id,
+      format('La tua richiesta di scambio per il %s è stata rifiutata da %s', swap_date, NEW.to_employee));
+
+  ELSIF NEW.status = 'cancelled' AND to_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    VALUES (to_user_id, NEW.id,
+      format('La richiesta di scambio da %s per il %s è stata annullata', NEW.from_employee, swap_date));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_swap_status_change_trigger ON shift_swaps_v2;
+CREATE TRIGGER notify_swap_status_change_trigger
+  AFTER UPDATE OF status ON shift_swaps_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_swap_status_change();
+
+-- Gli scambi in attesa comprendono quelli da approvare; le notifiche collegate vanno eliminate prima
+CREATE OR REPLACE FUNCTION reset_schedule_data(p_pending_swaps_only boolean DEFAULT false)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_capability('reset_data') THEN
+    RAISE EXCEPTION 'Non autorizzato ad azzerare i dati'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_pending_swaps_only THEN
+    DELETE FROM notifications
+    WHERE swap_id IN (SELECT id FROM shift_swaps_v2 WHERE status IN ('pending', 'pending_manager'));
+    DELETE FROM shift_swaps_v2 WHERE status IN ('pending', 'pending_manager');
+    RETURN;
+  END IF;
+
+  DELETE FROM notifications WHERE true;
+  DELETE FROM shift_swaps_v2 WHERE true;
+  DELETE FROM schedule_revisions WHERE true;
+  DELETE FROM shifts_schedule WHERE true;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_shift_swaps_v2_pending_manager
+  ON shift_swaps_v2(date)
+  WHERE status = 'pending_manager';
@@ -0,0 +1,875 @@
+/*
+  # Swap chains
+
+  1. New Tables
+    - `swap_chains` - a rotation of shifts between three or more employees on one day,
+      with the same statuses as a swap (pending, pending_manager, accepted, ...)
+    - `swap_chain_participants` - one row per employee in rotation order: each
+      participant takes the shift of the next one, the last takes the first one's
+
+  2. Changes
+    - RPCs `swap_chain_request`, `swap_chain_accept`, `swap_chain_approve`,
+      `swap_chain_reject` and `swap_chain_cancel`; the chain goes to the manager only
+      when every participant has accepted, and is applied in a single step
+    - Swap rules and rest-period checks are evaluated on the assignments of the whole
+      chain (`assignment_rule_violations`, `assignment_compliance_violations`)
+    - `rebuild_effective_week` applies accepted swaps and chains in acceptance order;
+      `effective_shifts.chain_id` marks the cells changed by a chain
+    - Notifications can reference a chain; `reset_schedule_data` also removes chains
+
+  3. Security
+    - Chains are visible to their participants and to anyone who can approve swaps;
+      writes go through the RPCs only
+*/
+
+CREATE TABLE IF NOT EXISTS swap_chains (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  date date NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'pending_manager', 'accepted', 'rejected', 'cancelled')),
+  created_by uuid REFERENCES auth.users(id),
+  peer_accepted_at timestamptz,
+  responded_at timestamptz,
+  responded_by uuid REFERENCES auth.users(id),
+  manager_comment text,
+  stale boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS swap_chain_participants (
+  chain_id uuid NOT NULL REFERENCES swap_chains(id) ON DELETE CASCADE,
+  position integer NOT NULL,
+  employee_code text NOT NULL,
+  shift text NOT NULL,
+  takes_shift text NOT NULL,
+  accepted_at timestamptz,
+  PRIMARY KEY (chain_id, position),
+  UNIQUE (chain_id, employee_code)
+);
+
+CREATE INDEX IF NOT EXISTS idx_swap_chains_date_status ON swap_chains(date, status);
+CREATE INDEX IF NOT EXISTS idx_swap_chain_participants_employee ON swap_chain_participants(employee_code);
+
+ALTER TABLE swap_chains ENABLE ROW LEVEL SECURITY;
+ALTER TABLE swap_chain_participants ENABLE ROW LEVEL SECURITY;
+
+-- Evita la ricorsione tra le policy delle due tabelle
+CREATE OR REPLACE FUNCTION is_swap_chain_participant(p_chain_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM swap_chain_participants
+    WHERE chain_id = p_chain_id AND employee_code = current_employee_code()
+  );
+$$;
+
+CREATE POLICY "Participants and approvers can view swap chains"
+  ON swap_chains
+  FOR SELECT
+  TO authenticated
+  USING (has_capability('approve_swaps') OR is_swap_chain_participant(id));
+
+CREATE POLICY "Participants and approvers can view chain participants"
+  ON swap_chain_participants
+  FOR SELECT
+  TO authenticated
+  USING (has_capability('approve_swaps') OR is_swap_chain_participant(chain_id));
+
+CREATE POLICY "Reset capability can delete swap chains"
+  ON swap_chains
+  FOR DELETE
+  TO authenticated
+  USING (has_capability('reset_data'));
+
+-- Transizioni degli scambi, ma l'applicazione passa sempre dal responsabile
+CREATE OR REPLACE FUNCTION enforce_swap_chain_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('pending_manager', 'rejected', 'cancelled'))
+      OR (OLD.status = 'pending_manager' AND NEW.status IN ('accepted', 'rejected', 'cancelled'))
+    ) THEN
+      RAISE EXCEPTION 'Transizione di stato non consentita: % -> %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Si passa al responsabile e si applica solo con la conferma di tutti i partecipanti
+    IF NEW.status IN ('pending_manager', 'accepted') AND EXISTS (
+      SELECT 1 FROM swap_chain_participants
+      WHERE chain_id = NEW.id AND accepted_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Non tutti i partecipanti hanno confermato la rotazione'
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_swap_chain_transition_trigger ON swap_chains;
+CREATE TRIGGER enforce_swap_chain_transition_trigger
+  BEFORE UPDATE ON swap_chains
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_swap_chain_transition();
+
+-- Regole valutate su un insieme di assegnazioni (dipendente, turno) nello stesso giorno.
+-- Uno scambio è il caso con due assegnazioni, una catena ne ha una per partecipante.
+CREATE OR REPLACE FUNCTION assignment_rule_violations(
+  p_date date,
+  p_employees text[],
+  p_shifts text[],
+  p_caller_is_admin boolean
+)
+RETURNS TABLE (rule_id uuid, rule_type text, description text, message text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  rule swap_rules;
+  assignment record;
+  current_times timestamptz[];
+  other_times timestamptz[];
+  rest interval;
+  limit_value numeric;
+  streak integer;
+  check_day date;
+  earliest_start timestamptz;
+  required text;
+BEGIN
+  FOR rule IN
+    SELECT * FROM swap_rules
+    WHERE enabled AND (applies_to_admins OR NOT p_caller_is_admin)
+    ORDER BY created_at
+  LOOP
+    rule_id := rule.id;
+    rule_type := rule.rule_type;
+    description := rule.description;
+
+    IF rule.rule_type = 'swappable_codes' THEN
+      FOR assignment IN SELECT DISTINCT unnest(p_shifts) AS shift LOOP
+        IF NOT is_swappable_shift(assignment.shift) THEN
+          message := format('il turno %s non può essere scambiato', assignment.shift);
+          RETURN NEXT;
+        END IF;
+      END LOOP;
+
+    ELSIF rule.rule_type = 'min_notice_hours' THEN
+      limit_value := coalesce((rule.params->>'hours')::numeric, 24);
+      -- Gli orari del catalogo sono ora locale del reparto
+      SELECT min(coalesce(
+        (parse_shift_time(s, p_date))[1]::timestamp,
+        p_date::timestamp
+      ) AT TIME ZONE coalesce(rule.params->>'timezone', 'Europe/Rome'))
+      INTO earliest_start
+      FROM unnest(p_shifts) AS s;
+
+      IF earliest_start - now() < limit_value * interval '1 hour' THEN
+        message := format('gli scambi vanno richiesti almeno %s ore prima dell''inizio del turno', limit_value);
+        RETURN NEXT;
+      END IF;
+
+    ELSE
+      FOR assignment IN
+        SELECT * FROM unnest(p_employees, p_shifts) AS a(employee, shift)
+      LOOP
+        IF rule.rule_type = 'min_rest_hours' THEN
+          limit_value := coalesce((rule.params->>'hours')::numeric, 11);
+          current_times := parse_shift_time(assignment.shift, p_date);
+          CONTINUE WHEN current_times IS NULL;
+
+          other_times := parse_shift_time(effective_shift(assignment.employee, p_date - 1), p_date - 1);
+          rest := current_times[1] - other_times[2];
+          IF rest IS NOT NULL AND rest < limit_value * interval '1 hour' THEN
+            message := format('%s avrebbe solo %s ore di riposo prima del turno %s del %s (minimo %s)',
+              assignment.employee, round(extract(epoch FROM rest) / 3600, 1),
+              assignment.shift, to_char(p_date, 'DD/MM'), limit_value);
+            RETURN NEXT;
+          END IF;
+
+          other_times := parse_shift_time(effective_shift(assignment.employee, p_date + 1), p_date + 1);
+          rest := other_times[1] - current_times[2];
+          IF rest IS NOT NULL AND rest < limit_value * interval '1 hour' THEN
+            message := format('%s avrebbe solo %s ore di riposo dopo il turno %s del %s (minimo %s)',
+              assignment.employee, round(extract(epoch FROM rest) / 3600, 1),
+              assignment.shift, to_char(p_date, 'DD/MM'), limit_value);
+            RETURN NEXT;
+          END IF;
+
+        ELSIF rule.rule_type = 'max_consecutive_days' THEN
+          limit_value := coalesce((rule.params->>'days')::numeric, 6);
+          CONTINUE WHEN NOT is_working_shift(assignment.shift, p_date);
+
+          streak := 1;
+          check_day := p_date - 1;
+          WHILE streak <= limit_value AND is_working_shift(effective_shift(assignment.employee, check_day), check_day) LOOP
+            streak := streak + 1;
+            check_day := check_day - 1;
+          END LOOP;
+          check_day := p_date + 1;
+          WHILE streak <= limit_value AND is_working_shift(effective_shift(assignment.employee, check_day), check_day) LOOP
+            streak := streak + 1;
+            check_day := check_day + 1;
+          END LOOP;
+
+          IF streak > limit_value THEN
+            message := format('%s lavorerebbe più di %s giorni consecutivi', assignment.employee, limit_value);
+            RETURN NEXT;
+          END IF;
+
+        ELSIF rule.rule_type = 'qualification_match' THEN
+          SELECT required_qualification INTO required
+          FROM shift_codes
+          WHERE code = normalize_shift_code(assignment.shift);
+
+          IF required IS NOT NULL AND NOT EXISTS (
+            SELECT 1 FROM employee_qualifications q
+            WHERE q.employee_code = assignment.employee AND q.qualification = required
+          ) THEN
+            message := format('%s non ha la qualifica %s richiesta dal turno %s',
+              assignment.employee, required, assignment.shift);
+            RETURN NEXT;
+          END IF;
+        END IF;
+      END LOOP;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- from_employee lavora to_shift e to_employee lavora from_shift nel giorno dello scambio
+CREATE OR REPLACE FUNCTION swap_rule_violations(
+  p_date date,
+  p_from_employee text,
+  p_to_employee text,
+  p_from_shift text,
+  p_to_shift text,
+  p_caller_is_admin boolean
+)
+RETURNS TABLE (rule_id uuid, rule_type text, description text, message text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM assignment_rule_violations(
+    p_date, ARRAY[p_from_employee, p_to_employee], ARRAY[p_to_shift, p_from_shift], p_caller_is_admin
+  );
+$$;
+
+-- Solo le violazioni dei riposi introdotte dalle assegnazioni
+CREATE OR REPLACE FUNCTION assignment_compliance_violations(p_date date, p_employees text[], p_shifts text[])
+RETURNS TABLE (employee_code text, violation_date date, rule text, message text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT a.employee, after_swap.violation_date, after_swap.rule, after_swap.message
+  FROM unnest(p_employees, p_shifts) AS a(employee, shift)
+  CROSS JOIN LATERAL compliance_violations(a.employee, p_date, p_date + 6, p_date, a.shift) AS after_swap
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM compliance_violations(a.employee, p_date, p_date + 6) AS before_swap
+    WHERE before_swap.violation_date = after_swap.violation_date
+      AND before_swap.rule = after_swap.rule
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION swap_compliance_violations(p_swap shift_swaps_v2)
+RETURNS TABLE (employee_code text, violation_date date, rule text, message text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT * FROM assignment_compliance_violations(
+    p_swap.date, ARRAY[p_swap.from_employee, p_swap.to_employee], ARRAY[p_swap.to_shift, p_swap.from_shift]
+  );
+$$;
+
+-- Verifica che la catena sia ancora applicabile: turni invariati, regole e riposi
+CREATE OR REPLACE FUNCTION assert_swap_chain_valid(p_chain_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  chain swap_chains;
+  employees text[];
+  shifts text[];
+  changed record;
+  violation record;
+BEGIN
+  SELECT * INTO chain FROM swap_chains WHERE id = p_chain_id;
+
+  SELECT array_agg(employee_code ORDER BY position), array_agg(takes_shift ORDER BY position)
+  INTO employees, shifts
+  FROM swap_chain_participants
+  WHERE chain_id = p_chain_id;
+
+  PERFORM lock_swap_cells(chain.date, employees);
+
+  SELECT * INTO changed
+  FROM swap_chain_participants
+  WHERE chain_id = p_chain_id
+    AND effective_shift(employee_code, chain.date) IS DISTINCT FROM shift
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Il turno di % del % è cambiato nel frattempo: la rotazione non è più valida',
+      changed.employee_code, to_char(chain.date, 'DD/MM/YYYY')
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  SELECT * INTO violation
+  FROM assignment_rule_violations(chain.date, employees, shifts, has_capability('approve_swaps'))
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '%: %', violation.description, violation.message
+      USING ERRCODE = 'check_violation', HINT = 'swap_rule:' || violation.rule_type;
+  END IF;
+
+  IF (SELECT enforcement FROM compliance_settings) = 'block' THEN
+    SELECT * INTO violation FROM assignment_compliance_violations(chain.date, employees, shifts) LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Riposi non rispettati: %', violation.message
+        USING ERRCODE = 'check_violation', HINT = 'compliance:' || violation.rule;
+    END IF;
+  END IF;
+END;
+$$;
+
+-- Proposta di rotazione: p_employees[i] prende il turno di p_employees[i + 1], l'ultimo quello del primo.
+-- Chi propone accetta implicitamente; le rotazioni di chi può approvare e non vi partecipa sono applicate subito.
+CREATE OR REPLACE FUNCTION swap_chain_request(p_date date, p_employees text[])
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_can_approve boolean := has_capability('approve_swaps');
+  caller_code text := current_employee_code();
+  approve_directly boolean := caller_can_approve AND NOT coalesce(caller_code = ANY (p_employees), false);
+  participant_count integer := coalesce(array_length(p_employees, 1), 0);
+  new_chain_id uuid;
+BEGIN
+  IF participant_count < 3 THEN
+    RAISE EXCEPTION 'Una rotazione richiede almeno tre dipendenti: per due usa uno scambio'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (SELECT count(DISTINCT e) FROM unnest(p_employees) AS e) <> participant_count THEN
+    RAISE EXCEPTION 'Ogni dipendente può comparire una sola volta nella rotazione'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT caller_can_approve AND caller_code IS DISTINCT FROM p_employees[1] THEN
+    RAISE EXCEPTION 'Puoi proporre rotazioni solo a partire dal tuo turno'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_employees) AS e
+    WHERE effective_shift(e, p_date) IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Tutti i partecipanti devono avere un turno il %', to_char(p_date, 'DD/MM/YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, p_employees);
+
+  IF EXISTS (
+    SELECT 1
+    FROM swap_chains c
+    JOIN swap_chain_participants p ON p.chain_id = c.id
+    WHERE c.date = p_date
+      AND c.status IN ('pending', 'pending_manager')
+      AND p.employee_code = ANY (p_employees)
+  ) THEN
+    RAISE EXCEPTION 'Uno dei partecipanti è già coinvolto in una rotazione in attesa per questo giorno'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO swap_chains (date, status, created_by, responded_at, responded_by)
+  VALUES (
+    p_date,
+    CASE WHEN approve_directly THEN 'accepted' ELSE 'pending' END,
+    auth.uid(),
+    CASE WHEN approve_directly THEN now() END,
+    CASE WHEN approve_directly THEN auth.uid() END
+  )
+  RETURNING id INTO new_chain_id;
+
+  INSERT INTO swap_chain_participants (chain_id, position, employee_code, shift, takes_shift, accepted_at)
+  SELECT
+    new_chain_id,
+    t.ord,
+    t.employee,
+    effective_shift(t.employee, p_date),
+    effective_shift(p_employees[(t.ord % participant_count + 1)::integer], p_date),
+    CASE WHEN approve_directly OR t.employee = caller_code THEN now() END
+  FROM unnest(p_employees) WITH ORDINALITY AS t(employee, ord);
+
+  PERFORM assert_swap_chain_valid(new_chain_id);
+
+  -- L'inserimento con stato accepted è avvenuto prima dei partecipanti: la settimana va ricalcolata ora
+  IF approve_directly THEN
+    PERFORM rebuild_effective_week(week_start_of(p_date));
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+-- Conferma di un partecipante; con l'ultima conferma la catena passa al responsabile
+CREATE OR REPLACE FUNCTION swap_chain_accept(p_chain_id uuid)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  chain swap_chains;
+BEGIN
+  SELECT * INTO chain FROM swap_chains WHERE id = p_chain_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rotazione non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF chain.status <> 'pending' THEN
+    RAISE EXCEPTION 'La rotazione non è più in attesa (stato: %)', chain.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE swap_chain_participants
+  SET accepted_at = now()
+  WHERE chain_id = p_chain_id
+    AND employee_code = current_employee_code()
+    AND accepted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Non hai una conferma in sospeso per questa rotazione'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM assert_swap_chain_valid(p_chain_id);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM swap_chain_participants
+    WHERE chain_id = p_chain_id AND accepted_at IS NULL
+  ) THEN
+    UPDATE swap_chains
+    SET status = 'pending_manager', peer_accepted_at = now()
+    WHERE id = p_chain_id;
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(chain.date));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION swap_chain_approve(p_chain_id uuid, p_comment text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  chain swap_chains;
+BEGIN
+  SELECT * INTO chain FROM swap_chains WHERE id = p_chain_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rotazione non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps') THEN
+    RAISE EXCEPTION 'Non autorizzato ad approvare gli scambi'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF is_swap_chain_participant(p_chain_id) THEN
+    RAISE EXCEPTION 'Non puoi approvare una rotazione che ti coinvolge'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF chain.status <> 'pending_manager' THEN
+    RAISE EXCEPTION 'La rotazione non è in attesa di approvazione (stato: %)', chain.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM assert_swap_chain_valid(p_chain_id);
+
+  UPDATE swap_chains
+  SET status = 'accepted',
+      responded_at = now(),
+      responded_by = auth.uid(),
+      manager_comment = nullif(btrim(p_comment), '')
+  WHERE id = p_chain_id;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(chain.date));
+END;
+$$;
+
+-- Rifiuta un partecipante (o il responsabile, con commento obbligatorio), annulla chi l'ha proposta
+CREATE OR REPLACE FUNCTION close_swap_chain(p_chain_id uuid, p_status text, p_comment text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  chain swap_chains;
+  allowed boolean;
+BEGIN
+  SELECT * INTO chain FROM swap_chains WHERE id = p_chain_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rotazione non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF chain.status NOT IN ('pending', 'pending_manager') THEN
+    RAISE EXCEPTION 'La rotazione non è più in attesa (stato: %)', chain.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Qui si chiude soltanto: l'applicazione passa da swap_chain_accept e swap_chain_approve
+  IF p_status NOT IN ('rejected', 'cancelled') THEN
+    RAISE EXCEPTION 'Stato di chiusura non valido: %', p_status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  allowed := has_capability('approve_swaps') OR CASE
+    WHEN p_status = 'cancelled' THEN chain.created_by = auth.uid()
+    WHEN chain.status = 'pending' THEN is_swap_chain_participant(p_chain_id)
+    ELSE false
+  END;
+
+  IF NOT allowed THEN
+    RAISE EXCEPTION 'Non autorizzato a modificare questa rotazione'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_status = 'rejected' AND chain.status = 'pending_manager' AND btrim(coalesce(p_comment, '')) = '' THEN
+    RAISE EXCEPTION 'Indica il motivo del rifiuto'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE swap_chains
+  SET status = p_status,
+      responded_at = now(),
+      responded_by = auth.uid(),
+      manager_comment = coalesce(nullif(btrim(p_comment), ''), manager_comment)
+  WHERE id = p_chain_id;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(chain.date));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION swap_chain_reject(p_chain_id uuid, p_comment text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM close_swap_chain(p_chain_id, 'rejected', p_comment);
+$$;
+
+CREATE OR REPLACE FUNCTION swap_chain_cancel(p_chain_id uuid)
+RETURNS SETOF effective_shift_row
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM close_swap_chain(p_chain_id, 'cancelled');
+$$;
+
+REVOKE EXECUTE ON FUNCTION close_swap_chain FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION assert_swap_chain_valid FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION assignment_rule_violations FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION swap_chain_request TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_chain_accept TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_chain_approve TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_chain_reject TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_chain_cancel TO authenticated;
+
+-- Turni effettivi: le celle modificate da una catena riportano chain_id
+ALTER TABLE effective_shifts
+  ADD COLUMN IF NOT EXISTS chain_id uuid REFERENCES swap_chains(id) ON DELETE SET NULL;
+
+ALTER TYPE effective_shift_row ADD ATTRIBUTE chain_id uuid;
+
+CREATE OR REPLACE FUNCTION get_effective_week(p_week_start date)
+RETURNS SETOF effective_shift_row
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT employee_code, date, shift, base_shift, swap_id, display_order, chain_id
+  FROM effective_shifts
+  WHERE week_start_date = p_week_start
+  ORDER BY display_order, employee_code, date;
+$$;
+
+-- Scambi e catene accettati vengono applicati insieme, nell'ordine di accettazione.
+-- I partecipanti di una catena cambiano turno contemporaneamente.
+CREATE OR REPLACE FUNCTION rebuild_effective_week(p_week_start date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  change record;
+  swap shift_swaps_v2;
+  chain swap_chains;
+  is_stale boolean;
+BEGIN
+  DELETE FROM effective_shifts WHERE week_start_date = p_week_start;
+
+  INSERT INTO effective_shifts (date, employee_code, week_start_date, shift, base_shift, display_order)
+  SELECT DISTINCT ON (cell.date, cell.employee_code)
+    cell.date, cell.employee_code, p_week_start, cell.shift, cell.shift, cell.display_order
+  FROM (
+    SELECT
+      (s.week_start_date + d.day_offset)::date AS date,
+      s.employee_code,
+      CASE d.day_offset
+        WHEN 0 THEN s.sunday_shift
+        WHEN 1 THEN s.monday_shift
+        WHEN 2 THEN s.tuesday_shift
+        WHEN 3 THEN s.wednesday_shift
+        WHEN 4 THEN s.thursday_shift
+        WHEN 5 THEN s.friday_shift
+        WHEN 6 THEN s.saturday_shift
+      END AS shift,
+      s.display_order,
+      s.created_at
+    FROM shifts_schedule s
+    CROSS JOIN generate_series(0, 6) AS d(day_offset)
+    WHERE s.week_start_date = p_week_start
+  ) cell
+  ORDER BY cell.date, cell.employee_code, cell.created_at DESC;
+
+  FOR change IN
+    SELECT 'swap' AS kind, id, responded_at, created_at
+    FROM shift_swaps_v2
+    WHERE status = 'accepted' AND date BETWEEN p_week_start AND p_week_start + 6
+    UNION ALL
+    SELECT 'chain' AS kind, id, responded_at, created_at
+    FROM swap_chains
+    WHERE status = 'accepted' AND date BETWEEN p_week_start AND p_week_start + 6
+    ORDER BY responded_at NULLS FIRST, created_at
+  LOOP
+    IF change.kind = 'swap' THEN
+      SELECT * INTO swap FROM shift_swaps_v2 WHERE id = change.id;
+
+      is_stale := effective_shift(swap.from_employee, swap.date) IS DISTINCT FROM swap.from_shift
+        OR effective_shift(swap.to_employee, swap.date) IS DISTINCT FROM swap.to_shift;
+
+      IF is_stale IS DISTINCT FROM swap.stale THEN
+        UPDATE shift_swaps_v2 SET stale = is_stale WHERE id = swap.id;
+      END IF;
+
+      UPDATE effective_shifts
+      SET shift = swap.to_shift, swap_id = swap.id, chain_id = NULL, updated_at = now()
+      WHERE date = swap.date AND employee_code = swap.from_employee;
+
+      UPDATE effective_shifts
+      SET shift = swap.from_shift, swap_id = swap.id, chain_id = NULL, updated_at = now()
+      WHERE date = swap.date AND employee_code = swap.to_employee;
+    ELSE
+      SELECT * INTO chain FROM swap_chains WHERE id = change.id;
+
+      is_stale := EXISTS (
+        SELECT 1 FROM swap_chain_participants p
+        WHERE p.chain_id = chain.id
+          AND effective_shift(p.employee_code, chain.date) IS DISTINCT FROM p.shift
+      );
+
+      IF is_stale IS DISTINCT FROM chain.stale THEN
+        UPDATE swap_chains SET stale = is_stale WHERE id = chain.id;
+      END IF;
+
+      UPDATE effective_shifts e
+      SET shift = p.takes_shift, swap_id = NULL, chain_id = chain.id, updated_at = now()
+      FROM swap_chain_participants p
+      WHERE p.chain_id = chain.id
+        AND e.date = chain.date
+        AND e.employee_code = p.employee_code;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_effective_from_chain()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'accepted' THEN
+      PERFORM rebuild_effective_week(week_start_of(OLD.date));
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'accepted' AND OLD.status IS DISTINCT FROM 'accepted' THEN
+    PERFORM rebuild_effective_week(week_start_of(NEW.date));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_effective_from_chain_trigger ON swap_chains;
+CREATE TRIGGER refresh_effective_from_chain_trigger
+  AFTER UPDATE OR DELETE ON swap_chains
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_effective_from_chain();
+
+-- Notifiche delle catene
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS chain_id uuid REFERENCES swap_chains(id) ON DELETE CASCADE;
+
+-- Descrizione leggibile della rotazione, es. "AB prende M da CD, CD prende P da EF, ..."
+CREATE OR REPLACE FUNCTION describe_swap_chain(p_chain_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT string_agg(
+    format('%s prende %s da %s', p.employee_code, p.takes_shift, next_p.employee_code),
+    ', ' ORDER BY p.position
+  )
+  FROM swap_chain_participants p
+  JOIN swap_chain_participants next_p
+    ON next_p.chain_id = p.chain_id
+   AND next_p.position = CASE
+     WHEN p.position = (SELECT max(position) FROM swap_chain_participants WHERE chain_id = p.chain_id) THEN 1
+     ELSE p.position + 1
+   END
+  WHERE p.chain_id = p_chain_id;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_swap_chain_participant()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipient uuid := employee_user_id(NEW.employee_code);
+  chain swap_chains;
+BEGIN
+  SELECT * INTO chain FROM swap_chains WHERE id = NEW.chain_id;
+
+  IF chain.status = 'pending' AND NEW.accepted_at IS NULL AND recipient IS NOT NULL THEN
+    INSERT INTO notifications (user_id, chain_id, message)
+    VALUES (recipient, NEW.chain_id,
+      format('Nuova proposta di rotazione per il %s: prenderesti il turno %s al posto di %s',
+        to_char(chain.date, 'DD/MM/YYYY'), NEW.takes_shift, NEW.shift));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_swap_chain_participant_trigger ON swap_chain_participants;
+CREATE TRIGGER notify_swap_chain_participant_trigger
+  AFTER INSERT ON swap_chain_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_swap_chain_participant();
+
+CREATE OR REPLACE FUNCTION notify_swap_chain_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  chain_date text := to_char(NEW.date, 'DD/MM/YYYY');
+  comment_suffix text := coalesce(': ' || NEW.manager_comment, '');
+  status_message text;
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'pending_manager' THEN
+    INSERT INTO notifications (user_id, chain_id, message)
+    SELECT u.id, NEW.id,
+      format('Rotazione del %s da approvare: %s', chain_date, describe_swap_chain(NEW.id))
+    FROM users u
+    JOIN role_capabilities rc ON rc.role = u.role AND rc.capability = 'approve_swaps'
+    WHERE NOT EXISTS (
+      SELECT 1 FROM swap_chain_participants p
+      WHERE p.chain_id = NEW.id AND employee_user_id(p.employee_code) = u.id
+    );
+  END IF;
+
+  status_message := CASE NEW.status
+    WHEN 'pending_manager' THEN format('Tutti i partecipanti hanno accettato la rotazione del %s, ora in attesa di approvazione del responsabile', chain_date)
+    WHEN 'accepted' THEN format('La rotazione del %s è stata approvata%s', chain_date, comment_suffix)
+    WHEN 'rejected' THEN format('La rotazione del %s è stata rifiutata%s', chain_date, comment_suffix)
+    WHEN 'cancelled' THEN format('La rotazione del %s è stata annullata', chain_date)
+  END;
+
+  INSERT INTO notifications (user_id, chain_id, message)
+  SELECT employee_user_id(p.employee_code), NEW.id, status_message
+  FROM swap_chain_participants p
+  WHERE p.chain_id = NEW.id
+    AND employee_user_id(p.employee_code) IS NOT NULL
+    AND status_message IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_swap_chain_status_change_trigger ON swap_chains;
+CREATE TRIGGER notify_swap_chain_status_change_trigger
+  AFTER UPDATE OF status ON swap_chains
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_swap_chain_status_change();
+
+CREATE OR REPLACE FUNCTION reset_schedule_data(p_pending_swaps_only boolean DEFAULT false)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_capability('reset_data') THEN
+    RAISE EXCEPTION 'Non autorizzato ad azzerare i dati'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_pending_swaps_only THEN
+    DELETE FROM notifications
+    WHERE swap_id IN (SELECT id FROM shift_swaps_v2 WHERE status IN ('pending', 'pending_manager'));
+    DELETE FROM shift_swaps_v2 WHERE status IN ('pending', 'pending_manager');
+    DELETE FROM swap_chains WHERE status IN ('pending', 'pending_manager');
+    RETURN;
+  END IF;
+
+  DELETE FROM notifications WHERE true;
+  DELETE FROM shift_swaps_v2 WHERE true;
+  DELETE FROM swap_chains WHERE true;
+  DELETE FROM schedule_revisions WHERE true;
+  DELETE FROM shifts_schedule WHERE true;
+END;
+$$;
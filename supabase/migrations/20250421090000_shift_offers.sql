@@ -0,0 +1,739 @@
+/*
+  # Shift offers
+
+  1. New Tables
+    - `shift_offers` - a shift an employee gives away on the marketplace board, without
+      taking one back; `claim_mode` is `first_come` (the first eligible colleague gets it)
+      or `admin_pick` (colleagues apply and an approver chooses)
+    - `shift_offer_claims` - applications to `admin_pick` offers
+
+  2. Changes
+    - RPCs `shift_offer_create`, `shift_offer_claim`, `shift_offer_withdraw`,
+      `shift_offer_assign` and `shift_offer_cancel`
+    - A colleague is eligible when they are off that day, not involved in another open
+      exchange, and taking the shift passes the swap rules and the rest-period checks
+      (`shift_offer_candidates` lists every colleague with the reason when not eligible)
+    - The claimer works the offered shift and the giver takes the claimer's day off;
+      `rebuild_effective_week` applies accepted offers together with swaps and chains,
+      and `effective_shifts.offer_id` marks the cells changed by an offer
+    - Notifications can reference an offer; `reset_schedule_data` also removes offers
+
+  3. Security
+    - Offers are visible to every authenticated user; applications to the applicant,
+      the giver and approvers; writes go through the RPCs only
+*/
+
+CREATE TABLE IF NOT EXISTS shift_offers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  date date NOT NULL,
+  employee_code text NOT NULL,
+  shift text NOT NULL,
+  claim_mode text NOT NULL DEFAULT 'first_come' CHECK (claim_mode IN ('first_come', 'admin_pick')),
+  note text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'cancelled')),
+  claimed_by text,
+  claimer_shift text,
+  created_by uuid REFERENCES auth.users(id),
+  responded_at timestamptz,
+  responded_by uuid REFERENCES auth.users(id),
+  stale boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (status <> 'accepted' OR claimed_by IS NOT NULL)
+);
+
+-- Un turno può essere in bacheca una sola volta
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shift_offers_open_cell
+  ON shift_offers(date, employee_code)
+  WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_shift_offers_date_status ON shift_offers(date, status);
+
+CREATE TABLE IF NOT EXISTS shift_offer_claims (
+  offer_id uuid NOT NULL REFERENCES shift_offers(id) ON DELETE CASCADE,
+  employee_code text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (offer_id, employee_code)
+);
+
+ALTER TABLE shift_offers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shift_offer_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view shift offers"
+  ON shift_offers
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Reset capability can delete shift offers"
+  ON shift_offers
+  FOR DELETE
+  TO authenticated
+  USING (has_capability('reset_data'));
+
+CREATE POLICY "Applicants, givers and approvers can view offer claims"
+  ON shift_offer_claims
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_capability('approve_swaps')
+    OR employee_code = current_employee_code()
+    OR EXISTS (
+      SELECT 1 FROM shift_offers o
+      WHERE o.id = offer_id AND o.employee_code = current_employee_code()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION enforce_shift_offer_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF OLD.status <> 'open' OR NEW.status NOT IN ('accepted', 'cancelled') THEN
+      RAISE EXCEPTION 'Transizione di stato non consentita: % -> %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_shift_offer_transition_trigger ON shift_offers;
+CREATE TRIGGER enforce_shift_offer_transition_trigger
+  BEFORE UPDATE ON shift_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_shift_offer_transition();
+
+-- Scambi, rotazioni e offerte ancora aperti che coinvolgono il dipendente in quel giorno
+CREATE OR REPLACE FUNCTION has_open_exchange(p_employee text, p_date date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM shift_swaps_v2
+    WHERE date = p_date
+      AND status IN ('pending', 'pending_manager')
+      AND p_employee IN (from_employee, to_employee)
+  ) OR EXISTS (
+    SELECT 1
+    FROM swap_chains c
+    JOIN swap_chain_participants p ON p.chain_id = c.id
+    WHERE c.date = p_date
+      AND c.status IN ('pending', 'pending_manager')
+      AND p.employee_code = p_employee
+  ) OR EXISTS (
+    SELECT 1 FROM shift_offers
+    WHERE date = p_date AND status = 'open' AND employee_code = p_employee
+  );
+$$;
+
+-- Motivo per cui il dipendente non può prendere il turno offerto (NULL se può)
+CREATE OR REPLACE FUNCTION shift_offer_block_reason(p_offer shift_offers, p_employee text, p_caller_is_admin boolean)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  current_shift text := effective_shift(p_employee, p_offer.date);
+  violation record;
+BEGIN
+  IF p_employee = p_offer.employee_code THEN
+    RETURN 'è chi offre il turno';
+  END IF;
+
+  IF current_shift IS NULL THEN
+    RETURN format('non è in turno la settimana del %s', to_char(p_offer.date, 'DD/MM/YYYY'));
+  END IF;
+
+  IF is_working_shift(current_shift, p_offer.date) THEN
+    RETURN format('lavora già quel giorno (%s)', current_shift);
+  END IF;
+
+  IF has_open_exchange(p_employee, p_offer.date) THEN
+    RETURN 'è coinvolto in uno scambio in attesa per quel giorno';
+  END IF;
+
+  SELECT * INTO violation
+  FROM assignment_rule_violations(p_offer.date, ARRAY[p_employee], ARRAY[p_offer.shift], p_caller_is_admin)
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN format('%s: %s', violation.description, violation.message);
+  END IF;
+
+  IF (SELECT enforcement FROM compliance_settings) = 'block' THEN
+    SELECT * INTO violation
+    FROM assignment_compliance_violations(p_offer.date, ARRAY[p_employee], ARRAY[p_offer.shift])
+    LIMIT 1;
+
+    IF FOUND THEN
+      RETURN format('riposi non rispettati: %s', violation.message);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Colleghi che potrebbero prendere il turno. Chi non approva gli scambi vede solo sé stesso.
+-- Con i riposi in modalità avviso la violazione è riportata ma non esclude il collega.
+CREATE OR REPLACE FUNCTION shift_offer_candidates(p_offer_id uuid)
+RETURNS TABLE (employee_code text, current_shift text, eligible boolean, reason text, claimed_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  offer shift_offers;
+  caller_can_approve boolean := has_capability('approve_swaps');
+  candidate record;
+  block_reason text;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offerta non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  FOR candidate IN
+    SELECT e.employee_code, e.shift
+    FROM effective_shifts e
+    WHERE e.date = offer.date
+      AND e.employee_code <> offer.employee_code
+      AND (caller_can_approve OR e.employee_code = current_employee_code())
+    ORDER BY e.display_order, e.employee_code
+  LOOP
+    block_reason := shift_offer_block_reason(offer, candidate.employee_code, caller_can_approve);
+
+    employee_code := candidate.employee_code;
+    current_shift := candidate.shift;
+    eligible := block_reason IS NULL;
+    reason := coalesce(block_reason, (
+      SELECT 'riposi non rispettati: ' || v.message
+      FROM assignment_compliance_violations(offer.date, ARRAY[candidate.employee_code], ARRAY[offer.shift]) v
+      LIMIT 1
+    ));
+    claimed_at := (
+      SELECT c.created_at FROM shift_offer_claims c
+      WHERE c.offer_id = offer.id AND c.employee_code = candidate.employee_code
+    );
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shift_offer_create(
+  p_date date,
+  p_employee text,
+  p_claim_mode text DEFAULT 'first_come',
+  p_note text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offered_shift text := effective_shift(p_employee, p_date);
+  new_offer_id uuid;
+BEGIN
+  IF NOT has_capability('approve_swaps') AND p_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Puoi offrire solo i tuoi turni'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_date < current_date THEN
+    RAISE EXCEPTION 'Non puoi offrire un turno già passato'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT is_working_shift(offered_shift, p_date) OR NOT is_swappable_shift(offered_shift) THEN
+    RAISE EXCEPTION 'Il turno % del % non può essere offerto', coalesce(offered_shift, '-'), to_char(p_date, 'DD/MM/YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, ARRAY[p_employee]);
+
+  IF has_open_exchange(p_employee, p_date) THEN
+    RAISE EXCEPTION 'Il turno del % è già in bacheca o coinvolto in uno scambio in attesa', to_char(p_date, 'DD/MM/YYYY')
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  INSERT INTO shift_offers (date, employee_code, shift, claim_mode, note, created_by)
+  VALUES (p_date, p_employee, offered_shift, p_claim_mode, nullif(btrim(p_note), ''), auth.uid())
+  RETURNING id INTO new_offer_id;
+
+  RETURN new_offer_id;
+END;
+$$;
+
+-- Assegna l'offerta dopo aver verificato che giver e collega abbiano ancora gli stessi turni
+CREATE OR REPLACE FUNCTION assign_shift_offer(p_offer_id uuid, p_employee text)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+  block_reason text;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id;
+
+  PERFORM lock_swap_cells(offer.date, ARRAY[offer.employee_code, p_employee]);
+
+  IF effective_shift(offer.employee_code, offer.date) IS DISTINCT FROM offer.shift THEN
+    RAISE EXCEPTION 'Il turno offerto da % è cambiato nel frattempo', offer.employee_code
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  block_reason := shift_offer_block_reason(offer, p_employee, has_capability('approve_swaps'));
+  IF block_reason IS NOT NULL THEN
+    RAISE EXCEPTION '% non può prendere il turno: %', p_employee, block_reason
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE shift_offers
+  SET status = 'accepted',
+      claimed_by = p_employee,
+      claimer_shift = effective_shift(p_employee, offer.date),
+      responded_at = now(),
+      responded_by = auth.uid()
+  WHERE id = p_offer_id;
+END;
+$$;
+
+-- Con first_come il turno passa subito al collega, con admin_pick si registra la candidatura
+CREATE OR REPLACE FUNCTION shift_offer_claim(p_offer_id uuid)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+  caller_code text := current_employee_code();
+  block_reason text;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offerta non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF offer.status <> 'open' THEN
+    RAISE EXCEPTION 'Il turno non è più disponibile' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF caller_code IS NULL THEN
+    RAISE EXCEPTION 'Il tuo account non è collegato a un dipendente'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF offer.claim_mode = 'first_come' THEN
+    PERFORM assign_shift_offer(p_offer_id, caller_code);
+  ELSE
+    block_reason := shift_offer_block_reason(offer, caller_code, has_capability('approve_swaps'));
+    IF block_reason IS NOT NULL THEN
+      RAISE EXCEPTION 'Non puoi prendere questo turno: %', block_reason
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO shift_offer_claims (offer_id, employee_code)
+    VALUES (p_offer_id, caller_code)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(offer.date));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shift_offer_withdraw(p_offer_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM shift_offer_claims
+  WHERE offer_id = p_offer_id AND employee_code = current_employee_code();
+$$;
+
+CREATE OR REPLACE FUNCTION shift_offer_assign(p_offer_id uuid, p_employee text)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offerta non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps') THEN
+    RAISE EXCEPTION 'Non autorizzato ad assegnare i turni offerti'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF current_employee_code() IN (offer.employee_code, p_employee) THEN
+    RAISE EXCEPTION 'Non puoi assegnare un turno offerto che ti coinvolge'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF offer.status <> 'open' THEN
+    RAISE EXCEPTION 'Il turno non è più disponibile' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM assign_shift_offer(p_offer_id, p_employee);
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(offer.date));
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shift_offer_cancel(p_offer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offerta non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps')
+    AND offer.employee_code IS DISTINCT FROM current_employee_code()
+    AND offer.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Non autorizzato a ritirare questa offerta'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF offer.status <> 'open' THEN
+    RAISE EXCEPTION 'L''offerta non è più aperta (stato: %)', offer.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE shift_offers
+  SET status = 'cancelled', responded_at = now(), responded_by = auth.uid()
+  WHERE id = p_offer_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assign_shift_offer FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION shift_offer_block_reason FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_candidates TO authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_create TO authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_claim TO authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_withdraw TO authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_assign TO authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_cancel TO authenticated;
+
+-- Turni effettivi: le celle modificate da un'offerta riportano offer_id
+ALTER TABLE effective_shifts
+  ADD COLUMN IF NOT EXISTS offer_id uuid REFERENCES shift_offers(id) ON DELETE SET NULL;
+
+ALTER TYPE effective_shift_row ADD ATTRIBUTE offer_id uuid;
+
+CREATE OR REPLACE FUNCTION get_effective_week(p_week_start date)
+RETURNS SETOF effective_shift_row
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT employee_code, date, shift, base_shift, swap_id, display_order, chain_id, offer_id
+  FROM effective_shifts
+  WHERE week_start_date = p_week_start
+  ORDER BY display_order, employee_code, date;
+$$;
+
+-- Scambi, catene e offerte accettati vengono applicati insieme, nell'ordine di accettazione
+CREATE OR REPLACE FUNCTION rebuild_effective_week(p_week_start date)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  change record;
+  swap shift_swaps_v2;
+  chain swap_chains;
+  offer shift_offers;
+  is_stale boolean;
+BEGIN
+  DELETE FROM effective_shifts WHERE week_start_date = p_week_start;
+
+  INSERT INTO effective_shifts (date, employee_code, week_start_date, shift, base_shift, display_order)
+  SELECT DISTINCT ON (cell.date, cell.employee_code)
+    cell.date, cell.employee_code, p_week_start, cell.shift, cell.shift, cell.display_order
+  FROM (
+    SELECT
+      (s.week_start_date + d.day_offset)::date AS date,
+      s.employee_code,
+      CASE d.day_offset
+        WHEN 0 THEN s.sunday_shift
+        WHEN 1 THEN s.monday_shift
+        WHEN 2 THEN s.tuesday_shift
+        WHEN 3 THEN s.wednesday_shift
+        WHEN 4 THEN s.thursday_shift
+        WHEN 5 THEN s.friday_shift
+        WHEN 6 THEN s.saturday_shift
+      END AS shift,
+      s.display_order,
+      s.created_at
+    FROM shifts_schedule s
+    CROSS JOIN generate_series(0, 6) AS d(day_offset)
+    WHERE s.week_start_date = p_week_start
+  ) cell
+  ORDER BY cell.date, cell.employee_code, cell.created_at DESC;
+
+  FOR change IN
+    SELECT 'swap' AS kind, id, responded_at, created_at
+    FROM shift_swaps_v2
+    WHERE status = 'accepted' AND date BETWEEN p_week_start AND p_week_start + 6
+    UNION ALL
+    SELECT 'chain' AS kind, id, responded_at, created_at
+    FROM swap_chains
+    WHERE status = 'accepted' AND date BETWEEN p_week_start AND p_week_start + 6
+    UNION ALL
+    SELECT 'offer' AS kind, id, responded_at, created_at
+    FROM shift_offers
+    WHERE status = 'accepted' AND date BETWEEN p_week_start AND p_week_start + 6
+    ORDER BY responded_at NULLS FIRST, created_at
+  LOOP
+    IF change.kind = 'swap' THEN
+      SELECT * INTO swap FROM shift_swaps_v2 WHERE id = change.id;
+
+      is_stale := effective_shift(swap.from_employee, swap.date) IS DISTINCT FROM swap.from_shift
+        OR effective_shift(swap.to_employee, swap.date) IS DISTINCT FROM swap.to_shift;
+
+      IF is_stale IS DISTINCT FROM swap.stale THEN
+        UPDATE shift_swaps_v2 SET stale = is_stale WHERE id = swap.id;
+      END IF;
+
+      UPDATE effective_shifts
+      SET shift = swap.to_shift, swap_id = swap.id, chain_id = NULL, offer_id = NULL, updated_at = now()
+      WHERE date = swap.date AND employee_code = swap.from_employee;
+
+      UPDATE effective_shifts
+      SET shift = swap.from_shift, swap_id = swap.id, chain_id = NULL, offer_id = NULL, updated_at = now()
+      WHERE date = swap.date AND employee_code = swap.to_employee;
+    ELSIF change.kind = 'chain' THEN
+      SELECT * INTO chain FROM swap_chains WHERE id = change.id;
+
+      is_stale := EXISTS (
+        SELECT 1 FROM swap_chain_participants p
+        WHERE p.chain_id = chain.id
+          AND effective_shift(p.employee_code, chain.date) IS DISTINCT FROM p.shift
+      );
+
+      IF is_stale IS DISTINCT FROM chain.stale THEN
+        UPDATE swap_chains SET stale = is_stale WHERE id = chain.id;
+      END IF;
+
+      UPDATE effective_shifts e
+      SET shift = p.takes_shift, swap_id = NULL, chain_id = chain.id, offer_id = NULL, updated_at = now()
+      FROM swap_chain_participants p
+      WHERE p.chain_id = chain.id
+        AND e.date = chain.date
+        AND e.employee_code = p.employee_code;
+    ELSE
+      SELECT * INTO offer FROM shift_offers WHERE id = change.id;
+
+      is_stale := effective_shift(offer.employee_code, offer.date) IS DISTINCT FROM offer.shift
+        OR effective_shift(offer.claimed_by, offer.date) IS DISTINCT FROM offer.claimer_shift;
+
+      IF is_stale IS DISTINCT FROM offer.stale THEN
+        UPDATE shift_offers SET stale = is_stale WHERE id = offer.id;
+      END IF;
+
+      -- Chi offre prende il giorno libero del collega
+      UPDATE effective_shifts
+      SET shift = offer.claimer_shift, swap_id = NULL, chain_id = NULL, offer_id = offer.id, updated_at = now()
+      WHERE date = offer.date AND employee_code = offer.employee_code;
+
+      UPDATE effective_shifts
+      SET shift = offer.shift, swap_id = NULL, chain_id = NULL, offer_id = offer.id, updated_at = now()
+      WHERE date = offer.date AND employee_code = offer.claimed_by;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_effective_from_offer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status = 'accepted' THEN
+      PERFORM rebuild_effective_week(week_start_of(OLD.date));
+    END IF;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'accepted' AND OLD.status IS DISTINCT FROM 'accepted' THEN
+    PERFORM rebuild_effective_week(week_start_of(NEW.date));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_effective_from_offer_trigger ON shift_offers;
+CREATE TRIGGER refresh_effective_from_offer_trigger
+  AFTER UPDATE OR DELETE ON shift_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_effective_from_offer();
+
+-- Notifiche delle offerte
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS offer_id uuid REFERENCES shift_offers(id) ON DELETE CASCADE;
+
+-- Il nuovo turno in bacheca è annunciato ai colleghi che possono prenderlo
+CREATE OR REPLACE FUNCTION notify_shift_offer_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, offer_id, message)
+  SELECT employee_user_id(e.employee_code), NEW.id,
+    format('%s offre il turno %s del %s: %s',
+      NEW.employee_code, NEW.shift, to_char(NEW.date, 'DD/MM/YYYY'),
+      CASE NEW.claim_mode
+        WHEN 'first_come' THEN 'il primo che lo prende in bacheca se lo aggiudica'
+        ELSE 'candidati in bacheca, sceglierà il responsabile'
+      END)
+  FROM effective_shifts e
+  WHERE e.date = NEW.date
+    AND e.employee_code <> NEW.employee_code
+    AND employee_user_id(e.employee_code) IS NOT NULL
+    AND shift_offer_block_reason(NEW, e.employee_code, false) IS NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_shift_offer_created_trigger ON shift_offers;
+CREATE TRIGGER notify_shift_offer_created_trigger
+  AFTER INSERT ON shift_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_shift_offer_created();
+
+CREATE OR REPLACE FUNCTION notify_shift_offer_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = NEW.offer_id;
+
+  INSERT INTO notifications (user_id, offer_id, message)
+  SELECT u.id, offer.id,
+    format('%s si è candidato per il turno %s del %s offerto da %s',
+      NEW.employee_code, offer.shift, to_char(offer.date, 'DD/MM/YYYY'), offer.employee_code)
+  FROM users u
+  JOIN role_capabilities rc ON rc.role = u.role AND rc.capability = 'approve_swaps'
+  WHERE u.id IS DISTINCT FROM employee_user_id(offer.employee_code)
+    AND u.id IS DISTINCT FROM employee_user_id(NEW.employee_code);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_shift_offer_claim_trigger ON shift_offer_claims;
+CREATE TRIGGER notify_shift_offer_claim_trigger
+  AFTER INSERT ON shift_offer_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_shift_offer_claim();
+
+CREATE OR REPLACE FUNCTION notify_shift_offer_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer_date text := to_char(NEW.date, 'DD/MM/YYYY');
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    INSERT INTO notifications (user_id, offer_id, message)
+    SELECT recipient, NEW.id, message
+    FROM (VALUES
+      (employee_user_id(NEW.employee_code),
+        format('Il tuo turno %s del %s è stato preso da %s', NEW.shift, offer_date, NEW.claimed_by)),
+      (employee_user_id(NEW.claimed_by),
+        format('Ti è stato assegnato il turno %s del %s offerto da %s', NEW.shift, offer_date, NEW.employee_code))
+    ) AS n(recipient, message)
+    WHERE recipient IS NOT NULL;
+  END IF;
+
+  -- I candidati non scelti sanno che il turno non è più disponibile
+  INSERT INTO notifications (user_id, offer_id, message)
+  SELECT employee_user_id(c.employee_code), NEW.id,
+    format('Il turno %s del %s a cui ti eri candidato non è più disponibile', NEW.shift, offer_date)
+  FROM shift_offer_claims c
+  WHERE c.offer_id = NEW.id
+    AND c.employee_code IS DISTINCT FROM NEW.claimed_by
+    AND employee_user_id(c.employee_code) IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_shift_offer_status_change_trigger ON shift_offers;
+CREATE TRIGGER notify_shift_offer_status_change_trigger
+  AFTER UPDATE OF status ON shift_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_shift_offer_status_change();
+
+CREATE OR REPLACE FUNCTION reset_schedule_data(p_pending_swaps_only boolean DEFAULT false)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_capability('reset_data') THEN
+    RAISE EXCEPTION 'Non autorizzato ad azzerare i dati'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_pending_swaps_only THEN
+    DELETE FROM notifications
+    WHERE swap_id IN (SELECT id FROM shift_swaps_v2 WHERE status IN ('pending', 'pending_manager'));
+    DELETE FROM shift_swaps_v2 WHERE status IN ('pending', 'pending_manager');
+    DELETE FROM swap_chains WHERE status IN ('pending', 'pending_manager');
+    DELETE FROM shift_offers WHERE status = 'open';
+    RETURN;
+  END IF;
+
+  DELETE FROM notifications WHERE true;
+  DELETE FROM shift_swaps_v2 WHERE true;
+  DELETE FROM swap_chains WHERE true;
+  DELETE FROM shift_offers WHERE true;
+  DELETE FROM schedule_revisions WHERE true;
+  DELETE FROM shifts_schedule WHERE true;
+END;
+$$;
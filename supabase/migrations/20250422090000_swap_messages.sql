@@ -0,0 +1,256 @@
+/*
+  # Swap messages and counter-offers
+
+  1. New Tables
+    - `swap_messages` - comment thread on a swap request, written by the two
+      colleagues involved or by an approver
+
+  2. Changes
+    - New status `countered` and column `shift_swaps_v2.counter_of`: the recipient of a
+      pending request can counter-propose another day, which closes the original request
+      and creates a linked revised request in the opposite direction
+    - RPCs `swap_message_post` and `swap_counter`
+    - A new message notifies the other colleague; a counter-offer is announced as a new
+      request that mentions the original one
+
+  3. Security
+    - Messages are visible to the colleagues involved in the swap and to approvers;
+      writes go through the RPCs only
+*/
+
+ALTER TABLE shift_swaps_v2 DROP CONSTRAINT IF EXISTS shift_swaps_v2_status_check;
+ALTER TABLE shift_swaps_v2
+  ADD CONSTRAINT shift_swaps_v2_status_check
+  CHECK (status IN ('pending', 'pending_manager', 'accepted', 'rejected', 'cancelled', 'countered'));
+
+ALTER TABLE shift_swaps_v2
+  ADD COLUMN IF NOT EXISTS counter_of uuid REFERENCES shift_swaps_v2(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_shift_swaps_v2_counter_of ON shift_swaps_v2(counter_of);
+
+-- Una richiesta in attesa può anche essere sostituita da una controproposta
+CREATE OR REPLACE FUNCTION enforce_swap_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('pending_manager', 'accepted', 'rejected', 'cancelled', 'countered'))
+      OR (OLD.status = 'pending_manager' AND NEW.status IN ('accepted', 'rejected', 'cancelled'))
+    ) THEN
+      RAISE EXCEPTION 'Transizione di stato non consentita: % -> %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS swap_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  swap_id uuid NOT NULL REFERENCES shift_swaps_v2(id) ON DELETE CASCADE,
+  author_id uuid REFERENCES auth.users(id),
+  author_code text,
+  body text NOT NULL CHECK (length(btrim(body)) BETWEEN 1 AND 2000),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_swap_messages_swap ON swap_messages(swap_id, created_at);
+
+ALTER TABLE swap_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION is_swap_party(p_swap_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM shift_swaps_v2
+    WHERE id = p_swap_id
+      AND current_employee_code() IN (from_employee, to_employee)
+  );
+$$;
+
+CREATE POLICY "Swap parties and approvers can view messages"
+  ON swap_messages
+  FOR SELECT
+  TO authenticated
+  USING (has_capability('approve_swaps') OR is_swap_party(swap_id));
+
+CREATE OR REPLACE FUNCTION swap_message_post(p_swap_id uuid, p_body text)
+RETURNS swap_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  message swap_messages;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM shift_swaps_v2 WHERE id = p_swap_id) THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps') AND NOT is_swap_party(p_swap_id) THEN
+    RAISE EXCEPTION 'Non autorizzato a scrivere su questo scambio'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF btrim(coalesce(p_body, '')) = '' THEN
+    RAISE EXCEPTION 'Il messaggio è vuoto' USING ERRCODE = 'check_violation';
+  END IF;
+
+  INSERT INTO swap_messages (swap_id, author_id, author_code, body)
+  VALUES (p_swap_id, auth.uid(), current_employee_code(), btrim(p_body))
+  RETURNING * INTO message;
+
+  RETURN message;
+END;
+$$;
+
+-- Controproposta del collega: scambio degli stessi due dipendenti in un altro giorno,
+-- proposto da chi aveva ricevuto la richiesta. La richiesta originale resta nello storico.
+CREATE OR REPLACE FUNCTION swap_counter(p_swap_id uuid, p_date date, p_message text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original shift_swaps_v2;
+  counter shift_swaps_v2;
+BEGIN
+  SELECT * INTO original FROM shift_swaps_v2 WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF original.to_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Solo chi ha ricevuto la richiesta può fare una controproposta'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF original.status <> 'pending' THEN
+    RAISE EXCEPTION 'La richiesta non è più in attesa (stato: %)', original.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_date = original.date THEN
+    RAISE EXCEPTION 'La controproposta deve riguardare un altro giorno'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  counter.date := p_date;
+  counter.from_employee := original.to_employee;
+  counter.to_employee := original.from_employee;
+  counter.from_shift := effective_shift(original.to_employee, p_date);
+  counter.to_shift := effective_shift(original.from_employee, p_date);
+
+  IF counter.from_shift IS NULL OR counter.to_shift IS NULL THEN
+    RAISE EXCEPTION 'Entrambi i dipendenti devono avere un turno il %', to_char(p_date, 'DD/MM/YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, ARRAY[counter.from_employee, counter.to_employee]);
+
+  IF EXISTS (
+    SELECT 1 FROM shift_swaps_v2
+    WHERE date = p_date
+      AND from_employee = counter.from_employee
+      AND to_employee = counter.to_employee
+      AND status IN ('pending', 'pending_manager')
+  ) THEN
+    RAISE EXCEPTION 'Esiste già una richiesta in attesa per questo scambio'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  UPDATE shift_swaps_v2
+  SET status = 'countered', responded_at = now(), responded_by = auth.uid()
+  WHERE id = p_swap_id;
+
+  -- Regole e riposi sono verificati dai trigger all'inserimento
+  INSERT INTO shift_swaps_v2 (date, from_employee, to_employee, from_shift, to_shift, status, counter_of)
+  VALUES (p_date, counter.from_employee, counter.to_employee, counter.from_shift, counter.to_shift, 'pending', p_swap_id)
+  RETURNING * INTO counter;
+
+  IF btrim(coalesce(p_message, '')) <> '' THEN
+    INSERT INTO swap_messages (swap_id, author_id, author_code, body)
+    VALUES (counter.id, auth.uid(), counter.from_employee, btrim(p_message));
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION swap_message_post TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_counter TO authenticated;
+
+-- Il messaggio è notificato ai colleghi coinvolti diversi dall'autore
+CREATE OR REPLACE FUNCTION notify_swap_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+BEGIN
+  SELECT * INTO swap FROM shift_swaps_v2 WHERE id = NEW.swap_id;
+
+  INSERT INTO notifications (user_id, swap_id, message)
+  SELECT recipient, swap.id,
+    format('%s sullo scambio del %s: %s',
+      coalesce(NEW.author_code, 'Il responsabile'), to_char(swap.date, 'DD/MM/YYYY'),
+      CASE WHEN length(NEW.body) > 120 THEN left(NEW.body, 117) || '...' ELSE NEW.body END)
+  FROM unnest(ARRAY[employee_user_id(swap.from_employee), employee_user_id(swap.to_employee)]) AS recipient
+  WHERE recipient IS NOT NULL
+    AND recipient IS DISTINCT FROM NEW.author_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_swap_message_trigger ON swap_messages;
+CREATE TRIGGER notify_swap_message_trigger
+  AFTER INSERT ON swap_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_swap_message();
+
+-- Le controproposte sono annunciate come nuove richieste che citano quella originale
+CREATE OR REPLACE FUNCTION handle_swap_notification()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  to_user_id uuid := employee_user_id(NEW.to_employee);
+  original_date date;
+BEGIN
+  IF NEW.status = 'pending' AND to_user_id IS NOT NULL THEN
+    IF NEW.counter_of IS NOT NULL THEN
+      SELECT date INTO original_date FROM shift_swaps_v2 WHERE id = NEW.counter_of;
+    END IF;
+
+    INSERT INTO notifications (user_id, swap_id, message)
+    VALUES (
+      to_user_id,
+      NEW.id,
+      CASE WHEN NEW.counter_of IS NULL THEN
+        format('Nuova richiesta di scambio da %s per il turno del %s',
+          NEW.from_employee, to_char(NEW.date, 'DD/MM/YYYY'))
+      ELSE
+        format('Nuova richiesta di scambio da %s per il turno del %s (controproposta alla tua richiesta del %s)',
+          NEW.from_employee, to_char(NEW.date, 'DD/MM/YYYY'), to_char(original_date, 'DD/MM/YYYY'))
+      END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
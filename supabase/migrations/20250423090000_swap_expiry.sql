@@ -0,0 +1,298 @@
+/*
+  # Swap expiry
+
+  1. New Tables
+    - `swap_expiry_settings` - single row with how many hours before the shift starts an
+      open swap expires, and an optional default deadline for new requests
+
+  2. Changes
+    - New status `expired` and column `shift_swaps_v2.expires_at` (deadline chosen by the
+      requester, or the default one); `swap_request` accepts the deadline
+    - `swap_expiry_deadline` is the earliest of the request deadline and the cut-off before
+      the shift starts; `expire_stale_swaps` closes every open swap past it
+    - `expire_stale_swaps` runs every 15 minutes through pg_cron, so requests expire
+      even when nobody has the app open
+    - Both colleagues are notified when a request expires
+
+  3. Security
+    - `expire_stale_swaps` is not callable through the API: only pg_cron runs it
+*/
+
+CREATE TABLE IF NOT EXISTS swap_expiry_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  hours_before_shift numeric NOT NULL DEFAULT 0 CHECK (hours_before_shift >= 0),
+  default_deadline_hours numeric CHECK (default_deadline_hours IS NULL OR default_deadline_hours > 0),
+  timezone text NOT NULL DEFAULT 'Europe/Rome',
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO swap_expiry_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE swap_expiry_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read swap expiry settings"
+  ON swap_expiry_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Schedulers can update swap expiry settings"
+  ON swap_expiry_settings
+  FOR UPDATE
+  TO authenticated
+  USING (has_capability('manage_settings'))
+  WITH CHECK (has_capability('manage_settings'));
+
+ALTER TABLE shift_swaps_v2 DROP CONSTRAINT IF EXISTS shift_swaps_v2_status_check;
+ALTER TABLE shift_swaps_v2
+  ADD CONSTRAINT shift_swaps_v2_status_check
+  CHECK (status IN ('pending', 'pending_manager', 'accepted', 'rejected', 'cancelled', 'countered', 'expired'));
+
+ALTER TABLE shift_swaps_v2
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz;
+
+-- Le richieste aperte possono scadere in entrambi gli stati di attesa
+CREATE OR REPLACE FUNCTION enforce_swap_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('pending_manager', 'accepted', 'rejected', 'cancelled', 'countered', 'expired'))
+      OR (OLD.status = 'pending_manager' AND NEW.status IN ('accepted', 'rejected', 'cancelled', 'expired'))
+    ) THEN
+      RAISE EXCEPTION 'Transizione di stato non consentita: % -> %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Non si accetta una richiesta scaduta che il job periodico non ha ancora chiuso
+    IF NEW.status IN ('pending_manager', 'accepted') AND swap_expiry_deadline(OLD) <= now() THEN
+      RAISE EXCEPTION 'La richiesta di scambio è scaduta il %',
+        to_char(swap_expiry_deadline(OLD) AT TIME ZONE (SELECT timezone FROM swap_expiry_settings), 'DD/MM/YYYY HH24:MI')
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- Scadenza effettiva: la prima tra quella della richiesta e N ore prima dell'inizio del turno.
+-- I turni senza orario (riposi) contano dalla mezzanotte del giorno.
+CREATE OR REPLACE FUNCTION swap_expiry_deadline(p_swap shift_swaps_v2)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT least(
+    p_swap.expires_at,
+    (
+      SELECT min(coalesce((parse_shift_time(s, p_swap.date))[1]::timestamp, p_swap.date::timestamp))
+        AT TIME ZONE settings.timezone
+      FROM unnest(ARRAY[p_swap.from_shift, p_swap.to_shift]) AS s
+    ) - settings.hours_before_shift * interval '1 hour'
+  )
+  FROM swap_expiry_settings settings;
+$$;
+
+-- Scadenza predefinita per le richieste create senza indicarne una
+CREATE OR REPLACE FUNCTION set_swap_default_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  default_hours numeric := (SELECT default_deadline_hours FROM swap_expiry_settings);
+BEGIN
+  IF NEW.expires_at IS NULL AND default_hours IS NOT NULL THEN
+    NEW.expires_at := now() + default_hours * interval '1 hour';
+  END IF;
+
+  IF NEW.status = 'pending' AND NEW.expires_at IS NOT NULL AND NEW.expires_at <= now() THEN
+    RAISE EXCEPTION 'La scadenza della richiesta è già passata'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_swap_default_expiry_trigger ON shift_swaps_v2;
+CREATE TRIGGER set_swap_default_expiry_trigger
+  BEFORE INSERT ON shift_swaps_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION set_swap_default_expiry();
+
+DROP FUNCTION IF EXISTS swap_request(date, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION swap_request(
+  p_date date,
+  p_from_employee text,
+  p_to_employee text,
+  p_from_shift text,
+  p_to_shift text,
+  p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_can_approve boolean := has_capability('approve_swaps');
+  new_swap shift_swaps_v2;
+BEGIN
+  IF NOT caller_can_approve AND p_from_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Puoi richiedere scambi solo per i tuoi turni'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_from_employee = p_to_employee THEN
+    RAISE EXCEPTION 'Non è possibile scambiare un turno con se stessi';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, ARRAY[p_from_employee, p_to_employee]);
+
+  IF EXISTS (
+    SELECT 1 FROM shift_swaps_v2
+    WHERE date = p_date
+      AND from_employee = p_from_employee
+      AND to_employee = p_to_employee
+      AND status IN ('pending', 'pending_manager')
+  ) THEN
+    RAISE EXCEPTION 'Esiste già una richiesta in attesa per questo scambio'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  new_swap.date := p_date;
+  new_swap.from_employee := p_from_employee;
+  new_swap.to_employee := p_to_employee;
+  new_swap.from_shift := p_from_shift;
+  new_swap.to_shift := p_to_shift;
+
+  -- Gli scambi di chi può approvare vengono applicati subito, anche tra date diverse
+  IF NOT caller_can_approve THEN
+    PERFORM assert_swap_shifts_current(new_swap);
+  END IF;
+
+  INSERT INTO shift_swaps_v2 (date, from_employee, to_employee, from_shift, to_shift, status, responded_at, responded_by, expires_at)
+  VALUES (
+    p_date, p_from_employee, p_to_employee, p_from_shift, p_to_shift,
+    CASE WHEN caller_can_approve THEN 'accepted' ELSE 'pending' END,
+    CASE WHEN caller_can_approve THEN now() END,
+    CASE WHEN caller_can_approve THEN auth.uid() END,
+    p_expires_at
+  );
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION swap_request TO authenticated;
+
+-- Chiude le richieste aperte oltre la scadenza; restituisce quante ne ha chiuse
+CREATE OR REPLACE FUNCTION expire_stale_swaps()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count integer;
+BEGIN
+  UPDATE shift_swaps_v2 s
+  SET status = 'expired', responded_at = now(), responded_by = NULL
+  WHERE s.status IN ('pending', 'pending_manager')
+    AND swap_expiry_deadline(s) <= now();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN expired_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_stale_swaps FROM PUBLIC, anon, authenticated;
+
+-- Esecuzione periodica lato database, indipendente dai client collegati
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'expire-stale-swaps';
+  PERFORM cron.schedule('expire-stale-swaps', '*/15 * * * *', 'SELECT public.expire_stale_swaps()');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_swap_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  from_user_id uuid := employee_user_id(NEW.from_employee);
+  to_user_id uuid := employee_user_id(NEW.to_employee);
+  swap_date text := to_char(NEW.date, 'DD/MM/YYYY');
+  comment_suffix text := coalesce(': ' || NEW.manager_comment, '');
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'pending_manager' THEN
+    IF from_user_id IS NOT NULL THEN
+      INSERT INTO notifications (user_id, swap_id, message)
+      VALUES (from_user_id, NEW.id,
+        format('%s ha accettato lo scambio del %s, ora in attesa di approvazione del responsabile', NEW.to_employee, swap_date));
+    END IF;
+
+    -- Tutti gli approvatori non coinvolti nello scambio
+    INSERT INTO notifications (user_id, swap_id, message)
+    SELECT u.id, NEW.id,
+      format('Scambio tra %s e %s del %s da approvare', NEW.from_employee, NEW.to_employee, swap_date)
+    FROM users u
+    JOIN role_capabilities rc ON rc.role = u.role AND rc.capability = 'approve_swaps'
+    WHERE u.id IS DISTINCT FROM from_user_id AND u.id IS DISTINCT FROM to_user_id;
+
+  ELSIF NEW.status = 'accepted' AND OLD.status = 'pending_manager' THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    SELECT recipient, NEW.id,
+      format('Lo scambio tra %s e %s del %s è stato approvato dal responsabile%s', NEW.from_employee, NEW.to_employee, swap_date, comment_suffix)
+    FROM unnest(ARRAY[from_user_id, to_user_id]) AS recipient
+    WHERE recipient IS NOT NULL;
+
+  ELSIF NEW.status = 'accepted' AND from_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    VALUES (from_user_id, NEW.id,
+      format('La tua richiesta di scambio per il %s è stata accettata da %s', swap_date, NEW.to_employee));
+
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'pending_manager' THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    SELECT recipient, NEW.id,
+      format('Lo scambio tra %s e %s del %s è stato rifiutato dal responsabile%s', NEW.from_employee, NEW.to_employee, swap_date, comment_suffix)
+    FROM unnest(ARRAY[from_user_id, to_user_id]) AS recipient
+    WHERE recipient IS NOT NULL;
+
+  ELSIF NEW.status = 'rejected' AND from_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    VALUES (from_user_id, NEW.id,
+      format('La tua richiesta di scambio per il %s è stata rifiutata da %s', swap_date, NEW.to_employee));
+
+  ELSIF NEW.status = 'cancelled' AND to_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    VALUES (to_user_id, NEW.id,
+      format('La richiesta di scambio da %s per il %s è stata annullata', NEW.from_employee, swap_date));
+
+  ELSIF NEW.status = 'expired' THEN
+    INSERT INTO notifications (user_id, swap_id, message)
+    SELECT recipient, NEW.id,
+      format('La richiesta di scambio tra %s e %s del %s è scaduta senza essere conclusa', NEW.from_employee, NEW.to_employee, swap_date)
+    FROM unnest(ARRAY[from_user_id, to_user_id]) AS recipient
+    WHERE recipient IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,110 @@
+/*
+  # Notification kinds
+
+  1. Changes
+    - New column `notifications.kind`, so the client no longer recognises swap requests
+      by matching the message text
+    - `notification_kind` derives the kind from the linked swap, chain or offer when the
+      inserting trigger does not set it; existing notifications are classified the same way
+    - Message notifications are inserted with the `swap_message` kind
+    - Index on `(user_id, created_at)` for the paginated notification history
+
+  2. Security
+    - No policy changes: users still read and mark as read only their own notifications
+*/
+
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS kind text;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+
+-- Tipo della notifica in base all'elemento collegato e al suo stato al momento dell'invio
+CREATE OR REPLACE FUNCTION notification_kind(p_swap_id uuid, p_chain_id uuid, p_offer_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_offer_id IS NOT NULL THEN 'shift_offer'
+    WHEN p_chain_id IS NOT NULL THEN 'swap_chain'
+    WHEN p_swap_id IS NOT NULL THEN coalesce((
+      SELECT CASE status
+        WHEN 'pending' THEN 'swap_request'
+        WHEN 'pending_manager' THEN 'swap_approval'
+        WHEN 'accepted' THEN 'swap_accepted'
+        WHEN 'rejected' THEN 'swap_rejected'
+        WHEN 'cancelled' THEN 'swap_cancelled'
+        WHEN 'expired' THEN 'swap_expired'
+      END
+      FROM shift_swaps_v2 WHERE id = p_swap_id
+    ), 'info')
+    ELSE 'info'
+  END;
+$$;
+
+-- Le notifiche dei messaggi sono inviate nella stessa transazione del messaggio
+UPDATE notifications n
+SET kind = 'swap_message'
+WHERE n.kind IS NULL
+  AND EXISTS (
+    SELECT 1 FROM swap_messages m
+    WHERE m.swap_id = n.swap_id AND m.created_at = n.created_at
+  );
+
+UPDATE notifications
+SET kind = notification_kind(swap_id, chain_id, offer_id)
+WHERE kind IS NULL;
+
+ALTER TABLE notifications ALTER COLUMN kind SET NOT NULL;
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_kind_check
+  CHECK (kind IN (
+    'swap_request', 'swap_approval', 'swap_accepted', 'swap_rejected', 'swap_cancelled',
+    'swap_expired', 'swap_message', 'swap_chain', 'shift_offer', 'info'
+  ));
+
+CREATE OR REPLACE FUNCTION set_notification_kind()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.kind IS NULL THEN
+    NEW.kind := notification_kind(NEW.swap_id, NEW.chain_id, NEW.offer_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_notification_kind_trigger ON notifications;
+CREATE TRIGGER set_notification_kind_trigger
+  BEFORE INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION set_notification_kind();
+
+-- Come nella versione precedente, con il tipo esplicito
+CREATE OR REPLACE FUNCTION notify_swap_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+BEGIN
+  SELECT * INTO swap FROM shift_swaps_v2 WHERE id = NEW.swap_id;
+
+  INSERT INTO notifications (user_id, swap_id, kind, message)
+  SELECT recipient, swap.id, 'swap_message',
+    format('%s sullo scambio del %s: %s',
+      coalesce(NEW.author_code, 'Il responsabile'), to_char(swap.date, 'DD/MM/YYYY'),
+      CASE WHEN length(NEW.body) > 120 THEN left(NEW.body, 117) || '...' ELSE NEW.body END)
+  FROM unnest(ARRAY[employee_user_id(swap.from_employee), employee_user_id(swap.to_employee)]) AS recipient
+  WHERE recipient IS NOT NULL
+    AND recipient IS DISTINCT FROM NEW.author_id;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,352 @@
+/*
+  # Email notifications
+
+  1. New Tables
+    - `notification_preferences` - per-user opt-in to email delivery, the notification
+      kinds to receive by email and how many hours before a shift to send a reminder
+    - `notification_deliveries` - outbox of notifications to send through an outbound
+      channel (only `email` for now), with retry state
+    - `shift_reminders` - reminders already sent, so each shift is reminded once
+
+  2. Changes
+    - New notification kinds `shift_reminder` and `schedule_published`
+    - Every new notification is queued for email when the recipient opted in to its kind
+    - Publishing or restoring a week notifies every employee linked to a user
+    - `queue_shift_reminders` creates the reminders for shifts starting within each user's
+      reminder window; it runs hourly through pg_cron
+    - `claim_notification_deliveries` / `complete_notification_delivery` are used by the
+      `notification-dispatch` edge function, which sends the queued emails; pg_cron calls
+      it every minute when the project URL and service key are stored in Vault
+
+  3. Security
+    - Users manage only their own preferences
+    - The outbox is reachable only by the service role
+    - Users can no longer insert notifications: the `System can create notifications`
+      policy is dropped, since every notification is now also sent by email or push
+*/
+
+ALTER TABLE notifications DROP CONSTRAINT IF EXISTS notifications_kind_check;
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_kind_check
+  CHECK (kind IN (
+    'swap_request', 'swap_approval', 'swap_accepted', 'swap_rejected', 'swap_cancelled',
+    'swap_expired', 'swap_message', 'swap_chain', 'shift_offer', 'shift_reminder',
+    'schedule_published', 'info'
+  ));
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_enabled boolean NOT NULL DEFAULT false,
+  email_kinds text[] NOT NULL DEFAULT ARRAY[
+    'swap_request', 'swap_approval', 'swap_accepted', 'swap_rejected', 'shift_reminder', 'schedule_published'
+  ],
+  reminder_hours integer CHECK (reminder_hours IS NULL OR reminder_hours BETWEEN 1 AND 72),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notification preferences"
+  ON notification_preferences
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their notification preferences"
+  ON notification_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their notification preferences"
+  ON notification_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  channel text NOT NULL DEFAULT 'email' CHECK (channel IN ('email')),
+  recipient text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_queue
+  ON notification_deliveries(channel, status, next_attempt_at);
+
+-- Nessuna policy: la coda è letta e aggiornata solo dal service role
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE IF NOT EXISTS shift_reminders (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, date)
+);
+
+ALTER TABLE shift_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Accoda l'email se il destinatario l'ha richiesta per questo tipo di notifica
+CREATE OR REPLACE FUNCTION queue_notification_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  address text;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM notification_preferences
+    WHERE user_id = NEW.user_id AND email_enabled AND NEW.kind = ANY (email_kinds)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT coalesce(nullif(btrim(e.email), ''), u.email) INTO address
+  FROM auth.users u
+  LEFT JOIN employees e ON e.user_id = u.id
+  WHERE u.id = NEW.user_id;
+
+  IF address IS NOT NULL THEN
+    INSERT INTO notification_deliveries (notification_id, channel, recipient)
+    VALUES (NEW.id, 'email', address);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_notification_email_trigger ON notifications;
+CREATE TRIGGER queue_notification_email_trigger
+  AFTER INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_notification_email();
+
+-- Le notifiche ora escono dall'applicazione: le creano solo le funzioni del database
+DROP POLICY IF EXISTS "System can create notifications" ON notifications;
+REVOKE INSERT ON notifications FROM anon, authenticated;
+
+-- Una nuova revisione della settimana (caricamento o ripristino) è annunciata a tutti
+CREATE OR REPLACE FUNCTION notify_schedule_published()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, kind, message)
+  SELECT e.user_id, 'schedule_published',
+    CASE WHEN NEW.revision = 1 THEN
+      format('Sono stati pubblicati i turni della settimana del %s', to_char(NEW.week_start_date, 'DD/MM/YYYY'))
+    ELSE
+      format('Sono stati aggiornati i turni della settimana del %s (revisione %s)',
+        to_char(NEW.week_start_date, 'DD/MM/YYYY'), NEW.revision)
+    END
+  FROM employees e
+  WHERE e.user_id IS NOT NULL
+    AND e.user_id IS DISTINCT FROM NEW.created_by;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_schedule_published_trigger ON schedule_revisions;
+CREATE TRIGGER notify_schedule_published_trigger
+  AFTER INSERT ON schedule_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_schedule_published();
+
+-- Promemoria per i turni che iniziano entro la finestra scelta da ogni utente.
+-- Gli orari dei turni sono nel fuso indicato nelle impostazioni delle scadenze.
+CREATE OR REPLACE FUNCTION queue_shift_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tz text := coalesce((SELECT timezone FROM swap_expiry_settings), 'Europe/Rome');
+  reminder_count integer;
+BEGIN
+  WITH upcoming AS (
+    SELECT p.user_id, p.reminder_hours, d.day, effective_shift(e.code, d.day) AS shift
+    FROM notification_preferences p
+    JOIN employees e ON e.user_id = p.user_id
+    CROSS JOIN LATERAL generate_series(current_date, current_date + 3, interval '1 day') AS g
+    CROSS JOIN LATERAL (SELECT g::date AS day) d
+    WHERE p.reminder_hours IS NOT NULL
+  ),
+  due AS (
+    SELECT u.user_id, u.reminder_hours, u.day, u.shift,
+      (parse_shift_time(u.shift, u.day))[1]::timestamp AT TIME ZONE tz AS starts_at
+    FROM upcoming u
+  ),
+  selected AS (
+    SELECT * FROM due
+    WHERE starts_at > now()
+      AND starts_at <= now() + reminder_hours * interval '1 hour'
+  ),
+  recorded AS (
+    INSERT INTO shift_reminders (user_id, date)
+    SELECT user_id, day FROM selected
+    ON CONFLICT DO NOTHING
+    RETURNING user_id, date
+  )
+  INSERT INTO notifications (user_id, kind, message)
+  SELECT s.user_id, 'shift_reminder',
+    format('Promemoria: il %s sei in turno %s dalle %s',
+      to_char(s.day, 'DD/MM/YYYY'), s.shift, to_char(s.starts_at AT TIME ZONE tz, 'HH24:MI'))
+  FROM selected s
+  JOIN recorded r ON r.user_id = s.user_id AND r.date = s.day;
+
+  GET DIAGNOSTICS reminder_count = ROW_COUNT;
+  RETURN reminder_count;
+END;
+$$;
+
+-- Prende in carico le consegne da inviare; quelle rimaste in invio per oltre 10 minuti
+-- (funzione interrotta) tornano disponibili
+CREATE OR REPLACE FUNCTION claim_notification_deliveries(p_channel text, p_limit integer DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  recipient text,
+  kind text,
+  message text,
+  created_at timestamptz,
+  attempts integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE notification_deliveries d
+    SET status = 'sending', attempts = d.attempts + 1, next_attempt_at = now() + interval '10 minutes'
+    WHERE d.id IN (
+      SELECT q.id FROM notification_deliveries q
+      WHERE q.channel = p_channel
+        AND q.status IN ('pending', 'sending')
+        AND q.next_attempt_at <= now()
+      ORDER BY q.next_attempt_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING d.id, d.notification_id, d.recipient, d.attempts
+  )
+  SELECT c.id, c.recipient, n.kind, n.message, n.created_at, c.attempts
+  FROM claimed c
+  JOIN notifications n ON n.id = c.notification_id;
+END;
+$$;
+
+-- Esito dell'invio: in caso di errore si riprova con attese crescenti, fino a 5 tentativi
+CREATE OR REPLACE FUNCTION complete_notification_delivery(p_id uuid, p_error text DEFAULT NULL)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE notification_deliveries
+  SET
+    status = CASE
+      WHEN p_error IS NULL THEN 'sent'
+      WHEN attempts >= 5 THEN 'failed'
+      ELSE 'pending'
+    END,
+    last_error = p_error,
+    sent_at = CASE WHEN p_error IS NULL THEN now() END,
+    next_attempt_at = now() + attempts * interval '5 minutes'
+  WHERE id = p_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_shift_reminders FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_notification_deliveries FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_notification_delivery FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_notification_deliveries TO service_role;
+GRANT EXECUTE ON FUNCTION complete_notification_delivery TO service_role;
+
+-- Chiamata della funzione di invio; senza URL e chiave in Vault non fa nulla
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION invoke_notification_dispatch()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url text := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url');
+  service_key text := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key');
+BEGIN
+  IF project_url IS NULL OR service_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM notification_deliveries
+    WHERE status IN ('pending', 'sending') AND next_attempt_at <= now()
+  ) THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := project_url || '/functions/v1/notification-dispatch',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invoke_notification_dispatch FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname IN ('queue-shift-reminders', 'dispatch-notifications');
+  PERFORM cron.schedule('queue-shift-reminders', '5 * * * *', 'SELECT public.queue_shift_reminders()');
+  PERFORM cron.schedule('dispatch-notifications', '* * * * *', 'SELECT public.invoke_notification_dispatch()');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reset_schedule_data(p_pending_swaps_only boolean DEFAULT false)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_capability('reset_data') THEN
+    RAISE EXCEPTION 'Non autorizzato ad azzerare i dati'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_pending_swaps_only THEN
+    DELETE FROM notifications
+    WHERE swap_id IN (SELECT id FROM shift_swaps_v2 WHERE status IN ('pending', 'pending_manager'));
+    DELETE FROM shift_swaps_v2 WHERE status IN ('pending', 'pending_manager');
+    DELETE FROM swap_chains WHERE status IN ('pending', 'pending_manager');
+    DELETE FROM shift_offers WHERE status = 'open';
+    RETURN;
+  END IF;
+
+  DELETE FROM notifications WHERE true;
+  DELETE FROM shift_reminders WHERE true;
+  DELETE FROM shift_swaps_v2 WHERE true;
+  DELETE FROM swap_chains WHERE true;
+  DELETE FROM shift_offers WHERE true;
+  DELETE FROM schedule_revisions WHERE true;
+  DELETE FROM shifts_schedule WHERE true;
+END;
+$$;
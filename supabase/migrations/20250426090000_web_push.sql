@@ -0,0 +1,161 @@
+/*
+  # Web Push notifications
+
+  1. New Tables
+    - `push_subscriptions` - browser push subscriptions (endpoint and keys) of each user,
+      one per device
+
+  2. Changes
+    - `notification_deliveries` gains the `push` channel and `subscription_id`
+    - Notifications about swaps, chains and messages are queued as push deliveries for
+      every subscription of the recipient, and the dispatch function is called right away
+      instead of waiting for the next cron run
+    - `claim_notification_deliveries` also returns the notification id, the linked swap
+      and the push subscription, used to build the push payload
+    - RPCs `push_subscribe` / `push_unsubscribe`
+
+  3. Security
+    - Users see only their own subscriptions; writes go through the RPCs
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their push subscriptions"
+  ON push_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Lo stesso browser può passare a un altro utente: l'endpoint appartiene all'ultimo che lo registra
+CREATE OR REPLACE FUNCTION push_subscribe(p_endpoint text, p_p256dh text, p_auth text, p_user_agent text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Utente non autenticato' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent,
+      created_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION push_unsubscribe(p_endpoint text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM push_subscriptions WHERE endpoint = p_endpoint AND user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION push_subscribe TO authenticated;
+GRANT EXECUTE ON FUNCTION push_unsubscribe TO authenticated;
+
+ALTER TABLE notification_deliveries
+  ADD COLUMN IF NOT EXISTS subscription_id uuid REFERENCES push_subscriptions(id) ON DELETE CASCADE;
+
+ALTER TABLE notification_deliveries DROP CONSTRAINT IF EXISTS notification_deliveries_channel_check;
+ALTER TABLE notification_deliveries
+  ADD CONSTRAINT notification_deliveries_channel_check
+  CHECK (channel IN ('email', 'push'));
+
+-- Notifiche push per gli eventi degli scambi, su tutti i dispositivi registrati
+CREATE OR REPLACE FUNCTION queue_notification_push()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.kind NOT LIKE 'swap\_%' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO notification_deliveries (notification_id, channel, recipient, subscription_id)
+  SELECT NEW.id, 'push', s.endpoint, s.id
+  FROM push_subscriptions s
+  WHERE s.user_id = NEW.user_id;
+
+  IF FOUND THEN
+    PERFORM invoke_notification_dispatch();
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_notification_push_trigger ON notifications;
+CREATE TRIGGER queue_notification_push_trigger
+  AFTER INSERT ON notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_notification_push();
+
+-- Come prima, con i dati necessari al contenuto delle notifiche push
+DROP FUNCTION IF EXISTS claim_notification_deliveries(text, integer);
+
+CREATE OR REPLACE FUNCTION claim_notification_deliveries(p_channel text, p_limit integer DEFAULT 50)
+RETURNS TABLE (
+  id uuid,
+  notification_id uuid,
+  recipient text,
+  kind text,
+  message text,
+  swap_id uuid,
+  created_at timestamptz,
+  attempts integer,
+  subscription jsonb
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE notification_deliveries d
+    SET status = 'sending', attempts = d.attempts + 1, next_attempt_at = now() + interval '10 minutes'
+    WHERE d.id IN (
+      SELECT q.id FROM notification_deliveries q
+      WHERE q.channel = p_channel
+        AND q.status IN ('pending', 'sending')
+        AND q.next_attempt_at <= now()
+      ORDER BY q.next_attempt_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING d.id, d.notification_id, d.recipient, d.attempts, d.subscription_id
+  )
+  SELECT c.id, c.notification_id, c.recipient, n.kind, n.message, n.swap_id, n.created_at, c.attempts,
+    CASE WHEN s.id IS NOT NULL THEN
+      jsonb_build_object('id', s.id, 'endpoint', s.endpoint, 'keys', jsonb_build_object('p256dh', s.p256dh, 'auth', s.auth))
+    END
+  FROM claimed c
+  JOIN notifications n ON n.id = c.notification_id
+  LEFT JOIN push_subscriptions s ON s.id = c.subscription_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_notification_deliveries FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_notification_deliveries TO service_role;
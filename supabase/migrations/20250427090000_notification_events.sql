@@ -0,0 +1,441 @@
+/*
+  # Structured notification events
+
+  1. Changes
+    - New columns `notifications.event` (what happened, within the kind) and
+      `notifications.payload` (employee codes, dates, shifts and comments), so the client
+      renders the text in the user's language instead of showing the SQL-built message
+    - Every notification trigger now sets the event and the payload; `message` is kept as
+      the Italian text used by email, push and notifications created before this change
+    - Helpers `swap_notification_payload` and `swap_chain_notification_payload`
+
+  2. Security
+    - No policy changes
+*/
+
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS event text;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS payload jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Dati dello scambio riportati in tutte le sue notifiche
+CREATE OR REPLACE FUNCTION swap_notification_payload(p_swap shift_swaps_v2)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'date', p_swap.date,
+    'from_employee', p_swap.from_employee,
+    'to_employee', p_swap.to_employee,
+    'from_shift', p_swap.from_shift,
+    'to_shift', p_swap.to_shift,
+    'comment', p_swap.manager_comment
+  ));
+$$;
+
+-- Data della rotazione e passaggi dei turni, nello stesso ordine di describe_swap_chain
+CREATE OR REPLACE FUNCTION swap_chain_notification_payload(p_chain_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_strip_nulls(jsonb_build_object(
+    'date', c.date,
+    'comment', c.manager_comment,
+    'participants', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'employee', p.employee_code,
+        'shift', p.shift,
+        'takes_shift', p.takes_shift,
+        'from_employee', next_p.employee_code
+      ) ORDER BY p.position)
+      FROM swap_chain_participants p
+      JOIN swap_chain_participants next_p
+        ON next_p.chain_id = p.chain_id
+       AND next_p.position = CASE
+         WHEN p.position = (SELECT max(position) FROM swap_chain_participants WHERE chain_id = p.chain_id) THEN 1
+         ELSE p.position + 1
+       END
+      WHERE p.chain_id = c.id
+    )
+  ))
+  FROM swap_chains c
+  WHERE c.id = p_chain_id;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_swap_notification()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  to_user_id uuid := employee_user_id(NEW.to_employee);
+  original_date date;
+BEGIN
+  IF NEW.status = 'pending' AND to_user_id IS NOT NULL THEN
+    IF NEW.counter_of IS NOT NULL THEN
+      SELECT date INTO original_date FROM shift_swaps_v2 WHERE id = NEW.counter_of;
+    END IF;
+
+    INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+    VALUES (
+      to_user_id,
+      NEW.id,
+      'swap_request',
+      CASE WHEN NEW.counter_of IS NULL THEN 'requested' ELSE 'countered' END,
+      swap_notification_payload(NEW) || jsonb_strip_nulls(jsonb_build_object('original_date', original_date)),
+      CASE WHEN NEW.counter_of IS NULL THEN
+        format('Nuova richiesta di scambio da %s per il turno del %s',
+          NEW.from_employee, to_char(NEW.date, 'DD/MM/YYYY'))
+      ELSE
+        format('Nuova richiesta di scambio da %s per il turno del %s (controproposta alla tua richiesta del %s)',
+          NEW.from_employee, to_char(NEW.date, 'DD/MM/YYYY'), to_char(original_date, 'DD/MM/YYYY'))
+      END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_swap_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  from_user_id uuid := employee_user_id(NEW.from_employee);
+  to_user_id uuid := employee_user_id(NEW.to_employee);
+  swap_date text := to_char(NEW.date, 'DD/MM/YYYY');
+  comment_suffix text := coalesce(': ' || NEW.manager_comment, '');
+  swap_payload jsonb := swap_notification_payload(NEW);
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'pending_manager' THEN
+    IF from_user_id IS NOT NULL THEN
+      INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+      VALUES (from_user_id, NEW.id, 'swap_approval', 'awaiting_manager', swap_payload,
+        format('%s ha accettato lo scambio del %s, ora in attesa di approvazione del responsabile', NEW.to_employee, swap_date));
+    END IF;
+
+    -- Tutti gli approvatori non coinvolti nello scambio
+    INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+    SELECT u.id, NEW.id, 'swap_approval', 'approval_needed', swap_payload,
+      format('Scambio tra %s e %s del %s da approvare', NEW.from_employee, NEW.to_employee, swap_date)
+    FROM users u
+    JOIN role_capabilities rc ON rc.role = u.role AND rc.capability = 'approve_swaps'
+    WHERE u.id IS DISTINCT FROM from_user_id AND u.id IS DISTINCT FROM to_user_id;
+
+  ELSIF NEW.status = 'accepted' AND OLD.status = 'pending_manager' THEN
+    INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+    SELECT recipient, NEW.id, 'swap_accepted', 'approved', swap_payload,
+      format('Lo scambio tra %s e %s del %s è stato approvato dal responsabile%s', NEW.from_employee, NEW.to_employee, swap_date, comment_suffix)
+    FROM unnest(ARRAY[from_user_id, to_user_id]) AS recipient
+    WHERE recipient IS NOT NULL;
+
+  ELSIF NEW.status = 'accepted' AND from_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+    VALUES (from_user_id, NEW.id, 'swap_accepted', 'accepted', swap_payload,
+      format('La tua richiesta di scambio per il %s è stata accettata da %s', swap_date, NEW.to_employee));
+
+  ELSIF NEW.status = 'rejected' AND OLD.status = 'pending_manager' THEN
+    INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+    SELECT recipient, NEW.id, 'swap_rejected', 'manager_rejected', swap_payload,
+      format('Lo scambio tra %s e %s del %s è stato rifiutato dal responsabile%s', NEW.from_employee, NEW.to_employee, swap_date, comment_suffix)
+    FROM unnest(ARRAY[from_user_id, to_user_id]) AS recipient
+    WHERE recipient IS NOT NULL;
+
+  ELSIF NEW.status = 'rejected' AND from_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+    VALUES (from_user_id, NEW.id, 'swap_rejected', 'rejected', swap_payload,
+      format('La tua richiesta di scambio per il %s è stata rifiutata da %s', swap_date, NEW.to_employee));
+
+  ELSIF NEW.status = 'cancelled' AND to_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+    VALUES (to_user_id, NEW.id, 'swap_cancelled', 'cancelled', swap_payload,
+      format('La richiesta di scambio da %s per il %s è stata annullata', NEW.from_employee, swap_date));
+
+  ELSIF NEW.status = 'expired' THEN
+    INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+    SELECT recipient, NEW.id, 'swap_expired', 'expired', swap_payload,
+      format('La richiesta di scambio tra %s e %s del %s è scaduta senza essere conclusa', NEW.from_employee, NEW.to_employee, swap_date)
+    FROM unnest(ARRAY[from_user_id, to_user_id]) AS recipient
+    WHERE recipient IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_swap_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+  excerpt text := CASE WHEN length(NEW.body) > 120 THEN left(NEW.body, 117) || '...' ELSE NEW.body END;
+BEGIN
+  SELECT * INTO swap FROM shift_swaps_v2 WHERE id = NEW.swap_id;
+
+  -- Senza autore il messaggio è del responsabile
+  INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+  SELECT recipient, swap.id, 'swap_message', 'message',
+    swap_notification_payload(swap) || jsonb_strip_nulls(jsonb_build_object('author', NEW.author_code, 'excerpt', excerpt)),
+    format('%s sullo scambio del %s: %s',
+      coalesce(NEW.author_code, 'Il responsabile'), to_char(swap.date, 'DD/MM/YYYY'), excerpt)
+  FROM unnest(ARRAY[employee_user_id(swap.from_employee), employee_user_id(swap.to_employee)]) AS recipient
+  WHERE recipient IS NOT NULL
+    AND recipient IS DISTINCT FROM NEW.author_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_swap_chain_participant()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  recipient uuid := employee_user_id(NEW.employee_code);
+  chain swap_chains;
+BEGIN
+  SELECT * INTO chain FROM swap_chains WHERE id = NEW.chain_id;
+
+  IF chain.status = 'pending' AND NEW.accepted_at IS NULL AND recipient IS NOT NULL THEN
+    INSERT INTO notifications (user_id, chain_id, kind, event, payload, message)
+    VALUES (recipient, NEW.chain_id, 'swap_chain', 'proposed',
+      jsonb_build_object('date', chain.date, 'shift', NEW.shift, 'takes_shift', NEW.takes_shift),
+      format('Nuova proposta di rotazione per il %s: prenderesti il turno %s al posto di %s',
+        to_char(chain.date, 'DD/MM/YYYY'), NEW.takes_shift, NEW.shift));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_swap_chain_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  chain_date text := to_char(NEW.date, 'DD/MM/YYYY');
+  comment_suffix text := coalesce(': ' || NEW.manager_comment, '');
+  chain_payload jsonb := swap_chain_notification_payload(NEW.id);
+  status_event text;
+  status_message text;
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'pending_manager' THEN
+    INSERT INTO notifications (user_id, chain_id, kind, event, payload, message)
+    SELECT u.id, NEW.id, 'swap_chain', 'approval_needed', chain_payload,
+      format('Rotazione del %s da approvare: %s', chain_date, describe_swap_chain(NEW.id))
+    FROM users u
+    JOIN role_capabilities rc ON rc.role = u.role AND rc.capability = 'approve_swaps'
+    WHERE NOT EXISTS (
+      SELECT 1 FROM swap_chain_participants p
+      WHERE p.chain_id = NEW.id AND employee_user_id(p.employee_code) = u.id
+    );
+  END IF;
+
+  status_event := CASE NEW.status
+    WHEN 'pending_manager' THEN 'awaiting_manager'
+    WHEN 'accepted' THEN 'approved'
+    WHEN 'rejected' THEN 'rejected'
+    WHEN 'cancelled' THEN 'cancelled'
+  END;
+
+  status_message := CASE NEW.status
+    WHEN 'pending_manager' THEN format('Tutti i partecipanti hanno accettato la rotazione del %s, ora in attesa di approvazione del responsabile', chain_date)
+    WHEN 'accepted' THEN format('La rotazione del %s è stata approvata%s', chain_date, comment_suffix)
+    WHEN 'rejected' THEN format('La rotazione del %s è stata rifiutata%s', chain_date, comment_suffix)
+    WHEN 'cancelled' THEN format('La rotazione del %s è stata annullata', chain_date)
+  END;
+
+  INSERT INTO notifications (user_id, chain_id, kind, event, payload, message)
+  SELECT employee_user_id(p.employee_code), NEW.id, 'swap_chain', status_event, chain_payload, status_message
+  FROM swap_chain_participants p
+  WHERE p.chain_id = NEW.id
+    AND employee_user_id(p.employee_code) IS NOT NULL
+    AND status_message IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_shift_offer_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+  SELECT employee_user_id(e.employee_code), NEW.id, 'shift_offer', 'offered',
+    jsonb_build_object('date', NEW.date, 'employee', NEW.employee_code, 'shift', NEW.shift, 'claim_mode', NEW.claim_mode),
+    format('%s offre il turno %s del %s: %s',
+      NEW.employee_code, NEW.shift, to_char(NEW.date, 'DD/MM/YYYY'),
+      CASE NEW.claim_mode
+        WHEN 'first_come' THEN 'il primo che lo prende in bacheca se lo aggiudica'
+        ELSE 'candidati in bacheca, sceglierà il responsabile'
+      END)
+  FROM effective_shifts e
+  WHERE e.date = NEW.date
+    AND e.employee_code <> NEW.employee_code
+    AND employee_user_id(e.employee_code) IS NOT NULL
+    AND shift_offer_block_reason(NEW, e.employee_code, false) IS NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_shift_offer_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = NEW.offer_id;
+
+  INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+  SELECT u.id, offer.id, 'shift_offer', 'claimed',
+    jsonb_build_object('date', offer.date, 'employee', offer.employee_code, 'shift', offer.shift, 'claimed_by', NEW.employee_code),
+    format('%s si è candidato per il turno %s del %s offerto da %s',
+      NEW.employee_code, offer.shift, to_char(offer.date, 'DD/MM/YYYY'), offer.employee_code)
+  FROM users u
+  JOIN role_capabilities rc ON rc.role = u.role AND rc.capability = 'approve_swaps'
+  WHERE u.id IS DISTINCT FROM employee_user_id(offer.employee_code)
+    AND u.id IS DISTINCT FROM employee_user_id(NEW.employee_code);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_shift_offer_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer_date text := to_char(NEW.date, 'DD/MM/YYYY');
+  offer_payload jsonb := jsonb_strip_nulls(jsonb_build_object(
+    'date', NEW.date, 'employee', NEW.employee_code, 'shift', NEW.shift, 'claimed_by', NEW.claimed_by
+  ));
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+    SELECT recipient, NEW.id, 'shift_offer', event, offer_payload, message
+    FROM (VALUES
+      (employee_user_id(NEW.employee_code), 'taken',
+        format('Il tuo turno %s del %s è stato preso da %s', NEW.shift, offer_date, NEW.claimed_by)),
+      (employee_user_id(NEW.claimed_by), 'assigned',
+        format('Ti è stato assegnato il turno %s del %s offerto da %s', NEW.shift, offer_date, NEW.employee_code))
+    ) AS n(recipient, event, message)
+    WHERE recipient IS NOT NULL;
+  END IF;
+
+  -- I candidati non scelti sanno che il turno non è più disponibile
+  INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+  SELECT employee_user_id(c.employee_code), NEW.id, 'shift_offer', 'unavailable', offer_payload,
+    format('Il turno %s del %s a cui ti eri candidato non è più disponibile', NEW.shift, offer_date)
+  FROM shift_offer_claims c
+  WHERE c.offer_id = NEW.id
+    AND c.employee_code IS DISTINCT FROM NEW.claimed_by
+    AND employee_user_id(c.employee_code) IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_schedule_published()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, kind, event, payload, message)
+  SELECT e.user_id, 'schedule_published',
+    CASE WHEN NEW.revision = 1 THEN 'published' ELSE 'updated' END,
+    jsonb_build_object('week_start', NEW.week_start_date, 'revision', NEW.revision),
+    CASE WHEN NEW.revision = 1 THEN
+      format('Sono stati pubblicati i turni della settimana del %s', to_char(NEW.week_start_date, 'DD/MM/YYYY'))
+    ELSE
+      format('Sono stati aggiornati i turni della settimana del %s (revisione %s)',
+        to_char(NEW.week_start_date, 'DD/MM/YYYY'), NEW.revision)
+    END
+  FROM employees e
+  WHERE e.user_id IS NOT NULL
+    AND e.user_id IS DISTINCT FROM NEW.created_by;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_shift_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tz text := coalesce((SELECT timezone FROM swap_expiry_settings), 'Europe/Rome');
+  reminder_count integer;
+BEGIN
+  WITH upcoming AS (
+    SELECT p.user_id, p.reminder_hours, d.day, effective_shift(e.code, d.day) AS shift
+    FROM notification_preferences p
+    JOIN employees e ON e.user_id = p.user_id
+    CROSS JOIN LATERAL generate_series(current_date, current_date + 3, interval '1 day') AS g
+    CROSS JOIN LATERAL (SELECT g::date AS day) d
+    WHERE p.reminder_hours IS NOT NULL
+  ),
+  due AS (
+    SELECT u.user_id, u.reminder_hours, u.day, u.shift,
+      (parse_shift_time(u.shift, u.day))[1]::timestamp AT TIME ZONE tz AS starts_at
+    FROM upcoming u
+  ),
+  selected AS (
+    SELECT * FROM due
+    WHERE starts_at > now()
+      AND starts_at <= now() + reminder_hours * interval '1 hour'
+  ),
+  recorded AS (
+    INSERT INTO shift_reminders (user_id, date)
+    SELECT user_id, day FROM selected
+    ON CONFLICT DO NOTHING
+    RETURNING user_id, date
+  )
+  INSERT INTO notifications (user_id, kind, event, payload, message)
+  SELECT s.user_id, 'shift_reminder', 'reminder',
+    jsonb_build_object('date', s.day, 'shift', s.shift, 'start_time', to_char(s.starts_at AT TIME ZONE tz, 'HH24:MI')),
+    format('Promemoria: il %s sei in turno %s dalle %s',
+      to_char(s.day, 'DD/MM/YYYY'), s.shift, to_char(s.starts_at AT TIME ZONE tz, 'HH24:MI'))
+  FROM selected s
+  JOIN recorded r ON r.user_id = s.user_id AND r.date = s.day;
+
+  GET DIAGNOSTICS reminder_count = ROW_COUNT;
+  RETURN reminder_count;
+END;
+$$;
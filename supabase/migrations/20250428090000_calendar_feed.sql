@@ -0,0 +1,97 @@
+/*
+  # Personal calendar feed
+
+  1. New Tables
+    - `calendar_feeds` - secret token of each user's iCalendar feed
+
+  2. Changes
+    - RPC `rotate_calendar_feed` creates the token or replaces it, invalidating the old
+      subscription link
+    - `calendar_feed_events` returns the effective shifts of a user (accepted swaps, chains
+      and offers applied) with start and end computed from the shift codes; rest and
+      holiday codes (RI, NL) and codes without times are returned as all-day events
+    - The feed is read live from `effective_shifts`, so an accepted swap shows up at the
+      next refresh of the calendar; `updated_at` lets clients detect changed events
+
+  3. Security
+    - Users see only their own token; the feed is served by the `calendar-feed` edge
+      function, which resolves the token with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their calendar feed"
+  ON calendar_feeds
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION rotate_calendar_feed()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_token text := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF current_employee_code() IS NULL THEN
+    RAISE EXCEPTION 'Nessun dipendente collegato al tuo utente' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO calendar_feeds (user_id, token)
+  VALUES (auth.uid(), new_token)
+  ON CONFLICT (user_id) DO UPDATE
+  SET token = EXCLUDED.token,
+      created_at = now();
+
+  RETURN new_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rotate_calendar_feed TO authenticated;
+
+-- Turni effettivi da un mese prima a quattro mesi dopo oggi, negli orari del fuso configurato
+CREATE OR REPLACE FUNCTION calendar_feed_events(p_user_id uuid)
+RETURNS TABLE (
+  employee_code text,
+  date date,
+  shift text,
+  label text,
+  category text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  updated_at timestamptz
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tz text := coalesce((SELECT timezone FROM swap_expiry_settings), 'Europe/Rome');
+BEGIN
+  RETURN QUERY
+  SELECT e.employee_code, e.date, e.shift, sc.label, sc.category,
+    (t.times)[1]::timestamp AT TIME ZONE tz,
+    (t.times)[2]::timestamp AT TIME ZONE tz,
+    e.updated_at
+  FROM employees emp
+  JOIN effective_shifts e ON e.employee_code = emp.code
+  LEFT JOIN shift_codes sc ON sc.code = normalize_shift_code(e.shift)
+  CROSS JOIN LATERAL (SELECT parse_shift_time(e.shift, e.date) AS times) t
+  WHERE emp.user_id = p_user_id
+    AND e.date BETWEEN current_date - 30 AND current_date + 120
+    AND nullif(trim(e.shift), '') IS NOT NULL
+  ORDER BY e.date;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION calendar_feed_events FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION calendar_feed_events TO service_role;
@@ -0,0 +1,13 @@
+/*
+  # Contract hours
+
+  1. Changes
+    - New column `employees.weekly_hours`, the weekly hours of the employee's contract,
+      compared with the hours worked in the personal dashboard (null: not set)
+
+  2. Security
+    - No policy changes: every user can read the directory, admins edit it
+*/
+
+ALTER TABLE employees
+  ADD COLUMN IF NOT EXISTS weekly_hours numeric(4,1) CHECK (weekly_hours > 0 AND weekly_hours <= 60);
@@ -0,0 +1,27 @@
+/*
+  # Workload analytics capability
+
+  1. Changes
+    - New capability `view_analytics` for the hours and workload analytics page, granted
+      to admins, schedulers and team leads
+    - The page computes its figures from `effective_shifts` and `shift_swaps_v2`, which
+      are already readable by every authenticated user: no new tables or RPCs
+
+  2. Security
+    - The capability only controls the visibility of the page
+*/
+
+ALTER TABLE role_capabilities DROP CONSTRAINT IF EXISTS role_capabilities_capability_check;
+ALTER TABLE role_capabilities
+  ADD CONSTRAINT role_capabilities_capability_check
+  CHECK (capability IN (
+    'upload_matrix', 'approve_swaps', 'manage_settings', 'manage_employees', 'manage_roles', 'reset_data',
+    'view_analytics'
+  ));
+
+INSERT INTO role_capabilities (role, capability)
+VALUES
+  ('admin', 'view_analytics'),
+  ('scheduler', 'view_analytics'),
+  ('team_lead', 'view_analytics')
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,94 @@
+/*
+  # Stale shift check on every accepted swap
+
+  1. Changes
+    - New trigger `enforce_swap_shifts_current_trigger`: every swap that becomes
+      `accepted` (inserted as accepted, accepted directly or approved) must still
+      match the effective shifts of both employees
+    - `swap_request` checks the shifts for approvers too: their swaps are applied
+      immediately, so they were the ones that could overwrite a changed schedule
+*/
+
+-- Nessun percorso porta a uno scambio accettato su turni cambiati nel frattempo
+CREATE OR REPLACE FUNCTION enforce_swap_shifts_current()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'accepted') THEN
+    PERFORM assert_swap_shifts_current(NEW);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_swap_shifts_current_trigger ON shift_swaps_v2;
+CREATE TRIGGER enforce_swap_shifts_current_trigger
+  BEFORE INSERT OR UPDATE OF status ON shift_swaps_v2
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_swap_shifts_current();
+
+CREATE OR REPLACE FUNCTION swap_request(
+  p_date date,
+  p_from_employee text,
+  p_to_employee text,
+  p_from_shift text,
+  p_to_shift text,
+  p_expires_at timestamptz DEFAULT NULL
+)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_can_approve boolean := has_capability('approve_swaps');
+  new_swap shift_swaps_v2;
+BEGIN
+  IF NOT caller_can_approve AND p_from_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Puoi richiedere scambi solo per i tuoi turni'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_from_employee = p_to_employee THEN
+    RAISE EXCEPTION 'Non è possibile scambiare un turno con se stessi';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, ARRAY[p_from_employee, p_to_employee]);
+
+  IF EXISTS (
+    SELECT 1 FROM shift_swaps_v2
+    WHERE date = p_date
+      AND from_employee = p_from_employee
+      AND to_employee = p_to_employee
+      AND status IN ('pending', 'pending_manager')
+  ) THEN
+    RAISE EXCEPTION 'Esiste già una richiesta in attesa per questo scambio'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  new_swap.date := p_date;
+  new_swap.from_employee := p_from_employee;
+  new_swap.to_employee := p_to_employee;
+  new_swap.from_shift := p_from_shift;
+  new_swap.to_shift := p_to_shift;
+
+  -- Anche gli scambi applicati subito da chi può approvare partono dai turni effettivi
+  PERFORM assert_swap_shifts_current(new_swap);
+
+  INSERT INTO shift_swaps_v2 (date, from_employee, to_employee, from_shift, to_shift, status, responded_at, responded_by, expires_at)
+  VALUES (
+    p_date, p_from_employee, p_to_employee, p_from_shift, p_to_shift,
+    CASE WHEN caller_can_approve THEN 'accepted' ELSE 'pending' END,
+    CASE WHEN caller_can_approve THEN now() END,
+    CASE WHEN caller_can_approve THEN auth.uid() END,
+    p_expires_at
+  );
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION swap_request TO authenticated;
@@ -0,0 +1,150 @@
+/*
+  # Rebuild the effective schedule once per statement
+
+  1. Changes
+    - The triggers that keep `effective_shifts` up to date run once per statement instead
+      of once per row: they collect the distinct weeks touched through transition tables
+      and rebuild each of them once
+    - A matrix upload that rewrites N rows of a week now rebuilds that week once per
+      statement instead of N times; the same applies to bulk changes of swaps, chains
+      and offers (for example `reset_schedule_data`)
+    - Transition tables require one trigger per event, so each table gets separate
+      insert, update and delete triggers sharing the same function
+*/
+
+DROP TRIGGER IF EXISTS refresh_effective_from_schedule_trigger ON shifts_schedule;
+DROP TRIGGER IF EXISTS refresh_effective_from_swap_trigger ON shift_swaps_v2;
+DROP TRIGGER IF EXISTS refresh_effective_from_chain_trigger ON swap_chains;
+DROP TRIGGER IF EXISTS refresh_effective_from_offer_trigger ON shift_offers;
+
+-- Settimane della matrice toccate dall'istruzione: vecchie e nuove
+CREATE OR REPLACE FUNCTION refresh_effective_from_schedule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  week date;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    FOR week IN SELECT DISTINCT week_start_date FROM new_rows LOOP
+      PERFORM rebuild_effective_week(week);
+    END LOOP;
+  ELSIF TG_OP = 'UPDATE' THEN
+    FOR week IN
+      SELECT week_start_date FROM old_rows
+      UNION
+      SELECT week_start_date FROM new_rows
+    LOOP
+      PERFORM rebuild_effective_week(week);
+    END LOOP;
+  ELSE
+    FOR week IN SELECT DISTINCT week_start_date FROM old_rows LOOP
+      PERFORM rebuild_effective_week(week);
+    END LOOP;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_effective_from_schedule_insert_trigger
+  AFTER INSERT ON shifts_schedule
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_effective_from_schedule();
+
+CREATE TRIGGER refresh_effective_from_schedule_update_trigger
+  AFTER UPDATE ON shifts_schedule
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_effective_from_schedule();
+
+CREATE TRIGGER refresh_effective_from_schedule_delete_trigger
+  AFTER DELETE ON shifts_schedule
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_effective_from_schedule();
+
+-- Scambi, rotazioni e offerte cambiano i turni solo quando diventano (o smettono di essere) accettati
+CREATE OR REPLACE FUNCTION refresh_effective_from_exchange()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  week date;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    FOR week IN
+      SELECT DISTINCT week_start_of(date) FROM new_rows WHERE status = 'accepted'
+    LOOP
+      PERFORM rebuild_effective_week(week);
+    END LOOP;
+  ELSIF TG_OP = 'UPDATE' THEN
+    FOR week IN
+      SELECT DISTINCT week_start_of(n.date)
+      FROM new_rows n
+      JOIN old_rows o ON o.id = n.id
+      WHERE n.status = 'accepted' AND o.status IS DISTINCT FROM 'accepted'
+    LOOP
+      PERFORM rebuild_effective_week(week);
+    END LOOP;
+  ELSE
+    FOR week IN
+      SELECT DISTINCT week_start_of(date) FROM old_rows WHERE status = 'accepted'
+    LOOP
+      PERFORM rebuild_effective_week(week);
+    END LOOP;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS refresh_effective_from_swap();
+DROP FUNCTION IF EXISTS refresh_effective_from_chain();
+DROP FUNCTION IF EXISTS refresh_effective_from_offer();
+
+CREATE TRIGGER refresh_effective_from_swap_insert_trigger
+  AFTER INSERT ON shift_swaps_v2
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_effective_from_exchange();
+
+CREATE TRIGGER refresh_effective_from_swap_update_trigger
+  AFTER UPDATE ON shift_swaps_v2
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_effective_from_exchange();
+
+CREATE TRIGGER refresh_effective_from_swap_delete_trigger
+  AFTER DELETE ON shift_swaps_v2
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_effective_from_exchange();
+
+-- Le rotazioni accettate alla creazione sono ricalcolate da swap_chain_request dopo i partecipanti
+CREATE TRIGGER refresh_effective_from_chain_update_trigger
+  AFTER UPDATE ON swap_chains
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_effective_from_exchange();
+
+CREATE TRIGGER refresh_effective_from_chain_delete_trigger
+  AFTER DELETE ON swap_chains
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_effective_from_exchange();
+
+CREATE TRIGGER refresh_effective_from_offer_update_trigger
+  AFTER UPDATE ON shift_offers
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_effective_from_exchange();
+
+CREATE TRIGGER refresh_effective_from_offer_delete_trigger
+  AFTER DELETE ON shift_offers
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION refresh_effective_from_exchange();
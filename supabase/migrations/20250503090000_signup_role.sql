@@ -0,0 +1,42 @@
+/*
+  # Signup always creates employees
+
+  1. Security
+    - `handle_new_user` no longer turns an account into an admin when the name chosen at
+      signup is "ADMIN": the name is user-supplied metadata, so anyone could claim the role
+    - Every new account starts as `employee`; roles change only through `set_user_role`.
+      The first admin of a new installation is promoted from the SQL editor
+      (`UPDATE users SET role = 'admin' WHERE email = ...`), which `protect_user_role`
+      allows because it runs without a user session
+    - The account is linked to the employee code chosen at signup only when the signup
+      email matches the one in `employees`; otherwise an administrator links it from the
+      directory, so nobody can take over a colleague's code by typing it
+    - `signup_employee_codes()` is dropped: it listed to anonymous visitors which codes
+      were still without an account
+*/
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  employee_code text := upper(btrim(new.raw_user_meta_data->>'full_name'));
+BEGIN
+  INSERT INTO public.users (id, role, full_name, email)
+  VALUES (
+    new.id,
+    'employee',
+    new.raw_user_meta_data->>'full_name',
+    new.email
+  );
+
+  -- La sigla scelta è dato dell'utente: si collega solo se l'email coincide con l'anagrafica
+  UPDATE public.employees
+  SET user_id = new.id
+  WHERE code = employee_code
+    AND user_id IS NULL
+    AND lower(btrim(email)) = lower(new.email);
+
+  RETURN new;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP FUNCTION IF EXISTS signup_employee_codes();
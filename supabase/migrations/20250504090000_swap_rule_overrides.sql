@@ -0,0 +1,237 @@
+/*
+  # Swap rules for approvers and logged overrides
+
+  1. New Tables
+    - `swap_rule_overrides` - one row for every rule violation an approver chose to
+      override, with the reason, who overrode it and the swap it belongs to
+
+  2. Changes
+    - Swap rules are always evaluated from the participants' point of view: being able
+      to approve swaps no longer skips any rule, at peer acceptance, at approval or when
+      an approver requests or accepts a swap directly
+    - An approver can skip a rule only with an explicit override reason
+      (`swap_request` and `swap_approve` take `p_override_reason`); every skipped
+      violation is recorded in `swap_rule_overrides`
+    - `swap_rules.applies_to_admins` now marks the rules that cannot be overridden
+    - New columns `shift_swaps_v2.rule_override_reason` and `rule_override_by`
+    - `assert_swap_rules` is replaced by `assert_assignment_rules`
+
+  3. Security
+    - Overrides are visible to approvers; rows are written only by the rule check
+*/
+
+ALTER TABLE shift_swaps_v2
+  ADD COLUMN IF NOT EXISTS rule_override_reason text,
+  ADD COLUMN IF NOT EXISTS rule_override_by uuid REFERENCES auth.users(id);
+
+CREATE TABLE IF NOT EXISTS swap_rule_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Il controllo avviene prima dell'inserimento dello scambio: il vincolo è verificato al commit
+  swap_id uuid REFERENCES shift_swaps_v2(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  rule_id uuid REFERENCES swap_rules(id) ON DELETE SET NULL,
+  rule_type text NOT NULL,
+  message text NOT NULL,
+  reason text NOT NULL,
+  overridden_by uuid REFERENCES auth.users(id),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_swap_rule_overrides_swap ON swap_rule_overrides(swap_id);
+
+ALTER TABLE swap_rule_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Approvers can view swap rule overrides"
+  ON swap_rule_overrides
+  FOR SELECT
+  TO authenticated
+  USING (has_capability('approve_swaps'));
+
+-- Valuta tutte le regole attive sulle assegnazioni. Con una deroga motivata di un approvatore
+-- le violazioni delle regole derogabili sono registrate invece di bloccare.
+CREATE OR REPLACE FUNCTION assert_assignment_rules(
+  p_date date,
+  p_employees text[],
+  p_shifts text[],
+  p_override_reason text,
+  p_swap_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  violation record;
+  reason text := nullif(btrim(p_override_reason), '');
+  can_override boolean := reason IS NOT NULL AND has_capability('approve_swaps');
+BEGIN
+  FOR violation IN
+    SELECT v.rule_id, v.rule_type, v.description, v.message, coalesce(r.applies_to_admins, true) AS binding
+    FROM assignment_rule_violations(p_date, p_employees, p_shifts, false) v
+    LEFT JOIN swap_rules r ON r.id = v.rule_id
+  LOOP
+    IF NOT can_override OR violation.binding THEN
+      RAISE EXCEPTION '%: %', violation.description, violation.message
+        USING ERRCODE = 'check_violation', HINT = 'swap_rule:' || violation.rule_type;
+    END IF;
+
+    INSERT INTO swap_rule_overrides (swap_id, rule_id, rule_type, message, reason, overridden_by)
+    VALUES (p_swap_id, violation.rule_id, violation.rule_type, violation.message, reason, auth.uid());
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assert_assignment_rules FROM PUBLIC, anon, authenticated;
+
+-- Le regole valgono alla richiesta, all'accettazione del collega e all'approvazione;
+-- la deroga conta solo per il passaggio ad accettato
+CREATE OR REPLACE FUNCTION enforce_swap_rules()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.status IN ('pending', 'accepted'))
+     OR (TG_OP = 'UPDATE' AND OLD.status IN ('pending', 'pending_manager')
+         AND NEW.status IN ('pending_manager', 'accepted')) THEN
+    PERFORM assert_assignment_rules(
+      NEW.date,
+      ARRAY[NEW.from_employee, NEW.to_employee],
+      ARRAY[NEW.to_shift, NEW.from_shift],
+      CASE WHEN NEW.status = 'accepted' THEN NEW.rule_override_reason END,
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS assert_swap_rules(shift_swaps_v2, boolean);
+
+DROP FUNCTION IF EXISTS swap_request(date, text, text, text, text, timestamptz);
+
+CREATE OR REPLACE FUNCTION swap_request(
+  p_date date,
+  p_from_employee text,
+  p_to_employee text,
+  p_from_shift text,
+  p_to_shift text,
+  p_expires_at timestamptz DEFAULT NULL,
+  p_override_reason text DEFAULT NULL
+)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_can_approve boolean := has_capability('approve_swaps');
+  -- Chi approva ma è parte dello scambio passa dall'accettazione del collega come tutti
+  approve_directly boolean := caller_can_approve
+    AND current_employee_code() IS DISTINCT FROM p_from_employee
+    AND current_employee_code() IS DISTINCT FROM p_to_employee;
+  override_reason text := CASE WHEN approve_directly THEN nullif(btrim(p_override_reason), '') END;
+  new_swap shift_swaps_v2;
+BEGIN
+  IF NOT caller_can_approve AND p_from_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Puoi richiedere scambi solo per i tuoi turni'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_from_employee = p_to_employee THEN
+    RAISE EXCEPTION 'Non è possibile scambiare un turno con se stessi';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, ARRAY[p_from_employee, p_to_employee]);
+
+  IF EXISTS (
+    SELECT 1 FROM shift_swaps_v2
+    WHERE date = p_date
+      AND from_employee = p_from_employee
+      AND to_employee = p_to_employee
+      AND status IN ('pending', 'pending_manager')
+  ) THEN
+    RAISE EXCEPTION 'Esiste già una richiesta in attesa per questo scambio'
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  new_swap.date := p_date;
+  new_swap.from_employee := p_from_employee;
+  new_swap.to_employee := p_to_employee;
+  new_swap.from_shift := p_from_shift;
+  new_swap.to_shift := p_to_shift;
+
+  -- Anche gli scambi applicati subito da chi può approvare partono dai turni effettivi
+  PERFORM assert_swap_shifts_current(new_swap);
+
+  INSERT INTO shift_swaps_v2 (
+    date, from_employee, to_employee, from_shift, to_shift, status, responded_at, responded_by, expires_at,
+    rule_override_reason, rule_override_by
+  )
+  VALUES (
+    p_date, p_from_employee, p_to_employee, p_from_shift, p_to_shift,
+    CASE WHEN approve_directly THEN 'accepted' ELSE 'pending' END,
+    CASE WHEN approve_directly THEN now() END,
+    CASE WHEN approve_directly THEN auth.uid() END,
+    p_expires_at,
+    override_reason,
+    CASE WHEN override_reason IS NOT NULL THEN auth.uid() END
+  );
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+DROP FUNCTION IF EXISTS swap_approve(uuid, text);
+
+-- Approvazione del responsabile: nessuno approva uno scambio che lo coinvolge
+CREATE OR REPLACE FUNCTION swap_approve(p_swap_id uuid, p_comment text DEFAULT NULL, p_override_reason text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  swap shift_swaps_v2;
+  caller_code text := current_employee_code();
+  override_reason text := nullif(btrim(p_override_reason), '');
+BEGIN
+  SELECT * INTO swap FROM shift_swaps_v2 WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps') THEN
+    RAISE EXCEPTION 'Non autorizzato ad approvare gli scambi'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF caller_code IN (swap.from_employee, swap.to_employee) THEN
+    RAISE EXCEPTION 'Non puoi approvare uno scambio che ti coinvolge'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF swap.status <> 'pending_manager' THEN
+    RAISE EXCEPTION 'Lo scambio non è in attesa di approvazione (stato: %)', swap.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM lock_swap_cells(swap.date, ARRAY[swap.from_employee, swap.to_employee]);
+  PERFORM assert_swap_shifts_current(swap);
+
+  UPDATE shift_swaps_v2
+  SET status = 'accepted',
+      responded_at = now(),
+      responded_by = auth.uid(),
+      manager_comment = nullif(btrim(p_comment), ''),
+      rule_override_reason = override_reason,
+      rule_override_by = CASE WHEN override_reason IS NOT NULL THEN auth.uid() END
+  WHERE id = p_swap_id;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(swap.date));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION swap_request TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_approve TO authenticated;
@@ -0,0 +1,396 @@
+/*
+  # One open exchange per cell and chain rule overrides
+
+  1. Changes
+    - `swap_request`, `swap_counter` and `swap_chain_request` refuse a new exchange when
+      any employee involved already has an open swap, chain or offer on that day, through
+      the same `has_open_exchange` check used by shift offers. Before, each path only
+      looked at its own kind of exchange, so a cell could be in two exchanges at once
+    - Chain rules are evaluated from the participants' point of view like swaps:
+      being able to approve swaps no longer skips any rule. An approver can apply a
+      chain in spite of the overridable rules only with a reason
+      (`swap_chain_request` and `swap_chain_approve` take `p_override_reason`)
+    - New columns `swap_chains.rule_override_reason` and `rule_override_by`;
+      `swap_rule_overrides.chain_id` records the overrides of a chain
+*/
+
+ALTER TABLE swap_chains
+  ADD COLUMN IF NOT EXISTS rule_override_reason text,
+  ADD COLUMN IF NOT EXISTS rule_override_by uuid REFERENCES auth.users(id);
+
+ALTER TABLE swap_rule_overrides
+  ADD COLUMN IF NOT EXISTS chain_id uuid REFERENCES swap_chains(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED;
+
+CREATE INDEX IF NOT EXISTS idx_swap_rule_overrides_chain ON swap_rule_overrides(chain_id);
+
+-- Errore comune a tutti i percorsi che aprono uno scambio su una cella
+CREATE OR REPLACE FUNCTION assert_no_open_exchange(p_date date, p_employees text[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  busy text;
+BEGIN
+  SELECT e INTO busy
+  FROM unnest(p_employees) AS e
+  WHERE has_open_exchange(e, p_date)
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION '% ha già uno scambio, una rotazione o un''offerta in attesa il %',
+      busy, to_char(p_date, 'DD/MM/YYYY')
+      USING ERRCODE = 'unique_violation';
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assert_no_open_exchange FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS assert_assignment_rules(date, text[], text[], text, uuid);
+
+-- Valuta tutte le regole attive sulle assegnazioni. Con una deroga motivata di un approvatore
+-- le violazioni delle regole derogabili sono registrate sullo scambio o sulla rotazione.
+CREATE OR REPLACE FUNCTION assert_assignment_rules(
+  p_date date,
+  p_employees text[],
+  p_shifts text[],
+  p_override_reason text,
+  p_swap_id uuid,
+  p_chain_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  violation record;
+  reason text := nullif(btrim(p_override_reason), '');
+  can_override boolean := reason IS NOT NULL AND has_capability('approve_swaps');
+BEGIN
+  FOR violation IN
+    SELECT v.rule_id, v.rule_type, v.description, v.message, coalesce(r.applies_to_admins, true) AS binding
+    FROM assignment_rule_violations(p_date, p_employees, p_shifts, false) v
+    LEFT JOIN swap_rules r ON r.id = v.rule_id
+  LOOP
+    IF NOT can_override OR violation.binding THEN
+      RAISE EXCEPTION '%: %', violation.description, violation.message
+        USING ERRCODE = 'check_violation', HINT = 'swap_rule:' || violation.rule_type;
+    END IF;
+
+    INSERT INTO swap_rule_overrides (swap_id, chain_id, rule_id, rule_type, message, reason, overridden_by)
+    VALUES (p_swap_id, p_chain_id, violation.rule_id, violation.rule_type, violation.message, reason, auth.uid());
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assert_assignment_rules FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS assert_swap_chain_valid(uuid);
+
+-- Verifica che la catena sia ancora applicabile: turni invariati, regole e riposi.
+-- La deroga vale solo per il passaggio ad accettata.
+CREATE OR REPLACE FUNCTION assert_swap_chain_valid(p_chain_id uuid, p_override_reason text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  chain swap_chains;
+  employees text[];
+  shifts text[];
+  changed record;
+  violation record;
+BEGIN
+  SELECT * INTO chain FROM swap_chains WHERE id = p_chain_id;
+
+  SELECT array_agg(employee_code ORDER BY position), array_agg(takes_shift ORDER BY position)
+  INTO employees, shifts
+  FROM swap_chain_participants
+  WHERE chain_id = p_chain_id;
+
+  PERFORM lock_swap_cells(chain.date, employees);
+
+  SELECT * INTO changed
+  FROM swap_chain_participants
+  WHERE chain_id = p_chain_id
+    AND effective_shift(employee_code, chain.date) IS DISTINCT FROM shift
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Il turno di % del % è cambiato nel frattempo: la rotazione non è più valida',
+      changed.employee_code, to_char(chain.date, 'DD/MM/YYYY')
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  PERFORM assert_assignment_rules(chain.date, employees, shifts, p_override_reason, NULL, p_chain_id);
+
+  IF (SELECT enforcement FROM compliance_settings) = 'block' THEN
+    SELECT * INTO violation FROM assignment_compliance_violations(chain.date, employees, shifts) LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Riposi non rispettati: %', violation.message
+        USING ERRCODE = 'check_violation', HINT = 'compliance:' || violation.rule;
+    END IF;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assert_swap_chain_valid FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION swap_request(
+  p_date date,
+  p_from_employee text,
+  p_to_employee text,
+  p_from_shift text,
+  p_to_shift text,
+  p_expires_at timestamptz DEFAULT NULL,
+  p_override_reason text DEFAULT NULL
+)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_can_approve boolean := has_capability('approve_swaps');
+  -- Chi approva ma è parte dello scambio passa dall'accettazione del collega come tutti
+  approve_directly boolean := caller_can_approve
+    AND current_employee_code() IS DISTINCT FROM p_from_employee
+    AND current_employee_code() IS DISTINCT FROM p_to_employee;
+  override_reason text := CASE WHEN approve_directly THEN nullif(btrim(p_override_reason), '') END;
+  new_swap shift_swaps_v2;
+BEGIN
+  IF NOT caller_can_approve AND p_from_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Puoi richiedere scambi solo per i tuoi turni'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF p_from_employee = p_to_employee THEN
+    RAISE EXCEPTION 'Non è possibile scambiare un turno con se stessi';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, ARRAY[p_from_employee, p_to_employee]);
+  PERFORM assert_no_open_exchange(p_date, ARRAY[p_from_employee, p_to_employee]);
+
+  new_swap.date := p_date;
+  new_swap.from_employee := p_from_employee;
+  new_swap.to_employee := p_to_employee;
+  new_swap.from_shift := p_from_shift;
+  new_swap.to_shift := p_to_shift;
+
+  -- Anche gli scambi applicati subito da chi può approvare partono dai turni effettivi
+  PERFORM assert_swap_shifts_current(new_swap);
+
+  INSERT INTO shift_swaps_v2 (
+    date, from_employee, to_employee, from_shift, to_shift, status, responded_at, responded_by, expires_at,
+    rule_override_reason, rule_override_by
+  )
+  VALUES (
+    p_date, p_from_employee, p_to_employee, p_from_shift, p_to_shift,
+    CASE WHEN approve_directly THEN 'accepted' ELSE 'pending' END,
+    CASE WHEN approve_directly THEN now() END,
+    CASE WHEN approve_directly THEN auth.uid() END,
+    p_expires_at,
+    override_reason,
+    CASE WHEN override_reason IS NOT NULL THEN auth.uid() END
+  );
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+-- Controproposta del collega: scambio degli stessi due dipendenti in un altro giorno,
+-- proposto da chi aveva ricevuto la richiesta. La richiesta originale resta nello storico.
+CREATE OR REPLACE FUNCTION swap_counter(p_swap_id uuid, p_date date, p_message text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original shift_swaps_v2;
+  counter shift_swaps_v2;
+BEGIN
+  SELECT * INTO original FROM shift_swaps_v2 WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF original.to_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Solo chi ha ricevuto la richiesta può fare una controproposta'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF original.status <> 'pending' THEN
+    RAISE EXCEPTION 'La richiesta non è più in attesa (stato: %)', original.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_date = original.date THEN
+    RAISE EXCEPTION 'La controproposta deve riguardare un altro giorno'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  counter.date := p_date;
+  counter.from_employee := original.to_employee;
+  counter.to_employee := original.from_employee;
+  counter.from_shift := effective_shift(original.to_employee, p_date);
+  counter.to_shift := effective_shift(original.from_employee, p_date);
+
+  IF counter.from_shift IS NULL OR counter.to_shift IS NULL THEN
+    RAISE EXCEPTION 'Entrambi i dipendenti devono avere un turno il %', to_char(p_date, 'DD/MM/YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, ARRAY[counter.from_employee, counter.to_employee]);
+  PERFORM assert_no_open_exchange(p_date, ARRAY[counter.from_employee, counter.to_employee]);
+
+  UPDATE shift_swaps_v2
+  SET status = 'countered', responded_at = now(), responded_by = auth.uid()
+  WHERE id = p_swap_id;
+
+  -- Regole e riposi sono verificati dai trigger all'inserimento
+  INSERT INTO shift_swaps_v2 (date, from_employee, to_employee, from_shift, to_shift, status, counter_of)
+  VALUES (p_date, counter.from_employee, counter.to_employee, counter.from_shift, counter.to_shift, 'pending', p_swap_id)
+  RETURNING * INTO counter;
+
+  IF btrim(coalesce(p_message, '')) <> '' THEN
+    INSERT INTO swap_messages (swap_id, author_id, author_code, body)
+    VALUES (counter.id, auth.uid(), counter.from_employee, btrim(p_message));
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+DROP FUNCTION IF EXISTS swap_chain_request(date, text[]);
+
+-- Proposta di rotazione: p_employees[i] prende il turno di p_employees[i + 1], l'ultimo quello del primo.
+-- Chi propone accetta implicitamente; le rotazioni di chi può approvare e non vi partecipa sono applicate subito.
+CREATE OR REPLACE FUNCTION swap_chain_request(p_date date, p_employees text[], p_override_reason text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  caller_can_approve boolean := has_capability('approve_swaps');
+  caller_code text := current_employee_code();
+  approve_directly boolean := caller_can_approve AND NOT coalesce(caller_code = ANY (p_employees), false);
+  participant_count integer := coalesce(array_length(p_employees, 1), 0);
+  override_reason text := CASE WHEN approve_directly THEN nullif(btrim(p_override_reason), '') END;
+  new_chain_id uuid;
+BEGIN
+  IF participant_count < 3 THEN
+    RAISE EXCEPTION 'Una rotazione richiede almeno tre dipendenti: per due usa uno scambio'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF (SELECT count(DISTINCT e) FROM unnest(p_employees) AS e) <> participant_count THEN
+    RAISE EXCEPTION 'Ogni dipendente può comparire una sola volta nella rotazione'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT caller_can_approve AND caller_code IS DISTINCT FROM p_employees[1] THEN
+    RAISE EXCEPTION 'Puoi proporre rotazioni solo a partire dal tuo turno'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_employees) AS e
+    WHERE effective_shift(e, p_date) IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Tutti i partecipanti devono avere un turno il %', to_char(p_date, 'DD/MM/YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, p_employees);
+  PERFORM assert_no_open_exchange(p_date, p_employees);
+
+  INSERT INTO swap_chains (date, status, created_by, responded_at, responded_by, rule_override_reason, rule_override_by)
+  VALUES (
+    p_date,
+    CASE WHEN approve_directly THEN 'accepted' ELSE 'pending' END,
+    auth.uid(),
+    CASE WHEN approve_directly THEN now() END,
+    CASE WHEN approve_directly THEN auth.uid() END,
+    override_reason,
+    CASE WHEN override_reason IS NOT NULL THEN auth.uid() END
+  )
+  RETURNING id INTO new_chain_id;
+
+  INSERT INTO swap_chain_participants (chain_id, position, employee_code, shift, takes_shift, accepted_at)
+  SELECT
+    new_chain_id,
+    t.ord,
+    t.employee,
+    effective_shift(t.employee, p_date),
+    effective_shift(p_employees[(t.ord % participant_count + 1)::integer], p_date),
+    CASE WHEN approve_directly OR t.employee = caller_code THEN now() END
+  FROM unnest(p_employees) WITH ORDINALITY AS t(employee, ord);
+
+  PERFORM assert_swap_chain_valid(new_chain_id, override_reason);
+
+  -- L'inserimento con stato accepted è avvenuto prima dei partecipanti: la settimana va ricalcolata ora
+  IF approve_directly THEN
+    PERFORM rebuild_effective_week(week_start_of(p_date));
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+DROP FUNCTION IF EXISTS swap_chain_approve(uuid, text);
+
+CREATE OR REPLACE FUNCTION swap_chain_approve(p_chain_id uuid, p_comment text DEFAULT NULL, p_override_reason text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  chain swap_chains;
+  override_reason text := nullif(btrim(p_override_reason), '');
+BEGIN
+  SELECT * INTO chain FROM swap_chains WHERE id = p_chain_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Rotazione non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps') THEN
+    RAISE EXCEPTION 'Non autorizzato ad approvare gli scambi'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF is_swap_chain_participant(p_chain_id) THEN
+    RAISE EXCEPTION 'Non puoi approvare una rotazione che ti coinvolge'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF chain.status <> 'pending_manager' THEN
+    RAISE EXCEPTION 'La rotazione non è in attesa di approvazione (stato: %)', chain.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM assert_swap_chain_valid(p_chain_id, override_reason);
+
+  UPDATE swap_chains
+  SET status = 'accepted',
+      responded_at = now(),
+      responded_by = auth.uid(),
+      manager_comment = nullif(btrim(p_comment), ''),
+      rule_override_reason = override_reason,
+      rule_override_by = CASE WHEN override_reason IS NOT NULL THEN auth.uid() END
+  WHERE id = p_chain_id;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(chain.date));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION swap_request TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_counter TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_chain_request TO authenticated;
+GRANT EXECUTE ON FUNCTION swap_chain_approve TO authenticated;
@@ -0,0 +1,575 @@
+/*
+  # Manager approval for shift offer claims
+
+  1. Changes
+    - A `first_come` claim no longer hands the shift over at once: the offer goes to
+      `pending_manager` with the claimer recorded, like a swap accepted by the colleague.
+      New RPCs `shift_offer_approve` and `shift_offer_reject` for approvers; a rejected
+      claim puts the offer back on the board. `shift_offer_withdraw` also lets the
+      claimer give up a claim that is awaiting approval
+    - `admin_pick` offers are unchanged: the approver's assignment is the manager stage
+    - An offer awaiting approval keeps both cells busy: `has_open_exchange` counts it for
+      the giver and for the claimer, and takes an offer to skip so the approval can
+      re-run the same checks
+    - Offer rules are evaluated from the participants' point of view: being able to
+      approve swaps no longer skips any rule (`shift_offer_block_reason` loses the
+      `p_caller_is_admin` argument)
+    - New columns `shift_offers.claimed_at` and `manager_comment`; notifications for claims awaiting
+      approval, approvals and rejections
+*/
+
+ALTER TABLE shift_offers
+  ADD COLUMN IF NOT EXISTS claimed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS manager_comment text;
+
+ALTER TABLE shift_offers DROP CONSTRAINT IF EXISTS shift_offers_status_check;
+ALTER TABLE shift_offers DROP CONSTRAINT IF EXISTS shift_offers_check;
+
+ALTER TABLE shift_offers
+  ADD CONSTRAINT shift_offers_status_check
+    CHECK (status IN ('open', 'pending_manager', 'accepted', 'cancelled')),
+  ADD CONSTRAINT shift_offers_check
+    CHECK (status NOT IN ('pending_manager', 'accepted') OR claimed_by IS NOT NULL);
+
+-- Un turno può essere in bacheca (o in attesa di approvazione) una sola volta
+DROP INDEX IF EXISTS idx_shift_offers_open_cell;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shift_offers_open_cell
+  ON shift_offers(date, employee_code)
+  WHERE status IN ('open', 'pending_manager');
+
+-- Il rifiuto del responsabile rimette l'offerta in bacheca
+CREATE OR REPLACE FUNCTION enforce_shift_offer_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'open' AND NEW.status IN ('pending_manager', 'accepted', 'cancelled'))
+      OR (OLD.status = 'pending_manager' AND NEW.status IN ('open', 'accepted', 'cancelled'))
+    ) THEN
+      RAISE EXCEPTION 'Transizione di stato non consentita: % -> %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS has_open_exchange(text, date);
+
+-- Scambi, rotazioni e offerte ancora aperti che coinvolgono il dipendente in quel giorno.
+-- p_except_offer esclude l'offerta che si sta approvando.
+CREATE OR REPLACE FUNCTION has_open_exchange(p_employee text, p_date date, p_except_offer uuid DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM shift_swaps_v2
+    WHERE date = p_date
+      AND status IN ('pending', 'pending_manager')
+      AND p_employee IN (from_employee, to_employee)
+  ) OR EXISTS (
+    SELECT 1
+    FROM swap_chains c
+    JOIN swap_chain_participants p ON p.chain_id = c.id
+    WHERE c.date = p_date
+      AND c.status IN ('pending', 'pending_manager')
+      AND p.employee_code = p_employee
+  ) OR EXISTS (
+    SELECT 1 FROM shift_offers
+    WHERE date = p_date
+      AND status IN ('open', 'pending_manager')
+      AND p_employee IN (employee_code, claimed_by)
+      AND id IS DISTINCT FROM p_except_offer
+  );
+$$;
+
+DROP FUNCTION IF EXISTS shift_offer_block_reason(shift_offers, text, boolean);
+
+-- Motivo per cui il dipendente non può prendere il turno offerto (NULL se può)
+CREATE OR REPLACE FUNCTION shift_offer_block_reason(p_offer shift_offers, p_employee text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  current_shift text := effective_shift(p_employee, p_offer.date);
+  violation record;
+BEGIN
+  IF p_employee = p_offer.employee_code THEN
+    RETURN 'è chi offre il turno';
+  END IF;
+
+  IF current_shift IS NULL THEN
+    RETURN format('non è in turno la settimana del %s', to_char(p_offer.date, 'DD/MM/YYYY'));
+  END IF;
+
+  IF is_working_shift(current_shift, p_offer.date) THEN
+    RETURN format('lavora già quel giorno (%s)', current_shift);
+  END IF;
+
+  IF has_open_exchange(p_employee, p_offer.date, p_offer.id) THEN
+    RETURN 'è coinvolto in uno scambio in attesa per quel giorno';
+  END IF;
+
+  SELECT * INTO violation
+  FROM assignment_rule_violations(p_offer.date, ARRAY[p_employee], ARRAY[p_offer.shift], false)
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN format('%s: %s', violation.description, violation.message);
+  END IF;
+
+  IF (SELECT enforcement FROM compliance_settings) = 'block' THEN
+    SELECT * INTO violation
+    FROM assignment_compliance_violations(p_offer.date, ARRAY[p_employee], ARRAY[p_offer.shift])
+    LIMIT 1;
+
+    IF FOUND THEN
+      RETURN format('riposi non rispettati: %s', violation.message);
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION shift_offer_block_reason FROM PUBLIC, anon, authenticated;
+
+-- Colleghi che potrebbero prendere il turno. Chi non approva gli scambi vede solo sé stesso.
+-- Con i riposi in modalità avviso la violazione è riportata ma non esclude il collega.
+CREATE OR REPLACE FUNCTION shift_offer_candidates(p_offer_id uuid)
+RETURNS TABLE (employee_code text, current_shift text, eligible boolean, reason text, claimed_at timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  offer shift_offers;
+  caller_can_approve boolean := has_capability('approve_swaps');
+  candidate record;
+  block_reason text;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offerta non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  FOR candidate IN
+    SELECT e.employee_code, e.shift
+    FROM effective_shifts e
+    WHERE e.date = offer.date
+      AND e.employee_code <> offer.employee_code
+      AND (caller_can_approve OR e.employee_code = current_employee_code())
+    ORDER BY e.display_order, e.employee_code
+  LOOP
+    block_reason := shift_offer_block_reason(offer, candidate.employee_code);
+
+    employee_code := candidate.employee_code;
+    current_shift := candidate.shift;
+    eligible := block_reason IS NULL;
+    reason := coalesce(block_reason, (
+      SELECT 'riposi non rispettati: ' || v.message
+      FROM assignment_compliance_violations(offer.date, ARRAY[candidate.employee_code], ARRAY[offer.shift]) v
+      LIMIT 1
+    ));
+    claimed_at := (
+      SELECT c.created_at FROM shift_offer_claims c
+      WHERE c.offer_id = offer.id AND c.employee_code = candidate.employee_code
+    );
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Verifica che giver e collega abbiano ancora gli stessi turni e che il collega possa prendere il turno
+CREATE OR REPLACE FUNCTION assert_shift_offer_assignable(p_offer shift_offers, p_employee text)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  block_reason text;
+BEGIN
+  PERFORM lock_swap_cells(p_offer.date, ARRAY[p_offer.employee_code, p_employee]);
+
+  IF effective_shift(p_offer.employee_code, p_offer.date) IS DISTINCT FROM p_offer.shift THEN
+    RAISE EXCEPTION 'Il turno offerto da % è cambiato nel frattempo', p_offer.employee_code
+      USING ERRCODE = 'serialization_failure';
+  END IF;
+
+  block_reason := shift_offer_block_reason(p_offer, p_employee);
+  IF block_reason IS NOT NULL THEN
+    RAISE EXCEPTION '% non può prendere il turno: %', p_employee, block_reason
+      USING ERRCODE = 'check_violation';
+  END IF;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS assign_shift_offer(uuid, text);
+
+-- Assegna l'offerta: è la decisione del responsabile, diretta (admin_pick) o sulla richiesta del collega
+CREATE OR REPLACE FUNCTION assign_shift_offer(p_offer_id uuid, p_employee text, p_comment text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id;
+
+  PERFORM assert_shift_offer_assignable(offer, p_employee);
+
+  UPDATE shift_offers
+  SET status = 'accepted',
+      claimed_by = p_employee,
+      claimer_shift = effective_shift(p_employee, offer.date),
+      responded_at = now(),
+      responded_by = auth.uid(),
+      manager_comment = nullif(btrim(p_comment), '')
+  WHERE id = p_offer_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION assert_shift_offer_assignable FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION assign_shift_offer FROM PUBLIC, anon, authenticated;
+
+-- Con first_come il collega prenota il turno, che passa al responsabile per l'approvazione;
+-- con admin_pick si registra la candidatura
+CREATE OR REPLACE FUNCTION shift_offer_claim(p_offer_id uuid)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+  caller_code text := current_employee_code();
+  block_reason text;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offerta non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF offer.status <> 'open' THEN
+    RAISE EXCEPTION 'Il turno non è più disponibile' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF caller_code IS NULL THEN
+    RAISE EXCEPTION 'Il tuo account non è collegato a un dipendente'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF offer.claim_mode = 'first_come' THEN
+    PERFORM assert_shift_offer_assignable(offer, caller_code);
+
+    UPDATE shift_offers
+    SET status = 'pending_manager',
+        claimed_by = caller_code,
+        claimer_shift = effective_shift(caller_code, offer.date),
+        claimed_at = now(),
+        manager_comment = NULL
+    WHERE id = p_offer_id;
+  ELSE
+    block_reason := shift_offer_block_reason(offer, caller_code);
+    IF block_reason IS NOT NULL THEN
+      RAISE EXCEPTION 'Non puoi prendere questo turno: %', block_reason
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO shift_offer_claims (offer_id, employee_code)
+    VALUES (p_offer_id, caller_code)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(offer.date));
+END;
+$$;
+
+-- Ritira la candidatura, o rinuncia al turno prenotato finché non è approvato
+CREATE OR REPLACE FUNCTION shift_offer_withdraw(p_offer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM shift_offer_claims
+  WHERE offer_id = p_offer_id AND employee_code = current_employee_code();
+
+  UPDATE shift_offers
+  SET status = 'open', claimed_by = NULL, claimer_shift = NULL, claimed_at = NULL
+  WHERE id = p_offer_id
+    AND status = 'pending_manager'
+    AND claimed_by = current_employee_code();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shift_offer_approve(p_offer_id uuid, p_comment text DEFAULT NULL)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offerta non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps') THEN
+    RAISE EXCEPTION 'Non autorizzato ad approvare gli scambi'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF current_employee_code() IN (offer.employee_code, offer.claimed_by) THEN
+    RAISE EXCEPTION 'Non puoi approvare un turno offerto che ti coinvolge'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF offer.status <> 'pending_manager' THEN
+    RAISE EXCEPTION 'Il turno offerto non è in attesa di approvazione (stato: %)', offer.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM assign_shift_offer(p_offer_id, offer.claimed_by, p_comment);
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(offer.date));
+END;
+$$;
+
+-- Il rifiuto rimette il turno in bacheca; il motivo è obbligatorio come per scambi e rotazioni
+CREATE OR REPLACE FUNCTION shift_offer_reject(p_offer_id uuid, p_comment text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offerta non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps') THEN
+    RAISE EXCEPTION 'Non autorizzato ad approvare gli scambi'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF offer.status <> 'pending_manager' THEN
+    RAISE EXCEPTION 'Il turno offerto non è in attesa di approvazione (stato: %)', offer.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF btrim(coalesce(p_comment, '')) = '' THEN
+    RAISE EXCEPTION 'Indica il motivo del rifiuto'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE shift_offers
+  SET status = 'open',
+      claimed_by = NULL,
+      claimer_shift = NULL,
+      claimed_at = NULL,
+      responded_at = now(),
+      responded_by = auth.uid(),
+      manager_comment = btrim(p_comment)
+  WHERE id = p_offer_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION shift_offer_assign(p_offer_id uuid, p_employee text)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offerta non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps') THEN
+    RAISE EXCEPTION 'Non autorizzato ad assegnare i turni offerti'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF current_employee_code() IN (offer.employee_code, p_employee) THEN
+    RAISE EXCEPTION 'Non puoi assegnare un turno offerto che ti coinvolge'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF offer.status <> 'open' THEN
+    RAISE EXCEPTION 'Il turno non è più disponibile' USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM assign_shift_offer(p_offer_id, p_employee);
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(offer.date));
+END;
+$$;
+
+-- Chi offre (o un approvatore) può ritirare l'offerta anche mentre è in attesa di approvazione
+CREATE OR REPLACE FUNCTION shift_offer_cancel(p_offer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer shift_offers;
+BEGIN
+  SELECT * INTO offer FROM shift_offers WHERE id = p_offer_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Offerta non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT has_capability('approve_swaps')
+    AND offer.employee_code IS DISTINCT FROM current_employee_code()
+    AND offer.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Non autorizzato a ritirare questa offerta'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF offer.status NOT IN ('open', 'pending_manager') THEN
+    RAISE EXCEPTION 'L''offerta non è più aperta (stato: %)', offer.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  UPDATE shift_offers
+  SET status = 'cancelled', responded_at = now(), responded_by = auth.uid()
+  WHERE id = p_offer_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION shift_offer_candidates TO authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_claim TO authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_withdraw TO authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_approve TO authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_reject TO authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_assign TO authenticated;
+GRANT EXECUTE ON FUNCTION shift_offer_cancel TO authenticated;
+
+CREATE OR REPLACE FUNCTION notify_shift_offer_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+  SELECT employee_user_id(e.employee_code), NEW.id, 'shift_offer', 'offered',
+    jsonb_build_object('date', NEW.date, 'employee', NEW.employee_code, 'shift', NEW.shift, 'claim_mode', NEW.claim_mode),
+    format('%s offre il turno %s del %s: %s',
+      NEW.employee_code, NEW.shift, to_char(NEW.date, 'DD/MM/YYYY'),
+      CASE NEW.claim_mode
+        WHEN 'first_come' THEN 'il primo che lo prende in bacheca lo prenota, poi approva il responsabile'
+        ELSE 'candidati in bacheca, sceglierà il responsabile'
+      END)
+  FROM effective_shifts e
+  WHERE e.date = NEW.date
+    AND e.employee_code <> NEW.employee_code
+    AND employee_user_id(e.employee_code) IS NOT NULL
+    AND shift_offer_block_reason(NEW, e.employee_code) IS NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_shift_offer_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer_date text := to_char(NEW.date, 'DD/MM/YYYY');
+  offer_payload jsonb := jsonb_strip_nulls(jsonb_build_object(
+    'date', NEW.date, 'employee', NEW.employee_code, 'shift', NEW.shift,
+    'claimed_by', coalesce(NEW.claimed_by, OLD.claimed_by), 'comment', NEW.manager_comment
+  ));
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'pending_manager' THEN
+    INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+    SELECT employee_user_id(NEW.employee_code), NEW.id, 'shift_offer', 'awaiting_manager', offer_payload,
+      format('%s ha preso il tuo turno %s del %s, ora in attesa di approvazione del responsabile',
+        NEW.claimed_by, NEW.shift, offer_date)
+    WHERE employee_user_id(NEW.employee_code) IS NOT NULL;
+
+    INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+    SELECT u.id, NEW.id, 'shift_offer', 'approval_needed', offer_payload,
+      format('Turno %s del %s offerto da %s e preso da %s da approvare',
+        NEW.shift, offer_date, NEW.employee_code, NEW.claimed_by)
+    FROM users u
+    JOIN role_capabilities rc ON rc.role = u.role AND rc.capability = 'approve_swaps'
+    WHERE u.id IS DISTINCT FROM employee_user_id(NEW.employee_code)
+      AND u.id IS DISTINCT FROM employee_user_id(NEW.claimed_by);
+
+    RETURN NULL;
+  END IF;
+
+  IF OLD.status = 'pending_manager' AND NEW.status = 'open' THEN
+    -- Rifiuto del responsabile; chi rinuncia da solo non riceve notifiche
+    IF NEW.responded_at IS DISTINCT FROM OLD.responded_at THEN
+      INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+      SELECT recipient, NEW.id, 'shift_offer', 'claim_rejected', offer_payload,
+        format('La presa del turno %s del %s da parte di %s è stata rifiutata dal responsabile: %s',
+          NEW.shift, offer_date, OLD.claimed_by, NEW.manager_comment)
+      FROM (VALUES (employee_user_id(OLD.claimed_by)), (employee_user_id(NEW.employee_code))) AS n(recipient)
+      WHERE recipient IS NOT NULL;
+    END IF;
+
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+    SELECT recipient, NEW.id, 'shift_offer', event, offer_payload, message
+    FROM (VALUES
+      (employee_user_id(NEW.employee_code), 'taken',
+        format('Il tuo turno %s del %s è stato preso da %s', NEW.shift, offer_date, NEW.claimed_by)),
+      (employee_user_id(NEW.claimed_by), 'assigned',
+        format('Ti è stato assegnato il turno %s del %s offerto da %s', NEW.shift, offer_date, NEW.employee_code))
+    ) AS n(recipient, event, message)
+    WHERE recipient IS NOT NULL;
+  END IF;
+
+  -- I candidati non scelti sanno che il turno non è più disponibile
+  INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+  SELECT employee_user_id(c.employee_code), NEW.id, 'shift_offer', 'unavailable', offer_payload,
+    format('Il turno %s del %s a cui ti eri candidato non è più disponibile', NEW.shift, offer_date)
+  FROM shift_offer_claims c
+  WHERE c.offer_id = NEW.id
+    AND c.employee_code IS DISTINCT FROM NEW.claimed_by
+    AND employee_user_id(c.employee_code) IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
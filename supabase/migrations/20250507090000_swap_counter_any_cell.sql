@@ -0,0 +1,145 @@
+/*
+  # Counter-offers on any cell
+
+  1. Changes
+    - `swap_counter` takes the colleague to swap with (`p_to_employee`, by default the
+      original requester): the recipient of a request can counter-propose another day,
+      another colleague or both, instead of only the same two employees on another day
+    - The counter-offer goes through the same checks as `swap_request`: no swap with
+      oneself, cells locked, no other open exchange on the involved cells, shifts
+      current, swap rules and rest periods (checked by the insert triggers)
+    - When the counter-offer goes to another colleague, the original requester is told
+      that their request was closed (`swap_rejected` / `countered_elsewhere`)
+*/
+
+DROP FUNCTION IF EXISTS swap_counter(uuid, date, text);
+
+-- Controproposta di chi ha ricevuto la richiesta: uno scambio del proprio turno in un altro giorno
+-- e/o con un altro collega. La richiesta originale resta nello storico come controproposta.
+CREATE OR REPLACE FUNCTION swap_counter(
+  p_swap_id uuid,
+  p_date date,
+  p_to_employee text DEFAULT NULL,
+  p_message text DEFAULT NULL
+)
+RETURNS SETOF effective_shift_row
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original shift_swaps_v2;
+  counter shift_swaps_v2;
+BEGIN
+  SELECT * INTO original FROM shift_swaps_v2 WHERE id = p_swap_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Richiesta di scambio non trovata' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF original.to_employee IS DISTINCT FROM current_employee_code() THEN
+    RAISE EXCEPTION 'Solo chi ha ricevuto la richiesta può fare una controproposta'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF original.status <> 'pending' THEN
+    RAISE EXCEPTION 'La richiesta non è più in attesa (stato: %)', original.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  counter.date := p_date;
+  counter.from_employee := original.to_employee;
+  counter.to_employee := coalesce(nullif(btrim(p_to_employee), ''), original.from_employee);
+
+  IF counter.from_employee = counter.to_employee THEN
+    RAISE EXCEPTION 'Non è possibile scambiare un turno con se stessi';
+  END IF;
+
+  IF p_date = original.date AND counter.to_employee = original.from_employee THEN
+    RAISE EXCEPTION 'La controproposta deve riguardare un altro giorno o un altro collega'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  counter.from_shift := effective_shift(counter.from_employee, p_date);
+  counter.to_shift := effective_shift(counter.to_employee, p_date);
+
+  IF counter.from_shift IS NULL OR counter.to_shift IS NULL THEN
+    RAISE EXCEPTION 'Entrambi i dipendenti devono avere un turno il %', to_char(p_date, 'DD/MM/YYYY')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  PERFORM lock_swap_cells(p_date, ARRAY[counter.from_employee, counter.to_employee]);
+
+  -- La richiesta originale si chiude prima del controllo: nello stesso giorno non conta come scambio aperto
+  UPDATE shift_swaps_v2
+  SET status = 'countered', responded_at = now(), responded_by = auth.uid()
+  WHERE id = p_swap_id;
+
+  PERFORM assert_no_open_exchange(p_date, ARRAY[counter.from_employee, counter.to_employee]);
+  PERFORM assert_swap_shifts_current(counter);
+
+  -- Regole e riposi sono verificati dai trigger all'inserimento
+  INSERT INTO shift_swaps_v2 (date, from_employee, to_employee, from_shift, to_shift, status, counter_of)
+  VALUES (p_date, counter.from_employee, counter.to_employee, counter.from_shift, counter.to_shift, 'pending', p_swap_id)
+  RETURNING * INTO counter;
+
+  IF btrim(coalesce(p_message, '')) <> '' THEN
+    INSERT INTO swap_messages (swap_id, author_id, author_code, body)
+    VALUES (counter.id, auth.uid(), counter.from_employee, btrim(p_message));
+  END IF;
+
+  RETURN QUERY SELECT * FROM get_effective_week(week_start_of(p_date));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION swap_counter TO authenticated;
+
+CREATE OR REPLACE FUNCTION handle_swap_notification()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  to_user_id uuid := employee_user_id(NEW.to_employee);
+  original shift_swaps_v2;
+BEGIN
+  IF NEW.status = 'pending' AND NEW.counter_of IS NOT NULL THEN
+    SELECT * INTO original FROM shift_swaps_v2 WHERE id = NEW.counter_of;
+
+    -- Controproposta a un altro collega: chi aveva chiesto lo scambio sa che la sua richiesta è chiusa
+    IF original.from_employee IS DISTINCT FROM NEW.to_employee AND employee_user_id(original.from_employee) IS NOT NULL THEN
+      INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+      VALUES (
+        employee_user_id(original.from_employee),
+        original.id,
+        'swap_rejected',
+        'countered_elsewhere',
+        swap_notification_payload(original) || jsonb_build_object('counter_date', NEW.date, 'counter_employee', NEW.to_employee),
+        format('%s non ha accettato la tua richiesta di scambio per il %s e ha proposto uno scambio a %s per il %s',
+          NEW.from_employee, to_char(original.date, 'DD/MM/YYYY'), NEW.to_employee, to_char(NEW.date, 'DD/MM/YYYY'))
+      );
+    END IF;
+  END IF;
+
+  IF NEW.status = 'pending' AND to_user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, swap_id, kind, event, payload, message)
+    VALUES (
+      to_user_id,
+      NEW.id,
+      'swap_request',
+      CASE WHEN NEW.counter_of IS NULL THEN 'requested' ELSE 'countered' END,
+      swap_notification_payload(NEW) || jsonb_strip_nulls(jsonb_build_object('original_date', original.date)),
+      CASE WHEN NEW.counter_of IS NULL THEN
+        format('Nuova richiesta di scambio da %s per il turno del %s',
+          NEW.from_employee, to_char(NEW.date, 'DD/MM/YYYY'))
+      ELSE
+        format('Nuova richiesta di scambio da %s per il turno del %s (controproposta alla richiesta del %s)',
+          NEW.from_employee, to_char(NEW.date, 'DD/MM/YYYY'), to_char(original.date, 'DD/MM/YYYY'))
+      END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,311 @@
+/*
+  # Expire chains and offers
+
+  1. Changes
+    - New status `expired` for `swap_chains` and `shift_offers`
+    - `expire_stale_swaps` (the same pg_cron job, every 15 minutes) now also closes the
+      open chains and the open or claimed offers whose shifts are past the cut-off set in
+      `swap_expiry_settings.hours_before_shift`. Before, only swaps expired: past chains
+      and offers stayed open and kept their cells busy for `has_open_exchange`
+    - `exchange_expiry_cutoff` is the cut-off shared by swaps, chains and offers;
+      `swap_expiry_deadline` uses it
+    - A chain or offer past the cut-off can no longer be accepted or claimed while the job
+      has not closed it yet
+    - Participants, givers and claimers are notified when a chain or offer expires
+*/
+
+ALTER TABLE swap_chains DROP CONSTRAINT IF EXISTS swap_chains_status_check;
+ALTER TABLE swap_chains
+  ADD CONSTRAINT swap_chains_status_check
+  CHECK (status IN ('pending', 'pending_manager', 'accepted', 'rejected', 'cancelled', 'expired'));
+
+ALTER TABLE shift_offers DROP CONSTRAINT IF EXISTS shift_offers_status_check;
+ALTER TABLE shift_offers
+  ADD CONSTRAINT shift_offers_status_check
+  CHECK (status IN ('open', 'pending_manager', 'accepted', 'cancelled', 'expired'));
+
+-- N ore prima dell'inizio del primo dei turni coinvolti.
+-- I turni senza orario (riposi) contano dalla mezzanotte del giorno.
+CREATE OR REPLACE FUNCTION exchange_expiry_cutoff(p_date date, p_shifts text[])
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT (
+    SELECT min(coalesce((parse_shift_time(s, p_date))[1]::timestamp, p_date::timestamp))
+      AT TIME ZONE settings.timezone
+    FROM unnest(p_shifts) AS s
+  ) - settings.hours_before_shift * interval '1 hour'
+  FROM swap_expiry_settings settings;
+$$;
+
+-- Scadenza effettiva: la prima tra quella della richiesta e il limite prima dell'inizio del turno
+CREATE OR REPLACE FUNCTION swap_expiry_deadline(p_swap shift_swaps_v2)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT least(p_swap.expires_at, exchange_expiry_cutoff(p_swap.date, ARRAY[p_swap.from_shift, p_swap.to_shift]));
+$$;
+
+CREATE OR REPLACE FUNCTION swap_chain_expiry_deadline(p_chain swap_chains)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT exchange_expiry_cutoff(p_chain.date, array_agg(p.shift))
+  FROM swap_chain_participants p
+  WHERE p.chain_id = p_chain.id;
+$$;
+
+CREATE OR REPLACE FUNCTION shift_offer_expiry_deadline(p_offer shift_offers)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT exchange_expiry_cutoff(p_offer.date, array_remove(ARRAY[p_offer.shift, p_offer.claimer_shift], NULL));
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_swap_chain_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('pending_manager', 'rejected', 'cancelled', 'expired'))
+      OR (OLD.status = 'pending_manager' AND NEW.status IN ('accepted', 'rejected', 'cancelled', 'expired'))
+    ) THEN
+      RAISE EXCEPTION 'Transizione di stato non consentita: % -> %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Si passa al responsabile e si applica solo con la conferma di tutti i partecipanti
+    IF NEW.status IN ('pending_manager', 'accepted') AND EXISTS (
+      SELECT 1 FROM swap_chain_participants
+      WHERE chain_id = NEW.id AND accepted_at IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Non tutti i partecipanti hanno confermato la rotazione'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Come per gli scambi, una rotazione scaduta non si accetta anche se il job non l'ha ancora chiusa
+    IF NEW.status IN ('pending_manager', 'accepted') AND swap_chain_expiry_deadline(OLD) <= now() THEN
+      RAISE EXCEPTION 'La rotazione è scaduta il %',
+        to_char(swap_chain_expiry_deadline(OLD) AT TIME ZONE (SELECT timezone FROM swap_expiry_settings), 'DD/MM/YYYY HH24:MI')
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_shift_offer_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'open' AND NEW.status IN ('pending_manager', 'accepted', 'cancelled', 'expired'))
+      OR (OLD.status = 'pending_manager' AND NEW.status IN ('open', 'accepted', 'cancelled', 'expired'))
+    ) THEN
+      RAISE EXCEPTION 'Transizione di stato non consentita: % -> %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NEW.status IN ('pending_manager', 'accepted') AND shift_offer_expiry_deadline(OLD) <= now() THEN
+      RAISE EXCEPTION 'L''offerta è scaduta il %',
+        to_char(shift_offer_expiry_deadline(OLD) AT TIME ZONE (SELECT timezone FROM swap_expiry_settings), 'DD/MM/YYYY HH24:MI')
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+-- Chiude scambi, rotazioni e offerte aperti oltre la scadenza; restituisce quanti ne ha chiusi
+CREATE OR REPLACE FUNCTION expire_stale_swaps()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  expired_count integer;
+  total integer := 0;
+BEGIN
+  UPDATE shift_swaps_v2 s
+  SET status = 'expired', responded_at = now(), responded_by = NULL
+  WHERE s.status IN ('pending', 'pending_manager')
+    AND swap_expiry_deadline(s) <= now();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  total := total + expired_count;
+
+  UPDATE swap_chains c
+  SET status = 'expired', responded_at = now(), responded_by = NULL
+  WHERE c.status IN ('pending', 'pending_manager')
+    AND swap_chain_expiry_deadline(c) <= now();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  total := total + expired_count;
+
+  UPDATE shift_offers o
+  SET status = 'expired', responded_at = now(), responded_by = NULL
+  WHERE o.status IN ('open', 'pending_manager')
+    AND shift_offer_expiry_deadline(o) <= now();
+
+  GET DIAGNOSTICS expired_count = ROW_COUNT;
+  RETURN total + expired_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expire_stale_swaps FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION notify_swap_chain_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  chain_date text := to_char(NEW.date, 'DD/MM/YYYY');
+  comment_suffix text := coalesce(': ' || NEW.manager_comment, '');
+  chain_payload jsonb := swap_chain_notification_payload(NEW.id);
+  status_event text;
+  status_message text;
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'pending_manager' THEN
+    INSERT INTO notifications (user_id, chain_id, kind, event, payload, message)
+    SELECT u.id, NEW.id, 'swap_chain', 'approval_needed', chain_payload,
+      format('Rotazione del %s da approvare: %s', chain_date, describe_swap_chain(NEW.id))
+    FROM users u
+    JOIN role_capabilities rc ON rc.role = u.role AND rc.capability = 'approve_swaps'
+    WHERE NOT EXISTS (
+      SELECT 1 FROM swap_chain_participants p
+      WHERE p.chain_id = NEW.id AND employee_user_id(p.employee_code) = u.id
+    );
+  END IF;
+
+  status_event := CASE NEW.status
+    WHEN 'pending_manager' THEN 'awaiting_manager'
+    WHEN 'accepted' THEN 'approved'
+    WHEN 'rejected' THEN 'rejected'
+    WHEN 'cancelled' THEN 'cancelled'
+    WHEN 'expired' THEN 'expired'
+  END;
+
+  status_message := CASE NEW.status
+    WHEN 'pending_manager' THEN format('Tutti i partecipanti hanno accettato la rotazione del %s, ora in attesa di approvazione del responsabile', chain_date)
+    WHEN 'accepted' THEN format('La rotazione del %s è stata approvata%s', chain_date, comment_suffix)
+    WHEN 'rejected' THEN format('La rotazione del %s è stata rifiutata%s', chain_date, comment_suffix)
+    WHEN 'cancelled' THEN format('La rotazione del %s è stata annullata', chain_date)
+    WHEN 'expired' THEN format('La rotazione del %s è scaduta senza essere conclusa', chain_date)
+  END;
+
+  INSERT INTO notifications (user_id, chain_id, kind, event, payload, message)
+  SELECT employee_user_id(p.employee_code), NEW.id, 'swap_chain', status_event, chain_payload, status_message
+  FROM swap_chain_participants p
+  WHERE p.chain_id = NEW.id
+    AND employee_user_id(p.employee_code) IS NOT NULL
+    AND status_message IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_shift_offer_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  offer_date text := to_char(NEW.date, 'DD/MM/YYYY');
+  offer_payload jsonb := jsonb_strip_nulls(jsonb_build_object(
+    'date', NEW.date, 'employee', NEW.employee_code, 'shift', NEW.shift,
+    'claimed_by', coalesce(NEW.claimed_by, OLD.claimed_by), 'comment', NEW.manager_comment
+  ));
+BEGIN
+  IF OLD.status = NEW.status THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'pending_manager' THEN
+    INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+    SELECT employee_user_id(NEW.employee_code), NEW.id, 'shift_offer', 'awaiting_manager', offer_payload,
+      format('%s ha preso il tuo turno %s del %s, ora in attesa di approvazione del responsabile',
+        NEW.claimed_by, NEW.shift, offer_date)
+    WHERE employee_user_id(NEW.employee_code) IS NOT NULL;
+
+    INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+    SELECT u.id, NEW.id, 'shift_offer', 'approval_needed', offer_payload,
+      format('Turno %s del %s offerto da %s e preso da %s da approvare',
+        NEW.shift, offer_date, NEW.employee_code, NEW.claimed_by)
+    FROM users u
+    JOIN role_capabilities rc ON rc.role = u.role AND rc.capability = 'approve_swaps'
+    WHERE u.id IS DISTINCT FROM employee_user_id(NEW.employee_code)
+      AND u.id IS DISTINCT FROM employee_user_id(NEW.claimed_by);
+
+    RETURN NULL;
+  END IF;
+
+  IF OLD.status = 'pending_manager' AND NEW.status = 'open' THEN
+    -- Rifiuto del responsabile; chi rinuncia da solo non riceve notifiche
+    IF NEW.responded_at IS DISTINCT FROM OLD.responded_at THEN
+      INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+      SELECT recipient, NEW.id, 'shift_offer', 'claim_rejected', offer_payload,
+        format('La presa del turno %s del %s da parte di %s è stata rifiutata dal responsabile: %s',
+          NEW.shift, offer_date, OLD.claimed_by, NEW.manager_comment)
+      FROM (VALUES (employee_user_id(OLD.claimed_by)), (employee_user_id(NEW.employee_code))) AS n(recipient)
+      WHERE recipient IS NOT NULL;
+    END IF;
+
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'accepted' THEN
+    INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+    SELECT recipient, NEW.id, 'shift_offer', event, offer_payload, message
+    FROM (VALUES
+      (employee_user_id(NEW.employee_code), 'taken',
+        format('Il tuo turno %s del %s è stato preso da %s', NEW.shift, offer_date, NEW.claimed_by)),
+      (employee_user_id(NEW.claimed_by), 'assigned',
+        format('Ti è stato assegnato il turno %s del %s offerto da %s', NEW.shift, offer_date, NEW.employee_code))
+    ) AS n(recipient, event, message)
+    WHERE recipient IS NOT NULL;
+  END IF;
+
+  IF NEW.status = 'expired' THEN
+    INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+    SELECT recipient, NEW.id, 'shift_offer', 'expired', offer_payload,
+      format('L''offerta del turno %s del %s di %s è scaduta senza essere conclusa', NEW.shift, offer_date, NEW.employee_code)
+    FROM (VALUES (employee_user_id(NEW.employee_code)), (employee_user_id(NEW.claimed_by))) AS n(recipient)
+    WHERE recipient IS NOT NULL;
+  END IF;
+
+  -- I candidati non scelti sanno che il turno non è più disponibile
+  INSERT INTO notifications (user_id, offer_id, kind, event, payload, message)
+  SELECT employee_user_id(c.employee_code), NEW.id, 'shift_offer', 'unavailable', offer_payload,
+    format('Il turno %s del %s a cui ti eri candidato non è più disponibile', NEW.shift, offer_date)
+  FROM shift_offer_claims c
+  WHERE c.offer_id = NEW.id
+    AND c.employee_code IS DISTINCT FROM NEW.claimed_by
+    AND employee_user_id(c.employee_code) IS NOT NULL;
+
+  RETURN NULL;
+END;
+$$;